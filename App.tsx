@@ -2,14 +2,19 @@ import React from 'react';
 import { StatusBar } from 'expo-status-bar';
 import { SafeAreaProvider } from 'react-native-safe-area-context';
 import { AuthProvider } from './store/AuthContext';
+import { NotificationProvider } from './store/NotificationContext';
 import { AppNavigator } from './navigation/AppNavigator';
+import { OfflineBanner } from './components/OfflineBanner';
 
 export default function App() {
   return (
     <SafeAreaProvider>
       <AuthProvider>
-        <AppNavigator />
-        <StatusBar style="auto" />
+        <NotificationProvider>
+          <AppNavigator />
+          <OfflineBanner />
+          <StatusBar style="auto" />
+        </NotificationProvider>
       </AuthProvider>
     </SafeAreaProvider>
   );
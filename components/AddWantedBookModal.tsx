@@ -0,0 +1,257 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  TouchableOpacity,
+  Alert,
+  ActivityIndicator,
+  KeyboardAvoidingView,
+  Platform,
+  ScrollView,
+  TextStyle
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { theme } from '../styles/theme';
+import { FormInput } from './FormInput';
+import { WantedBook, WantedBookService } from '../services/WantedBookService';
+
+interface AddWantedBookModalProps {
+  visible: boolean;
+  onClose: () => void;
+  onAdded: (wanted: WantedBook) => void;
+}
+
+const conditions = ['New', 'Like New', 'Good', 'Fair', 'Acceptable'];
+
+export const AddWantedBookModal = ({
+  visible,
+  onClose,
+  onAdded
+}: AddWantedBookModalProps) => {
+  const [isbn, setIsbn] = useState('');
+  const [title, setTitle] = useState('');
+  const [author, setAuthor] = useState('');
+  const [maxPrice, setMaxPrice] = useState('');
+  const [selectedConditions, setSelectedConditions] = useState<string[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const reset = () => {
+    setIsbn('');
+    setTitle('');
+    setAuthor('');
+    setMaxPrice('');
+    setSelectedConditions([]);
+  };
+
+  const toggleCondition = (condition: string) => {
+    setSelectedConditions(prev =>
+      prev.includes(condition) ? prev.filter(item => item !== condition) : [...prev, condition]
+    );
+  };
+
+  const handleSubmit = async () => {
+    try {
+      setIsLoading(true);
+      const wanted = await WantedBookService.addWantedBook({
+        isbn,
+        title,
+        author,
+        maxPrice: maxPrice.trim() ? Number(maxPrice) : undefined,
+        conditions: selectedConditions,
+      });
+
+      reset();
+      onClose();
+      onAdded(wanted);
+    } catch (error) {
+      console.error('Error adding wanted book:', error);
+      Alert.alert(
+        'Error',
+        error instanceof Error ? error.message : 'Failed to add the book. Please try again later.'
+      );
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const canSubmit = (isbn.trim().length > 0 || title.trim().length > 0) && !isLoading;
+
+  return (
+    <Modal
+      animationType="slide"
+      transparent={true}
+      visible={visible}
+      onRequestClose={onClose}
+    >
+      <KeyboardAvoidingView
+        style={styles.centeredView}
+        behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+      >
+        <View style={styles.modalView}>
+          <View style={styles.header}>
+            <Text style={styles.title}>Add a Book You Want</Text>
+            <TouchableOpacity style={styles.closeButton} onPress={onClose}>
+              <Ionicons name="close" size={24} color={theme.colors.text} />
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView keyboardShouldPersistTaps="handled">
+            <Text style={styles.hint}>
+              When someone lists a book that fits, it shows up under Matches in your wishlist.
+            </Text>
+
+            <FormInput
+              label="ISBN"
+              placeholder="10 or 13 digits"
+              value={isbn}
+              onChangeText={setIsbn}
+              keyboardType="number-pad"
+            />
+
+            <FormInput
+              label="Title"
+              placeholder="e.g. Organic Chemistry"
+              value={title}
+              onChangeText={setTitle}
+              autoCapitalize="words"
+            />
+
+            <FormInput
+              label="Author (optional)"
+              placeholder="e.g. Clayden"
+              value={author}
+              onChangeText={setAuthor}
+              autoCapitalize="words"
+            />
+
+            <FormInput
+              label="Maximum price (optional)"
+              placeholder="Any price"
+              value={maxPrice}
+              onChangeText={setMaxPrice}
+              keyboardType="decimal-pad"
+            />
+
+            <Text style={styles.label}>Acceptable conditions</Text>
+            <View style={styles.optionsContainer}>
+              {conditions.map(condition => {
+                const isSelected = selectedConditions.includes(condition);
+                return (
+                  <TouchableOpacity
+                    key={condition}
+                    style={isSelected ? styles.selectedOption : styles.option}
+                    onPress={() => toggleCondition(condition)}
+                  >
+                    <Text style={isSelected ? styles.selectedOptionText : styles.optionText}>{condition}</Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+            <Text style={styles.optionsHint}>Leave all unselected to accept any condition.</Text>
+
+            <TouchableOpacity
+              style={[styles.submitButton, !canSubmit && styles.disabledButton]}
+              onPress={handleSubmit}
+              disabled={!canSubmit}
+            >
+              {isLoading ? (
+                <ActivityIndicator size="small" color="#fff" />
+              ) : (
+                <Text style={styles.submitButtonText}>Add to Wishlist</Text>
+              )}
+            </TouchableOpacity>
+          </ScrollView>
+        </View>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  centeredView: {
+    flex: 1,
+    justifyContent: 'flex-end',
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+  },
+  modalView: {
+    backgroundColor: 'white',
+    borderTopLeftRadius: theme.borderRadius.lg,
+    borderTopRightRadius: theme.borderRadius.lg,
+    padding: theme.spacing.lg,
+    maxHeight: '90%',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: theme.spacing.md,
+  },
+  title: {
+    ...(theme.typography.h2 as TextStyle),
+    color: theme.colors.text,
+  },
+  closeButton: {
+    padding: theme.spacing.xs,
+  },
+  hint: {
+    fontSize: 14,
+    color: theme.colors.textSecondary,
+    marginBottom: theme.spacing.md,
+  },
+  label: {
+    fontSize: 16,
+    fontWeight: '600' as TextStyle['fontWeight'],
+    color: theme.colors.text,
+    marginBottom: theme.spacing.sm,
+  },
+  optionsContainer: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  option: {
+    paddingHorizontal: theme.spacing.md,
+    paddingVertical: theme.spacing.sm,
+    borderRadius: theme.borderRadius.md,
+    marginRight: theme.spacing.sm,
+    marginBottom: theme.spacing.sm,
+    backgroundColor: theme.colors.border,
+  },
+  selectedOption: {
+    paddingHorizontal: theme.spacing.md,
+    paddingVertical: theme.spacing.sm,
+    borderRadius: theme.borderRadius.md,
+    marginRight: theme.spacing.sm,
+    marginBottom: theme.spacing.sm,
+    backgroundColor: theme.colors.primary,
+  },
+  optionText: {
+    color: theme.colors.text,
+  },
+  selectedOptionText: {
+    color: '#FFFFFF',
+  },
+  optionsHint: {
+    fontSize: 12,
+    color: theme.colors.textSecondary,
+    marginBottom: theme.spacing.lg,
+  },
+  submitButton: {
+    backgroundColor: theme.colors.primary,
+    borderRadius: theme.borderRadius.md,
+    padding: theme.spacing.md,
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginBottom: theme.spacing.lg,
+  },
+  disabledButton: {
+    backgroundColor: theme.colors.textSecondary,
+    opacity: 0.7,
+  },
+  submitButtonText: {
+    color: '#fff',
+    fontWeight: '700',
+    fontSize: 16,
+  },
+});
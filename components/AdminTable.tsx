@@ -0,0 +1,355 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  FlatList,
+  TouchableOpacity,
+  ActivityIndicator,
+  TextStyle
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { theme } from '../styles/theme';
+import type { TablePage } from '../repositories';
+import { ADMIN_PAGE_SIZE } from '../services/AdminService';
+import { showMessage } from '../utils/dialogs';
+
+export interface AdminTableColumn<T> {
+  title: string;
+  // Share of the row's width, 1 by default
+  flex?: number;
+  render: (row: T) => React.ReactNode;
+}
+
+export interface AdminTableAction {
+  label: string;
+  // Acts on the selected rows; the table reloads afterwards
+  onPress: (ids: string[]) => Promise<unknown>;
+  destructive?: boolean;
+}
+
+/**
+ * Page, rows and selection of an admin table. Changing `fetchPage` (e.g. a
+ * filter) starts again from the first page.
+ */
+export function useAdminTable<T extends { id: string }>(fetchPage: (page: number) => Promise<TablePage<T>>) {
+  const [page, setPage] = useState(0);
+  const [result, setResult] = useState<TablePage<T>>({ rows: [], total: 0 });
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const loadedFetchPage = useRef(fetchPage);
+  const latestLoad = useRef(0);
+
+  const load = useCallback(async (pageToLoad: number) => {
+    // Switching filters or pages quickly must not let an older response win
+    const loadId = ++latestLoad.current;
+    try {
+      setIsLoading(true);
+      setError(null);
+      const loaded = await fetchPage(pageToLoad);
+      if (loadId !== latestLoad.current) {
+        return;
+      }
+
+      // Acting on the last rows of the last page leaves it empty, so step back
+      if (loaded.rows.length === 0 && pageToLoad > 0) {
+        setPage(pageToLoad - 1);
+        return;
+      }
+
+      setResult(loaded);
+      setSelectedIds([]);
+    } catch (err) {
+      console.error('Error loading admin table:', err);
+      if (loadId === latestLoad.current) {
+        setError(err instanceof Error ? err.message : 'Failed to load. Please try again.');
+      }
+    } finally {
+      if (loadId === latestLoad.current) {
+        setIsLoading(false);
+      }
+    }
+  }, [fetchPage]);
+
+  useEffect(() => {
+    // A new fetchPage means new filters, which start on the first page
+    if (loadedFetchPage.current !== fetchPage) {
+      loadedFetchPage.current = fetchPage;
+      if (page !== 0) {
+        setPage(0);
+        return;
+      }
+    }
+    load(page);
+  }, [load, page]);
+
+  return {
+    page,
+    setPage,
+    rows: result.rows,
+    total: result.total,
+    selectedIds,
+    setSelectedIds,
+    isLoading,
+    error,
+    reload: () => load(page),
+  };
+}
+
+interface AdminTableProps<T extends { id: string }> {
+  table: ReturnType<typeof useAdminTable<T>>;
+  columns: AdminTableColumn<T>[];
+  actions: AdminTableAction[];
+  // Names a row for screen readers, e.g. a listing's title
+  rowLabel: (row: T) => string;
+  emptyText: string;
+}
+
+export function AdminTable<T extends { id: string }>({ table, columns, actions, rowLabel, emptyText }: AdminTableProps<T>) {
+  const { page, setPage, rows, total, selectedIds, setSelectedIds, isLoading, error, reload } = table;
+  const [runningAction, setRunningAction] = useState<string | null>(null);
+
+  const pageCount = Math.max(1, Math.ceil(total / ADMIN_PAGE_SIZE));
+  const firstRow = total === 0 ? 0 : page * ADMIN_PAGE_SIZE + 1;
+  const lastRow = Math.min(total, (page + 1) * ADMIN_PAGE_SIZE);
+  const allSelected = rows.length > 0 && rows.every(row => selectedIds.includes(row.id));
+  // Tables without actions, like a log, are only read
+  const isSelectable = actions.length > 0;
+
+  const toggleRow = (id: string) => {
+    setSelectedIds(selectedIds.includes(id)
+      ? selectedIds.filter(selected => selected !== id)
+      : [...selectedIds, id]);
+  };
+
+  const toggleAll = () => {
+    setSelectedIds(allSelected ? [] : rows.map(row => row.id));
+  };
+
+  const runAction = async (action: AdminTableAction) => {
+    try {
+      setRunningAction(action.label);
+      await action.onPress(selectedIds);
+      await reload();
+    } catch (err) {
+      console.error(`Error running "${action.label}":`, err);
+      showMessage('Error', err instanceof Error ? err.message : 'Something went wrong. Please try again.');
+    } finally {
+      setRunningAction(null);
+    }
+  };
+
+  const renderCheckbox = (checked: boolean, onPress: () => void, label: string) => (
+    <TouchableOpacity
+      style={styles.checkboxCell}
+      onPress={onPress}
+      accessibilityRole="checkbox"
+      accessibilityState={{ checked }}
+      accessibilityLabel={label}
+    >
+      <Ionicons
+        name={checked ? 'checkbox' : 'square-outline'}
+        size={20}
+        color={checked ? theme.colors.primary : theme.colors.textSecondary}
+      />
+    </TouchableOpacity>
+  );
+
+  const renderRow = ({ item }: { item: T }) => (
+    <View style={[styles.row, selectedIds.includes(item.id) && styles.selectedRow]}>
+      {isSelectable && renderCheckbox(selectedIds.includes(item.id), () => toggleRow(item.id), `Select ${rowLabel(item)}`)}
+      {columns.map(column => (
+        <View key={column.title} style={[styles.cell, { flex: column.flex ?? 1 }]}>
+          {column.render(item)}
+        </View>
+      ))}
+    </View>
+  );
+
+  return (
+    <View style={styles.container}>
+      {/* Bulk actions */}
+      {isSelectable && (
+        <View style={styles.toolbar}>
+          <Text style={styles.selectionText}>
+            {selectedIds.length > 0 ? `${selectedIds.length} selected` : 'Select rows to act on them'}
+          </Text>
+          {actions.map(action => (
+            <TouchableOpacity
+              key={action.label}
+              style={[
+                styles.actionButton,
+                action.destructive && styles.destructiveButton,
+                (selectedIds.length === 0 || !!runningAction) && styles.disabledButton
+              ]}
+              onPress={() => runAction(action)}
+              disabled={selectedIds.length === 0 || !!runningAction}
+            >
+              {runningAction === action.label ? (
+                <ActivityIndicator size="small" color="#fff" />
+              ) : (
+                <Text style={styles.actionText}>{action.label}</Text>
+              )}
+            </TouchableOpacity>
+          ))}
+        </View>
+      )}
+
+      {/* Column headings */}
+      <View style={[styles.row, styles.headerRow]}>
+        {isSelectable && renderCheckbox(allSelected, toggleAll, 'Select all rows')}
+        {columns.map(column => (
+          <Text key={column.title} style={[styles.cell, styles.headerText, { flex: column.flex ?? 1 }]}>
+            {column.title}
+          </Text>
+        ))}
+      </View>
+
+      {isLoading && rows.length === 0 ? (
+        <View style={styles.messageContainer}>
+          <ActivityIndicator size="large" color={theme.colors.primary} />
+        </View>
+      ) : error ? (
+        <View style={styles.messageContainer}>
+          <Text style={styles.errorText}>{error}</Text>
+          <TouchableOpacity style={styles.retryButton} onPress={reload}>
+            <Text style={styles.actionText}>Retry</Text>
+          </TouchableOpacity>
+        </View>
+      ) : (
+        <FlatList
+          data={rows}
+          keyExtractor={(item) => item.id}
+          renderItem={renderRow}
+          ListEmptyComponent={
+            <View style={styles.messageContainer}>
+              <Text style={styles.emptyText}>{emptyText}</Text>
+            </View>
+          }
+        />
+      )}
+
+      {/* Pagination */}
+      <View style={styles.pagination}>
+        <Text style={styles.pageText}>{firstRow}–{lastRow} of {total}</Text>
+        <TouchableOpacity
+          style={styles.pageButton}
+          onPress={() => setPage(page - 1)}
+          disabled={page === 0 || isLoading}
+          accessibilityLabel="Previous page"
+        >
+          <Ionicons name="chevron-back" size={20} color={page === 0 ? theme.colors.border : theme.colors.text} />
+        </TouchableOpacity>
+        <Text style={styles.pageText}>Page {page + 1} of {pageCount}</Text>
+        <TouchableOpacity
+          style={styles.pageButton}
+          onPress={() => setPage(page + 1)}
+          disabled={page + 1 >= pageCount || isLoading}
+          accessibilityLabel="Next page"
+        >
+          <Ionicons
+            name="chevron-forward"
+            size={20}
+            color={page + 1 >= pageCount ? theme.colors.border : theme.colors.text}
+          />
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#fff',
+  },
+  toolbar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: theme.spacing.md,
+    borderBottomWidth: 1,
+    borderBottomColor: theme.colors.border,
+  },
+  selectionText: {
+    flex: 1,
+    color: theme.colors.textSecondary,
+  },
+  actionButton: {
+    minWidth: 90,
+    alignItems: 'center',
+    marginLeft: theme.spacing.sm,
+    paddingVertical: theme.spacing.sm,
+    paddingHorizontal: theme.spacing.md,
+    borderRadius: theme.borderRadius.md,
+    backgroundColor: theme.colors.primary,
+  },
+  destructiveButton: {
+    backgroundColor: theme.colors.error,
+  },
+  disabledButton: {
+    opacity: 0.4,
+  },
+  actionText: {
+    color: '#fff',
+    fontWeight: '700' as TextStyle['fontWeight'],
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: theme.spacing.sm,
+    paddingVertical: theme.spacing.sm,
+    borderBottomWidth: 1,
+    borderBottomColor: theme.colors.border,
+  },
+  selectedRow: {
+    backgroundColor: '#EAF3FF',
+  },
+  headerRow: {
+    backgroundColor: theme.colors.background,
+  },
+  headerText: {
+    fontWeight: '700' as TextStyle['fontWeight'],
+    color: theme.colors.textSecondary,
+  },
+  checkboxCell: {
+    width: 36,
+    alignItems: 'center',
+  },
+  cell: {
+    paddingHorizontal: theme.spacing.sm,
+  },
+  messageContainer: {
+    padding: theme.spacing.xl,
+    alignItems: 'center',
+  },
+  errorText: {
+    color: theme.colors.error,
+    textAlign: 'center',
+    marginBottom: theme.spacing.md,
+  },
+  retryButton: {
+    paddingVertical: theme.spacing.sm,
+    paddingHorizontal: theme.spacing.md,
+    backgroundColor: theme.colors.primary,
+    borderRadius: theme.borderRadius.md,
+  },
+  emptyText: {
+    color: theme.colors.textSecondary,
+  },
+  pagination: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'flex-end',
+    padding: theme.spacing.md,
+    borderTopWidth: 1,
+    borderTopColor: theme.colors.border,
+  },
+  pageText: {
+    color: theme.colors.textSecondary,
+    marginHorizontal: theme.spacing.sm,
+  },
+  pageButton: {
+    padding: theme.spacing.xs,
+  },
+});
@@ -10,9 +10,11 @@ import {
 } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 import { theme } from '../styles/theme';
-import { BookListing } from '../services/BookService';
+import { BookListing, getListingStatus, getModerationState } from '../services/BookService';
 import { SavedItemsService, SavedItemType } from '../services/SavedItemsService';
 import { isAuthenticated } from '../utils/auth';
+import { formatDistance } from '../utils/location';
+import { ListingStatusBadge, ModerationStateBadge } from './ListingStatusBadge';
 
 interface BookCardProps {
   book: BookListing;
@@ -108,6 +110,10 @@ export const BookCard = ({ book, onPress, isTablet = false }: BookCardProps) =>
     }
   };
 
+  const status = getListingStatus(book);
+  // Only the seller ever sees a listing that is not approved
+  const moderationState = getModerationState(book);
+
   return (
     <TouchableOpacity 
       style={[
@@ -119,7 +125,7 @@ export const BookCard = ({ book, onPress, isTablet = false }: BookCardProps) =>
     >
       {/* Book image */}
       <Image 
-        source={{ uri: book.image_url || 'https://source.unsplash.com/random/200x300/?book' }} 
+        source={{ uri: book.thumbnail_url || book.image_url || 'https://source.unsplash.com/random/200x300/?book' }} 
         style={styles.bookImage} 
         resizeMode="cover"
       />
@@ -159,6 +165,22 @@ export const BookCard = ({ book, onPress, isTablet = false }: BookCardProps) =>
         <Text style={styles.bookAuthor} numberOfLines={1}>
           {book.author}
         </Text>
+        {(status !== 'active' || moderationState !== 'approved') && (
+          <View style={styles.statusRow}>
+            {status !== 'active' && <ListingStatusBadge status={status} />}
+            {moderationState !== 'approved' && (
+              <View style={status !== 'active' && styles.moderationBadge}>
+                <ModerationStateBadge state={moderationState} />
+              </View>
+            )}
+          </View>
+        )}
+        {book.distance_km !== undefined && (
+          <View style={styles.distanceRow}>
+            <Ionicons name="location-outline" size={14} color={theme.colors.textSecondary} />
+            <Text style={styles.distanceText}>{formatDistance(book.distance_km)} away</Text>
+          </View>
+        )}
         <View style={styles.bookDetails}>
           <Text style={styles.bookPrice}>${book.price.toFixed(2)}</Text>
           <Text style={styles.bookCondition}>{book.condition}</Text>
@@ -230,6 +252,23 @@ const styles = StyleSheet.create({
     color: theme.colors.textSecondary,
     marginBottom: theme.spacing.sm,
   },
+  statusRow: {
+    flexDirection: 'row',
+    marginBottom: theme.spacing.sm,
+  },
+  moderationBadge: {
+    marginLeft: theme.spacing.xs,
+  },
+  distanceRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: theme.spacing.sm,
+  },
+  distanceText: {
+    ...(theme.typography.caption as TextStyle),
+    color: theme.colors.textSecondary,
+    marginLeft: 2,
+  },
   bookDetails: {
     flexDirection: 'row',
     justifyContent: 'space-between',
@@ -19,7 +19,8 @@ import { useNavigation } from '@react-navigation/native';
 import { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import { RootStackParamList } from '../navigation/AppNavigator';
 import { theme } from '../styles/theme';
-import { MessageService } from '../services/MessageService';
+import { MessageService, BLOCKED_MESSAGE_ERROR } from '../services/MessageService';
+import { SUSPENDED_ACCOUNT_ERROR } from '../utils/auth';
 
 interface ContactSellerModalProps {
   visible: boolean;
@@ -72,6 +73,8 @@ export const ContactSellerModal = ({
       // Check if it's a self-message error
       if (error instanceof Error && error.message.includes('yourself')) {
         Alert.alert('Error', 'You cannot message yourself');
+      } else if (error instanceof Error && [BLOCKED_MESSAGE_ERROR, SUSPENDED_ACCOUNT_ERROR].includes(error.message)) {
+        Alert.alert('Error', error.message);
       } else {
         Alert.alert('Error', 'Failed to send message. Please try again later.');
       }
@@ -32,7 +32,7 @@ export const CustomTabBar = ({ state, descriptors, navigation }: BottomTabBarPro
         const isFocused = state.index === index;
 
         // Special handling for the center "Sell" button
-        const isSellButton = route.name === 'AddListing';
+        const isSellButton = route.name === 'Add';
 
         const onPress = () => {
           const event = navigation.emit({
@@ -50,6 +50,10 @@ export const CustomTabBar = ({ state, descriptors, navigation }: BottomTabBarPro
         let iconName = '';
         if (route.name === 'Home') {
           iconName = isFocused ? 'home' : 'home-outline';
+        } else if (route.name === 'SavedItems') {
+          iconName = isFocused ? 'bookmark' : 'bookmark-outline';
+        } else if (route.name === 'Messages') {
+          iconName = isFocused ? 'chatbubble' : 'chatbubble-outline';
         } else if (route.name === 'Profile') {
           iconName = isFocused ? 'person' : 'person-outline';
         }
@@ -79,11 +83,20 @@ export const CustomTabBar = ({ state, descriptors, navigation }: BottomTabBarPro
             onPress={onPress}
             style={styles.tabButton}
           >
-            <Ionicons
-              name={iconName as any}
-              size={24}
-              color={isFocused ? theme.colors.primary : theme.colors.textSecondary}
-            />
+            <View>
+              <Ionicons
+                name={iconName as any}
+                size={24}
+                color={isFocused ? theme.colors.primary : theme.colors.textSecondary}
+              />
+              {options.tabBarBadge !== undefined && (
+                <View style={styles.badge}>
+                  <Text style={styles.badgeText}>
+                    {typeof options.tabBarBadge === 'number' && options.tabBarBadge > 99 ? '99+' : options.tabBarBadge}
+                  </Text>
+                </View>
+              )}
+            </View>
             <Text style={[
               styles.tabLabel,
               { color: isFocused ? theme.colors.primary : theme.colors.textSecondary }
@@ -126,6 +139,23 @@ const styles = StyleSheet.create({
     fontSize: 12,
     marginTop: 2,
   },
+  badge: {
+    position: 'absolute',
+    top: -4,
+    right: -10,
+    minWidth: 18,
+    height: 18,
+    borderRadius: 9,
+    paddingHorizontal: 4,
+    backgroundColor: theme.colors.error,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  badgeText: {
+    color: '#FFFFFF',
+    fontSize: 11,
+    fontWeight: 'bold',
+  },
   sellButtonContainer: {
     flex: 1,
     alignItems: 'center',
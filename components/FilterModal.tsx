@@ -8,10 +8,13 @@ import {
   ScrollView,
   Platform,
   TextInput,
+  ActivityIndicator,
+  Alert,
 } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 import { theme } from '../styles/theme';
 import { BookFilterOptions } from '../services/BookService';
+import { GeoPoint, getCurrentLocation } from '../utils/location';
 
 interface FilterModalProps {
   visible: boolean;
@@ -45,6 +48,9 @@ export const FilterModal: React.FC<FilterModalProps> = ({
   const [exchangeOption, setExchangeOption] = useState<boolean | undefined>(
     currentFilters.exchangeOption
   );
+  const [center, setCenter] = useState<GeoPoint | undefined>(currentFilters.center);
+  const [radiusKm, setRadiusKm] = useState<number | undefined>(currentFilters.radiusKm);
+  const [isLocating, setIsLocating] = useState(false);
 
   // Categories and conditions
   const categories = [
@@ -68,6 +74,8 @@ export const FilterModal: React.FC<FilterModalProps> = ({
 
   const conditions = ['New', 'Like New', 'Good', 'Fair', 'Acceptable'];
 
+  const radiusOptions = [1, 2, 5, 10, 25];
+
   const toggleCategory = (category: string) => {
     setSelectedCategories((prev) =>
       prev.includes(category)
@@ -100,6 +108,37 @@ export const FilterModal: React.FC<FilterModalProps> = ({
     });
   };
 
+  const selectRadius = async (radius: number) => {
+    // Tapping the selected radius again turns the distance filter off
+    if (radiusKm === radius) {
+      setRadiusKm(undefined);
+      return;
+    }
+
+    if (!center) {
+      try {
+        setIsLocating(true);
+        const location = await getCurrentLocation();
+        if (!location) {
+          Alert.alert(
+            'Permission Required',
+            'We need location permissions to find books near you.'
+          );
+          return;
+        }
+        setCenter(location);
+      } catch (error) {
+        console.error('Error getting current location:', error);
+        Alert.alert('Error', 'Failed to get your current location');
+        return;
+      } finally {
+        setIsLocating(false);
+      }
+    }
+
+    setRadiusKm(radius);
+  };
+
   const handleApply = () => {
     const filters: BookFilterOptions = {
       categories: selectedCategories.length > 0 ? selectedCategories : undefined,
@@ -108,6 +147,8 @@ export const FilterModal: React.FC<FilterModalProps> = ({
       maxPrice: maxPrice ? parseFloat(maxPrice) : undefined,
       isNegotiable,
       exchangeOption,
+      center: center && radiusKm !== undefined ? center : undefined,
+      radiusKm: center && radiusKm !== undefined ? radiusKm : undefined,
     };
     onApply(filters);
     onClose();
@@ -120,6 +161,7 @@ export const FilterModal: React.FC<FilterModalProps> = ({
     setMaxPrice('');
     setIsNegotiable(undefined);
     setExchangeOption(undefined);
+    setRadiusKm(undefined);
   };
 
   const getFilterCount = (): number => {
@@ -129,6 +171,7 @@ export const FilterModal: React.FC<FilterModalProps> = ({
     if (minPrice || maxPrice) count++;
     if (isNegotiable !== undefined) count++;
     if (exchangeOption !== undefined) count++;
+    if (radiusKm !== undefined) count++;
     return count;
   };
 
@@ -250,6 +293,30 @@ export const FilterModal: React.FC<FilterModalProps> = ({
               </View>
             </View>
 
+            {/* Distance Section */}
+            <View style={styles.section}>
+              <View style={styles.sectionTitleRow}>
+                <Text style={styles.sectionTitle}>Distance From Me</Text>
+                {isLocating && <ActivityIndicator size="small" color={theme.colors.primary} />}
+              </View>
+              <View style={styles.optionsContainer}>
+                {radiusOptions.map((radius) => {
+                  const isSelected = radiusKm === radius;
+                  const styles = getOptionStateStyles(isSelected);
+                  return (
+                    <TouchableOpacity
+                      key={radius}
+                      style={styles.button}
+                      onPress={() => selectRadius(radius)}
+                      disabled={isLocating}
+                    >
+                      <Text style={styles.text}>Within {radius} km</Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+            </View>
+
             {/* Options Section */}
             <View style={styles.section}>
               <Text style={styles.sectionTitle}>Options</Text>
@@ -345,6 +412,11 @@ const styles = StyleSheet.create({
     marginBottom: theme.spacing.md,
     color: theme.colors.text,
   },
+  sectionTitleRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'flex-start',
+  },
   optionsContainer: {
     flexDirection: 'row',
     flexWrap: 'wrap',
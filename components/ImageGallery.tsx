@@ -0,0 +1,78 @@
+import React, { useState } from 'react';
+import {
+  View,
+  StyleSheet,
+  FlatList,
+  Image,
+  NativeSyntheticEvent,
+  NativeScrollEvent
+} from 'react-native';
+import { theme } from '../styles/theme';
+
+interface ImageGalleryProps {
+  imageUrls: string[];
+  width: number;
+  height: number;
+}
+
+/**
+ * Swipeable, paged photo gallery with a dot for each photo
+ */
+export const ImageGallery = ({ imageUrls, width, height }: ImageGalleryProps) => {
+  const [activeIndex, setActiveIndex] = useState(0);
+
+  const handleScrollEnd = (event: NativeSyntheticEvent<NativeScrollEvent>) => {
+    setActiveIndex(Math.round(event.nativeEvent.contentOffset.x / width));
+  };
+
+  return (
+    <View style={{ width, height }}>
+      <FlatList
+        data={imageUrls}
+        keyExtractor={(url, index) => `${index}-${url}`}
+        renderItem={({ item }) => (
+          <Image source={{ uri: item }} style={[styles.image, { width, height }]} resizeMode="cover" />
+        )}
+        horizontal
+        pagingEnabled
+        showsHorizontalScrollIndicator={false}
+        onMomentumScrollEnd={handleScrollEnd}
+        getItemLayout={(_, index) => ({ length: width, offset: width * index, index })}
+      />
+      {imageUrls.length > 1 && (
+        <View style={styles.dots}>
+          {imageUrls.map((url, index) => (
+            <View
+              key={`${index}-${url}`}
+              style={[styles.dot, index === activeIndex && styles.activeDot]}
+            />
+          ))}
+        </View>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  image: {
+    backgroundColor: theme.colors.border,
+  },
+  dots: {
+    position: 'absolute',
+    bottom: theme.spacing.sm,
+    left: 0,
+    right: 0,
+    flexDirection: 'row',
+    justifyContent: 'center',
+  },
+  dot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+    marginHorizontal: 3,
+    backgroundColor: 'rgba(255, 255, 255, 0.6)',
+  },
+  activeDot: {
+    backgroundColor: '#fff',
+  },
+});
@@ -0,0 +1,176 @@
+import React, { useEffect, useRef } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  TouchableOpacity,
+  ActivityIndicator,
+  TextStyle
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { CameraView, BarcodeScanningResult, useCameraPermissions } from 'expo-camera';
+import { theme } from '../styles/theme';
+import { toIsbn13 } from '../utils/isbn';
+
+interface IsbnScannerModalProps {
+  visible: boolean;
+  onClose: () => void;
+  // Called once with the ISBN-13 of the first valid barcode
+  onScanned: (isbn13: string) => void;
+}
+
+export const IsbnScannerModal = ({ visible, onClose, onScanned }: IsbnScannerModalProps) => {
+  const [permission, requestPermission] = useCameraPermissions();
+  // The camera reports the same barcode many times a second; only act on the first
+  const hasScanned = useRef(false);
+
+  useEffect(() => {
+    if (visible) {
+      hasScanned.current = false;
+      if (permission && !permission.granted && permission.canAskAgain) {
+        requestPermission();
+      }
+    }
+  }, [visible, permission]);
+
+  const handleBarcodeScanned = ({ data }: BarcodeScanningResult) => {
+    if (hasScanned.current) return;
+
+    // Book barcodes are EAN-13 codes that are also valid ISBN-13s
+    const isbn13 = toIsbn13(data);
+    if (!isbn13) return;
+
+    hasScanned.current = true;
+    onScanned(isbn13);
+    onClose();
+  };
+
+  const renderContent = () => {
+    if (!permission) {
+      return (
+        <View style={styles.messageContainer}>
+          <ActivityIndicator size="large" color="#fff" />
+        </View>
+      );
+    }
+
+    if (!permission.granted) {
+      return (
+        <View style={styles.messageContainer}>
+          <Ionicons name="camera-outline" size={48} color="#fff" />
+          <Text style={styles.messageText}>
+            We need camera permissions to scan the barcode on your book
+          </Text>
+          {permission.canAskAgain && (
+            <TouchableOpacity style={styles.permissionButton} onPress={requestPermission}>
+              <Text style={styles.permissionButtonText}>Allow Camera</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      );
+    }
+
+    return (
+      <CameraView
+        style={styles.camera}
+        facing="back"
+        barcodeScannerSettings={{ barcodeTypes: ['ean13'] }}
+        onBarcodeScanned={handleBarcodeScanned}
+      >
+        <View style={styles.overlay}>
+          <View style={styles.scanFrame} />
+          <Text style={styles.hintText}>Point the camera at the barcode on the back cover</Text>
+        </View>
+      </CameraView>
+    );
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      onRequestClose={onClose}
+    >
+      <SafeAreaView style={styles.container}>
+        <View style={styles.header}>
+          <TouchableOpacity style={styles.closeButton} onPress={onClose}>
+            <Ionicons name="close" size={28} color="#fff" />
+          </TouchableOpacity>
+          <Text style={styles.headerTitle}>Scan ISBN</Text>
+          <View style={styles.placeholder} />
+        </View>
+        {renderContent()}
+      </SafeAreaView>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#000',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    padding: theme.spacing.md,
+  },
+  closeButton: {
+    padding: theme.spacing.xs,
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '600' as TextStyle['fontWeight'],
+    color: '#fff',
+  },
+  placeholder: {
+    width: 36,
+  },
+  camera: {
+    flex: 1,
+  },
+  overlay: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  scanFrame: {
+    width: '80%',
+    height: 160,
+    borderWidth: 2,
+    borderColor: '#fff',
+    borderRadius: theme.borderRadius.md,
+  },
+  hintText: {
+    marginTop: theme.spacing.md,
+    color: '#fff',
+    textAlign: 'center',
+    paddingHorizontal: theme.spacing.lg,
+  },
+  messageContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: theme.spacing.lg,
+  },
+  messageText: {
+    marginTop: theme.spacing.md,
+    color: '#fff',
+    textAlign: 'center',
+    fontSize: 16,
+  },
+  permissionButton: {
+    marginTop: theme.spacing.lg,
+    paddingVertical: theme.spacing.sm,
+    paddingHorizontal: theme.spacing.lg,
+    backgroundColor: theme.colors.primary,
+    borderRadius: theme.borderRadius.md,
+  },
+  permissionButtonText: {
+    color: '#fff',
+    fontWeight: '700' as TextStyle['fontWeight'],
+  },
+});
@@ -0,0 +1,254 @@
+import React from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  Image,
+  ScrollView,
+  Alert,
+  TextStyle
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import * as ImagePicker from 'expo-image-picker';
+import { theme } from '../styles/theme';
+import { ListingPhoto, MAX_LISTING_PHOTOS } from '../services/ListingImageService';
+
+interface ListingPhotoEditorProps {
+  photos: ListingPhoto[];
+  onChange: (photos: ListingPhoto[]) => void;
+}
+
+let photoKeyCounter = 0;
+
+function newPhoto(uri: string): ListingPhoto {
+  photoKeyCounter += 1;
+  return { key: `new-${Date.now()}-${photoKeyCounter}`, uri, isCover: false };
+}
+
+/**
+ * Pick, reorder and remove the photos of a listing, and choose which one is the cover
+ */
+export const ListingPhotoEditor = ({ photos, onChange }: ListingPhotoEditorProps) => {
+  const remaining = MAX_LISTING_PHOTOS - photos.length;
+  const coverKey = (photos.find(photo => photo.isCover) || photos[0])?.key;
+
+  const addPhotos = (uris: string[]) => {
+    onChange([...photos, ...uris.slice(0, remaining).map(newPhoto)]);
+  };
+
+  const takePicture = async () => {
+    try {
+      const { status } = await ImagePicker.requestCameraPermissionsAsync();
+      if (status !== 'granted') {
+        Alert.alert(
+          'Permission Denied',
+          'We need camera permissions to take pictures'
+        );
+        return;
+      }
+
+      const result = await ImagePicker.launchCameraAsync({
+        mediaTypes: ImagePicker.MediaTypeOptions.Images,
+        allowsEditing: true,
+        aspect: [4, 6],
+        quality: 0.7,
+      });
+
+      if (!result.canceled) {
+        addPhotos([result.assets[0].uri]);
+      }
+    } catch (error) {
+      console.error('Error taking picture:', error);
+      Alert.alert('Error', 'Failed to take picture');
+    }
+  };
+
+  const selectFromGallery = async () => {
+    try {
+      const result = await ImagePicker.launchImageLibraryAsync({
+        mediaTypes: ImagePicker.MediaTypeOptions.Images,
+        allowsMultipleSelection: true,
+        selectionLimit: remaining,
+        quality: 0.7,
+      });
+
+      if (!result.canceled) {
+        addPhotos(result.assets.map(asset => asset.uri));
+      }
+    } catch (error) {
+      console.error('Error selecting images:', error);
+      Alert.alert('Error', 'Failed to select images');
+    }
+  };
+
+  const handleAdd = () => {
+    Alert.alert(
+      'Add Photos',
+      'Where would you like to add photos from?',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Camera', onPress: takePicture },
+        { text: 'Photo Library', onPress: selectFromGallery },
+      ]
+    );
+  };
+
+  const movePhoto = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= photos.length) return;
+
+    const reordered = [...photos];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    onChange(reordered);
+  };
+
+  const removePhoto = (key: string) => {
+    onChange(photos.filter(photo => photo.key !== key));
+  };
+
+  const setCover = (key: string) => {
+    onChange(photos.map(photo => ({ ...photo, isCover: photo.key === key })));
+  };
+
+  return (
+    <View style={styles.container}>
+      <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+        {photos.map((photo, index) => (
+          <View key={photo.key} style={styles.photoTile}>
+            <Image source={{ uri: photo.uri }} style={styles.photo} resizeMode="cover" />
+
+            <TouchableOpacity style={styles.removeButton} onPress={() => removePhoto(photo.key)}>
+              <Ionicons name="close" size={16} color="#fff" />
+            </TouchableOpacity>
+
+            {photo.key === coverKey ? (
+              <View style={styles.coverBadge}>
+                <Text style={styles.coverText}>Cover</Text>
+              </View>
+            ) : (
+              <TouchableOpacity style={styles.coverBadge} onPress={() => setCover(photo.key)}>
+                <Text style={styles.coverText}>Make cover</Text>
+              </TouchableOpacity>
+            )}
+
+            <View style={styles.moveButtons}>
+              <TouchableOpacity
+                style={styles.moveButton}
+                onPress={() => movePhoto(index, -1)}
+                disabled={index === 0}
+              >
+                <Ionicons
+                  name="chevron-back"
+                  size={16}
+                  color={index === 0 ? theme.colors.border : theme.colors.text}
+                />
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={styles.moveButton}
+                onPress={() => movePhoto(index, 1)}
+                disabled={index === photos.length - 1}
+              >
+                <Ionicons
+                  name="chevron-forward"
+                  size={16}
+                  color={index === photos.length - 1 ? theme.colors.border : theme.colors.text}
+                />
+              </TouchableOpacity>
+            </View>
+          </View>
+        ))}
+
+        {remaining > 0 && (
+          <TouchableOpacity style={styles.addTile} onPress={handleAdd}>
+            <Ionicons name="camera" size={32} color={theme.colors.primary} />
+            <Text style={styles.addText}>Add Photos</Text>
+            <Text style={styles.countText}>{photos.length}/{MAX_LISTING_PHOTOS}</Text>
+          </TouchableOpacity>
+        )}
+      </ScrollView>
+      {photos.length > 1 && (
+        <Text style={styles.hintText}>
+          Show the cover, spine and any damage. Use the arrows to change the order.
+        </Text>
+      )}
+    </View>
+  );
+};
+
+const TILE_WIDTH = 120;
+const TILE_HEIGHT = 180;
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: theme.spacing.lg,
+  },
+  photoTile: {
+    width: TILE_WIDTH,
+    marginRight: theme.spacing.sm,
+  },
+  photo: {
+    width: TILE_WIDTH,
+    height: TILE_HEIGHT,
+    borderRadius: theme.borderRadius.md,
+    backgroundColor: theme.colors.border,
+  },
+  removeButton: {
+    position: 'absolute',
+    top: theme.spacing.xs,
+    right: theme.spacing.xs,
+    width: 24,
+    height: 24,
+    borderRadius: 12,
+    backgroundColor: 'rgba(0, 0, 0, 0.6)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  coverBadge: {
+    position: 'absolute',
+    top: TILE_HEIGHT - 28,
+    left: theme.spacing.xs,
+    paddingHorizontal: theme.spacing.sm,
+    paddingVertical: 2,
+    borderRadius: theme.borderRadius.sm,
+    backgroundColor: 'rgba(0, 0, 0, 0.6)',
+  },
+  coverText: {
+    color: '#fff',
+    fontSize: 12,
+    fontWeight: '600' as TextStyle['fontWeight'],
+  },
+  moveButtons: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: theme.spacing.xs,
+  },
+  moveButton: {
+    padding: theme.spacing.xs,
+  },
+  addTile: {
+    width: TILE_WIDTH,
+    height: TILE_HEIGHT,
+    backgroundColor: '#f5f5f5',
+    borderRadius: theme.borderRadius.md,
+    borderWidth: 1,
+    borderColor: theme.colors.border,
+    borderStyle: 'dashed',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  addText: {
+    marginTop: theme.spacing.sm,
+    color: theme.colors.primary,
+  },
+  countText: {
+    marginTop: theme.spacing.xs,
+    fontSize: 12,
+    color: theme.colors.textSecondary,
+  },
+  hintText: {
+    marginTop: theme.spacing.sm,
+    fontSize: 12,
+    color: theme.colors.textSecondary,
+  },
+});
@@ -0,0 +1,63 @@
+import React from 'react';
+import { View, Text, StyleSheet, TextStyle } from 'react-native';
+import { theme } from '../styles/theme';
+import { ListingStatus, ModerationState } from '../services/BookService';
+
+export const LISTING_STATUS_LABELS: Record<ListingStatus, string> = {
+  active: 'Available',
+  reserved: 'Reserved',
+  sold: 'Sold',
+  traded: 'Traded',
+  archived: 'Archived',
+};
+
+const LISTING_STATUS_COLORS: Record<ListingStatus, string> = {
+  active: theme.colors.success,
+  reserved: theme.colors.warning,
+  sold: theme.colors.error,
+  traded: theme.colors.secondary,
+  archived: theme.colors.textSecondary,
+};
+
+// Approved listings need no badge
+const MODERATION_STATE_BADGES: Record<Exclude<ModerationState, 'approved'>, { label: string; color: string }> = {
+  pending: { label: 'Awaiting approval', color: theme.colors.warning },
+  rejected: { label: 'Rejected', color: theme.colors.error },
+};
+
+interface ListingStatusBadgeProps {
+  status: ListingStatus;
+}
+
+export const ListingStatusBadge = ({ status }: ListingStatusBadgeProps) => (
+  <View style={[styles.badge, { backgroundColor: LISTING_STATUS_COLORS[status] }]}>
+    <Text style={styles.badgeText}>{LISTING_STATUS_LABELS[status]}</Text>
+  </View>
+);
+
+interface ModerationStateBadgeProps {
+  state: Exclude<ModerationState, 'approved'>;
+}
+
+/**
+ * Shown to sellers on their listings that buyers cannot see yet
+ */
+export const ModerationStateBadge = ({ state }: ModerationStateBadgeProps) => (
+  <View style={[styles.badge, { backgroundColor: MODERATION_STATE_BADGES[state].color }]}>
+    <Text style={styles.badgeText}>{MODERATION_STATE_BADGES[state].label}</Text>
+  </View>
+);
+
+const styles = StyleSheet.create({
+  badge: {
+    alignSelf: 'flex-start',
+    paddingHorizontal: theme.spacing.sm,
+    paddingVertical: theme.spacing.xs / 2,
+    borderRadius: theme.borderRadius.sm,
+  },
+  badgeText: {
+    color: '#fff',
+    fontSize: 12,
+    fontWeight: '600' as TextStyle['fontWeight'],
+  },
+});
@@ -0,0 +1,122 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { theme } from '../styles/theme';
+import { GeoPoint, getCurrentLocation } from '../utils/location';
+
+interface LocationPickerProps {
+  label: string;
+  value: GeoPoint | null;
+  onChange: (location: GeoPoint | null) => void;
+}
+
+export const LocationPicker: React.FC<LocationPickerProps> = ({
+  label,
+  value,
+  onChange,
+}) => {
+  const [isLocating, setIsLocating] = useState(false);
+
+  const handleUseCurrentLocation = async () => {
+    try {
+      setIsLocating(true);
+      const location = await getCurrentLocation();
+      if (!location) {
+        Alert.alert(
+          'Permission Required',
+          'We need location permissions to use your current location.'
+        );
+        return;
+      }
+      onChange(location);
+    } catch (error) {
+      console.error('Error getting current location:', error);
+      Alert.alert('Error', 'Failed to get your current location');
+    } finally {
+      setIsLocating(false);
+    }
+  };
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.label}>{label}</Text>
+      {value ? (
+        <View style={styles.locationRow}>
+          <Ionicons name="location" size={20} color={theme.colors.primary} />
+          <Text style={styles.locationText}>
+            {value.latitude.toFixed(4)}, {value.longitude.toFixed(4)}
+          </Text>
+          <TouchableOpacity onPress={handleUseCurrentLocation} disabled={isLocating}>
+            <Text style={styles.linkText}>Update</Text>
+          </TouchableOpacity>
+          <TouchableOpacity onPress={() => onChange(null)} style={styles.removeButton}>
+            <Text style={styles.removeText}>Remove</Text>
+          </TouchableOpacity>
+        </View>
+      ) : (
+        <TouchableOpacity
+          style={styles.locationButton}
+          onPress={handleUseCurrentLocation}
+          disabled={isLocating}
+        >
+          {isLocating ? (
+            <ActivityIndicator size="small" color={theme.colors.primary} />
+          ) : (
+            <Ionicons name="locate-outline" size={20} color={theme.colors.primary} />
+          )}
+          <Text style={styles.locationButtonText}>Use Current Location</Text>
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: theme.spacing.md,
+  },
+  label: {
+    fontSize: theme.typography.body.fontSize,
+    marginBottom: theme.spacing.xs,
+    color: theme.colors.text,
+  },
+  locationRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: theme.spacing.sm,
+  },
+  locationText: {
+    flex: 1,
+    marginLeft: theme.spacing.xs,
+    color: theme.colors.text,
+  },
+  linkText: {
+    color: theme.colors.primary,
+  },
+  removeButton: {
+    marginLeft: theme.spacing.md,
+  },
+  removeText: {
+    color: theme.colors.error,
+  },
+  locationButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: theme.spacing.sm,
+    borderRadius: theme.borderRadius.md,
+    borderWidth: 1,
+    borderColor: theme.colors.primary,
+  },
+  locationButtonText: {
+    marginLeft: theme.spacing.xs,
+    color: theme.colors.primary,
+  },
+});
@@ -0,0 +1,78 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, StyleSheet, TextStyle } from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { OfflineService } from '../services/OfflineService';
+import { theme } from '../styles/theme';
+
+// Keeps the banner clear of the bottom tab bar
+const TAB_BAR_OFFSET = 64;
+
+/**
+ * Floating notice shown while the device is offline or changes made offline are still syncing
+ */
+export const OfflineBanner = () => {
+  const insets = useSafeAreaInsets();
+  const [isOnline, setIsOnline] = useState(OfflineService.isOnline());
+  const [pendingCount, setPendingCount] = useState(0);
+
+  useEffect(() => {
+    OfflineService.getPendingWrites().then(writes => setPendingCount(writes.length));
+
+    const unsubscribeNetwork = OfflineService.subscribeToNetworkStatus(setIsOnline);
+    const unsubscribeQueue = OfflineService.subscribeToQueue(event => {
+      if (event.type === 'changed') {
+        setPendingCount(event.pendingCount);
+      }
+    });
+
+    return () => {
+      unsubscribeNetwork();
+      unsubscribeQueue();
+    };
+  }, []);
+
+  if (isOnline && pendingCount === 0) {
+    return null;
+  }
+
+  const changes = `${pendingCount} ${pendingCount === 1 ? 'change' : 'changes'}`;
+  const message = isOnline
+    ? `Syncing ${changes}…`
+    : pendingCount > 0
+      ? `You're offline. ${changes} will sync when you reconnect.`
+      : `You're offline. Showing saved data.`;
+
+  return (
+    <View
+      style={[styles.container, { bottom: insets.bottom + TAB_BAR_OFFSET }]}
+      pointerEvents="none"
+    >
+      <Ionicons
+        name={isOnline ? 'sync-outline' : 'cloud-offline-outline'}
+        size={16}
+        color="#fff"
+      />
+      <Text style={styles.text}>{message}</Text>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    position: 'absolute',
+    alignSelf: 'center',
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: theme.spacing.sm,
+    paddingHorizontal: theme.spacing.md,
+    borderRadius: theme.borderRadius.round,
+    backgroundColor: 'rgba(0, 0, 0, 0.75)',
+  },
+  text: {
+    marginLeft: theme.spacing.sm,
+    color: '#fff',
+    fontSize: 13,
+    fontWeight: '500' as TextStyle['fontWeight'],
+  },
+});
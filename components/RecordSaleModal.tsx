@@ -0,0 +1,238 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  TextInput,
+  TouchableOpacity,
+  Alert,
+  ActivityIndicator,
+  KeyboardAvoidingView,
+  Platform,
+  TouchableWithoutFeedback,
+  Keyboard,
+  TextStyle
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { theme } from '../styles/theme';
+import { TransactionMethod } from '../services/TransactionService';
+
+interface RecordSaleModalProps {
+  visible: boolean;
+  buyerName: string;
+  // The listed price, offered as the agreed one
+  listedPrice: number;
+  // Whether the listing accepts exchanges
+  allowExchange: boolean;
+  onClose: () => void;
+  // Records the transaction; a rejection is shown to the user and keeps the modal open
+  onSubmit: (price: number, method: TransactionMethod) => Promise<unknown>;
+}
+
+const METHOD_LABELS: Record<TransactionMethod, string> = {
+  sale: 'Sold',
+  exchange: 'Exchanged',
+};
+
+export const RecordSaleModal = ({
+  visible,
+  buyerName,
+  listedPrice,
+  allowExchange,
+  onClose,
+  onSubmit
+}: RecordSaleModalProps) => {
+  const [price, setPrice] = useState(listedPrice.toFixed(2));
+  const [method, setMethod] = useState<TransactionMethod>('sale');
+  const [isLoading, setIsLoading] = useState(false);
+
+  // Start from the listed price each time the modal opens
+  useEffect(() => {
+    if (visible) {
+      setPrice(listedPrice.toFixed(2));
+      setMethod('sale');
+    }
+  }, [visible, listedPrice]);
+
+  const handleSubmit = async () => {
+    const agreedPrice = Number(price);
+
+    if (!price.trim() || isNaN(agreedPrice) || agreedPrice < 0) {
+      Alert.alert('Error', 'Please enter the price you agreed on');
+      return;
+    }
+
+    try {
+      setIsLoading(true);
+      await onSubmit(agreedPrice, method);
+      onClose();
+    } catch (error) {
+      console.error('Error recording sale:', error);
+      Alert.alert(
+        'Error',
+        error instanceof Error ? error.message : 'Failed to record the sale. Please try again later.'
+      );
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const methods: TransactionMethod[] = allowExchange ? ['sale', 'exchange'] : ['sale'];
+
+  return (
+    <Modal
+      animationType="slide"
+      transparent={true}
+      visible={visible}
+      onRequestClose={onClose}
+    >
+      <TouchableWithoutFeedback onPress={Keyboard.dismiss}>
+        <KeyboardAvoidingView
+          style={styles.centeredView}
+          behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+        >
+          <View style={styles.modalView}>
+            <View style={styles.header}>
+              <Text style={styles.title}>Mark as Sold</Text>
+              <TouchableOpacity style={styles.closeButton} onPress={onClose}>
+                <Ionicons name="close" size={24} color={theme.colors.text} />
+              </TouchableOpacity>
+            </View>
+
+            <Text style={styles.description}>
+              Record that {buyerName} got this book from you. It will show up in both of your histories.
+            </Text>
+
+            {methods.length > 1 && (
+              <View style={styles.methodRow}>
+                {methods.map(item => (
+                  <TouchableOpacity
+                    key={item}
+                    style={[styles.methodChip, method === item && styles.activeMethodChip]}
+                    onPress={() => setMethod(item)}
+                    accessibilityRole="radio"
+                    accessibilityState={{ checked: method === item }}
+                  >
+                    <Text style={[styles.methodText, method === item && styles.activeMethodText]}>
+                      {METHOD_LABELS[item]}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            )}
+
+            <Text style={styles.label}>
+              {method === 'exchange' ? 'Money paid on top ($)' : 'Agreed price ($)'}
+            </Text>
+            <TextInput
+              style={styles.input}
+              value={price}
+              onChangeText={setPrice}
+              keyboardType="decimal-pad"
+              accessibilityLabel="Agreed price"
+            />
+
+            <TouchableOpacity
+              style={[styles.submitButton, isLoading && styles.disabledButton]}
+              onPress={handleSubmit}
+              disabled={isLoading}
+            >
+              {isLoading ? (
+                <ActivityIndicator size="small" color="#fff" />
+              ) : (
+                <Text style={styles.submitButtonText}>Record {method === 'exchange' ? 'Exchange' : 'Sale'}</Text>
+              )}
+            </TouchableOpacity>
+          </View>
+        </KeyboardAvoidingView>
+      </TouchableWithoutFeedback>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  centeredView: {
+    flex: 1,
+    justifyContent: 'flex-end',
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+  },
+  modalView: {
+    backgroundColor: 'white',
+    borderTopLeftRadius: theme.borderRadius.lg,
+    borderTopRightRadius: theme.borderRadius.lg,
+    padding: theme.spacing.lg,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: theme.spacing.md,
+  },
+  title: {
+    ...(theme.typography.h2 as TextStyle),
+    color: theme.colors.text,
+  },
+  closeButton: {
+    padding: theme.spacing.xs,
+  },
+  description: {
+    fontSize: 16,
+    color: theme.colors.textSecondary,
+    marginBottom: theme.spacing.md,
+  },
+  methodRow: {
+    flexDirection: 'row',
+    marginBottom: theme.spacing.md,
+  },
+  methodChip: {
+    paddingVertical: theme.spacing.xs,
+    paddingHorizontal: theme.spacing.md,
+    marginRight: theme.spacing.sm,
+    borderRadius: theme.borderRadius.round,
+    borderWidth: 1,
+    borderColor: theme.colors.border,
+  },
+  activeMethodChip: {
+    backgroundColor: theme.colors.primary,
+    borderColor: theme.colors.primary,
+  },
+  methodText: {
+    color: theme.colors.text,
+  },
+  activeMethodText: {
+    color: '#fff',
+    fontWeight: '600' as TextStyle['fontWeight'],
+  },
+  label: {
+    fontSize: 16,
+    fontWeight: '600' as TextStyle['fontWeight'],
+    color: theme.colors.text,
+    marginBottom: theme.spacing.sm,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: theme.colors.border,
+    borderRadius: theme.borderRadius.md,
+    padding: theme.spacing.md,
+    marginBottom: theme.spacing.lg,
+    fontSize: 16,
+  },
+  submitButton: {
+    backgroundColor: theme.colors.primary,
+    borderRadius: theme.borderRadius.md,
+    padding: theme.spacing.md,
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginBottom: theme.spacing.lg,
+  },
+  disabledButton: {
+    backgroundColor: theme.colors.textSecondary,
+    opacity: 0.7,
+  },
+  submitButtonText: {
+    color: '#fff',
+    fontWeight: '700',
+    fontSize: 16,
+  },
+});
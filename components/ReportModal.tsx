@@ -0,0 +1,210 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  TextInput,
+  TouchableOpacity,
+  Alert,
+  ActivityIndicator,
+  KeyboardAvoidingView,
+  Platform,
+  TouchableWithoutFeedback,
+  Keyboard,
+  TextStyle
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { theme } from '../styles/theme';
+import { MAX_REPORT_DETAILS_LENGTH, REPORT_REASON_LABELS, ReportReason } from '../services/ReportService';
+
+interface ReportModalProps {
+  visible: boolean;
+  // e.g. "Report Listing"
+  title: string;
+  onClose: () => void;
+  // Files the report; a rejection is shown to the user and keeps the modal open
+  onSubmit: (reason: ReportReason, details: string) => Promise<unknown>;
+}
+
+const REASONS = Object.keys(REPORT_REASON_LABELS) as ReportReason[];
+
+export const ReportModal = ({ visible, title, onClose, onSubmit }: ReportModalProps) => {
+  const [reason, setReason] = useState<ReportReason | null>(null);
+  const [details, setDetails] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+
+  const handleClose = () => {
+    setReason(null);
+    setDetails('');
+    onClose();
+  };
+
+  const handleSubmit = async () => {
+    if (!reason) {
+      Alert.alert('Error', 'Please choose a reason');
+      return;
+    }
+
+    try {
+      setIsLoading(true);
+      await onSubmit(reason, details);
+      handleClose();
+      Alert.alert('Report Sent', 'Thanks for letting us know. We will review your report.');
+    } catch (error) {
+      console.error('Error sending report:', error);
+      Alert.alert(
+        'Error',
+        error instanceof Error ? error.message : 'Failed to send the report. Please try again later.'
+      );
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <Modal
+      animationType="slide"
+      transparent={true}
+      visible={visible}
+      onRequestClose={handleClose}
+    >
+      <TouchableWithoutFeedback onPress={Keyboard.dismiss}>
+        <KeyboardAvoidingView
+          style={styles.centeredView}
+          behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+        >
+          <View style={styles.modalView}>
+            <View style={styles.header}>
+              <Text style={styles.title}>{title}</Text>
+              <TouchableOpacity style={styles.closeButton} onPress={handleClose}>
+                <Ionicons name="close" size={24} color={theme.colors.text} />
+              </TouchableOpacity>
+            </View>
+
+            <Text style={styles.label}>What is wrong?</Text>
+
+            {REASONS.map(item => (
+              <TouchableOpacity
+                key={item}
+                style={styles.reasonRow}
+                onPress={() => setReason(item)}
+                accessibilityRole="radio"
+                accessibilityState={{ checked: reason === item }}
+              >
+                <Ionicons
+                  name={reason === item ? 'radio-button-on' : 'radio-button-off'}
+                  size={22}
+                  color={reason === item ? theme.colors.primary : theme.colors.textSecondary}
+                />
+                <Text style={styles.reasonText}>{REPORT_REASON_LABELS[item]}</Text>
+              </TouchableOpacity>
+            ))}
+
+            <Text style={[styles.label, styles.detailsLabel]}>
+              Details {reason === 'other' ? '' : '(optional)'}
+            </Text>
+
+            <TextInput
+              style={styles.input}
+              placeholder="Tell us what happened"
+              value={details}
+              onChangeText={setDetails}
+              multiline
+              maxLength={MAX_REPORT_DETAILS_LENGTH}
+              textAlignVertical="top"
+            />
+
+            <TouchableOpacity
+              style={[
+                styles.submitButton,
+                (!reason || isLoading) && styles.disabledButton
+              ]}
+              onPress={handleSubmit}
+              disabled={!reason || isLoading}
+            >
+              {isLoading ? (
+                <ActivityIndicator size="small" color="#fff" />
+              ) : (
+                <Text style={styles.submitButtonText}>Send Report</Text>
+              )}
+            </TouchableOpacity>
+          </View>
+        </KeyboardAvoidingView>
+      </TouchableWithoutFeedback>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  centeredView: {
+    flex: 1,
+    justifyContent: 'flex-end',
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+  },
+  modalView: {
+    backgroundColor: 'white',
+    borderTopLeftRadius: theme.borderRadius.lg,
+    borderTopRightRadius: theme.borderRadius.lg,
+    padding: theme.spacing.lg,
+    minHeight: '50%',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: theme.spacing.md,
+  },
+  title: {
+    ...(theme.typography.h2 as TextStyle),
+    color: theme.colors.text,
+  },
+  closeButton: {
+    padding: theme.spacing.xs,
+  },
+  label: {
+    fontSize: 16,
+    fontWeight: '600' as TextStyle['fontWeight'],
+    color: theme.colors.text,
+    marginBottom: theme.spacing.sm,
+  },
+  detailsLabel: {
+    marginTop: theme.spacing.md,
+  },
+  reasonRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: theme.spacing.sm,
+  },
+  reasonText: {
+    marginLeft: theme.spacing.sm,
+    fontSize: 16,
+    color: theme.colors.text,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: theme.colors.border,
+    borderRadius: theme.borderRadius.md,
+    padding: theme.spacing.md,
+    minHeight: 100,
+    marginBottom: theme.spacing.lg,
+    fontSize: 16,
+  },
+  submitButton: {
+    backgroundColor: theme.colors.primary,
+    borderRadius: theme.borderRadius.md,
+    padding: theme.spacing.md,
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginBottom: theme.spacing.lg,
+  },
+  disabledButton: {
+    backgroundColor: theme.colors.textSecondary,
+    opacity: 0.7,
+  },
+  submitButtonText: {
+    color: '#fff',
+    fontWeight: '700',
+    fontSize: 16,
+  },
+});
@@ -0,0 +1,181 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  TextInput,
+  TouchableOpacity,
+  Alert,
+  ActivityIndicator,
+  KeyboardAvoidingView,
+  Platform,
+  TouchableWithoutFeedback,
+  Keyboard,
+  TextStyle
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { theme } from '../styles/theme';
+import { BookFilterOptions } from '../services/BookService';
+import { MAX_SAVED_SEARCH_NAME_LENGTH, SavedSearch, SavedSearchService } from '../services/SavedSearchService';
+
+interface SaveSearchModalProps {
+  visible: boolean;
+  onClose: () => void;
+  onSaved: (search: SavedSearch) => void;
+  query: string | null;
+  filters: BookFilterOptions;
+}
+
+export const SaveSearchModal = ({
+  visible,
+  onClose,
+  onSaved,
+  query,
+  filters
+}: SaveSearchModalProps) => {
+  const [name, setName] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+
+  // Suggest the search text as the name each time the modal opens
+  useEffect(() => {
+    if (visible) {
+      setName(query?.trim().slice(0, MAX_SAVED_SEARCH_NAME_LENGTH) || '');
+    }
+  }, [visible, query]);
+
+  const handleSave = async () => {
+    try {
+      setIsLoading(true);
+      const search = await SavedSearchService.saveSearch(name, query, filters);
+      onClose();
+      onSaved(search);
+    } catch (error) {
+      console.error('Error saving search:', error);
+      Alert.alert(
+        'Error',
+        error instanceof Error ? error.message : 'Failed to save search. Please try again later.'
+      );
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <Modal
+      animationType="slide"
+      transparent={true}
+      visible={visible}
+      onRequestClose={onClose}
+    >
+      <TouchableWithoutFeedback onPress={Keyboard.dismiss}>
+        <KeyboardAvoidingView
+          style={styles.centeredView}
+          behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+        >
+          <View style={styles.modalView}>
+            <View style={styles.header}>
+              <Text style={styles.title}>Save Search</Text>
+              <TouchableOpacity style={styles.closeButton} onPress={onClose}>
+                <Ionicons name="close" size={24} color={theme.colors.text} />
+              </TouchableOpacity>
+            </View>
+
+            <Text style={styles.hint}>
+              We'll show you how many new listings match this search each time you open the app.
+            </Text>
+
+            <Text style={styles.label}>Name</Text>
+
+            <TextInput
+              style={styles.input}
+              placeholder="e.g. CHEM 101 textbook"
+              value={name}
+              onChangeText={setName}
+              maxLength={MAX_SAVED_SEARCH_NAME_LENGTH}
+              autoFocus
+            />
+
+            <TouchableOpacity
+              style={[
+                styles.submitButton,
+                (!name.trim() || isLoading) && styles.disabledButton
+              ]}
+              onPress={handleSave}
+              disabled={!name.trim() || isLoading}
+            >
+              {isLoading ? (
+                <ActivityIndicator size="small" color="#fff" />
+              ) : (
+                <Text style={styles.submitButtonText}>Save Search</Text>
+              )}
+            </TouchableOpacity>
+          </View>
+        </KeyboardAvoidingView>
+      </TouchableWithoutFeedback>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  centeredView: {
+    flex: 1,
+    justifyContent: 'flex-end',
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+  },
+  modalView: {
+    backgroundColor: 'white',
+    borderTopLeftRadius: theme.borderRadius.lg,
+    borderTopRightRadius: theme.borderRadius.lg,
+    padding: theme.spacing.lg,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: theme.spacing.md,
+  },
+  title: {
+    ...(theme.typography.h2 as TextStyle),
+    color: theme.colors.text,
+  },
+  closeButton: {
+    padding: theme.spacing.xs,
+  },
+  hint: {
+    fontSize: 14,
+    color: theme.colors.textSecondary,
+    marginBottom: theme.spacing.md,
+  },
+  label: {
+    fontSize: 16,
+    fontWeight: '600' as TextStyle['fontWeight'],
+    color: theme.colors.text,
+    marginBottom: theme.spacing.sm,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: theme.colors.border,
+    borderRadius: theme.borderRadius.md,
+    padding: theme.spacing.md,
+    marginBottom: theme.spacing.lg,
+    fontSize: 16,
+  },
+  submitButton: {
+    backgroundColor: theme.colors.primary,
+    borderRadius: theme.borderRadius.md,
+    padding: theme.spacing.md,
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginBottom: theme.spacing.lg,
+  },
+  disabledButton: {
+    backgroundColor: theme.colors.textSecondary,
+    opacity: 0.7,
+  },
+  submitButtonText: {
+    color: '#fff',
+    fontWeight: '700',
+    fontSize: 16,
+  },
+});
@@ -0,0 +1,177 @@
+import React from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  TextStyle
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { format } from 'date-fns';
+import { theme } from '../styles/theme';
+import {
+  SwapProposalWithListings,
+  SwapProposalStatus,
+  getProposalRecipientId
+} from '../services/ExchangeService';
+
+interface SwapProposalCardProps {
+  proposal: SwapProposalWithListings;
+  currentUserId: string | null;
+  onAccept: (proposal: SwapProposalWithListings) => void;
+  onReject: (proposal: SwapProposalWithListings) => void;
+  onCounter: (proposal: SwapProposalWithListings) => void;
+}
+
+const STATUS_LABELS: Record<SwapProposalStatus, string> = {
+  pending: 'Pending',
+  accepted: 'Accepted',
+  rejected: 'Declined',
+  countered: 'Countered',
+};
+
+const STATUS_COLORS: Record<SwapProposalStatus, string> = {
+  pending: theme.colors.warning,
+  accepted: theme.colors.success,
+  rejected: theme.colors.error,
+  countered: theme.colors.textSecondary,
+};
+
+export const SwapProposalCard = ({
+  proposal,
+  currentUserId,
+  onAccept,
+  onReject,
+  onCounter
+}: SwapProposalCardProps) => {
+  const isMine = proposal.proposed_by === currentUserId;
+  const canRespond = proposal.status === 'pending' && getProposalRecipientId(proposal) === currentUserId;
+
+  return (
+    <View style={[styles.card, isMine ? styles.myCard : styles.otherCard]}>
+      <View style={styles.header}>
+        <Ionicons name="swap-horizontal" size={18} color={theme.colors.secondary} />
+        <Text style={styles.title}>
+          {proposal.parent_proposal_id ? 'Counter offer' : 'Swap offer'}
+        </Text>
+        <View style={[styles.statusBadge, { backgroundColor: STATUS_COLORS[proposal.status] }]}>
+          <Text style={styles.statusText}>{STATUS_LABELS[proposal.status]}</Text>
+        </View>
+      </View>
+
+      <Text style={styles.label}>Offered</Text>
+      {proposal.offeredListings.map(listing => (
+        <Text key={listing.id} style={styles.bookTitle} numberOfLines={1}>
+          • {listing.title}
+        </Text>
+      ))}
+
+      <Text style={styles.label}>In exchange for</Text>
+      <Text style={styles.bookTitle} numberOfLines={1}>
+        • {proposal.targetListing.title}
+      </Text>
+
+      {proposal.message ? <Text style={styles.message}>"{proposal.message}"</Text> : null}
+
+      {canRespond && (
+        <View style={styles.actions}>
+          <TouchableOpacity style={[styles.actionButton, styles.acceptButton]} onPress={() => onAccept(proposal)}>
+            <Text style={styles.actionText}>Accept</Text>
+          </TouchableOpacity>
+          <TouchableOpacity style={[styles.actionButton, styles.counterButton]} onPress={() => onCounter(proposal)}>
+            <Text style={styles.actionText}>Counter</Text>
+          </TouchableOpacity>
+          <TouchableOpacity style={[styles.actionButton, styles.rejectButton]} onPress={() => onReject(proposal)}>
+            <Text style={styles.actionText}>Decline</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+
+      <Text style={styles.time}>{format(new Date(proposal.created_at), 'MMM d, h:mm a')}</Text>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  card: {
+    width: '85%',
+    padding: theme.spacing.md,
+    borderRadius: theme.borderRadius.md,
+    borderWidth: 1,
+    borderColor: theme.colors.secondary,
+    backgroundColor: '#F7F7FF',
+    marginBottom: theme.spacing.md,
+  },
+  myCard: {
+    alignSelf: 'flex-end',
+  },
+  otherCard: {
+    alignSelf: 'flex-start',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: theme.spacing.sm,
+  },
+  title: {
+    flex: 1,
+    marginLeft: theme.spacing.xs,
+    fontSize: 16,
+    fontWeight: '600' as TextStyle['fontWeight'],
+    color: theme.colors.text,
+  },
+  statusBadge: {
+    paddingHorizontal: theme.spacing.sm,
+    paddingVertical: 2,
+    borderRadius: theme.borderRadius.sm,
+  },
+  statusText: {
+    color: '#fff',
+    fontSize: 12,
+    fontWeight: '600' as TextStyle['fontWeight'],
+  },
+  label: {
+    fontSize: 12,
+    color: theme.colors.textSecondary,
+    marginTop: theme.spacing.xs,
+  },
+  bookTitle: {
+    fontSize: 15,
+    color: theme.colors.text,
+  },
+  message: {
+    marginTop: theme.spacing.sm,
+    fontStyle: 'italic',
+    color: theme.colors.text,
+  },
+  actions: {
+    flexDirection: 'row',
+    marginTop: theme.spacing.md,
+  },
+  actionButton: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: theme.spacing.sm,
+    borderRadius: theme.borderRadius.sm,
+    marginHorizontal: 2,
+  },
+  acceptButton: {
+    backgroundColor: theme.colors.success,
+  },
+  counterButton: {
+    backgroundColor: theme.colors.secondary,
+  },
+  rejectButton: {
+    backgroundColor: theme.colors.error,
+  },
+  actionText: {
+    color: '#fff',
+    fontWeight: '700' as TextStyle['fontWeight'],
+  },
+  time: {
+    fontSize: 11,
+    color: theme.colors.textSecondary,
+    alignSelf: 'flex-end',
+    marginTop: theme.spacing.sm,
+  },
+});
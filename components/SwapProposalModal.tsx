@@ -0,0 +1,266 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  TextInput,
+  TouchableOpacity,
+  FlatList,
+  Image,
+  Alert,
+  ActivityIndicator,
+  TextStyle
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { theme } from '../styles/theme';
+import { BookService, BookListing } from '../services/BookService';
+
+interface SwapProposalModalProps {
+  visible: boolean;
+  onClose: () => void;
+  onSubmit: (offeredListingIds: string[], message: string) => Promise<void>;
+  // The buyer whose books can be offered
+  ownerId: string;
+  title: string;
+  submitLabel: string;
+  initialSelectedIds?: string[];
+}
+
+export const SwapProposalModal = ({
+  visible,
+  onClose,
+  onSubmit,
+  ownerId,
+  title,
+  submitLabel,
+  initialSelectedIds = []
+}: SwapProposalModalProps) => {
+  const [listings, setListings] = useState<BookListing[]>([]);
+  const [selectedIds, setSelectedIds] = useState<string[]>(initialSelectedIds);
+  const [message, setMessage] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (!visible) return;
+
+    setSelectedIds(initialSelectedIds);
+    setMessage('');
+
+    const fetchListings = async () => {
+      try {
+        setIsLoading(true);
+        const data = await BookService.getListingsBySeller(ownerId);
+        setListings(data.filter(listing => !listing.status || listing.status === 'active'));
+      } catch (error) {
+        console.error('Error fetching listings to offer:', error);
+        Alert.alert('Error', 'Failed to load books. Please try again later.');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchListings();
+  }, [visible, ownerId]);
+
+  const toggleListing = (id: string) => {
+    setSelectedIds(prev =>
+      prev.includes(id) ? prev.filter(selectedId => selectedId !== id) : [...prev, id]
+    );
+  };
+
+  const handleSubmit = async () => {
+    try {
+      setIsSubmitting(true);
+      await onSubmit(selectedIds, message);
+      onClose();
+    } catch (error) {
+      console.error('Error submitting swap proposal:', error);
+      Alert.alert(
+        'Error',
+        error instanceof Error ? error.message : 'Failed to send swap proposal. Please try again later.'
+      );
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Modal
+      animationType="slide"
+      transparent={true}
+      visible={visible}
+      onRequestClose={onClose}
+    >
+      <View style={styles.centeredView}>
+        <View style={styles.modalView}>
+          <View style={styles.header}>
+            <Text style={styles.title}>{title}</Text>
+            <TouchableOpacity style={styles.closeButton} onPress={onClose}>
+              <Ionicons name="close" size={24} color={theme.colors.text} />
+            </TouchableOpacity>
+          </View>
+
+          {isLoading ? (
+            <ActivityIndicator style={styles.loading} size="large" color={theme.colors.primary} />
+          ) : (
+            <FlatList
+              data={listings}
+              keyExtractor={(item) => item.id}
+              style={styles.list}
+              renderItem={({ item }) => {
+                const isSelected = selectedIds.includes(item.id);
+                return (
+                  <TouchableOpacity
+                    style={[styles.listingRow, isSelected && styles.selectedListingRow]}
+                    onPress={() => toggleListing(item.id)}
+                  >
+                    <Image
+                      source={{ uri: item.image_url || 'https://source.unsplash.com/random/200x300/?book' }}
+                      style={styles.listingImage}
+                    />
+                    <View style={styles.listingInfo}>
+                      <Text style={styles.listingTitle} numberOfLines={1}>{item.title}</Text>
+                      <Text style={styles.listingPrice}>${item.price.toFixed(2)}</Text>
+                    </View>
+                    <Ionicons
+                      name={isSelected ? 'checkbox' : 'square-outline'}
+                      size={24}
+                      color={isSelected ? theme.colors.primary : theme.colors.textSecondary}
+                    />
+                  </TouchableOpacity>
+                );
+              }}
+              ListEmptyComponent={
+                <Text style={styles.emptyText}>
+                  There are no available books to offer. List a book first to propose a swap.
+                </Text>
+              }
+            />
+          )}
+
+          <TextInput
+            style={styles.input}
+            placeholder="Add a note (optional)"
+            value={message}
+            onChangeText={setMessage}
+            maxLength={300}
+          />
+
+          <TouchableOpacity
+            style={[
+              styles.submitButton,
+              (selectedIds.length === 0 || isSubmitting) && styles.disabledButton
+            ]}
+            onPress={handleSubmit}
+            disabled={selectedIds.length === 0 || isSubmitting}
+          >
+            {isSubmitting ? (
+              <ActivityIndicator size="small" color="#fff" />
+            ) : (
+              <Text style={styles.submitButtonText}>
+                {submitLabel}{selectedIds.length > 0 ? ` (${selectedIds.length})` : ''}
+              </Text>
+            )}
+          </TouchableOpacity>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  centeredView: {
+    flex: 1,
+    justifyContent: 'flex-end',
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+  },
+  modalView: {
+    backgroundColor: 'white',
+    borderTopLeftRadius: theme.borderRadius.lg,
+    borderTopRightRadius: theme.borderRadius.lg,
+    padding: theme.spacing.lg,
+    height: '75%',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: theme.spacing.md,
+  },
+  title: {
+    ...(theme.typography.h2 as TextStyle),
+    color: theme.colors.text,
+  },
+  closeButton: {
+    padding: theme.spacing.xs,
+  },
+  loading: {
+    flex: 1,
+  },
+  list: {
+    flex: 1,
+    marginBottom: theme.spacing.md,
+  },
+  listingRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: theme.spacing.sm,
+    borderRadius: theme.borderRadius.md,
+    borderWidth: 1,
+    borderColor: theme.colors.border,
+    marginBottom: theme.spacing.sm,
+  },
+  selectedListingRow: {
+    borderColor: theme.colors.primary,
+  },
+  listingImage: {
+    width: 40,
+    height: 60,
+    borderRadius: theme.borderRadius.sm,
+    marginRight: theme.spacing.md,
+    backgroundColor: theme.colors.border,
+  },
+  listingInfo: {
+    flex: 1,
+  },
+  listingTitle: {
+    fontSize: 16,
+    fontWeight: '600' as TextStyle['fontWeight'],
+    color: theme.colors.text,
+  },
+  listingPrice: {
+    color: theme.colors.primary,
+    marginTop: 2,
+  },
+  emptyText: {
+    textAlign: 'center',
+    color: theme.colors.textSecondary,
+    marginTop: theme.spacing.lg,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: theme.colors.border,
+    borderRadius: theme.borderRadius.md,
+    padding: theme.spacing.md,
+    marginBottom: theme.spacing.md,
+    fontSize: 16,
+  },
+  submitButton: {
+    backgroundColor: theme.colors.primary,
+    borderRadius: theme.borderRadius.md,
+    padding: theme.spacing.md,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  disabledButton: {
+    backgroundColor: theme.colors.textSecondary,
+    opacity: 0.7,
+  },
+  submitButtonText: {
+    color: '#fff',
+    fontWeight: '700',
+    fontSize: 16,
+  },
+});
@@ -0,0 +1,203 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  TextInput,
+  TouchableOpacity,
+  Alert,
+  ActivityIndicator,
+  KeyboardAvoidingView,
+  Platform,
+  TouchableWithoutFeedback,
+  Keyboard,
+  TextStyle
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { theme } from '../styles/theme';
+import { ReviewService } from '../services/ReviewService';
+
+interface WriteReviewModalProps {
+  visible: boolean;
+  onClose: () => void;
+  onSubmitted: () => void;
+  sellerId: string;
+  sellerName: string;
+}
+
+export const WriteReviewModal = ({
+  visible,
+  onClose,
+  onSubmitted,
+  sellerId,
+  sellerName
+}: WriteReviewModalProps) => {
+  const [rating, setRating] = useState(0);
+  const [comment, setComment] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+
+  const handleSubmit = async () => {
+    if (rating === 0) {
+      Alert.alert('Error', 'Please select a star rating');
+      return;
+    }
+
+    try {
+      setIsLoading(true);
+      await ReviewService.submitReview(sellerId, rating, comment);
+
+      // Reset and close
+      setRating(0);
+      setComment('');
+      onClose();
+      onSubmitted();
+    } catch (error) {
+      console.error('Error submitting review:', error);
+      Alert.alert(
+        'Error',
+        error instanceof Error ? error.message : 'Failed to submit review. Please try again later.'
+      );
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <Modal
+      animationType="slide"
+      transparent={true}
+      visible={visible}
+      onRequestClose={onClose}
+    >
+      <TouchableWithoutFeedback onPress={Keyboard.dismiss}>
+        <KeyboardAvoidingView
+          style={styles.centeredView}
+          behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+        >
+          <View style={styles.modalView}>
+            <View style={styles.header}>
+              <Text style={styles.title}>Review {sellerName}</Text>
+              <TouchableOpacity style={styles.closeButton} onPress={onClose}>
+                <Ionicons name="close" size={24} color={theme.colors.text} />
+              </TouchableOpacity>
+            </View>
+
+            <Text style={styles.label}>Your Rating</Text>
+
+            <View style={styles.starsRow}>
+              {[1, 2, 3, 4, 5].map(star => (
+                <TouchableOpacity
+                  key={star}
+                  style={styles.starButton}
+                  onPress={() => setRating(star)}
+                >
+                  <Ionicons
+                    name={star <= rating ? 'star' : 'star-outline'}
+                    size={36}
+                    color="#FFD700"
+                  />
+                </TouchableOpacity>
+              ))}
+            </View>
+
+            <Text style={styles.label}>Comment (optional)</Text>
+
+            <TextInput
+              style={styles.input}
+              placeholder="How was your experience with this seller?"
+              value={comment}
+              onChangeText={setComment}
+              multiline
+              maxLength={500}
+              textAlignVertical="top"
+            />
+
+            <TouchableOpacity
+              style={[
+                styles.submitButton,
+                (rating === 0 || isLoading) && styles.disabledButton
+              ]}
+              onPress={handleSubmit}
+              disabled={rating === 0 || isLoading}
+            >
+              {isLoading ? (
+                <ActivityIndicator size="small" color="#fff" />
+              ) : (
+                <Text style={styles.submitButtonText}>Submit Review</Text>
+              )}
+            </TouchableOpacity>
+          </View>
+        </KeyboardAvoidingView>
+      </TouchableWithoutFeedback>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  centeredView: {
+    flex: 1,
+    justifyContent: 'flex-end',
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+  },
+  modalView: {
+    backgroundColor: 'white',
+    borderTopLeftRadius: theme.borderRadius.lg,
+    borderTopRightRadius: theme.borderRadius.lg,
+    padding: theme.spacing.lg,
+    minHeight: '50%',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: theme.spacing.md,
+  },
+  title: {
+    ...(theme.typography.h2 as TextStyle),
+    color: theme.colors.text,
+  },
+  closeButton: {
+    padding: theme.spacing.xs,
+  },
+  label: {
+    fontSize: 16,
+    fontWeight: '600' as TextStyle['fontWeight'],
+    color: theme.colors.text,
+    marginBottom: theme.spacing.sm,
+  },
+  starsRow: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    marginBottom: theme.spacing.lg,
+  },
+  starButton: {
+    paddingHorizontal: theme.spacing.xs,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: theme.colors.border,
+    borderRadius: theme.borderRadius.md,
+    padding: theme.spacing.md,
+    minHeight: 120,
+    marginBottom: theme.spacing.lg,
+    fontSize: 16,
+  },
+  submitButton: {
+    backgroundColor: theme.colors.primary,
+    borderRadius: theme.borderRadius.md,
+    padding: theme.spacing.md,
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginBottom: theme.spacing.lg,
+  },
+  disabledButton: {
+    backgroundColor: theme.colors.textSecondary,
+    opacity: 0.7,
+  },
+  submitButtonText: {
+    color: '#fff',
+    fontWeight: '700',
+    fontSize: 16,
+  },
+});
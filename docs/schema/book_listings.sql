@@ -9,6 +9,9 @@ CREATE TABLE IF NOT EXISTS book_listings (
     condition VARCHAR(50) NOT NULL CHECK (condition IN ('New', 'Like New', 'Good', 'Fair', 'Acceptable')),
     description TEXT,
     image_url VARCHAR(255),
+    image_path TEXT,
+    thumbnail_url TEXT,
+    thumbnail_path TEXT,
     category VARCHAR(100),
     edition VARCHAR(100),
     isbn VARCHAR(20),
@@ -16,6 +19,9 @@ CREATE TABLE IF NOT EXISTS book_listings (
     publication_year INT,
     is_negotiable BOOLEAN DEFAULT FALSE,
     exchange_option BOOLEAN DEFAULT FALSE,
+    latitude DOUBLE PRECISION CHECK (latitude BETWEEN -90 AND 90),
+    longitude DOUBLE PRECISION CHECK (longitude BETWEEN -180 AND 180),
+    status VARCHAR(20) NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'reserved', 'sold', 'traded', 'archived')),
     seller_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
     created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
     updated_at TIMESTAMP WITH TIME ZONE DEFAULT now()
@@ -73,4 +79,216 @@ ALTER TABLE book_listings ADD COLUMN IF NOT EXISTS fts tsvector GENERATED ALWAYS
 ) STORED;
 
 -- Add index for full text search
-CREATE INDEX IF NOT EXISTS book_listings_fts_idx ON book_listings USING GIN (fts); 
\ No newline at end of file
+CREATE INDEX IF NOT EXISTS book_listings_fts_idx ON book_listings USING GIN (fts); 
+
+-- Add pickup coordinates to existing installations
+ALTER TABLE book_listings ADD COLUMN IF NOT EXISTS latitude DOUBLE PRECISION CHECK (latitude BETWEEN -90 AND 90);
+ALTER TABLE book_listings ADD COLUMN IF NOT EXISTS longitude DOUBLE PRECISION CHECK (longitude BETWEEN -180 AND 180);
+
+-- Add cover thumbnails to existing installations
+ALTER TABLE book_listings ADD COLUMN IF NOT EXISTS thumbnail_url TEXT;
+
+-- Storage paths of the cover and its thumbnail in the book-images bucket, so
+-- replaced or deleted photos can be removed without parsing the URLs
+ALTER TABLE book_listings ADD COLUMN IF NOT EXISTS image_path TEXT;
+ALTER TABLE book_listings ADD COLUMN IF NOT EXISTS thumbnail_path TEXT;
+
+-- Approval state and report hiding, which the feed filters below check. The
+-- moderation and reports scripts add these too, with their policies.
+ALTER TABLE book_listings ADD COLUMN IF NOT EXISTS moderation_state VARCHAR(20) NOT NULL DEFAULT 'approved'
+    CHECK (moderation_state IN ('pending', 'approved', 'rejected'));
+ALTER TABLE book_listings ADD COLUMN IF NOT EXISTS hidden_at TIMESTAMP WITH TIME ZONE;
+
+-- Add index for location-based search
+CREATE INDEX IF NOT EXISTS book_listings_location_idx ON book_listings(latitude, longitude);
+
+-- Kilometres between a listing's pickup point and another point (haversine distance)
+-- (mirrors haversineDistanceKm in utils/location.ts)
+CREATE OR REPLACE FUNCTION book_listing_distance_km(
+    b book_listings,
+    center_lat DOUBLE PRECISION,
+    center_lng DOUBLE PRECISION
+)
+RETURNS DOUBLE PRECISION
+LANGUAGE sql IMMUTABLE
+AS $$
+    SELECT 2 * 6371 * asin(sqrt(
+        power(sin(radians(b.latitude - center_lat) / 2), 2) +
+        cos(radians(center_lat)) * cos(radians(b.latitude)) *
+        power(sin(radians(b.longitude - center_lng) / 2), 2)
+    ));
+$$;
+
+-- Whether an active, approved and unhidden listing matches the feed filters; a
+-- NULL filter matches everything. RLS lets admins and sellers read other
+-- listings, so the feed functions cannot rely on it.
+-- (mirrors isActiveListing and filterListings in repositories/listingRepository.ts)
+CREATE OR REPLACE FUNCTION book_listing_matches_filters(
+    b book_listings,
+    filter_categories TEXT[] DEFAULT NULL,
+    filter_conditions TEXT[] DEFAULT NULL,
+    min_price DECIMAL DEFAULT NULL,
+    max_price DECIMAL DEFAULT NULL,
+    filter_is_negotiable BOOLEAN DEFAULT NULL,
+    filter_exchange_option BOOLEAN DEFAULT NULL,
+    exclude_seller_ids UUID[] DEFAULT NULL
+)
+RETURNS BOOLEAN
+LANGUAGE sql IMMUTABLE
+AS $$
+    SELECT b.status = 'active'
+       AND b.moderation_state = 'approved'
+       AND b.hidden_at IS NULL
+       AND (filter_categories IS NULL OR b.category = ANY (filter_categories))
+       AND (filter_conditions IS NULL OR b.condition = ANY (filter_conditions))
+       AND (min_price IS NULL OR b.price >= min_price)
+       AND (max_price IS NULL OR b.price <= max_price)
+       AND (filter_is_negotiable IS NULL OR b.is_negotiable = filter_is_negotiable)
+       AND (filter_exchange_option IS NULL OR b.exchange_option = filter_exchange_option)
+       AND (exclude_seller_ids IS NULL OR b.seller_id <> ALL (exclude_seller_ids));
+$$;
+
+-- Active listings within radius_km kilometres of a point that match the filters,
+-- one page at a time, nearest first. Listings at the same distance are ordered
+-- newest first, then by id; pass the distance, created_at and id of the last row
+-- of a page to get the next one. Without page_limit every listing is returned.
+-- Runs with the caller's permissions, so RLS policies still apply
+DROP FUNCTION IF EXISTS book_listings_within_radius(DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION);
+CREATE OR REPLACE FUNCTION book_listings_within_radius(
+    center_lat DOUBLE PRECISION,
+    center_lng DOUBLE PRECISION,
+    radius_km DOUBLE PRECISION,
+    filter_categories TEXT[] DEFAULT NULL,
+    filter_conditions TEXT[] DEFAULT NULL,
+    min_price DECIMAL DEFAULT NULL,
+    max_price DECIMAL DEFAULT NULL,
+    filter_is_negotiable BOOLEAN DEFAULT NULL,
+    filter_exchange_option BOOLEAN DEFAULT NULL,
+    exclude_seller_ids UUID[] DEFAULT NULL,
+    created_after TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+    after_distance DOUBLE PRECISION DEFAULT NULL,
+    after_created_at TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+    after_id UUID DEFAULT NULL,
+    page_limit INT DEFAULT NULL
+)
+RETURNS TABLE (listing book_listings, distance_km DOUBLE PRECISION)
+LANGUAGE sql STABLE
+AS $$
+    SELECT located.listing, located.distance_km
+    FROM (
+        SELECT b AS listing, book_listing_distance_km(b, center_lat, center_lng) AS distance_km
+        FROM book_listings b
+        WHERE b.latitude IS NOT NULL
+          AND b.longitude IS NOT NULL
+          -- Cheap bounding box first so the location index can be used
+          AND b.latitude BETWEEN center_lat - radius_km / 111.0 AND center_lat + radius_km / 111.0
+          AND book_listing_matches_filters(
+                b, filter_categories, filter_conditions, min_price, max_price,
+                filter_is_negotiable, filter_exchange_option, exclude_seller_ids
+              )
+          AND (created_after IS NULL OR b.created_at > created_after)
+    ) located
+    WHERE located.distance_km <= radius_km
+      AND (
+        after_id IS NULL
+        OR located.distance_km > after_distance
+        OR (located.distance_km = after_distance
+            AND ((located.listing).created_at, (located.listing).id) < (after_created_at, after_id))
+      )
+    ORDER BY located.distance_km, (located.listing).created_at DESC, (located.listing).id DESC
+    LIMIT page_limit;
+$$;
+
+-- Add listing status to existing installations
+ALTER TABLE book_listings ADD COLUMN IF NOT EXISTS status VARCHAR(20) NOT NULL DEFAULT 'active'
+    CHECK (status IN ('active', 'reserved', 'sold', 'traded', 'archived'));
+
+-- Widen the status check on installations created before reserved, sold and archived existed
+ALTER TABLE book_listings DROP CONSTRAINT IF EXISTS book_listings_status_check;
+ALTER TABLE book_listings ADD CONSTRAINT book_listings_status_check
+    CHECK (status IN ('active', 'reserved', 'sold', 'traded', 'archived'));
+
+-- Add index for hiding non-active listings from buyers
+CREATE INDEX IF NOT EXISTS book_listings_status_idx ON book_listings(status);
+
+-- Reject status changes that skip the listing lifecycle
+-- (mirrors LISTING_STATUS_TRANSITIONS in services/BookService.ts)
+CREATE OR REPLACE FUNCTION check_book_listing_status_transition()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.status = OLD.status THEN
+        RETURN NEW;
+    END IF;
+
+    IF NOT (
+        (OLD.status = 'active' AND NEW.status IN ('reserved', 'sold', 'traded', 'archived')) OR
+        (OLD.status = 'reserved' AND NEW.status IN ('active', 'sold', 'traded', 'archived')) OR
+        (OLD.status IN ('sold', 'traded') AND NEW.status = 'archived') OR
+        (OLD.status = 'archived' AND NEW.status = 'active')
+    ) THEN
+        RAISE EXCEPTION 'A % listing cannot be marked as %', OLD.status, NEW.status;
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS check_book_listings_status_transition ON book_listings;
+CREATE TRIGGER check_book_listings_status_transition
+BEFORE UPDATE OF status ON book_listings
+FOR EACH ROW
+EXECUTE FUNCTION check_book_listing_status_transition();
+
+-- Add index for the paginated listing feed (newest first, id breaks ties)
+CREATE INDEX IF NOT EXISTS book_listings_feed_idx ON book_listings(status, created_at DESC, id DESC);
+
+-- Ranked full-text search over active listings that match the filters, one page at a time.
+-- search_query is a to_tsquery expression built by toTsQuery in utils/search.ts.
+-- With a center and radius only listings within radius_km kilometres are returned,
+-- with their distance. Results are ordered by relevance, then newest first; pass the
+-- rank, created_at and id of the last row of a page to get the next one.
+DROP FUNCTION IF EXISTS search_book_listings(TEXT, REAL, TIMESTAMP WITH TIME ZONE, UUID, INT);
+CREATE OR REPLACE FUNCTION search_book_listings(
+    search_query TEXT,
+    filter_categories TEXT[] DEFAULT NULL,
+    filter_conditions TEXT[] DEFAULT NULL,
+    min_price DECIMAL DEFAULT NULL,
+    max_price DECIMAL DEFAULT NULL,
+    filter_is_negotiable BOOLEAN DEFAULT NULL,
+    filter_exchange_option BOOLEAN DEFAULT NULL,
+    exclude_seller_ids UUID[] DEFAULT NULL,
+    center_lat DOUBLE PRECISION DEFAULT NULL,
+    center_lng DOUBLE PRECISION DEFAULT NULL,
+    radius_km DOUBLE PRECISION DEFAULT NULL,
+    after_rank REAL DEFAULT NULL,
+    after_created_at TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+    after_id UUID DEFAULT NULL,
+    page_limit INT DEFAULT 20
+)
+RETURNS TABLE (listing book_listings, rank REAL, distance_km DOUBLE PRECISION)
+LANGUAGE sql STABLE
+AS $$
+    SELECT ranked.listing, ranked.rank, ranked.distance_km
+    FROM (
+        SELECT
+            b AS listing,
+            ts_rank(b.fts, q) AS rank,
+            CASE WHEN center_lat IS NOT NULL AND b.latitude IS NOT NULL AND b.longitude IS NOT NULL
+                THEN book_listing_distance_km(b, center_lat, center_lng)
+            END AS distance_km
+        FROM book_listings b, to_tsquery('english', search_query) q
+        WHERE b.fts @@ q
+          AND book_listing_matches_filters(
+                b, filter_categories, filter_conditions, min_price, max_price,
+                filter_is_negotiable, filter_exchange_option, exclude_seller_ids
+              )
+    ) ranked
+    WHERE (radius_km IS NULL OR ranked.distance_km <= radius_km)
+      AND (
+        after_id IS NULL
+        OR (ranked.rank, (ranked.listing).created_at, (ranked.listing).id)
+           < (after_rank, after_created_at, after_id)
+      )
+    ORDER BY ranked.rank DESC, (ranked.listing).created_at DESC, (ranked.listing).id DESC
+    LIMIT page_limit;
+$$;
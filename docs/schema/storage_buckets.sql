@@ -34,4 +34,42 @@ TO authenticated
 USING (
   bucket_id = 'book-images' AND
   auth.uid()::text = (storage.foldername(name))[1]
-); 
\ No newline at end of file
+);
+
+-- Create a public Storage bucket for profile pictures
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('avatars', 'Avatars', true)
+ON CONFLICT (id) DO NOTHING;
+
+-- Set up Storage policies for the avatars bucket
+-- Allow anyone to read avatars (since they're public)
+CREATE POLICY "Public can view avatars"
+ON storage.objects FOR SELECT
+USING (bucket_id = 'avatars');
+
+-- Allow users to upload avatars into their own folder
+CREATE POLICY "Users can upload their own avatar"
+ON storage.objects FOR INSERT
+TO authenticated
+WITH CHECK (
+  bucket_id = 'avatars' AND
+  auth.uid()::text = (storage.foldername(name))[1]
+);
+
+-- Allow users to update their own avatars
+CREATE POLICY "Users can update their own avatar"
+ON storage.objects FOR UPDATE
+TO authenticated
+USING (
+  bucket_id = 'avatars' AND
+  auth.uid()::text = (storage.foldername(name))[1]
+);
+
+-- Allow users to delete their own avatars
+CREATE POLICY "Users can delete their own avatar"
+ON storage.objects FOR DELETE
+TO authenticated
+USING (
+  bucket_id = 'avatars' AND
+  auth.uid()::text = (storage.foldername(name))[1]
+);
@@ -0,0 +1,130 @@
+import React, { useEffect, useState } from 'react';
+import { ActivityIndicator, View, Text, TouchableOpacity, StyleSheet, TextStyle } from 'react-native';
+import { createBottomTabNavigator } from '@react-navigation/bottom-tabs';
+import { NativeStackScreenProps } from '@react-navigation/native-stack';
+import { Ionicons } from '@expo/vector-icons';
+import { AdminListingsScreen } from '../screens/AdminListingsScreen';
+import { AdminUsersScreen } from '../screens/AdminUsersScreen';
+import { AdminReportsScreen } from '../screens/AdminReportsScreen';
+import { AdminTransactionsScreen } from '../screens/AdminTransactionsScreen';
+import { AdminService } from '../services/AdminService';
+import { theme } from '../styles/theme';
+import type { RootStackParamList } from './AppNavigator';
+
+export type AdminTabParamList = {
+  AdminListings: undefined;
+  AdminUsers: undefined;
+  AdminReports: undefined;
+  AdminTransactions: undefined;
+};
+
+const Tab = createBottomTabNavigator<AdminTabParamList>();
+
+type AdminNavigatorProps = NativeStackScreenProps<RootStackParamList, 'Admin'>;
+
+/**
+ * The admin dashboard of the web build: listings, users, reports and the
+ * transaction log in a sidebar, for admins only
+ */
+export const AdminNavigator = ({ navigation }: AdminNavigatorProps) => {
+  const [isAdmin, setIsAdmin] = useState<boolean | null>(null);
+
+  useEffect(() => {
+    AdminService.isAdmin().then(setIsAdmin);
+  }, []);
+
+  const exitButton = () => (
+    <TouchableOpacity style={styles.exitButton} onPress={() => navigation.goBack()}>
+      <Ionicons name="exit-outline" size={20} color={theme.colors.primary} />
+      <Text style={styles.exitText}>Back to app</Text>
+    </TouchableOpacity>
+  );
+
+  if (isAdmin === null) {
+    return (
+      <View style={styles.centered}>
+        <ActivityIndicator size="large" color={theme.colors.primary} />
+      </View>
+    );
+  }
+
+  if (!isAdmin) {
+    return (
+      <View style={styles.centered}>
+        <Ionicons name="lock-closed-outline" size={48} color={theme.colors.textSecondary} />
+        <Text style={styles.deniedText}>Only admins can open the dashboard</Text>
+        {exitButton()}
+      </View>
+    );
+  }
+
+  return (
+    <Tab.Navigator
+      screenOptions={{
+        tabBarPosition: 'left',
+        tabBarLabelPosition: 'beside-icon',
+        tabBarActiveTintColor: theme.colors.primary,
+        tabBarInactiveTintColor: theme.colors.textSecondary,
+        headerRight: exitButton,
+      }}
+    >
+      <Tab.Screen
+        name="AdminListings"
+        component={AdminListingsScreen}
+        options={{
+          title: 'Listings',
+          tabBarIcon: ({ color, size }) => <Ionicons name="book-outline" color={color} size={size} />,
+        }}
+      />
+      <Tab.Screen
+        name="AdminUsers"
+        component={AdminUsersScreen}
+        options={{
+          title: 'Users',
+          tabBarIcon: ({ color, size }) => <Ionicons name="people-outline" color={color} size={size} />,
+        }}
+      />
+      <Tab.Screen
+        name="AdminReports"
+        component={AdminReportsScreen}
+        options={{
+          title: 'Reports',
+          tabBarIcon: ({ color, size }) => <Ionicons name="flag-outline" color={color} size={size} />,
+        }}
+      />
+      <Tab.Screen
+        name="AdminTransactions"
+        component={AdminTransactionsScreen}
+        options={{
+          title: 'Transactions',
+          tabBarIcon: ({ color, size }) => <Ionicons name="receipt-outline" color={color} size={size} />,
+        }}
+      />
+    </Tab.Navigator>
+  );
+};
+
+const styles = StyleSheet.create({
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: theme.spacing.lg,
+    backgroundColor: theme.colors.background,
+  },
+  deniedText: {
+    marginVertical: theme.spacing.md,
+    fontSize: 16,
+    color: theme.colors.textSecondary,
+  },
+  exitButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: theme.spacing.md,
+  },
+  exitText: {
+    marginLeft: theme.spacing.xs,
+    color: theme.colors.primary,
+    fontWeight: '600' as TextStyle['fontWeight'],
+  },
+});
@@ -1,9 +1,10 @@
-import React from 'react';
-import { NavigationContainer } from '@react-navigation/native';
+import React, { useEffect, useRef, useState } from 'react';
+import { NavigationContainer, createNavigationContainerRef } from '@react-navigation/native';
 import { createNativeStackNavigator } from '@react-navigation/native-stack';
 import { createBottomTabNavigator } from '@react-navigation/bottom-tabs';
-import { ActivityIndicator, View, StyleSheet } from 'react-native';
+import { ActivityIndicator, View, StyleSheet, Platform } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
+import * as Notifications from 'expo-notifications';
 
 // Auth screens
 import { LoginScreen } from '../screens/LoginScreen';
@@ -19,13 +20,25 @@ import { EditListingScreen } from '../screens/EditListingScreen';
 import { SavedItemsScreen } from '../screens/SavedItemsScreen';
 import { ConversationsScreen } from '../screens/ConversationsScreen';
 import { ChatScreen } from '../screens/ChatScreen';
+import { SellerReviewsScreen } from '../screens/SellerReviewsScreen';
+import { MyListingsScreen } from '../screens/MyListingsScreen';
+import { EditProfileScreen } from '../screens/EditProfileScreen';
+import { SellerProfileScreen } from '../screens/SellerProfileScreen';
+import { NotificationsScreen } from '../screens/NotificationsScreen';
+import { BlockedUsersScreen } from '../screens/BlockedUsersScreen';
+import { TransactionHistoryScreen } from '../screens/TransactionHistoryScreen';
+
+// Admin dashboard, web only
+import { AdminNavigator } from './AdminNavigator';
 
 // Components
 import { CustomTabBar } from '../components/CustomTabBar';
 
 // Context and theme
 import { useAuth } from '../store/AuthContext';
+import { useNotifications } from '../store/NotificationContext';
 import { theme } from '../styles/theme';
+import { getChatPushData } from '../services/PushNotificationService';
 
 export type RootStackParamList = {
   // Auth screens
@@ -48,6 +61,17 @@ export type RootStackParamList = {
     otherUserName: string;
     listingTitle: string;
   };
+  SellerReviews: {
+    sellerId: string;
+    sellerName: string;
+  };
+  MyListings: undefined;
+  EditProfile: undefined;
+  SellerProfile: { userId: string };
+  Notifications: undefined;
+  BlockedUsers: undefined;
+  TransactionHistory: undefined;
+  Admin: undefined;
   Auth: undefined;
 };
 
@@ -61,6 +85,40 @@ export type MainTabParamList = {
 
 const Stack = createNativeStackNavigator<RootStackParamList>();
 const Tab = createBottomTabNavigator<MainTabParamList>();
+const navigationRef = createNavigationContainerRef<RootStackParamList>();
+
+// Show pushes that arrive while the app is open too
+Notifications.setNotificationHandler({
+  handleNotification: async () => ({
+    shouldShowAlert: true,
+    shouldPlaySound: true,
+    shouldSetBadge: false,
+  }),
+});
+
+/**
+ * Open the conversation a tapped push is about, including the push that
+ * launched the app, once the user is signed in and navigation is ready
+ */
+const useChatPushLinks = (isSignedIn: boolean, isNavigationReady: boolean) => {
+  const lastResponse = Notifications.useLastNotificationResponse();
+  const handledId = useRef<string | null>(null);
+
+  useEffect(() => {
+    if (!isSignedIn || !isNavigationReady || !lastResponse) return;
+    if (lastResponse.actionIdentifier !== Notifications.DEFAULT_ACTION_IDENTIFIER) return;
+
+    // A response stays "last" until the next tap, so only follow it once
+    const id = lastResponse.notification.request.identifier;
+    if (handledId.current === id) return;
+    handledId.current = id;
+
+    const params = getChatPushData(lastResponse.notification.request.content.data);
+    if (params) {
+      navigationRef.navigate('Chat', params);
+    }
+  }, [isSignedIn, isNavigationReady, lastResponse]);
+};
 
 const AuthStack = () => {
   return (
@@ -77,8 +135,11 @@ const AuthStack = () => {
 };
 
 const MainTabs = () => {
+  const { unreadCount } = useNotifications();
+
   return (
     <Tab.Navigator
+      tabBar={props => <CustomTabBar {...props} />}
       screenOptions={{
         tabBarShowLabel: true,
         tabBarActiveTintColor: theme.colors.primary,
@@ -98,6 +159,8 @@ const MainTabs = () => {
           tabBarIcon: ({ color, size }) => (
             <Ionicons name="home" color={color} size={size} />
           ),
+          // Unread notifications, opened from the bell on the home screen
+          tabBarBadge: unreadCount > 0 ? unreadCount : undefined,
         }}
       />
       <Tab.Screen
@@ -154,12 +217,23 @@ const AppStack = () => {
       <Stack.Screen name="AddListing" component={AddListingScreen} />
       <Stack.Screen name="EditListing" component={EditListingScreen} />
       <Stack.Screen name="Chat" component={ChatScreen} />
+      <Stack.Screen name="SellerReviews" component={SellerReviewsScreen} />
+      <Stack.Screen name="MyListings" component={MyListingsScreen} />
+      <Stack.Screen name="EditProfile" component={EditProfileScreen} />
+      <Stack.Screen name="SellerProfile" component={SellerProfileScreen} />
+      <Stack.Screen name="Notifications" component={NotificationsScreen} />
+      <Stack.Screen name="BlockedUsers" component={BlockedUsersScreen} />
+      <Stack.Screen name="TransactionHistory" component={TransactionHistoryScreen} />
+      {Platform.OS === 'web' && <Stack.Screen name="Admin" component={AdminNavigator} />}
     </Stack.Navigator>
   );
 };
 
 export const AppNavigator = () => {
   const { user, isLoading } = useAuth();
+  const [isNavigationReady, setIsNavigationReady] = useState(false);
+
+  useChatPushLinks(!!user, isNavigationReady);
 
   if (isLoading) {
     return (
@@ -170,7 +244,7 @@ export const AppNavigator = () => {
   }
 
   return (
-    <NavigationContainer>
+    <NavigationContainer ref={navigationRef} onReady={() => setIsNavigationReady(true)}>
       <Stack.Navigator
         screenOptions={{
           headerStyle: {
@@ -193,6 +267,16 @@ export const AppNavigator = () => {
             <Stack.Screen name="AddListing" component={AddListingScreen} />
             <Stack.Screen name="EditListing" component={EditListingScreen} />
             <Stack.Screen name="Chat" component={ChatScreen} options={{ headerShown: false }} />
+            <Stack.Screen name="SellerReviews" component={SellerReviewsScreen} options={{ headerShown: false }} />
+            <Stack.Screen name="MyListings" component={MyListingsScreen} options={{ headerShown: false }} />
+            <Stack.Screen name="EditProfile" component={EditProfileScreen} options={{ headerShown: false }} />
+            <Stack.Screen name="SellerProfile" component={SellerProfileScreen} options={{ headerShown: false }} />
+            <Stack.Screen name="Notifications" component={NotificationsScreen} options={{ headerShown: false }} />
+            <Stack.Screen name="BlockedUsers" component={BlockedUsersScreen} options={{ headerShown: false }} />
+            <Stack.Screen name="TransactionHistory" component={TransactionHistoryScreen} options={{ headerShown: false }} />
+            {Platform.OS === 'web' && (
+              <Stack.Screen name="Admin" component={AdminNavigator} options={{ headerShown: false }} />
+            )}
           </>
         ) : (
           <Stack.Screen
@@ -0,0 +1,108 @@
+import { supabase } from '../config/supabase';
+import type { BlockedUser } from '../services/BlockService';
+import { simulateLatency } from './dataSource';
+
+export interface BlockRepository {
+  // The users someone blocked, most recent first
+  listBlocked(blockerId: string): Promise<BlockedUser[]>;
+  // Blocking a user who is already blocked is not an error
+  block(blockerId: string, blockedId: string): Promise<void>;
+  // Neither is unblocking one who is not
+  unblock(blockerId: string, blockedId: string): Promise<void>;
+  // Whether either user blocked the other
+  isBlockedBetween(userId: string, otherUserId: string): Promise<boolean>;
+}
+
+export const supabaseBlockRepository: BlockRepository = {
+  async listBlocked(blockerId) {
+    const { data, error } = await supabase
+      .from('blocked_users')
+      .select('*')
+      .eq('blocker_id', blockerId)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      throw error;
+    }
+
+    return data || [];
+  },
+
+  async block(blockerId, blockedId) {
+    const { error } = await supabase
+      .from('blocked_users')
+      .upsert(
+        { blocker_id: blockerId, blocked_id: blockedId, created_at: new Date().toISOString() },
+        { onConflict: 'blocker_id,blocked_id', ignoreDuplicates: true }
+      );
+
+    if (error) {
+      throw error;
+    }
+  },
+
+  async unblock(blockerId, blockedId) {
+    const { error } = await supabase
+      .from('blocked_users')
+      .delete()
+      .match({ blocker_id: blockerId, blocked_id: blockedId });
+
+    if (error) {
+      throw error;
+    }
+  },
+
+  async isBlockedBetween(userId, otherUserId) {
+    // Both users can see a block, so one query covers either direction
+    const { data, error } = await supabase
+      .from('blocked_users')
+      .select('blocker_id')
+      .or(
+        `and(blocker_id.eq.${userId},blocked_id.eq.${otherUserId}),` +
+        `and(blocker_id.eq.${otherUserId},blocked_id.eq.${userId})`
+      )
+      .limit(1);
+
+    if (error) {
+      throw error;
+    }
+
+    return (data || []).length > 0;
+  },
+};
+
+/**
+ * Blocks kept in memory, seeded with copies of the given fixtures
+ */
+export function createMemoryBlockRepository(fixtures: BlockedUser[]): BlockRepository {
+  let blocks = fixtures.map(block => ({ ...block }));
+
+  return {
+    async listBlocked(blockerId) {
+      await simulateLatency();
+      return blocks
+        .filter(block => block.blocker_id === blockerId)
+        .sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime());
+    },
+
+    async block(blockerId, blockedId) {
+      await simulateLatency();
+      if (!blocks.some(block => block.blocker_id === blockerId && block.blocked_id === blockedId)) {
+        blocks = [...blocks, { blocker_id: blockerId, blocked_id: blockedId, created_at: new Date().toISOString() }];
+      }
+    },
+
+    async unblock(blockerId, blockedId) {
+      await simulateLatency();
+      blocks = blocks.filter(block => !(block.blocker_id === blockerId && block.blocked_id === blockedId));
+    },
+
+    async isBlockedBetween(userId, otherUserId) {
+      await simulateLatency();
+      return blocks.some(block =>
+        (block.blocker_id === userId && block.blocked_id === otherUserId) ||
+        (block.blocker_id === otherUserId && block.blocked_id === userId)
+      );
+    },
+  };
+}
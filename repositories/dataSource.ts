@@ -0,0 +1,173 @@
+/**
+ * The one place that decides whether data comes from Supabase or from the
+ * in-memory repositories. Services call repositories and never check this themselves.
+ */
+
+export type DataSourceMode = 'supabase' | 'memory';
+
+export interface DataSourceConfig {
+  // Where repositories read and write by default
+  mode: DataSourceMode;
+  // Move a table to the in-memory repository when Supabase reports it does not exist
+  fallbackToMemory: boolean;
+  // Delay added to in-memory calls so loading states behave as they do over the network
+  memoryLatencyMs: number;
+}
+
+const config: DataSourceConfig = {
+  mode: 'supabase',
+  fallbackToMemory: true,
+  memoryLatencyMs: 300,
+};
+
+// Tables that turned out not to exist, and are served from memory from then on
+const missingTables = new Set<string>();
+
+// SQL that creates each table, suggested when a table is missing
+const SETUP_SCRIPTS: Record<string, string> = {
+  book_listings: 'docs/schema/book_listings.sql',
+  user_profiles: 'scripts/create_user_profiles_table.sql',
+  saved_items: 'scripts/create_saved_items_table.sql',
+  conversations: 'scripts/create_conversation_tables.sql',
+  messages: 'scripts/create_conversation_tables.sql',
+  listing_images: 'scripts/create_listing_images_table.sql',
+  reviews: 'scripts/create_reviews_table.sql',
+  seller_ratings: 'scripts/create_reviews_table.sql',
+  swap_proposals: 'scripts/create_swap_proposals_table.sql',
+  saved_searches: 'scripts/create_saved_searches_table.sql',
+  wanted_books: 'scripts/create_wanted_books_tables.sql',
+  wanted_book_matches: 'scripts/create_wanted_books_tables.sql',
+  notifications: 'scripts/create_notifications_table.sql',
+  reports: 'scripts/create_reports_table.sql',
+  blocked_users: 'scripts/create_blocked_users_table.sql',
+  transactions: 'scripts/create_transactions_table.sql',
+  push_settings: 'scripts/create_push_settings_table.sql',
+};
+
+/**
+ * Change the data source, e.g. `configureDataSource({ mode: 'memory' })` for
+ * development without a Supabase project. Tables detected as missing are forgotten.
+ */
+export function configureDataSource(options: Partial<DataSourceConfig>): void {
+  Object.assign(config, options);
+  missingTables.clear();
+}
+
+export function getDataSourceConfig(): Readonly<DataSourceConfig> {
+  return config;
+}
+
+// Helper function to check if an error is "table does not exist"
+export function isTableNotExistError(error: any): boolean {
+  return !!error && error.code === '42P01'; // PostgreSQL error code for "relation does not exist"
+}
+
+// Helper function to check if a .single() query found no row
+export function isRowNotFoundError(error: any): boolean {
+  return !!error && error.code === 'PGRST116';
+}
+
+/**
+ * Whether a table is currently served by the in-memory repositories
+ */
+export function usesMemory(table: string): boolean {
+  return config.mode === 'memory' || missingTables.has(table);
+}
+
+/**
+ * Switch a table to in-memory data if the error says it does not exist
+ * @returns Whether the caller should retry against memory
+ */
+export function handleMissingTable(table: string, error: unknown): boolean {
+  if (!isTableNotExistError(error) || !config.fallbackToMemory) {
+    return false;
+  }
+
+  if (!missingTables.has(table)) {
+    missingTables.add(table);
+    console.warn(`${table} table does not exist, falling back to mock data`);
+    if (SETUP_SCRIPTS[table]) {
+      console.info(`To fix this issue, run the SQL script in ${SETUP_SCRIPTS[table]}`);
+    }
+  }
+  return true;
+}
+
+// One page of a table that is browsed by page number, as in the admin dashboard
+export interface TablePageRequest {
+  // Counts from 0
+  page: number;
+  pageSize: number;
+}
+
+export interface TablePage<T> {
+  rows: T[];
+  // Rows on all pages together
+  total: number;
+}
+
+/**
+ * The first and last row of a page, as `.range()` takes them
+ */
+export function toRowRange({ page, pageSize }: TablePageRequest): [number, number] {
+  return [page * pageSize, (page + 1) * pageSize - 1];
+}
+
+/**
+ * Cut a page out of rows that are already in order, for in-memory repositories
+ */
+export function sliceTablePage<T>(rows: T[], request: TablePageRequest): TablePage<T> {
+  const [from, to] = toRowRange(request);
+  return { rows: rows.slice(from, to + 1), total: rows.length };
+}
+
+/**
+ * Wait as long as a request would, for in-memory repositories
+ */
+export function simulateLatency(): Promise<void> {
+  if (config.memoryLatencyMs <= 0) {
+    return Promise.resolve();
+  }
+  return new Promise(resolve => setTimeout(resolve, config.memoryLatencyMs));
+}
+
+// The table named in a "relation does not exist" message, if it is one of ours
+function getMissingTable(error: any, tables: string[]): string {
+  const match = typeof error?.message === 'string' ? error.message.match(/relation "(?:\w+\.)?(\w+)"/) : null;
+  return match && tables.includes(match[1]) ? match[1] : tables[0];
+}
+
+/**
+ * Combine the Supabase and in-memory versions of a repository. Calls go to
+ * memory while any of the tables does, and a call that finds one of the tables
+ * missing is retried against memory.
+ */
+export function withTableFallback<T extends object>(tables: string[], supabaseImpl: T, memoryImpl: T): T {
+  const repository = {} as T;
+
+  (Object.keys(supabaseImpl) as (keyof T)[]).forEach(key => {
+    const viaSupabase = supabaseImpl[key] as unknown as (...args: any[]) => any;
+    const viaMemory = memoryImpl[key] as unknown as (...args: any[]) => any;
+
+    repository[key] = ((...args: any[]) => {
+      // A repository without tables, such as auth, only follows the mode
+      if (config.mode === 'memory' || tables.some(usesMemory)) {
+        return viaMemory(...args);
+      }
+
+      const result = viaSupabase(...args);
+      if (!(result instanceof Promise)) {
+        return result;
+      }
+
+      return result.catch(error => {
+        if (tables.length === 0 || !handleMissingTable(getMissingTable(error, tables), error)) {
+          throw error;
+        }
+        return viaMemory(...args);
+      });
+    }) as T[keyof T];
+  });
+
+  return repository;
+}
@@ -0,0 +1,226 @@
+import type { BookListing } from '../services/BookService';
+import type { Conversation, Message } from '../services/MessageService';
+import type { SavedSearch } from '../services/SavedSearchService';
+import type { WantedBook } from '../services/WantedBookService';
+import type { AppNotification } from '../services/NotificationService';
+import type { Report } from '../services/ReportService';
+import type { BlockedUser } from '../services/BlockService';
+import type { Transaction } from '../services/TransactionService';
+import type { Review } from '../services/ReviewService';
+import type { SwapProposal } from '../services/ExchangeService';
+import type { ListingImage } from '../services/ListingImageService';
+import { mockConversations, mockListings, mockMessages, mockReviews, mockUsers, MockUser } from '../utils/mockData';
+import { PushKind, describeSwapOffer } from '../utils/chatPush';
+import { withTableFallback } from './dataSource';
+import { ListingRepository, createMemoryListingRepository, supabaseListingRepository } from './listingRepository';
+import { SavedItemKey, SavedItemRepository, createMemorySavedItemRepository, supabaseSavedItemRepository } from './savedItemRepository';
+import { SavedSearchRepository, createMemorySavedSearchRepository, supabaseSavedSearchRepository } from './savedSearchRepository';
+import { WantedBookRepository, createMemoryWantedBookRepository, supabaseWantedBookRepository } from './wantedBookRepository';
+import { NotificationRepository, createMemoryNotificationRepository, supabaseNotificationRepository } from './notificationRepository';
+import { ReportRepository, createMemoryReportRepository, supabaseReportRepository } from './reportRepository';
+import { BlockRepository, createMemoryBlockRepository, supabaseBlockRepository } from './blockRepository';
+import { TransactionRepository, createMemoryTransactionRepository, supabaseTransactionRepository } from './transactionRepository';
+import { ReviewRepository, createMemoryReviewRepository, supabaseReviewRepository } from './reviewRepository';
+import { SwapProposalRepository, createMemorySwapProposalRepository, supabaseSwapProposalRepository } from './swapProposalRepository';
+import { ListingImageRepository, createMemoryListingImageRepository, supabaseListingImageRepository } from './listingImageRepository';
+import {
+  PushSettingsRepository,
+  PushSettingsRow,
+  createMemoryPushSettingsRepository,
+  supabasePushSettingsRepository,
+} from './pushSettingsRepository';
+import {
+  AuthRepository,
+  UserRepository,
+  createMemoryAuthRepository,
+  createMemoryUserRepository,
+  supabaseAuthRepository,
+  supabaseUserRepository,
+  toProfileRow,
+} from './userRepository';
+import {
+  ConversationRepository,
+  MessageRepository,
+  createMemoryMessagingRepositories,
+  supabaseConversationRepository,
+  supabaseMessageRepository,
+} from './messagingRepository';
+
+export * from './dataSource';
+export type { ListingRepository, ListingPageRequest } from './listingRepository';
+export type { SavedItemKey, SavedItemRepository } from './savedItemRepository';
+export type { SavedSearchRepository } from './savedSearchRepository';
+export type { WantedBookRepository } from './wantedBookRepository';
+export type { NotificationRepository } from './notificationRepository';
+export type { ReportRepository } from './reportRepository';
+export type { BlockRepository } from './blockRepository';
+export type { TransactionRepository } from './transactionRepository';
+export type { ReviewRepository } from './reviewRepository';
+export type { SwapProposalRepository } from './swapProposalRepository';
+export type { ListingImageRepository } from './listingImageRepository';
+export type { PushMuteSettings, PushSettingsRepository, PushSettingsRow } from './pushSettingsRepository';
+export type { AuthCredentials, AuthRepository, AuthUser, UserProfileRow, UserRepository } from './userRepository';
+export type { ChangeFilter, ConversationRepository, MessageRepository, NewConversation, NewMessage } from './messagingRepository';
+
+export interface Repositories {
+  auth: AuthRepository;
+  users: UserRepository;
+  listings: ListingRepository;
+  savedItems: SavedItemRepository;
+  savedSearches: SavedSearchRepository;
+  wantedBooks: WantedBookRepository;
+  notifications: NotificationRepository;
+  reports: ReportRepository;
+  blocks: BlockRepository;
+  transactions: TransactionRepository;
+  reviews: ReviewRepository;
+  swapProposals: SwapProposalRepository;
+  listingImages: ListingImageRepository;
+  pushSettings: PushSettingsRepository;
+  conversations: ConversationRepository;
+  messages: MessageRepository;
+}
+
+// Data the in-memory repositories start with. Anything left out uses utils/mockData.
+export interface RepositoryFixtures {
+  users?: MockUser[];
+  listings?: BookListing[];
+  savedItems?: SavedItemKey[];
+  savedSearches?: SavedSearch[];
+  wantedBooks?: WantedBook[];
+  notifications?: AppNotification[];
+  reports?: Report[];
+  blockedUsers?: BlockedUser[];
+  transactions?: Transaction[];
+  reviews?: Review[];
+  swapProposals?: SwapProposal[];
+  listingImages?: ListingImage[];
+  pushSettings?: PushSettingsRow[];
+  conversations?: Conversation[];
+  messages?: Message[];
+  // Who is signed in; defaults to the first user, null for nobody
+  currentUserId?: string | null;
+}
+
+function createRepositories(fixtures: RepositoryFixtures = {}): Repositories {
+  const users = fixtures.users || mockUsers;
+  const currentUserId = fixtures.currentUserId !== undefined ? fixtures.currentUserId : users[0]?.id ?? null;
+  // The callbacks stand in for the database triggers that notify users and send pushes
+  const listings = createMemoryListingRepository(
+    fixtures.listings || mockListings,
+    (previous, updated) => notifications.notifyListingUpdated(previous, updated),
+    listing => notifications.notifyListingDeleted(listing)
+  );
+  const pushSettings = createMemoryPushSettingsRepository(fixtures.pushSettings || []);
+
+  // Push to the receiver with the sender's name and the listing's title, as
+  // send_chat_push does in the database
+  const sendChatPush = async (receiverId: string, senderId: string, conversationId: string, kind: PushKind, body: string) => {
+    const conversation = await messaging.conversations.getById(conversationId);
+    const listing = conversation ? await listings.getById(conversation.listing_id) : null;
+    await pushSettings.sendChatPush(receiverId, {
+      kind,
+      conversationId,
+      otherUserName: users.find(user => user.id === senderId)?.name || 'User',
+      listingTitle: listing?.title || 'Book',
+      body,
+    });
+  };
+
+  const messaging = createMemoryMessagingRepositories(
+    {
+      conversations: fixtures.conversations || mockConversations,
+      messages: fixtures.messages || mockMessages,
+    },
+    async message => {
+      await notifications.notifyMessage(message);
+      await sendChatPush(message.receiver_id, message.sender_id, message.conversation_id, 'message', message.content);
+    }
+  );
+  const savedItems = createMemorySavedItemRepository(fixtures.savedItems || []);
+  const notifications = createMemoryNotificationRepository(fixtures.notifications || [], bookId => savedItems.listUserIds(bookId));
+  const transactions = createMemoryTransactionRepository(fixtures.transactions || [], messaging.conversations, listings);
+
+  return {
+    // Auth has no table of its own, so it only uses memory when the whole data source does
+    auth: withTableFallback(
+      [],
+      supabaseAuthRepository,
+      createMemoryAuthRepository(
+        users.map(user => ({ id: user.id, email: user.email, created_at: user.joinDate })),
+        currentUserId
+      )
+    ),
+    users: withTableFallback(['user_profiles'], supabaseUserRepository, createMemoryUserRepository(users.map(toProfileRow))),
+    listings: withTableFallback(['book_listings'], supabaseListingRepository, listings),
+    savedItems: withTableFallback(['saved_items'], supabaseSavedItemRepository, savedItems),
+    savedSearches: withTableFallback(['saved_searches'], supabaseSavedSearchRepository, createMemorySavedSearchRepository(fixtures.savedSearches || [])),
+    wantedBooks: withTableFallback(
+      ['wanted_books', 'wanted_book_matches'],
+      supabaseWantedBookRepository,
+      createMemoryWantedBookRepository(fixtures.wantedBooks || [])
+    ),
+    notifications: withTableFallback(
+      ['notifications'],
+      supabaseNotificationRepository,
+      notifications
+    ),
+    reports: withTableFallback(
+      ['reports'],
+      supabaseReportRepository,
+      createMemoryReportRepository(fixtures.reports || [], listingId => listings.hide(listingId))
+    ),
+    blocks: withTableFallback(['blocked_users'], supabaseBlockRepository, createMemoryBlockRepository(fixtures.blockedUsers || [])),
+    transactions: withTableFallback(
+      ['transactions'],
+      supabaseTransactionRepository,
+      transactions
+    ),
+    reviews: withTableFallback(
+      ['reviews', 'seller_ratings'],
+      supabaseReviewRepository,
+      createMemoryReviewRepository(fixtures.reviews || mockReviews)
+    ),
+    swapProposals: withTableFallback(
+      ['swap_proposals'],
+      supabaseSwapProposalRepository,
+      createMemorySwapProposalRepository(
+        fixtures.swapProposals || [],
+        listings,
+        (listing, buyerId, conversationId) => transactions.addExchange(listing, buyerId, conversationId),
+        proposal => sendChatPush(
+          proposal.proposed_by === proposal.buyer_id ? proposal.seller_id : proposal.buyer_id,
+          proposal.proposed_by,
+          proposal.conversation_id,
+          'offer',
+          describeSwapOffer(proposal.offered_listing_ids.length, proposal.parent_proposal_id !== null)
+        )
+      )
+    ),
+    listingImages: withTableFallback(
+      ['listing_images'],
+      supabaseListingImageRepository,
+      createMemoryListingImageRepository(fixtures.listingImages || [])
+    ),
+    pushSettings: withTableFallback(
+      ['push_settings'],
+      supabasePushSettingsRepository,
+      pushSettings
+    ),
+    conversations: withTableFallback(['conversations'], supabaseConversationRepository, messaging.conversations),
+    messages: withTableFallback(['messages'], supabaseMessageRepository, messaging.messages),
+  };
+}
+
+/**
+ * The repositories services read and write through. The object stays the same;
+ * seedMemoryRepositories swaps what is behind it.
+ */
+export const repositories: Repositories = createRepositories();
+
+/**
+ * Reset the in-memory repositories to the given fixtures, e.g. at the start of a test
+ */
+export function seedMemoryRepositories(fixtures: RepositoryFixtures = {}): void {
+  Object.assign(repositories, createRepositories(fixtures));
+}
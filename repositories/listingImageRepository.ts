@@ -0,0 +1,111 @@
+import { supabase } from '../config/supabase';
+import type { ListingImage, ListingImageRow } from '../services/ListingImageService';
+import { simulateLatency } from './dataSource';
+
+export interface ListingImageRepository {
+  // A listing's photos in gallery order
+  listForListing(listingId: string): Promise<ListingImage[]>;
+  // Make the listing's photos these rows: rows with an id are kept and moved,
+  // rows without one are added, and every other photo is deleted. Returns the
+  // saved photos in gallery order.
+  replaceForListing(listingId: string, rows: ListingImageRow[]): Promise<ListingImage[]>;
+}
+
+function byPosition(a: ListingImage, b: ListingImage): number {
+  return a.position - b.position;
+}
+
+export const supabaseListingImageRepository: ListingImageRepository = {
+  async listForListing(listingId) {
+    const { data, error } = await supabase
+      .from('listing_images')
+      .select('*')
+      .eq('listing_id', listingId)
+      .order('position', { ascending: true });
+
+    if (error) {
+      throw error;
+    }
+
+    return data || [];
+  },
+
+  async replaceForListing(listingId, rows) {
+    const keptIds = rows.filter(row => row.id).map(row => row.id!);
+
+    let removal = supabase
+      .from('listing_images')
+      .delete()
+      .eq('listing_id', listingId);
+
+    if (keptIds.length > 0) {
+      removal = removal.not('id', 'in', `(${keptIds.join(',')})`);
+    }
+
+    const { error: deleteError } = await removal;
+
+    if (deleteError) {
+      throw deleteError;
+    }
+
+    // Clear the old cover first so the one-cover-per-listing index never sees two
+    const { error: coverError } = await supabase
+      .from('listing_images')
+      .update({ is_cover: false })
+      .eq('listing_id', listingId)
+      .eq('is_cover', true);
+
+    if (coverError) {
+      throw coverError;
+    }
+
+    for (const row of rows.filter(item => item.id)) {
+      const { error } = await supabase
+        .from('listing_images')
+        .update({ position: row.position, is_cover: row.is_cover })
+        .eq('id', row.id!);
+
+      if (error) {
+        throw error;
+      }
+    }
+
+    const inserts = rows.filter(row => !row.id).map(({ id, ...row }) => row);
+    if (inserts.length > 0) {
+      const { error } = await supabase.from('listing_images').insert(inserts);
+
+      if (error) {
+        throw error;
+      }
+    }
+
+    return supabaseListingImageRepository.listForListing(listingId);
+  },
+};
+
+/**
+ * Listing photos kept in memory, seeded with copies of the given fixtures
+ */
+export function createMemoryListingImageRepository(fixtures: ListingImage[]): ListingImageRepository {
+  let images = fixtures.map(image => ({ ...image }));
+
+  return {
+    async listForListing(listingId) {
+      await simulateLatency();
+      return images.filter(image => image.listing_id === listingId).sort(byPosition);
+    },
+
+    async replaceForListing(listingId, rows) {
+      await simulateLatency();
+      const now = new Date().toISOString();
+      const saved = rows.map(row => ({
+        ...row,
+        listing_id: listingId,
+        id: row.id || `image-${Math.random().toString(36).substring(2, 9)}`,
+        created_at: images.find(image => image.id === row.id)?.created_at || now,
+      }));
+      images = [...images.filter(image => image.listing_id !== listingId), ...saved];
+      return [...saved].sort(byPosition);
+    },
+  };
+}
@@ -0,0 +1,698 @@
+import { supabase } from '../config/supabase';
+import { haversineDistanceKm, GeoPoint } from '../utils/location';
+import { rankSearchMatch, toTsQuery, SearchTerm, SEARCH_WEIGHTS } from '../utils/search';
+import type {
+  BookFilterOptions,
+  BookListing,
+  BookListingUpdate,
+  CreateBookListing,
+  ListingCursor,
+  ListingPage,
+  ListingStatus,
+  ModerationState,
+} from '../services/BookService';
+import type { AdminListingFilter } from '../services/AdminService';
+import type { StoredImageRef } from '../services/ImageService';
+import { TablePage, TablePageRequest, simulateLatency, sliceTablePage, toRowRange } from './dataSource';
+
+export interface ListingPageRequest {
+  cursor: ListingCursor | null;
+  limit: number;
+}
+
+export interface ListingRepository {
+  // One page of active listings matching the filters, newest first
+  listActive(filters: BookFilterOptions, page: ListingPageRequest): Promise<ListingPage>;
+  // One page of active listings matching a parsed search and the filters, most relevant first
+  search(terms: SearchTerm[], filters: BookFilterOptions, page: ListingPageRequest): Promise<ListingPage>;
+  // Active listings created after the given time that match the filters and, if
+  // there are any, the search terms, newest first
+  listActiveSince(filters: BookFilterOptions, terms: SearchTerm[], since: string): Promise<BookListing[]>;
+  getById(id: string): Promise<BookListing | null>;
+  getByIds(ids: string[]): Promise<BookListing[]>;
+  // A seller's listings in any of the statuses (all of them if none are given), newest first
+  listBySeller(sellerId: string, statuses?: ListingStatus[]): Promise<BookListing[]>;
+  create(listing: CreateBookListing): Promise<BookListing>;
+  update(id: string, updates: BookListingUpdate): Promise<BookListing>;
+  // Delete a listing and its gallery rows, returning the photos that belonged to it
+  delete(id: string): Promise<StoredImageRef[]>;
+  // One page of every listing in any status, hidden and unapproved ones included,
+  // newest first. Only admins can see all of them.
+  listAll(filter: AdminListingFilter, page: TablePageRequest): Promise<TablePage<BookListing>>;
+  // Hide listings from everyone but their sellers, or show them again
+  setHidden(ids: string[], hidden: boolean): Promise<void>;
+  // Approve or reject listings, with the reason given to their sellers
+  setModeration(ids: string[], state: ModerationState, reason: string | null): Promise<void>;
+}
+
+export interface MemoryListingRepository extends ListingRepository {
+  // Hide a reported listing from everyone but its seller
+  hide(id: string): void;
+}
+
+const IMAGE_REF_COLUMNS = 'image_url, image_path, thumbnail_url, thumbnail_path';
+
+// Listings created before statuses existed have no status and count as active, and
+// those created before the approval queue count as approved. Hidden and unapproved
+// listings are left out the way the select policy leaves them out for buyers.
+function isActiveListing(listing: BookListing): boolean {
+  return (listing.status || 'active') === 'active' &&
+    (listing.moderation_state || 'approved') === 'approved' &&
+    !listing.hidden_at;
+}
+
+function matchesAdminFilter(listing: BookListing, filter: AdminListingFilter): boolean {
+  switch (filter) {
+    case 'pending':
+      return listing.moderation_state === 'pending';
+    case 'hidden':
+      return !!listing.hidden_at;
+    default:
+      return true;
+  }
+}
+
+/**
+ * Attach the distance from the search center to each listing that has coordinates
+ * and drop listings outside the radius
+ */
+function filterByDistance(listings: BookListing[], center: GeoPoint, radiusKm: number): BookListing[] {
+  return listings
+    .filter(listing => listing.latitude != null && listing.longitude != null)
+    .map(listing => ({
+      ...listing,
+      distance_km: haversineDistanceKm(center, {
+        latitude: listing.latitude!,
+        longitude: listing.longitude!
+      })
+    }))
+    .filter(listing => listing.distance_km <= radiusKm);
+}
+
+/**
+ * Keep the listings that match the filters, the same way the database query does.
+ * A location filter also attaches each listing's distance.
+ */
+function filterListings(listings: BookListing[], filters: BookFilterOptions): BookListing[] {
+  let results = listings;
+
+  if (filters.categories && filters.categories.length > 0) {
+    results = results.filter(listing => listing.category && filters.categories!.includes(listing.category));
+  }
+
+  if (filters.conditions && filters.conditions.length > 0) {
+    results = results.filter(listing => filters.conditions!.includes(listing.condition));
+  }
+
+  if (filters.minPrice !== undefined) {
+    results = results.filter(listing => listing.price >= filters.minPrice!);
+  }
+
+  if (filters.maxPrice !== undefined) {
+    results = results.filter(listing => listing.price <= filters.maxPrice!);
+  }
+
+  if (filters.isNegotiable !== undefined) {
+    results = results.filter(listing => listing.is_negotiable === filters.isNegotiable);
+  }
+
+  if (filters.exchangeOption !== undefined) {
+    results = results.filter(listing => listing.exchange_option === filters.exchangeOption);
+  }
+
+  if (filters.excludeSellerIds && filters.excludeSellerIds.length > 0) {
+    results = results.filter(listing => !filters.excludeSellerIds!.includes(listing.seller_id));
+  }
+
+  if (filters.center && filters.radiusKm !== undefined) {
+    results = filterByDistance(results, filters.center, filters.radiusKm);
+  }
+
+  return results;
+}
+
+function compareNewestFirst(a: BookListing, b: BookListing): number {
+  if (a.created_at !== b.created_at) {
+    return new Date(b.created_at).getTime() - new Date(a.created_at).getTime();
+  }
+  return b.id < a.id ? -1 : b.id > a.id ? 1 : 0;
+}
+
+// Search results are ordered by relevance and location results by distance
+// before the newest-first order of the feed
+function compareFeedOrder(a: BookListing, b: BookListing): number {
+  if (a.search_rank !== undefined && b.search_rank !== undefined) {
+    if (a.search_rank !== b.search_rank) {
+      return b.search_rank - a.search_rank;
+    }
+  } else if (a.distance_km !== undefined && b.distance_km !== undefined && a.distance_km !== b.distance_km) {
+    return a.distance_km - b.distance_km;
+  }
+  return compareNewestFirst(a, b);
+}
+
+function isAfterCursor(listing: BookListing, cursor: ListingCursor): boolean {
+  return compareFeedOrder(listing, {
+    ...listing,
+    created_at: cursor.created_at,
+    id: cursor.id,
+    search_rank: cursor.rank,
+    distance_km: cursor.distance_km
+  }) > 0;
+}
+
+function toCursor(listing: BookListing): ListingCursor {
+  if (listing.search_rank !== undefined) {
+    return { created_at: listing.created_at, id: listing.id, rank: listing.search_rank };
+  }
+  if (listing.distance_km !== undefined) {
+    return { created_at: listing.created_at, id: listing.id, distance_km: listing.distance_km };
+  }
+  return { created_at: listing.created_at, id: listing.id };
+}
+
+/**
+ * Relevance of a listing for a parsed search, using the same fields and weights
+ * as the fts column in docs/schema/book_listings.sql
+ */
+function rankListing(listing: BookListing, terms: SearchTerm[]): number {
+  return rankSearchMatch([
+    { text: listing.title, weight: SEARCH_WEIGHTS.A },
+    { text: listing.author, weight: SEARCH_WEIGHTS.B },
+    { text: listing.description, weight: SEARCH_WEIGHTS.C },
+    { text: listing.category, weight: SEARCH_WEIGHTS.D }
+  ], terms);
+}
+
+/**
+ * Cut one page out of an in-memory result set, the same way the database query does
+ */
+function paginate(listings: BookListing[], { cursor, limit }: ListingPageRequest): ListingPage {
+  const remaining = [...listings]
+    .sort(compareFeedOrder)
+    .filter(listing => !cursor || isAfterCursor(listing, cursor));
+  const page = remaining.slice(0, limit);
+
+  return {
+    listings: page,
+    nextCursor: remaining.length > limit ? toCursor(page[page.length - 1]) : null
+  };
+}
+
+/**
+ * Restrict a listing query to the columns the filters constrain. The location
+ * filter is not a column; location searches go through listWithinRadius instead.
+ */
+function applyFilters<Q extends {
+  eq(column: string, value: unknown): Q;
+  in(column: string, values: unknown[]): Q;
+  gte(column: string, value: unknown): Q;
+  lte(column: string, value: unknown): Q;
+  not(column: string, operator: string, value: unknown): Q;
+}>(query: Q, filters: BookFilterOptions): Q {
+  if (filters.categories && filters.categories.length > 0) {
+    query = query.in('category', filters.categories);
+  }
+
+  if (filters.conditions && filters.conditions.length > 0) {
+    query = query.in('condition', filters.conditions);
+  }
+
+  if (filters.minPrice !== undefined) {
+    query = query.gte('price', filters.minPrice);
+  }
+
+  if (filters.maxPrice !== undefined) {
+    query = query.lte('price', filters.maxPrice);
+  }
+
+  if (filters.isNegotiable !== undefined) {
+    query = query.eq('is_negotiable', filters.isNegotiable);
+  }
+
+  if (filters.exchangeOption !== undefined) {
+    query = query.eq('exchange_option', filters.exchangeOption);
+  }
+
+  if (filters.excludeSellerIds && filters.excludeSellerIds.length > 0) {
+    query = query.not('seller_id', 'in', `(${filters.excludeSellerIds.join(',')})`);
+  }
+
+  return query;
+}
+
+/**
+ * Active listings matching the filters other than the location. Approval and
+ * hiding are filtered here as well, since row level security lets admins and
+ * sellers read listings that are not in the feed.
+ */
+function queryListings(filters: BookFilterOptions) {
+  return applyFilters(
+    supabase
+      .from('book_listings')
+      .select('*')
+      .eq('status', 'active')
+      .eq('moderation_state', 'approved')
+      .is('hidden_at', null),
+    filters
+  );
+}
+
+/**
+ * The filters as arguments of the listing functions in docs/schema/book_listings.sql,
+ * which take null for a filter that is not set
+ */
+function toFilterParams(filters: BookFilterOptions) {
+  const orNull = <T>(values: T[] | undefined) => values && values.length > 0 ? values : null;
+
+  return {
+    filter_categories: orNull(filters.categories),
+    filter_conditions: orNull(filters.conditions),
+    min_price: filters.minPrice ?? null,
+    max_price: filters.maxPrice ?? null,
+    filter_is_negotiable: filters.isNegotiable ?? null,
+    filter_exchange_option: filters.exchangeOption ?? null,
+    exclude_seller_ids: orNull(filters.excludeSellerIds)
+  };
+}
+
+/**
+ * The location filter as arguments of search_book_listings, null when it is not set
+ */
+function toLocationParams({ center, radiusKm }: BookFilterOptions) {
+  return center !== undefined && radiusKm !== undefined
+    ? { center_lat: center.latitude, center_lng: center.longitude, radius_km: radiusKm }
+    : { center_lat: null, center_lng: null, radius_km: null };
+}
+
+/**
+ * Active listings within the radius that match the filters, nearest first, with
+ * their distance. The radius function sorts and pages, so a page is never cut short.
+ */
+async function listWithinRadius(
+  filters: BookFilterOptions,
+  center: GeoPoint,
+  radiusKm: number,
+  { page, createdAfter }: { page?: ListingPageRequest; createdAfter?: string }
+): Promise<BookListing[]> {
+  const { data, error } = await supabase.rpc('book_listings_within_radius', {
+    center_lat: center.latitude,
+    center_lng: center.longitude,
+    radius_km: radiusKm,
+    ...toFilterParams(filters),
+    created_after: createdAfter ?? null,
+    after_distance: page?.cursor?.distance_km ?? null,
+    after_created_at: page?.cursor?.created_at ?? null,
+    after_id: page?.cursor?.id ?? null,
+    page_limit: page?.limit ?? null
+  });
+
+  if (error) {
+    throw error;
+  }
+
+  const rows: { listing: BookListing; distance_km: number }[] = data || [];
+  return rows.map(row => ({ ...row.listing, distance_km: row.distance_km }));
+}
+
+/**
+ * Restrict a listing query to rows after the cursor and fetch one page in feed order.
+ * Values are quoted because timestamps contain characters PostgREST treats as syntax.
+ */
+function applyPage<Q extends {
+  or(filters: string): Q;
+  order(column: string, options?: { ascending?: boolean }): Q;
+  limit(count: number): Q;
+}>(query: Q, { cursor, limit }: ListingPageRequest): Q {
+  if (cursor) {
+    query = query.or(
+      `created_at.lt."${cursor.created_at}",and(created_at.eq."${cursor.created_at}",id.lt."${cursor.id}")`
+    );
+  }
+
+  return query
+    .order('created_at', { ascending: false })
+    .order('id', { ascending: false })
+    .limit(limit);
+}
+
+/**
+ * Build a page from database rows. A full page means there may be more to load.
+ */
+function toListingPage(rows: BookListing[] | null, { limit }: ListingPageRequest): ListingPage {
+  const listings = rows || [];
+  return {
+    listings,
+    nextCursor: listings.length === limit ? toCursor(listings[listings.length - 1]) : null
+  };
+}
+
+export const supabaseListingRepository: ListingRepository = {
+  async listActive(filters, page) {
+    const { center, radiusKm } = filters;
+
+    if (center !== undefined && radiusKm !== undefined) {
+      return toListingPage(await listWithinRadius(filters, center, radiusKm, { page }), page);
+    }
+
+    const { data, error } = await applyPage(queryListings(filters), page);
+
+    if (error) {
+      throw error;
+    }
+
+    return toListingPage(data, page);
+  },
+
+  async search(terms, filters, page) {
+    const { data, error } = await supabase.rpc('search_book_listings', {
+      search_query: toTsQuery(terms),
+      ...toFilterParams(filters),
+      ...toLocationParams(filters),
+      after_rank: page.cursor?.rank ?? null,
+      after_created_at: page.cursor?.created_at ?? null,
+      after_id: page.cursor?.id ?? null,
+      page_limit: page.limit
+    });
+
+    if (error) {
+      throw error;
+    }
+
+    // The distance is only known for a search within a radius
+    const rows: { listing: BookListing; rank: number; distance_km: number | null }[] = data || [];
+    return toListingPage(
+      rows.map(row => ({
+        ...row.listing,
+        search_rank: row.rank,
+        ...(row.distance_km !== null ? { distance_km: row.distance_km } : {})
+      })),
+      page
+    );
+  },
+
+  async listActiveSince(filters, terms, since) {
+    const { center, radiusKm } = filters;
+    let listings: BookListing[];
+
+    if (center !== undefined && radiusKm !== undefined) {
+      listings = (await listWithinRadius(filters, center, radiusKm, { createdAfter: since })).sort(compareNewestFirst);
+    } else {
+      const { data, error } = await queryListings(filters)
+        .gt('created_at', since)
+        .order('created_at', { ascending: false });
+
+      if (error) {
+        throw error;
+      }
+
+      listings = data || [];
+    }
+
+    // Only listings created since the last check are fetched, so matching the
+    // search terms here is cheap
+    return listings.filter(listing => terms.length === 0 || rankListing(listing, terms) > 0);
+  },
+
+  async getById(id) {
+    const { data, error } = await supabase
+      .from('book_listings')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) {
+      throw error;
+    }
+
+    return data;
+  },
+
+  async getByIds(ids) {
+    if (ids.length === 0) {
+      return [];
+    }
+
+    const { data, error } = await supabase
+      .from('book_listings')
+      .select('*')
+      .in('id', ids);
+
+    if (error) {
+      throw error;
+    }
+
+    return data || [];
+  },
+
+  async listBySeller(sellerId, statuses) {
+    let query = supabase
+      .from('book_listings')
+      .select('*')
+      .eq('seller_id', sellerId);
+
+    if (statuses && statuses.length > 0) {
+      query = query.in('status', statuses);
+    }
+
+    const { data, error } = await query.order('created_at', { ascending: false });
+
+    if (error) {
+      throw error;
+    }
+
+    return data || [];
+  },
+
+  async create(listing) {
+    const { data, error } = await supabase
+      .from('book_listings')
+      .insert(listing)
+      .select()
+      .single();
+
+    if (error) {
+      throw error;
+    }
+
+    return data;
+  },
+
+  async update(id, updates) {
+    const { data, error } = await supabase
+      .from('book_listings')
+      .update(updates)
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) {
+      throw error;
+    }
+
+    return data;
+  },
+
+  async delete(id) {
+    // Look up the listing's photos first; the gallery rows are deleted along with the listing
+    const { data: listing } = await supabase
+      .from('book_listings')
+      .select(IMAGE_REF_COLUMNS)
+      .eq('id', id)
+      .maybeSingle();
+
+    // Errors here (e.g. no listing_images table yet) just mean there are no gallery photos
+    const { data: images } = await supabase
+      .from('listing_images')
+      .select(IMAGE_REF_COLUMNS)
+      .eq('listing_id', id);
+
+    const { error } = await supabase
+      .from('book_listings')
+      .delete()
+      .eq('id', id);
+
+    if (error) {
+      throw error;
+    }
+
+    return [...(listing ? [listing] : []), ...(images || [])];
+  },
+
+  async listAll(filter, page) {
+    let query = supabase
+      .from('book_listings')
+      .select('*', { count: 'exact' });
+
+    if (filter === 'pending') {
+      query = query.eq('moderation_state', 'pending');
+    } else if (filter === 'hidden') {
+      query = query.not('hidden_at', 'is', null);
+    }
+
+    const { data, error, count } = await query
+      .order('created_at', { ascending: false })
+      .order('id', { ascending: false })
+      .range(...toRowRange(page));
+
+    if (error) {
+      throw error;
+    }
+
+    return { rows: data || [], total: count ?? 0 };
+  },
+
+  async setHidden(ids, hidden) {
+    if (ids.length === 0) {
+      return;
+    }
+
+    const { error } = await supabase
+      .from('book_listings')
+      .update({ hidden_at: hidden ? new Date().toISOString() : null })
+      .in('id', ids);
+
+    if (error) {
+      throw error;
+    }
+  },
+
+  async setModeration(ids, state, reason) {
+    if (ids.length === 0) {
+      return;
+    }
+
+    const { error } = await supabase
+      .from('book_listings')
+      .update({ moderation_state: state, moderation_reason: reason })
+      .in('id', ids);
+
+    if (error) {
+      throw error;
+    }
+  },
+};
+
+/**
+ * Listings kept in memory, seeded with copies of the given fixtures
+ */
+export function createMemoryListingRepository(
+  fixtures: BookListing[],
+  // Called for every update, as the notify_listing_price_drop and notify_listing_status_change triggers are
+  onUpdated: (previous: BookListing, updated: BookListing) => Promise<unknown> = async () => {},
+  // Called before every delete, as the notify_listing_deleted trigger is
+  onDeleting: (listing: BookListing) => Promise<unknown> = async () => {}
+): MemoryListingRepository {
+  let listings = fixtures.map(listing => ({ ...listing }));
+
+  function find(id: string): BookListing {
+    const listing = listings.find(item => item.id === id);
+    if (!listing) {
+      throw new Error('Listing not found');
+    }
+    return listing;
+  }
+
+  return {
+    async listActive(filters, page) {
+      await simulateLatency();
+      return paginate(filterListings(listings.filter(isActiveListing), filters), page);
+    },
+
+    async search(terms, filters, page) {
+      await simulateLatency();
+      const ranked = filterListings(listings.filter(isActiveListing), filters)
+        .map(listing => ({ ...listing, search_rank: rankListing(listing, terms) }))
+        .filter(listing => listing.search_rank > 0);
+      return paginate(ranked, page);
+    },
+
+    async listActiveSince(filters, terms, since) {
+      await simulateLatency();
+      const sinceTime = new Date(since).getTime();
+      return filterListings(listings.filter(isActiveListing), filters)
+        .filter(listing =>
+          new Date(listing.created_at).getTime() > sinceTime &&
+          (terms.length === 0 || rankListing(listing, terms) > 0)
+        )
+        .sort(compareNewestFirst);
+    },
+
+    async getById(id) {
+      await simulateLatency();
+      return listings.find(listing => listing.id === id) || null;
+    },
+
+    async getByIds(ids) {
+      await simulateLatency();
+      return listings.filter(listing => ids.includes(listing.id));
+    },
+
+    async listBySeller(sellerId, statuses) {
+      await simulateLatency();
+      return listings
+        .filter(listing =>
+          listing.seller_id === sellerId &&
+          (!statuses || statuses.length === 0 || statuses.includes(listing.status || 'active'))
+        )
+        .sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime());
+    },
+
+    async create(listing) {
+      await simulateLatency();
+      const created: BookListing = {
+        id: `mock-${Math.random().toString(36).substring(2, 15)}`,
+        ...listing,
+        status: 'active',
+        created_at: new Date().toISOString()
+      };
+      listings = [...listings, created];
+      return created;
+    },
+
+    async update(id, updates) {
+      await simulateLatency();
+      const previous = find(id);
+      const updated = { ...previous, ...updates };
+      listings = listings.map(listing => listing.id === id ? updated : listing);
+      await onUpdated(previous, updated);
+      return updated;
+    },
+
+    async delete(id) {
+      await simulateLatency();
+      const listing = listings.find(item => item.id === id);
+      if (listing) {
+        await onDeleting(listing);
+      }
+      listings = listings.filter(item => item.id !== id);
+      return listing ? [listing] : [];
+    },
+
+    async listAll(filter, page) {
+      await simulateLatency();
+      return sliceTablePage(
+        listings.filter(listing => matchesAdminFilter(listing, filter)).sort(compareFeedOrder),
+        page
+      );
+    },
+
+    async setHidden(ids, hidden) {
+      await simulateLatency();
+      const hiddenAt = hidden ? new Date().toISOString() : null;
+      listings = listings.map(listing => ids.includes(listing.id) ? { ...listing, hidden_at: hiddenAt } : listing);
+    },
+
+    async setModeration(ids, state, reason) {
+      await simulateLatency();
+      listings = listings.map(listing =>
+        ids.includes(listing.id) ? { ...listing, moderation_state: state, moderation_reason: reason } : listing
+      );
+    },
+
+    hide(id) {
+      const hiddenAt = new Date().toISOString();
+      listings = listings.map(listing => listing.id === id && !listing.hidden_at ? { ...listing, hidden_at: hiddenAt } : listing);
+    },
+  };
+}
@@ -0,0 +1,423 @@
+import { RealtimePostgresChangesPayload } from '@supabase/supabase-js';
+import { supabase } from '../config/supabase';
+import type {
+  Conversation,
+  Message,
+  MessageChangeEvent,
+  MessageChangeListener,
+} from '../services/MessageService';
+import { simulateLatency } from './dataSource';
+
+export interface NewConversation {
+  listing_id: string;
+  buyer_id: string;
+  seller_id: string;
+}
+
+// The ID may be chosen by the client, see MessageService.sendMessage
+export type NewMessage = Omit<Message, 'id' | 'pending'> & { id?: string };
+
+// Rows of a table whose column has the given value
+export interface ChangeFilter {
+  table: 'messages' | 'conversations';
+  column: string;
+  value: string;
+}
+
+export interface ConversationRepository {
+  // Active conversations the user is buying or selling in, most recent activity first
+  listActiveForUser(userId: string): Promise<Conversation[]>;
+  getById(id: string): Promise<Conversation | null>;
+  findActive(conversation: NewConversation): Promise<Conversation | null>;
+  create(conversation: NewConversation): Promise<Conversation>;
+  // Set the last activity time
+  touch(id: string, at: string): Promise<void>;
+  // Whether the two users have had any conversation, whichever side each was on
+  existsBetween(userId: string, otherUserId: string): Promise<boolean>;
+  // Whether the buyer has had any conversation with the seller about one of their listings
+  existsWithSeller(buyerId: string, sellerId: string): Promise<boolean>;
+}
+
+export interface MessageRepository {
+  // Oldest first
+  listForConversation(conversationId: string): Promise<Message[]>;
+  latest(conversationId: string): Promise<Message | null>;
+  countUnread(receiverId: string, conversationId?: string): Promise<number>;
+  insert(message: NewMessage): Promise<Message>;
+  markRead(conversationId: string, receiverId: string): Promise<void>;
+  // Listen for inserts and updates of matching messages and conversations
+  subscribe(name: string, filters: ChangeFilter[], onChange: MessageChangeListener): () => void;
+}
+
+// Channel topics must be unique, otherwise two screens watching the same
+// conversation would end up sharing (and tearing down) one channel
+let channelCounter = 0;
+
+export const supabaseConversationRepository: ConversationRepository = {
+  async listActiveForUser(userId) {
+    const { data, error } = await supabase
+      .from('conversations')
+      .select('*')
+      .or(`buyer_id.eq.${userId},seller_id.eq.${userId}`)
+      .eq('is_active', true)
+      .order('last_message_at', { ascending: false });
+
+    if (error) {
+      throw error;
+    }
+
+    return data || [];
+  },
+
+  async getById(id) {
+    const { data, error } = await supabase
+      .from('conversations')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) {
+      throw error;
+    }
+
+    return data;
+  },
+
+  async findActive({ listing_id, buyer_id, seller_id }) {
+    const { data, error } = await supabase
+      .from('conversations')
+      .select('*')
+      .eq('listing_id', listing_id)
+      .eq('buyer_id', buyer_id)
+      .eq('seller_id', seller_id)
+      .eq('is_active', true)
+      .limit(1);
+
+    if (error) {
+      throw error;
+    }
+
+    return data && data.length > 0 ? data[0] : null;
+  },
+
+  async create(conversation) {
+    const now = new Date().toISOString();
+    const { data, error } = await supabase
+      .from('conversations')
+      .insert({
+        ...conversation,
+        created_at: now,
+        last_message_at: now,
+        is_active: true
+      })
+      .select()
+      .single();
+
+    if (error || !data) {
+      throw error || new Error('Failed to create conversation');
+    }
+
+    return data;
+  },
+
+  async touch(id, at) {
+    const { error } = await supabase
+      .from('conversations')
+      .update({ last_message_at: at })
+      .eq('id', id);
+
+    if (error) {
+      throw error;
+    }
+  },
+
+  async existsBetween(userId, otherUserId) {
+    const { count, error } = await supabase
+      .from('conversations')
+      .select('id', { count: 'exact', head: true })
+      .or(`and(buyer_id.eq.${userId},seller_id.eq.${otherUserId}),and(buyer_id.eq.${otherUserId},seller_id.eq.${userId})`);
+
+    if (error) {
+      throw error;
+    }
+
+    return (count || 0) > 0;
+  },
+
+  async existsWithSeller(buyerId, sellerId) {
+    const { count, error } = await supabase
+      .from('conversations')
+      .select('id', { count: 'exact', head: true })
+      .eq('buyer_id', buyerId)
+      .eq('seller_id', sellerId);
+
+    if (error) {
+      throw error;
+    }
+
+    return (count || 0) > 0;
+  },
+};
+
+export const supabaseMessageRepository: MessageRepository = {
+  async listForConversation(conversationId) {
+    const { data, error } = await supabase
+      .from('messages')
+      .select('*')
+      .eq('conversation_id', conversationId)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      throw error;
+    }
+
+    return data || [];
+  },
+
+  async latest(conversationId) {
+    const { data, error } = await supabase
+      .from('messages')
+      .select('*')
+      .eq('conversation_id', conversationId)
+      .order('created_at', { ascending: false })
+      .limit(1);
+
+    if (error) {
+      throw error;
+    }
+
+    return data && data.length > 0 ? data[0] : null;
+  },
+
+  async countUnread(receiverId, conversationId) {
+    let query = supabase
+      .from('messages')
+      .select('id', { count: 'exact', head: true })
+      .eq('receiver_id', receiverId)
+      .eq('read', false);
+
+    if (conversationId) {
+      query = query.eq('conversation_id', conversationId);
+    }
+
+    const { count, error } = await query;
+
+    if (error) {
+      throw error;
+    }
+
+    return count || 0;
+  },
+
+  async insert(message) {
+    const { data, error } = await supabase
+      .from('messages')
+      .insert(message)
+      .select()
+      .single();
+
+    if (error) {
+      throw error;
+    }
+
+    return data;
+  },
+
+  async markRead(conversationId, receiverId) {
+    const { error } = await supabase
+      .from('messages')
+      .update({ read: true })
+      .eq('conversation_id', conversationId)
+      .eq('receiver_id', receiverId)
+      .eq('read', false);
+
+    if (error) {
+      throw error;
+    }
+  },
+
+  subscribe(name, filters, onChange) {
+    channelCounter += 1;
+    const channel = supabase.channel(`${name}:${channelCounter}`);
+
+    filters.forEach(({ table, column, value }) => {
+      channel.on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table, filter: `${column}=eq.${value}` },
+        (payload: RealtimePostgresChangesPayload<any>) => {
+          if (payload.eventType === 'DELETE') {
+            return;
+          }
+          if (table === 'messages') {
+            onChange({ type: 'message', eventType: payload.eventType, message: payload.new as Message });
+          } else {
+            onChange({ type: 'conversation', eventType: payload.eventType, conversation: payload.new as Conversation });
+          }
+        }
+      );
+    });
+
+    channel.subscribe((status, err) => {
+      if (status === 'CHANNEL_ERROR' || status === 'TIMED_OUT') {
+        console.error(`Error subscribing to ${name} changes:`, err || status);
+      }
+    });
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  },
+};
+
+/**
+ * Conversations and messages kept in memory. Writes emit the same events that
+ * Supabase realtime would deliver for the real tables.
+ */
+export function createMemoryMessagingRepositories(
+  fixtures: {
+    conversations: Conversation[];
+    messages: Message[];
+  },
+  // Called for every new message, as the notify_message_received and push_new_message triggers are
+  onMessageInserted: (message: Message) => Promise<unknown> = async () => {}
+): { conversations: ConversationRepository; messages: MessageRepository } {
+  let conversations = fixtures.conversations.map(conversation => ({ ...conversation }));
+  let messages = fixtures.messages.map(message => ({ ...message }));
+  const listeners = new Set<MessageChangeListener>();
+  let idCounter = 0;
+
+  function emit(event: MessageChangeEvent) {
+    listeners.forEach(listener => listener(event));
+  }
+
+  function nextId(prefix: string): string {
+    idCounter += 1;
+    return `${prefix}-mock-${Date.now()}-${idCounter}`;
+  }
+
+  function byCreatedAt(a: Message, b: Message): number {
+    return new Date(a.created_at).getTime() - new Date(b.created_at).getTime();
+  }
+
+  const conversationRepository: ConversationRepository = {
+    async listActiveForUser(userId) {
+      await simulateLatency();
+      return conversations
+        .filter(conv => conv.is_active && (conv.buyer_id === userId || conv.seller_id === userId))
+        .sort((a, b) => new Date(b.last_message_at).getTime() - new Date(a.last_message_at).getTime());
+    },
+
+    async getById(id) {
+      return conversations.find(conv => conv.id === id) || null;
+    },
+
+    async findActive({ listing_id, buyer_id, seller_id }) {
+      return conversations.find(conv =>
+        conv.is_active &&
+        conv.listing_id === listing_id &&
+        conv.buyer_id === buyer_id &&
+        conv.seller_id === seller_id
+      ) || null;
+    },
+
+    async create(conversation) {
+      await simulateLatency();
+      const now = new Date().toISOString();
+      const created: Conversation = {
+        id: nextId('conv'),
+        ...conversation,
+        created_at: now,
+        last_message_at: now,
+        is_active: true
+      };
+      conversations = [...conversations, created];
+      emit({ type: 'conversation', eventType: 'INSERT', conversation: { ...created } });
+      return created;
+    },
+
+    async touch(id, at) {
+      const conversation = conversations.find(conv => conv.id === id);
+      if (conversation) {
+        conversation.last_message_at = at;
+        emit({ type: 'conversation', eventType: 'UPDATE', conversation: { ...conversation } });
+      }
+    },
+
+    async existsBetween(userId, otherUserId) {
+      return conversations.some(conv =>
+        (conv.buyer_id === userId && conv.seller_id === otherUserId) ||
+        (conv.seller_id === userId && conv.buyer_id === otherUserId)
+      );
+    },
+
+    async existsWithSeller(buyerId, sellerId) {
+      return conversations.some(conv => conv.buyer_id === buyerId && conv.seller_id === sellerId);
+    },
+  };
+
+  const messageRepository: MessageRepository = {
+    async listForConversation(conversationId) {
+      await simulateLatency();
+      return messages
+        .filter(msg => msg.conversation_id === conversationId)
+        .sort(byCreatedAt);
+    },
+
+    async latest(conversationId) {
+      const conversationMessages = messages
+        .filter(msg => msg.conversation_id === conversationId)
+        .sort(byCreatedAt);
+      return conversationMessages[conversationMessages.length - 1] || null;
+    },
+
+    async countUnread(receiverId, conversationId) {
+      return messages.filter(msg =>
+        msg.receiver_id === receiverId &&
+        !msg.read &&
+        (!conversationId || msg.conversation_id === conversationId)
+      ).length;
+    },
+
+    async insert(message) {
+      await simulateLatency();
+      if (message.id && messages.some(msg => msg.id === message.id)) {
+        throw Object.assign(new Error('Message already exists'), { code: '23505' });
+      }
+      const created: Message = { ...message, id: message.id || nextId('msg') };
+      messages = [...messages, created];
+      emit({ type: 'message', eventType: 'INSERT', message: created });
+      await onMessageInserted(created);
+      return created;
+    },
+
+    async markRead(conversationId, receiverId) {
+      const updated: Message[] = [];
+      messages = messages.map(msg => {
+        if (msg.conversation_id === conversationId && msg.receiver_id === receiverId && !msg.read) {
+          const read = { ...msg, read: true };
+          updated.push(read);
+          return read;
+        }
+        return msg;
+      });
+      updated.forEach(message => emit({ type: 'message', eventType: 'UPDATE', message }));
+    },
+
+    subscribe(_name, filters, onChange) {
+      const listener: MessageChangeListener = event => {
+        const table = event.type === 'message' ? 'messages' : 'conversations';
+        const row: Record<string, any> = event.type === 'message' ? event.message : event.conversation;
+        if (filters.some(filter => filter.table === table && row[filter.column] === filter.value)) {
+          onChange(event);
+        }
+      };
+      listeners.add(listener);
+
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+
+  return { conversations: conversationRepository, messages: messageRepository };
+}
@@ -0,0 +1,272 @@
+import { supabase } from '../config/supabase';
+import type { BookListing } from '../services/BookService';
+import type { Message } from '../services/MessageService';
+import type { AppNotification } from '../services/NotificationService';
+import { simulateLatency } from './dataSource';
+
+export interface NotificationRepository {
+  // A user's notifications, newest first
+  listForUser(userId: string): Promise<AppNotification[]>;
+  countUnread(userId: string): Promise<number>;
+  markRead(id: string): Promise<void>;
+  markAllRead(userId: string): Promise<void>;
+  clear(userId: string): Promise<void>;
+  // Listen for a user's notifications being added, read or cleared
+  subscribe(userId: string, onChange: () => void): () => void;
+}
+
+// Notifications are sent by triggers in the database, never by the app. The
+// in-memory repositories call these where those triggers would fire.
+export interface MemoryNotificationRepository extends NotificationRepository {
+  // Tell the users who saved a listing its price went down, or that it was just sold, traded or archived
+  notifyListingUpdated(previous: BookListing, updated: BookListing): Promise<void>;
+  // Tell the users who saved a listing it is going away; call before deleting it
+  notifyListingDeleted(listing: BookListing): Promise<void>;
+  // Tell the receiver of a message that it arrived, once however often it is called
+  notifyMessage(message: Message): Promise<void>;
+}
+
+// Channel topics must be unique, see messagingRepository
+let channelCounter = 0;
+
+function formatPrice(price: number): string {
+  return `$${price.toFixed(2)}`;
+}
+
+// Statuses that take a listing off the market
+const UNAVAILABLE_STATUSES = ['sold', 'traded', 'archived'];
+
+// What savers are told when a listing stops being available
+function describeUnavailable(listing: BookListing): Pick<AppNotification, 'title' | 'body'> {
+  switch (listing.status) {
+    case 'sold':
+      return { title: 'Listing sold', body: `"${listing.title}" has been sold` };
+    case 'traded':
+      return { title: 'Listing traded', body: `"${listing.title}" has been traded` };
+    default:
+      return { title: 'Listing removed', body: `"${listing.title}" is no longer available` };
+  }
+}
+
+export const supabaseNotificationRepository: NotificationRepository = {
+  async listForUser(userId) {
+    const { data, error } = await supabase
+      .from('notifications')
+      .select('*')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      throw error;
+    }
+
+    return data || [];
+  },
+
+  async countUnread(userId) {
+    const { count, error } = await supabase
+      .from('notifications')
+      .select('id', { count: 'exact', head: true })
+      .eq('user_id', userId)
+      .eq('read', false);
+
+    if (error) {
+      throw error;
+    }
+
+    return count || 0;
+  },
+
+  async markRead(id) {
+    const { error } = await supabase
+      .from('notifications')
+      .update({ read: true })
+      .eq('id', id);
+
+    if (error) {
+      throw error;
+    }
+  },
+
+  async markAllRead(userId) {
+    const { error } = await supabase
+      .from('notifications')
+      .update({ read: true })
+      .eq('user_id', userId)
+      .eq('read', false);
+
+    if (error) {
+      throw error;
+    }
+  },
+
+  async clear(userId) {
+    const { error } = await supabase
+      .from('notifications')
+      .delete()
+      .eq('user_id', userId);
+
+    if (error) {
+      throw error;
+    }
+  },
+
+  subscribe(userId, onChange) {
+    channelCounter += 1;
+    const channel = supabase.channel(`notifications-${userId}:${channelCounter}`);
+
+    channel.on(
+      'postgres_changes',
+      { event: '*', schema: 'public', table: 'notifications', filter: `user_id=eq.${userId}` },
+      () => onChange()
+    );
+
+    channel.subscribe((status, err) => {
+      if (status === 'CHANNEL_ERROR' || status === 'TIMED_OUT') {
+        console.error('Error subscribing to notification changes:', err || status);
+      }
+    });
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  },
+};
+
+/**
+ * Notifications kept in memory. Who saved a listing comes from the in-memory
+ * saved items, and the text matches the triggers in scripts/create_notifications_table.sql.
+ */
+export function createMemoryNotificationRepository(
+  fixtures: AppNotification[],
+  listSaverIds: (bookId: string) => string[]
+): MemoryNotificationRepository {
+  let notifications = fixtures.map(notification => ({ ...notification }));
+  const listeners = new Map<string, Set<() => void>>();
+
+  function emit(userIds: string[]) {
+    new Set(userIds).forEach(userId => listeners.get(userId)?.forEach(listener => listener()));
+  }
+
+  function add(userIds: string[], details: Omit<AppNotification, 'id' | 'user_id' | 'read' | 'created_at'>) {
+    const now = new Date().toISOString();
+    notifications = [
+      ...notifications,
+      ...userIds.map(userId => ({
+        id: `mock-notification-${Math.random().toString(36).substring(2, 15)}`,
+        user_id: userId,
+        ...details,
+        read: false,
+        created_at: now,
+      })),
+    ];
+    emit(userIds);
+  }
+
+  function saversOf(listing: BookListing): string[] {
+    return [...new Set(listSaverIds(listing.id))].filter(userId => userId !== listing.seller_id);
+  }
+
+  return {
+    async listForUser(userId) {
+      await simulateLatency();
+      return notifications
+        .filter(notification => notification.user_id === userId)
+        .sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime());
+    },
+
+    async countUnread(userId) {
+      await simulateLatency();
+      return notifications.filter(notification => notification.user_id === userId && !notification.read).length;
+    },
+
+    async markRead(id) {
+      await simulateLatency();
+      const notification = notifications.find(item => item.id === id);
+      if (notification && !notification.read) {
+        notifications = notifications.map(item => item.id === id ? { ...item, read: true } : item);
+        emit([notification.user_id]);
+      }
+    },
+
+    async markAllRead(userId) {
+      await simulateLatency();
+      notifications = notifications.map(item => item.user_id === userId ? { ...item, read: true } : item);
+      emit([userId]);
+    },
+
+    async clear(userId) {
+      await simulateLatency();
+      notifications = notifications.filter(item => item.user_id !== userId);
+      emit([userId]);
+    },
+
+    // notify_listing_price_drop and notify_listing_status_change
+    async notifyListingUpdated(previous, updated) {
+      await simulateLatency();
+      if (updated.price < previous.price) {
+        add(saversOf(updated), {
+          type: 'price_drop',
+          title: 'Price drop',
+          body: `"${updated.title}" is now ${formatPrice(updated.price)} (was ${formatPrice(previous.price)})`,
+          listing_id: updated.id,
+          conversation_id: null,
+        });
+      }
+
+      if (UNAVAILABLE_STATUSES.includes(updated.status || 'active') &&
+        !UNAVAILABLE_STATUSES.includes(previous.status || 'active')) {
+        add(saversOf(updated), {
+          type: 'listing_removed',
+          ...describeUnavailable(updated),
+          listing_id: updated.id,
+          conversation_id: null,
+        });
+      }
+    },
+
+    // notify_listing_deleted
+    async notifyListingDeleted(listing) {
+      await simulateLatency();
+      add(saversOf(listing), {
+        type: 'listing_removed',
+        title: 'Listing removed',
+        body: `"${listing.title}" is no longer available`,
+        listing_id: listing.id,
+        conversation_id: null,
+      });
+    },
+
+    // notify_message_received, which has one notification per message
+    async notifyMessage(message) {
+      await simulateLatency();
+      const alreadyNotified = notifications.some(notification =>
+        notification.user_id === message.receiver_id &&
+        notification.type === 'message' &&
+        notification.message_id === message.id
+      );
+      if (alreadyNotified) {
+        return;
+      }
+
+      add([message.receiver_id], {
+        type: 'message',
+        title: 'New message',
+        body: message.content.substring(0, 100),
+        listing_id: null,
+        conversation_id: message.conversation_id,
+        message_id: message.id,
+      });
+    },
+
+    subscribe(userId, onChange) {
+      const userListeners = listeners.get(userId) || new Set<() => void>();
+      userListeners.add(onChange);
+      listeners.set(userId, userListeners);
+
+      return () => {
+        userListeners.delete(onChange);
+      };
+    },
+  };
+}
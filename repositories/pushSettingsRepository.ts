@@ -0,0 +1,134 @@
+import { supabase } from '../config/supabase';
+import { ChatPushEvent, buildChatPushMessages, sendPushMessages } from '../utils/chatPush';
+import { simulateLatency } from './dataSource';
+
+// A row of the push_settings table, which only its user can read
+export interface PushSettingsRow {
+  user_id: string;
+  // Expo push tokens of the devices the user is signed in on
+  push_tokens: string[];
+  mute_message_pushes: boolean;
+  mute_offer_pushes: boolean;
+}
+
+export type PushMuteSettings = Partial<Pick<PushSettingsRow, 'mute_message_pushes' | 'mute_offer_pushes'>>;
+
+export interface PushSettingsRepository {
+  // The user's settings, or null if they never registered a device or changed them
+  get(userId: string): Promise<PushSettingsRow | null>;
+  // Change which pushes the user receives; settings that are left out keep their value
+  update(userId: string, settings: PushMuteSettings): Promise<PushSettingsRow>;
+  // Register a device's push token for the user, taking it off anyone else's settings
+  addToken(userId: string, token: string): Promise<void>;
+  removeToken(userId: string, token: string): Promise<void>;
+}
+
+function emptySettings(userId: string): PushSettingsRow {
+  return { user_id: userId, push_tokens: [], mute_message_pushes: false, mute_offer_pushes: false };
+}
+
+// In memory nothing else sends pushes, so the repository sends them the way the
+// database triggers do
+export interface MemoryPushSettingsRepository extends PushSettingsRepository {
+  sendChatPush(receiverId: string, event: ChatPushEvent): Promise<void>;
+}
+
+export const supabasePushSettingsRepository: PushSettingsRepository = {
+  async get(userId) {
+    const { data, error } = await supabase
+      .from('push_settings')
+      .select('*')
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) {
+      throw error;
+    }
+
+    return data;
+  },
+
+  async update(userId, settings) {
+    const { data, error } = await supabase
+      .from('push_settings')
+      .upsert({ user_id: userId, ...settings }, { onConflict: 'user_id' })
+      .select()
+      .single();
+
+    if (error) {
+      throw error;
+    }
+
+    return data;
+  },
+
+  // These act on the signed-in user, whose ID the database functions take from the session
+
+  async addToken(_userId, token) {
+    const { error } = await supabase.rpc('add_push_token', { p_token: token });
+
+    if (error) {
+      throw error;
+    }
+  },
+
+  async removeToken(_userId, token) {
+    const { error } = await supabase.rpc('remove_push_token', { p_token: token });
+
+    if (error) {
+      throw error;
+    }
+  },
+};
+
+/**
+ * Push settings kept in memory, seeded with copies of the given fixtures
+ */
+export function createMemoryPushSettingsRepository(fixtures: PushSettingsRow[]): MemoryPushSettingsRepository {
+  let rows = fixtures.map(row => ({ ...row, push_tokens: [...row.push_tokens] }));
+
+  function save(row: PushSettingsRow): PushSettingsRow {
+    rows = [...rows.filter(item => item.user_id !== row.user_id), row];
+    return row;
+  }
+
+  function find(userId: string): PushSettingsRow {
+    return rows.find(row => row.user_id === userId) || emptySettings(userId);
+  }
+
+  return {
+    async get(userId) {
+      await simulateLatency();
+      return rows.find(row => row.user_id === userId) || null;
+    },
+
+    async update(userId, settings) {
+      await simulateLatency();
+      // Like the database, settings that are left out keep their value
+      const defined = Object.fromEntries(
+        Object.entries(settings).filter(([, value]) => value !== undefined)
+      ) as PushMuteSettings;
+      return save({ ...find(userId), ...defined });
+    },
+
+    async addToken(userId, token) {
+      await simulateLatency();
+      rows = rows.map(row => ({ ...row, push_tokens: row.push_tokens.filter(item => item !== token) }));
+      const existing = find(userId);
+      save({ ...existing, push_tokens: [...existing.push_tokens, token] });
+    },
+
+    async removeToken(userId, token) {
+      await simulateLatency();
+      const existing = rows.find(row => row.user_id === userId);
+      if (existing) {
+        save({ ...existing, push_tokens: existing.push_tokens.filter(item => item !== token) });
+      }
+    },
+
+    async sendChatPush(receiverId, event) {
+      const settings = rows.find(row => row.user_id === receiverId) || null;
+      await sendPushMessages(buildChatPushMessages(settings, event));
+    },
+  };
+}
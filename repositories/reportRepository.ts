@@ -0,0 +1,194 @@
+import { supabase } from '../config/supabase';
+import type { NewReport, Report, ReportStatus } from '../services/ReportService';
+import { REPORT_LIMITS } from '../utils/reports';
+import { TablePage, TablePageRequest, simulateLatency, sliceTablePage, toRowRange } from './dataSource';
+
+export interface ReportRepository {
+  // File a report, turning away repeats and users over the daily limit. A listing
+  // reported by enough different users is hidden.
+  submit(reporterId: string, report: NewReport): Promise<Report>;
+  // Reports a user filed, newest first
+  listByReporter(reporterId: string): Promise<Report[]>;
+  // One page of everyone's reports, all of them or those with a status, newest
+  // first. Only admins can see them.
+  listAll(status: ReportStatus | null, page: TablePageRequest): Promise<TablePage<Report>>;
+  setStatus(ids: string[], status: ReportStatus): Promise<void>;
+  // Close the open reports of listings an admin has dealt with
+  closeForListings(listingIds: string[], status: ReportStatus): Promise<void>;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const supabaseReportRepository: ReportRepository = {
+  async submit(_reporterId, report) {
+    // Reporters cannot see other users' reports or hide listings, so this happens in the database
+    const { data, error } = await supabase.rpc('submit_report', {
+      p_reason: report.reason,
+      p_details: report.details,
+      p_listing_id: report.listing_id,
+      p_reported_user_id: report.reported_user_id,
+      p_message_id: report.message_id
+    });
+
+    if (error) {
+      // The function's own checks come back as raise_exception with a message for the user
+      throw error.code === 'P0001' ? new Error(error.message) : error;
+    }
+
+    return data;
+  },
+
+  async listByReporter(reporterId) {
+    const { data, error } = await supabase
+      .from('reports')
+      .select('*')
+      .eq('reporter_id', reporterId)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      throw error;
+    }
+
+    return data || [];
+  },
+
+  async listAll(status, page) {
+    let query = supabase
+      .from('reports')
+      .select('*', { count: 'exact' });
+
+    if (status) {
+      query = query.eq('status', status);
+    }
+
+    const { data, error, count } = await query
+      .order('created_at', { ascending: false })
+      .range(...toRowRange(page));
+
+    if (error) {
+      throw error;
+    }
+
+    return { rows: data || [], total: count ?? 0 };
+  },
+
+  async setStatus(ids, status) {
+    if (ids.length === 0) {
+      return;
+    }
+
+    const { error } = await supabase
+      .from('reports')
+      .update({ status })
+      .in('id', ids);
+
+    if (error) {
+      throw error;
+    }
+  },
+
+  async closeForListings(listingIds, status) {
+    if (listingIds.length === 0) {
+      return;
+    }
+
+    const { error } = await supabase
+      .from('reports')
+      .update({ status })
+      .in('listing_id', listingIds)
+      .eq('status', 'open');
+
+    if (error) {
+      throw error;
+    }
+  },
+};
+
+/**
+ * Reports kept in memory. Enough reports of a listing hide it through `hideListing`.
+ */
+export function createMemoryReportRepository(
+  fixtures: Report[],
+  hideListing: (listingId: string) => void
+): ReportRepository {
+  let reports = fixtures.map(report => ({ ...report }));
+
+  // Whether an open report is about the same thing, matched the way submit_report does
+  const isSameTarget = (report: NewReport) => (existing: Report) => {
+    if (report.message_id) {
+      return existing.message_id === report.message_id;
+    }
+    if (report.listing_id) {
+      return existing.listing_id === report.listing_id;
+    }
+    return existing.reported_user_id === report.reported_user_id && !existing.message_id;
+  };
+
+  return {
+    async submit(reporterId, report) {
+      await simulateLatency();
+      const own = reports.filter(existing => existing.reporter_id === reporterId);
+
+      if (own.some(existing => existing.status === 'open' && isSameTarget(report)(existing))) {
+        throw new Error('You have already reported this');
+      }
+
+      const since = Date.now() - DAY_MS;
+      if (own.filter(existing => new Date(existing.created_at).getTime() > since).length >= REPORT_LIMITS.perDay) {
+        throw new Error('You have sent too many reports today. Please try again tomorrow.');
+      }
+
+      const created: Report = {
+        id: `mock-report-${Math.random().toString(36).substring(2, 15)}`,
+        reporter_id: reporterId,
+        ...report,
+        details: report.details?.trim() || null,
+        status: 'open',
+        created_at: new Date().toISOString(),
+      };
+      reports = [...reports, created];
+
+      if (report.listing_id) {
+        const reporters = new Set(reports
+          .filter(existing => existing.listing_id === report.listing_id && existing.status === 'open')
+          .map(existing => existing.reporter_id));
+        if (reporters.size >= REPORT_LIMITS.reportersToHideListing) {
+          hideListing(report.listing_id);
+        }
+      }
+
+      return created;
+    },
+
+    async listByReporter(reporterId) {
+      await simulateLatency();
+      return reports
+        .filter(report => report.reporter_id === reporterId)
+        .sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime());
+    },
+
+    async listAll(status, page) {
+      await simulateLatency();
+      return sliceTablePage(
+        reports
+          .filter(report => !status || report.status === status)
+          .sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime()),
+        page
+      );
+    },
+
+    async setStatus(ids, status) {
+      await simulateLatency();
+      reports = reports.map(report => ids.includes(report.id) ? { ...report, status } : report);
+    },
+
+    async closeForListings(listingIds, status) {
+      await simulateLatency();
+      reports = reports.map(report =>
+        report.status === 'open' && report.listing_id && listingIds.includes(report.listing_id)
+          ? { ...report, status }
+          : report
+      );
+    },
+  };
+}
@@ -0,0 +1,135 @@
+import { supabase } from '../config/supabase';
+import type { NewReview, Review, SellerRatingSummary } from '../services/ReviewService';
+import { simulateLatency } from './dataSource';
+
+export interface ReviewRepository {
+  // Reviews left for a seller, newest first
+  listForSeller(sellerId: string): Promise<Review[]>;
+  // The seller's average rating, rounded to one decimal, and number of reviews
+  getSellerRating(sellerId: string): Promise<SellerRatingSummary>;
+  findByReviewer(sellerId: string, reviewerId: string): Promise<Review | null>;
+  // Each user can review a seller only once
+  create(review: NewReview): Promise<Review>;
+}
+
+const DUPLICATE_REVIEW_ERROR = 'You have already reviewed this seller';
+
+function compareNewestFirst(a: Review, b: Review): number {
+  return new Date(b.created_at).getTime() - new Date(a.created_at).getTime();
+}
+
+export const supabaseReviewRepository: ReviewRepository = {
+  async listForSeller(sellerId) {
+    const { data, error } = await supabase
+      .from('reviews')
+      .select('*')
+      .eq('seller_id', sellerId)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      throw error;
+    }
+
+    return data || [];
+  },
+
+  async getSellerRating(sellerId) {
+    const { data, error } = await supabase
+      .from('seller_ratings')
+      .select('average_rating, review_count')
+      .eq('seller_id', sellerId)
+      .maybeSingle();
+
+    if (error) {
+      throw error;
+    }
+
+    if (!data) {
+      return { averageRating: null, reviewCount: 0 };
+    }
+
+    return {
+      averageRating: data.average_rating !== null ? Number(data.average_rating) : null,
+      reviewCount: Number(data.review_count) || 0
+    };
+  },
+
+  async findByReviewer(sellerId, reviewerId) {
+    const { data, error } = await supabase
+      .from('reviews')
+      .select('*')
+      .match({ seller_id: sellerId, reviewer_id: reviewerId })
+      .maybeSingle();
+
+    if (error) {
+      throw error;
+    }
+
+    return data;
+  },
+
+  async create(review) {
+    const { data, error } = await supabase
+      .from('reviews')
+      .insert({ ...review, created_at: new Date().toISOString() })
+      .select()
+      .single();
+
+    if (error) {
+      // unique_violation on (seller_id, reviewer_id)
+      throw error.code === '23505' ? new Error(DUPLICATE_REVIEW_ERROR) : error;
+    }
+
+    return data;
+  },
+};
+
+/**
+ * Reviews kept in memory, seeded with copies of the given fixtures
+ */
+export function createMemoryReviewRepository(fixtures: Review[]): ReviewRepository {
+  let reviews = fixtures.map(review => ({ ...review }));
+
+  return {
+    async listForSeller(sellerId) {
+      await simulateLatency();
+      return reviews.filter(review => review.seller_id === sellerId).sort(compareNewestFirst);
+    },
+
+    async getSellerRating(sellerId) {
+      await simulateLatency();
+      // Rounded the way the seller_ratings view rounds
+      const ratings = reviews.filter(review => review.seller_id === sellerId).map(review => review.rating);
+
+      if (ratings.length === 0) {
+        return { averageRating: null, reviewCount: 0 };
+      }
+
+      const total = ratings.reduce((sum, rating) => sum + rating, 0);
+      return {
+        averageRating: Math.round((total / ratings.length) * 10) / 10,
+        reviewCount: ratings.length
+      };
+    },
+
+    async findByReviewer(sellerId, reviewerId) {
+      await simulateLatency();
+      return reviews.find(review => review.seller_id === sellerId && review.reviewer_id === reviewerId) || null;
+    },
+
+    async create(review) {
+      await simulateLatency();
+      if (reviews.some(item => item.seller_id === review.seller_id && item.reviewer_id === review.reviewer_id)) {
+        throw new Error(DUPLICATE_REVIEW_ERROR);
+      }
+
+      const created: Review = {
+        id: `mock-review-${Math.random().toString(36).substring(2, 15)}`,
+        ...review,
+        created_at: new Date().toISOString()
+      };
+      reviews = [...reviews, created];
+      return created;
+    },
+  };
+}
@@ -0,0 +1,118 @@
+import { supabase } from '../config/supabase';
+import type { SavedItemType } from '../services/SavedItemsService';
+import { simulateLatency } from './dataSource';
+
+export interface SavedItemKey {
+  userId: string;
+  bookId: string;
+  type: SavedItemType;
+}
+
+export interface SavedItemRepository {
+  // Saving an item that is already saved is not an error
+  add(item: SavedItemKey): Promise<void>;
+  // Neither is removing one that is already gone
+  remove(item: SavedItemKey): Promise<void>;
+  exists(item: SavedItemKey): Promise<boolean>;
+  // IDs of the listings a user has saved as the given type
+  listBookIds(userId: string, type: SavedItemType): Promise<string[]>;
+}
+
+// In memory it is also known who saved a listing, which in Supabase only the
+// notification functions can see
+export interface MemorySavedItemRepository extends SavedItemRepository {
+  listUserIds(bookId: string): string[];
+}
+
+export const supabaseSavedItemRepository: SavedItemRepository = {
+  async add({ userId, bookId, type }) {
+    const { error } = await supabase
+      .from('saved_items')
+      .upsert(
+        { user_id: userId, book_id: bookId, type, created_at: new Date().toISOString() },
+        { onConflict: 'user_id,book_id,type', ignoreDuplicates: true }
+      );
+
+    if (error) {
+      throw error;
+    }
+  },
+
+  async remove({ userId, bookId, type }) {
+    const { error } = await supabase
+      .from('saved_items')
+      .delete()
+      .match({ user_id: userId, book_id: bookId, type });
+
+    if (error) {
+      throw error;
+    }
+  },
+
+  async exists({ userId, bookId, type }) {
+    const { data, error } = await supabase
+      .from('saved_items')
+      .select('id')
+      .match({ user_id: userId, book_id: bookId, type })
+      .maybeSingle();
+
+    if (error) {
+      throw error;
+    }
+
+    return !!data;
+  },
+
+  async listBookIds(userId, type) {
+    const { data, error } = await supabase
+      .from('saved_items')
+      .select('book_id')
+      .match({ user_id: userId, type });
+
+    if (error) {
+      throw error;
+    }
+
+    return (data || []).map(item => item.book_id);
+  },
+};
+
+/**
+ * Saved items kept in memory, newest last
+ */
+export function createMemorySavedItemRepository(fixtures: SavedItemKey[]): MemorySavedItemRepository {
+  let items = fixtures.map(item => ({ ...item }));
+
+  const matches = (a: SavedItemKey) => (b: SavedItemKey) =>
+    a.userId === b.userId && a.bookId === b.bookId && a.type === b.type;
+
+  return {
+    async add(item) {
+      await simulateLatency();
+      if (!items.some(matches(item))) {
+        items = [...items, { ...item }];
+      }
+    },
+
+    async remove(item) {
+      await simulateLatency();
+      items = items.filter(existing => !matches(item)(existing));
+    },
+
+    async exists(item) {
+      await simulateLatency();
+      return items.some(matches(item));
+    },
+
+    async listBookIds(userId, type) {
+      await simulateLatency();
+      return items
+        .filter(item => item.userId === userId && item.type === type)
+        .map(item => item.bookId);
+    },
+
+    listUserIds(bookId) {
+      return items.filter(item => item.bookId === bookId).map(item => item.userId);
+    },
+  };
+}
@@ -0,0 +1,102 @@
+import { supabase } from '../config/supabase';
+import type { NewSavedSearch, SavedSearch } from '../services/SavedSearchService';
+import { simulateLatency } from './dataSource';
+
+export interface SavedSearchRepository {
+  // A user's saved searches, oldest first
+  listForUser(userId: string): Promise<SavedSearch[]>;
+  create(userId: string, search: NewSavedSearch): Promise<SavedSearch>;
+  // Record that the search's matches were seen at the given time
+  markChecked(id: string, at: string): Promise<void>;
+  delete(id: string): Promise<void>;
+}
+
+export const supabaseSavedSearchRepository: SavedSearchRepository = {
+  async listForUser(userId) {
+    const { data, error } = await supabase
+      .from('saved_searches')
+      .select('*')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      throw error;
+    }
+
+    return data || [];
+  },
+
+  async create(userId, search) {
+    const { data, error } = await supabase
+      .from('saved_searches')
+      .insert({ ...search, user_id: userId, last_checked_at: new Date().toISOString() })
+      .select()
+      .single();
+
+    if (error) {
+      throw error;
+    }
+
+    return data;
+  },
+
+  async markChecked(id, at) {
+    const { error } = await supabase
+      .from('saved_searches')
+      .update({ last_checked_at: at })
+      .eq('id', id);
+
+    if (error) {
+      throw error;
+    }
+  },
+
+  async delete(id) {
+    const { error } = await supabase
+      .from('saved_searches')
+      .delete()
+      .eq('id', id);
+
+    if (error) {
+      throw error;
+    }
+  },
+};
+
+/**
+ * Saved searches kept in memory, oldest first
+ */
+export function createMemorySavedSearchRepository(fixtures: SavedSearch[]): SavedSearchRepository {
+  let searches = fixtures.map(search => ({ ...search }));
+
+  return {
+    async listForUser(userId) {
+      await simulateLatency();
+      return searches.filter(search => search.user_id === userId);
+    },
+
+    async create(userId, search) {
+      await simulateLatency();
+      const now = new Date().toISOString();
+      const created: SavedSearch = {
+        id: `mock-search-${Math.random().toString(36).substring(2, 15)}`,
+        ...search,
+        user_id: userId,
+        last_checked_at: now,
+        created_at: now,
+      };
+      searches = [...searches, created];
+      return created;
+    },
+
+    async markChecked(id, at) {
+      await simulateLatency();
+      searches = searches.map(search => search.id === id ? { ...search, last_checked_at: at } : search);
+    },
+
+    async delete(id) {
+      await simulateLatency();
+      searches = searches.filter(search => search.id !== id);
+    },
+  };
+}
@@ -0,0 +1,185 @@
+import { supabase } from '../config/supabase';
+import type { BookListing } from '../services/BookService';
+import type { NewSwapProposal, SwapProposal, SwapProposalStatus } from '../services/ExchangeService';
+import { simulateLatency } from './dataSource';
+import type { ListingRepository } from './listingRepository';
+
+export interface SwapProposalRepository {
+  // Proposals made in a conversation, oldest first
+  listForConversation(conversationId: string): Promise<SwapProposal[]>;
+  getById(id: string): Promise<SwapProposal | null>;
+  // Add a pending proposal
+  create(proposal: NewSwapProposal): Promise<SwapProposal>;
+  setStatus(id: string, status: SwapProposalStatus): Promise<void>;
+  // Mark every listing in the proposal as traded, accept it, and reject other
+  // pending proposals for the same books
+  accept(id: string): Promise<SwapProposal>;
+}
+
+function compareOldestFirst(a: SwapProposal, b: SwapProposal): number {
+  return new Date(a.created_at).getTime() - new Date(b.created_at).getTime();
+}
+
+function getListingIds(proposal: SwapProposal): string[] {
+  return [proposal.target_listing_id, ...proposal.offered_listing_ids];
+}
+
+export const supabaseSwapProposalRepository: SwapProposalRepository = {
+  async listForConversation(conversationId) {
+    const { data, error } = await supabase
+      .from('swap_proposals')
+      .select('*')
+      .eq('conversation_id', conversationId)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      throw error;
+    }
+
+    return data || [];
+  },
+
+  async getById(id) {
+    const { data, error } = await supabase
+      .from('swap_proposals')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) {
+      throw error;
+    }
+
+    return data;
+  },
+
+  async create(proposal) {
+    const { data, error } = await supabase
+      .from('swap_proposals')
+      .insert({
+        ...proposal,
+        status: 'pending',
+        created_at: new Date().toISOString()
+      })
+      .select()
+      .single();
+
+    if (error) {
+      throw error;
+    }
+
+    return data;
+  },
+
+  async setStatus(id, status) {
+    const { error } = await supabase
+      .from('swap_proposals')
+      .update({ status })
+      .eq('id', id);
+
+    if (error) {
+      throw error;
+    }
+  },
+
+  async accept(id) {
+    // Accepting touches the other party's listings, so it runs as a database function
+    const { data, error } = await supabase.rpc('accept_swap_proposal', { proposal_id: id });
+
+    if (error) {
+      // The function's own checks come back as raise_exception with a message for the user
+      throw error.code === 'P0001' ? new Error(error.message) : error;
+    }
+
+    return data;
+  },
+};
+
+/**
+ * Swap proposals kept in memory. Accepting one marks its listings traded in the
+ * given listing repository and records the exchanges, as the database function does.
+ */
+export function createMemorySwapProposalRepository(
+  fixtures: SwapProposal[],
+  listings: Pick<ListingRepository, 'getByIds' | 'update'>,
+  recordExchange: (listing: BookListing, buyerId: string, conversationId: string) => void,
+  // Called for every new proposal, as the push_new_swap_proposal trigger is
+  onProposed: (proposal: SwapProposal) => Promise<unknown> = async () => {}
+): SwapProposalRepository {
+  let proposals = fixtures.map(proposal => ({ ...proposal, offered_listing_ids: [...proposal.offered_listing_ids] }));
+
+  return {
+    async listForConversation(conversationId) {
+      await simulateLatency();
+      return proposals.filter(proposal => proposal.conversation_id === conversationId).sort(compareOldestFirst);
+    },
+
+    async getById(id) {
+      await simulateLatency();
+      return proposals.find(proposal => proposal.id === id) || null;
+    },
+
+    async create(proposal) {
+      await simulateLatency();
+      const created: SwapProposal = {
+        ...proposal,
+        id: `swap-${Math.random().toString(36).substring(2, 9)}`,
+        status: 'pending',
+        created_at: new Date().toISOString()
+      };
+      proposals = [...proposals, created];
+      await onProposed(created);
+      return created;
+    },
+
+    async setStatus(id, status) {
+      await simulateLatency();
+      proposals = proposals.map(proposal => proposal.id === id ? { ...proposal, status } : proposal);
+    },
+
+    async accept(id) {
+      await simulateLatency();
+      const proposal = proposals.find(item => item.id === id);
+      if (!proposal) {
+        throw new Error('Proposal not found');
+      }
+      if (proposal.status !== 'pending') {
+        throw new Error('Proposal is no longer pending');
+      }
+
+      const listingIds = getListingIds(proposal);
+      const tradedListings = await listings.getByIds(listingIds);
+      const isOwnedByParty = (listing: BookListing) => listing.id === proposal.target_listing_id
+        ? listing.seller_id === proposal.seller_id
+        : listing.seller_id === proposal.buyer_id;
+      if (tradedListings.some(listing => !isOwnedByParty(listing))) {
+        throw new Error('Only the books of the two users can be swapped');
+      }
+      if (tradedListings.length !== listingIds.length ||
+        tradedListings.some(listing => (listing.status || 'active') !== 'active')) {
+        throw new Error('One of the listings is no longer available');
+      }
+
+      // Each book goes to the other party
+      tradedListings.forEach(listing => recordExchange(
+        listing,
+        listing.seller_id === proposal.seller_id ? proposal.buyer_id : proposal.seller_id,
+        proposal.conversation_id
+      ));
+
+      await Promise.all(listingIds.map(listingId => listings.update(listingId, { status: 'traded' })));
+
+      const accepted: SwapProposal = { ...proposal, status: 'accepted' };
+      proposals = proposals.map(item => {
+        if (item.id === id) {
+          return accepted;
+        }
+        // Any other open offers for the traded books can no longer be honoured
+        const overlaps = item.target_listing_id === proposal.target_listing_id ||
+          item.offered_listing_ids.some(listingId => proposal.offered_listing_ids.includes(listingId));
+        return item.status === 'pending' && overlaps ? { ...item, status: 'rejected' } : item;
+      });
+      return accepted;
+    },
+  };
+}
@@ -0,0 +1,178 @@
+import { supabase } from '../config/supabase';
+import type { BookListing } from '../services/BookService';
+import type { Transaction, TransactionMethod } from '../services/TransactionService';
+import { TablePage, TablePageRequest, simulateLatency, sliceTablePage, toRowRange } from './dataSource';
+import type { ListingRepository } from './listingRepository';
+import type { ConversationRepository } from './messagingRepository';
+
+export interface TransactionRepository {
+  // Record the sale or exchange of a conversation's listing to its buyer and mark
+  // the listing sold or traded, both or neither
+  record(conversationId: string, price: number, method: TransactionMethod): Promise<Transaction>;
+  // Transactions the user bought or sold in, newest first
+  listForUser(userId: string): Promise<Transaction[]>;
+  // How many transactions the user was the seller in
+  countSales(sellerId: string): Promise<number>;
+  // One page of everyone's transactions, newest first. Only admins can see them.
+  listAll(page: TablePageRequest): Promise<TablePage<Transaction>>;
+}
+
+export interface MemoryTransactionRepository extends TransactionRepository {
+  // Record a listing traded in an accepted swap, as accept_swap_proposal does
+  addExchange(listing: BookListing, buyerId: string, conversationId: string): void;
+}
+
+function compareNewestFirst(a: Transaction, b: Transaction): number {
+  return new Date(b.created_at).getTime() - new Date(a.created_at).getTime();
+}
+
+export const supabaseTransactionRepository: TransactionRepository = {
+  async record(conversationId, price, method) {
+    // The listing belongs to the seller and the record to both sides, so they are
+    // written together by a database function
+    const { data, error } = await supabase.rpc('record_transaction', {
+      p_conversation_id: conversationId,
+      p_price: price,
+      p_method: method
+    });
+
+    if (error) {
+      // The function's own checks come back as raise_exception with a message for the user
+      throw error.code === 'P0001' ? new Error(error.message) : error;
+    }
+
+    return data;
+  },
+
+  async listForUser(userId) {
+    const { data, error } = await supabase
+      .from('transactions')
+      .select('*')
+      .or(`buyer_id.eq.${userId},seller_id.eq.${userId}`)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      throw error;
+    }
+
+    return data || [];
+  },
+
+  async countSales(sellerId) {
+    const { count, error } = await supabase
+      .from('transactions')
+      .select('id', { count: 'exact', head: true })
+      .eq('seller_id', sellerId);
+
+    if (error) {
+      throw error;
+    }
+
+    return count ?? 0;
+  },
+
+  async listAll(page) {
+    const { data, error, count } = await supabase
+      .from('transactions')
+      .select('*', { count: 'exact' })
+      .order('created_at', { ascending: false })
+      .order('id', { ascending: false })
+      .range(...toRowRange(page));
+
+    if (error) {
+      throw error;
+    }
+
+    return { rows: data || [], total: count ?? 0 };
+  },
+};
+
+/**
+ * Transactions kept in memory. Recording one marks the listing sold or traded in
+ * the given listing repository, as the database function does.
+ */
+export function createMemoryTransactionRepository(
+  fixtures: Transaction[],
+  conversations: Pick<ConversationRepository, 'getById'>,
+  listings: Pick<ListingRepository, 'getById' | 'update'>
+): MemoryTransactionRepository {
+  let transactions = fixtures.map(transaction => ({ ...transaction }));
+
+  const add = (transaction: Omit<Transaction, 'id' | 'created_at'>): Transaction => {
+    // Mirrors the unique listing_id constraint: a listing changes hands once
+    if (transactions.some(item => item.listing_id === transaction.listing_id)) {
+      throw new Error('This listing already has a transaction');
+    }
+
+    const created: Transaction = {
+      id: `mock-transaction-${Math.random().toString(36).substring(2, 15)}`,
+      ...transaction,
+      created_at: new Date().toISOString()
+    };
+    transactions = [...transactions, created];
+    return created;
+  };
+
+  return {
+    async record(conversationId, price, method) {
+      await simulateLatency();
+      const conversation = await conversations.getById(conversationId);
+      if (!conversation) {
+        throw new Error('Conversation not found');
+      }
+
+      const listing = await listings.getById(conversation.listing_id);
+      if (!listing) {
+        throw new Error('Listing not found');
+      }
+
+      const status = method === 'sale' ? 'sold' : 'traded';
+      const currentStatus = listing.status || 'active';
+      if (!['active', 'reserved'].includes(currentStatus)) {
+        throw new Error(`A ${currentStatus} listing cannot be marked as ${status}`);
+      }
+
+      const created = add({
+        listing_id: listing.id,
+        conversation_id: conversation.id,
+        seller_id: conversation.seller_id,
+        buyer_id: conversation.buyer_id,
+        listing_title: listing.title,
+        price,
+        method
+      });
+
+      await listings.update(listing.id, { status });
+      return created;
+    },
+
+    addExchange(listing, buyerId, conversationId) {
+      add({
+        listing_id: listing.id,
+        conversation_id: conversationId,
+        seller_id: listing.seller_id,
+        buyer_id: buyerId,
+        listing_title: listing.title,
+        price: 0,
+        method: 'exchange'
+      });
+    },
+
+    async listForUser(userId) {
+      await simulateLatency();
+      return transactions
+        .filter(transaction => transaction.buyer_id === userId || transaction.seller_id === userId)
+        .sort(compareNewestFirst);
+    },
+
+    async countSales(sellerId) {
+      await simulateLatency();
+      return transactions.filter(transaction => transaction.seller_id === sellerId).length;
+    },
+
+    async listAll(page) {
+      await simulateLatency();
+      return sliceTablePage([...transactions].sort(compareNewestFirst), page);
+    },
+  };
+}
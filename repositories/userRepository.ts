@@ -0,0 +1,315 @@
+import { supabase } from '../config/supabase';
+import type { MockUser } from '../utils/mockData';
+import { TablePage, TablePageRequest, isRowNotFoundError, simulateLatency, sliceTablePage, toRowRange } from './dataSource';
+
+// A row of the user_profiles table
+export interface UserProfileRow {
+  id: string;
+  email?: string;
+  name?: string;
+  profile_image?: string;
+  join_date?: string;
+  created_at?: string;
+  rating?: number;
+  bio?: string;
+  location?: string;
+  phone?: string;
+  // Can use the admin dashboard; only set from the database
+  is_admin?: boolean;
+  // When an admin suspended the user, who can then no longer list books or send messages
+  suspended_at?: string | null;
+}
+
+// The account behind a session, as far as the app needs it
+export interface AuthUser {
+  id: string;
+  email: string;
+  created_at: string;
+}
+
+export interface AuthCredentials {
+  email: string;
+  password: string;
+}
+
+export interface UserRepository {
+  getById(id: string): Promise<UserProfileRow | null>;
+  getByIds(ids: string[]): Promise<UserProfileRow[]>;
+  create(profile: UserProfileRow): Promise<UserProfileRow>;
+  // Insert or update, so users who registered without a profile row can still save one
+  upsert(profile: UserProfileRow): Promise<UserProfileRow>;
+  // One page of all profiles, most recently joined first
+  list(page: TablePageRequest): Promise<TablePage<UserProfileRow>>;
+  // Suspend users or lift their suspension; only admins can
+  setSuspended(ids: string[], suspended: boolean): Promise<void>;
+}
+
+export interface AuthRepository {
+  // The signed-in user, or null when there is no session
+  getSessionUser(): Promise<AuthUser | null>;
+  signIn(credentials: AuthCredentials): Promise<AuthUser>;
+  signUp(credentials: AuthCredentials): Promise<AuthUser>;
+  signOut(): Promise<void>;
+}
+
+function toAuthUser(user: { id: string; email?: string; created_at: string }): AuthUser {
+  return { id: user.id, email: user.email!, created_at: user.created_at };
+}
+
+export function toProfileRow(user: MockUser): UserProfileRow {
+  return {
+    id: user.id,
+    email: user.email,
+    name: user.name,
+    profile_image: user.profileImage,
+    join_date: user.joinDate,
+    rating: user.rating,
+    bio: user.bio,
+    location: user.location,
+    phone: user.phone,
+    is_admin: user.isAdmin
+  };
+}
+
+export const supabaseUserRepository: UserRepository = {
+  async getById(id) {
+    const { data, error } = await supabase
+      .from('user_profiles')
+      .select('*')
+      .eq('id', id)
+      .single();
+
+    if (error) {
+      if (isRowNotFoundError(error)) {
+        return null;
+      }
+      throw error;
+    }
+
+    return data;
+  },
+
+  async getByIds(ids) {
+    if (ids.length === 0) {
+      return [];
+    }
+
+    const { data, error } = await supabase
+      .from('user_profiles')
+      .select('*')
+      .in('id', ids);
+
+    if (error) {
+      throw error;
+    }
+
+    return data || [];
+  },
+
+  async create(profile) {
+    const { data, error } = await supabase
+      .from('user_profiles')
+      .insert(profile)
+      .select()
+      .single();
+
+    if (error) {
+      throw error;
+    }
+
+    return data;
+  },
+
+  async upsert(profile) {
+    const { data, error } = await supabase
+      .from('user_profiles')
+      .upsert(profile)
+      .select()
+      .single();
+
+    if (error) {
+      throw error;
+    }
+
+    return data;
+  },
+
+  async list(page) {
+    const { data, error, count } = await supabase
+      .from('user_profiles')
+      .select('*', { count: 'exact' })
+      .order('join_date', { ascending: false })
+      .order('id', { ascending: true })
+      .range(...toRowRange(page));
+
+    if (error) {
+      throw error;
+    }
+
+    return { rows: data || [], total: count ?? 0 };
+  },
+
+  async setSuspended(ids, suspended) {
+    if (ids.length === 0) {
+      return;
+    }
+
+    const { error } = await supabase
+      .from('user_profiles')
+      .update({ suspended_at: suspended ? new Date().toISOString() : null })
+      .in('id', ids);
+
+    if (error) {
+      throw error;
+    }
+  },
+};
+
+export const supabaseAuthRepository: AuthRepository = {
+  async getSessionUser() {
+    const { data, error } = await supabase.auth.getSession();
+
+    if (error) {
+      throw new Error('Authentication error: ' + error.message);
+    }
+
+    return data.session ? toAuthUser(data.session.user) : null;
+  },
+
+  async signIn({ email, password }) {
+    const { data, error } = await supabase.auth.signInWithPassword({ email, password });
+
+    if (error) {
+      throw error;
+    }
+
+    return toAuthUser(data.user);
+  },
+
+  async signUp({ email, password }) {
+    const { data, error } = await supabase.auth.signUp({ email, password });
+
+    if (error) {
+      throw error;
+    }
+
+    if (!data.user) {
+      throw new Error('User creation failed');
+    }
+
+    return toAuthUser(data.user);
+  },
+
+  async signOut() {
+    const { error } = await supabase.auth.signOut();
+
+    if (error) {
+      throw error;
+    }
+  },
+};
+
+/**
+ * Profiles kept in memory, seeded with copies of the given fixtures
+ */
+export function createMemoryUserRepository(fixtures: UserProfileRow[]): UserRepository {
+  let profiles = fixtures.map(profile => ({ ...profile }));
+
+  function save(profile: UserProfileRow): UserProfileRow {
+    const existing = profiles.find(item => item.id === profile.id);
+    // Like the database, columns that are left out keep their value
+    const defined = Object.fromEntries(
+      Object.entries(profile).filter(([, value]) => value !== undefined)
+    ) as UserProfileRow;
+    const saved = { ...existing, ...defined };
+    profiles = [...profiles.filter(item => item.id !== profile.id), saved];
+    return saved;
+  }
+
+  return {
+    async getById(id) {
+      await simulateLatency();
+      return profiles.find(profile => profile.id === id) || null;
+    },
+
+    async getByIds(ids) {
+      await simulateLatency();
+      return profiles.filter(profile => ids.includes(profile.id));
+    },
+
+    async create(profile) {
+      await simulateLatency();
+      if (profiles.some(item => item.id === profile.id)) {
+        throw new Error('Profile already exists');
+      }
+      return save(profile);
+    },
+
+    async upsert(profile) {
+      await simulateLatency();
+      return save(profile);
+    },
+
+    async list(page) {
+      await simulateLatency();
+      return sliceTablePage(
+        [...profiles].sort((a, b) => (b.join_date || '').localeCompare(a.join_date || '') || a.id.localeCompare(b.id)),
+        page
+      );
+    },
+
+    async setSuspended(ids, suspended) {
+      await simulateLatency();
+      const suspendedAt = suspended ? new Date().toISOString() : null;
+      profiles = profiles.map(profile => ids.includes(profile.id) ? { ...profile, suspended_at: suspendedAt } : profile);
+    },
+  };
+}
+
+/**
+ * Accounts kept in memory. Any password is accepted, and the session starts
+ * signed in as `currentUserId` if one is given.
+ */
+export function createMemoryAuthRepository(fixtures: AuthUser[], currentUserId: string | null): AuthRepository {
+  let accounts = fixtures.map(account => ({ ...account }));
+  let sessionUser = accounts.find(account => account.id === currentUserId) || null;
+
+  function findByEmail(email: string): AuthUser | undefined {
+    return accounts.find(account => account.email.toLowerCase() === email.toLowerCase());
+  }
+
+  return {
+    async getSessionUser() {
+      return sessionUser;
+    },
+
+    async signIn({ email }) {
+      await simulateLatency();
+      const account = findByEmail(email);
+      if (!account) {
+        throw new Error('Invalid email or password');
+      }
+      sessionUser = account;
+      return account;
+    },
+
+    async signUp({ email }) {
+      await simulateLatency();
+      if (findByEmail(email)) {
+        throw new Error('Email already in use');
+      }
+      const account: AuthUser = {
+        id: `user-${Math.random().toString(36).substring(2, 7)}`,
+        email,
+        created_at: new Date().toISOString()
+      };
+      accounts = [...accounts, account];
+      sessionUser = account;
+      return account;
+    },
+
+    async signOut() {
+      sessionUser = null;
+    },
+  };
+}
@@ -0,0 +1,146 @@
+import { supabase } from '../config/supabase';
+import type { BookListing } from '../services/BookService';
+import type { NewWantedBook, WantedBook, WantedBookMatch } from '../services/WantedBookService';
+import { matchesWantedBook } from '../utils/wantedBooks';
+import { simulateLatency } from './dataSource';
+
+export interface WantedBookRepository {
+  // A user's wanted books, newest first
+  listForUser(userId: string): Promise<WantedBook[]>;
+  create(userId: string, wanted: NewWantedBook): Promise<WantedBook>;
+  delete(id: string): Promise<void>;
+  // Record the wanted books a new listing fulfils, returning how many people want it
+  recordMatches(listing: BookListing): Promise<number>;
+  // Listings found for a user's wanted books, newest first
+  listMatches(userId: string): Promise<WantedBookMatch[]>;
+}
+
+export const supabaseWantedBookRepository: WantedBookRepository = {
+  async listForUser(userId) {
+    const { data, error } = await supabase
+      .from('wanted_books')
+      .select('*')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      throw error;
+    }
+
+    return data || [];
+  },
+
+  async create(userId, wanted) {
+    const { data, error } = await supabase
+      .from('wanted_books')
+      .insert({ ...wanted, user_id: userId })
+      .select()
+      .single();
+
+    if (error) {
+      throw error;
+    }
+
+    return data;
+  },
+
+  async delete(id) {
+    const { error } = await supabase
+      .from('wanted_books')
+      .delete()
+      .eq('id', id);
+
+    if (error) {
+      throw error;
+    }
+  },
+
+  async recordMatches(listing) {
+    // Sellers cannot read other users' wanted books, so matching happens in the database
+    const { data, error } = await supabase.rpc('record_wanted_book_matches', {
+      p_listing_id: listing.id
+    });
+
+    if (error) {
+      throw error;
+    }
+
+    return data || 0;
+  },
+
+  async listMatches(userId) {
+    const { data, error } = await supabase
+      .from('wanted_book_matches')
+      .select('*')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      throw error;
+    }
+
+    return data || [];
+  },
+};
+
+/**
+ * Wanted books and their matches kept in memory
+ */
+export function createMemoryWantedBookRepository(fixtures: WantedBook[]): WantedBookRepository {
+  let wantedBooks = fixtures.map(wanted => ({ ...wanted }));
+  let matches: WantedBookMatch[] = [];
+
+  return {
+    async listForUser(userId) {
+      await simulateLatency();
+      return wantedBooks
+        .filter(wanted => wanted.user_id === userId)
+        .sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime());
+    },
+
+    async create(userId, wanted) {
+      await simulateLatency();
+      const created: WantedBook = {
+        id: `mock-wanted-${Math.random().toString(36).substring(2, 15)}`,
+        ...wanted,
+        user_id: userId,
+        created_at: new Date().toISOString(),
+      };
+      wantedBooks = [...wantedBooks, created];
+      return created;
+    },
+
+    async delete(id) {
+      await simulateLatency();
+      wantedBooks = wantedBooks.filter(wanted => wanted.id !== id);
+      matches = matches.filter(match => match.wanted_book_id !== id);
+    },
+
+    async recordMatches(listing) {
+      await simulateLatency();
+      const fulfilled = wantedBooks.filter(wanted => matchesWantedBook(wanted, listing));
+      const now = new Date().toISOString();
+
+      fulfilled.forEach(wanted => {
+        if (!matches.some(match => match.wanted_book_id === wanted.id && match.listing_id === listing.id)) {
+          matches = [...matches, {
+            id: `mock-match-${Math.random().toString(36).substring(2, 15)}`,
+            wanted_book_id: wanted.id,
+            listing_id: listing.id,
+            user_id: wanted.user_id,
+            created_at: now,
+          }];
+        }
+      });
+
+      return new Set(fulfilled.map(wanted => wanted.user_id)).size;
+    },
+
+    async listMatches(userId) {
+      await simulateLatency();
+      return matches
+        .filter(match => match.user_id === userId)
+        .sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime());
+    },
+  };
+}
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState } from 'react';
 import {
   View,
   Text,
@@ -7,7 +7,6 @@ import {
   SafeAreaView,
   ScrollView,
   Alert,
-  Image,
   KeyboardAvoidingView,
   Platform,
   ActivityIndicator,
@@ -15,12 +14,19 @@ import {
 import { Ionicons } from '@expo/vector-icons';
 import { useNavigation } from '@react-navigation/native';
 import { FormInput } from '../components/FormInput';
+import { LocationPicker } from '../components/LocationPicker';
+import { IsbnScannerModal } from '../components/IsbnScannerModal';
+import { ListingPhotoEditor } from '../components/ListingPhotoEditor';
 import { Button } from '../components/Button';
 import { theme } from '../styles/theme';
-import { BookService, CreateBookListing } from '../services/BookService';
-import { ImageService } from '../services/ImageService';
+import { BookService, CreateBookListing, getModerationState } from '../services/BookService';
+import { BookMetadataService } from '../services/BookMetadataService';
+import { ListingImageService, ListingPhoto } from '../services/ListingImageService';
+import { WantedBookService } from '../services/WantedBookService';
 import { useAuth } from '../store/AuthContext';
-import * as ImagePicker from 'expo-image-picker';
+import { GeoPoint } from '../utils/location';
+import { toIsbn13 } from '../utils/isbn';
+import { SUSPENDED_ACCOUNT_ERROR } from '../utils/auth';
 
 export const AddListingScreen = () => {
   const navigation = useNavigation();
@@ -33,96 +39,66 @@ export const AddListingScreen = () => {
   const [description, setDescription] = useState('');
   const [category, setCategory] = useState('');
   const [isbn, setIsbn] = useState('');
-  const [imageUri, setImageUri] = useState<string | null>(null);
+  const [publisher, setPublisher] = useState('');
+  const [edition, setEdition] = useState('');
+  const [publicationYear, setPublicationYear] = useState('');
+  const [photos, setPhotos] = useState<ListingPhoto[]>([]);
+  const [location, setLocation] = useState<GeoPoint | null>(null);
   const [errors, setErrors] = useState<{
     title?: string;
     author?: string;
     price?: string;
     condition?: string;
     category?: string;
+    isbn?: string;
+    publicationYear?: string;
   }>({});
   const [isLoading, setIsLoading] = useState(false);
+  const [isScannerVisible, setIsScannerVisible] = useState(false);
+  const [isLookingUp, setIsLookingUp] = useState(false);
 
-  useEffect(() => {
-    // Request camera roll permissions on component mount
-    (async () => {
-      const { status } = await ImagePicker.requestMediaLibraryPermissionsAsync();
-      if (status !== 'granted') {
-        Alert.alert(
-          'Permission Required',
-          'Sorry, we need camera roll permissions to make this work!'
-        );
-      }
-    })();
-  }, []);
-
-  const pickImage = async () => {
-    // Show options dialog for camera or gallery
-    Alert.alert(
-      'Choose Image Source',
-      'Where would you like to select an image from?',
-      [
-        { 
-          text: 'Cancel', 
-          style: 'cancel' 
-        },
-        { 
-          text: 'Camera', 
-          onPress: takePicture 
-        },
-        { 
-          text: 'Photo Library', 
-          onPress: selectFromGallery 
-        },
-      ]
-    );
-  };
+  // Fill in the book details for an ISBN, typed or scanned
+  const lookUpIsbn = async (value: string) => {
+    if (!toIsbn13(value)) {
+      setErrors(prev => ({ ...prev, isbn: 'Enter a valid ISBN-10 or ISBN-13' }));
+      return;
+    }
 
-  const takePicture = async () => {
     try {
-      // First check and request camera permissions
-      const { status } = await ImagePicker.requestCameraPermissionsAsync();
-      if (status !== 'granted') {
+      setIsLookingUp(true);
+      setErrors(prev => ({ ...prev, isbn: undefined }));
+
+      const metadata = await BookMetadataService.lookupIsbn(value);
+      if (!metadata) {
         Alert.alert(
-          'Permission Denied',
-          'We need camera permissions to take pictures'
+          'Book Not Found',
+          'We couldn\'t find details for this ISBN. Please fill them in yourself.'
         );
         return;
       }
 
-      // Launch camera
-      const result = await ImagePicker.launchCameraAsync({
-        mediaTypes: ImagePicker.MediaTypeOptions.Images,
-        allowsEditing: true,
-        aspect: [4, 6],
-        quality: 0.7,
-      });
-
-      if (!result.canceled) {
-        setImageUri(result.assets[0].uri);
+      setIsbn(metadata.isbn);
+      setTitle(metadata.title);
+      setAuthor(metadata.author);
+      if (metadata.publisher) setPublisher(metadata.publisher);
+      if (metadata.edition) setEdition(metadata.edition);
+      if (metadata.publication_year) setPublicationYear(String(metadata.publication_year));
+      if (metadata.description && !description) setDescription(metadata.description);
+      // Only use the category if it is one the seller could have picked
+      if (metadata.category && categories.includes(metadata.category)) {
+        setCategory(metadata.category);
       }
     } catch (error) {
-      console.error('Error taking picture:', error);
-      Alert.alert('Error', 'Failed to take picture');
+      console.error('Error looking up ISBN:', error);
+      Alert.alert('Error', 'Failed to look up this ISBN');
+    } finally {
+      setIsLookingUp(false);
     }
   };
 
-  const selectFromGallery = async () => {
-    try {
-      const result = await ImagePicker.launchImageLibraryAsync({
-        mediaTypes: ImagePicker.MediaTypeOptions.Images,
-        allowsEditing: true,
-        aspect: [4, 6],
-        quality: 0.7,
-      });
-
-      if (!result.canceled) {
-        setImageUri(result.assets[0].uri);
-      }
-    } catch (error) {
-      console.error('Error selecting image:', error);
-      Alert.alert('Error', 'Failed to select image');
-    }
+  const handleIsbnScanned = (scannedIsbn: string) => {
+    setIsbn(scannedIsbn);
+    lookUpIsbn(scannedIsbn);
   };
 
   const validateForm = () => {
@@ -132,6 +108,8 @@ export const AddListingScreen = () => {
       price?: string;
       condition?: string;
       category?: string;
+      isbn?: string;
+      publicationYear?: string;
     } = {};
     
     if (!title) {
@@ -155,6 +133,17 @@ export const AddListingScreen = () => {
     if (!category) {
       newErrors.category = 'Category is required';
     }
+
+    if (isbn && !toIsbn13(isbn)) {
+      newErrors.isbn = 'Enter a valid ISBN-10 or ISBN-13';
+    }
+
+    if (publicationYear) {
+      const year = Number(publicationYear);
+      if (!Number.isInteger(year) || year < 1000 || year > new Date().getFullYear() + 1) {
+        newErrors.publicationYear = 'Enter a valid year';
+      }
+    }
     
     setErrors(newErrors);
     return Object.keys(newErrors).length === 0;
@@ -170,50 +159,65 @@ export const AddListingScreen = () => {
     setIsLoading(true);
     
     try {
-      let image_url = 'https://source.unsplash.com/random/200x300/?book'; // Default fallback
+      const newListing: CreateBookListing = {
+        title,
+        author,
+        price: Number(price),
+        condition,
+        description: description || undefined,
+        category: category || undefined,
+        // Stored as ISBN-13 whichever form was entered
+        isbn: isbn ? toIsbn13(isbn) || undefined : undefined,
+        publisher: publisher || undefined,
+        edition: edition || undefined,
+        publication_year: publicationYear ? Number(publicationYear) : undefined,
+        // Shown until the photos are uploaded, and kept if there are none
+        image_url: 'https://source.unsplash.com/random/200x300/?book',
+        latitude: location?.latitude,
+        longitude: location?.longitude,
+        seller_id: user.id,
+      };
       
-      // If user selected an image, upload it to Supabase Storage
-      if (imageUri) {
+      const createdListing = await BookService.createListing(newListing);
+
+      if (photos.length > 0) {
         try {
-          // Generate a path based on user ID and timestamp
-          const imagePath = `${user.id}/book`;
-          // Upload the image and get the public URL
-          image_url = await ImageService.uploadImage(imageUri, 'book-images', imagePath);
+          await ListingImageService.saveListingImages(createdListing.id, user.id, photos);
         } catch (imageError) {
-          console.error('Error uploading image:', imageError);
-          // If image upload fails, we'll use the default image but continue with the listing
+          console.error('Error uploading images:', imageError);
+          // If the upload fails, we'll keep the default image but continue with the listing
           Alert.alert(
             'Image Upload Warning',
-            'Failed to upload your image. Your listing will continue with a default image.',
+            'Failed to upload your photos. Your listing will continue with a default image.',
             [{ text: 'Continue' }]
           );
         }
       }
       
-      const newListing: CreateBookListing = {
-        title,
-        author,
-        price: Number(price),
-        condition,
-        description: description || undefined,
-        category: category || undefined,
-        isbn: isbn || undefined,
-        image_url,
-        seller_id: user.id,
-      };
+      // Let the seller know if buyers are already waiting for this book
+      const wantedBy = await WantedBookService.recordListingMatches(createdListing);
+      const demandNote = wantedBy === 1
+        ? ' 1 person is looking for this book.'
+        : wantedBy > 1
+          ? ` ${wantedBy} people are looking for this book.`
+          : '';
       
-      await BookService.createListing(newListing);
+      const reviewNote = getModerationState(createdListing) === 'pending'
+        ? ' Buyers will see it once it has been approved.'
+        : '';
       
       Alert.alert(
         'Success',
-        'Your book has been listed successfully!',
+        `Your book has been listed successfully!${reviewNote}${demandNote}`,
         [{ text: 'OK', onPress: () => navigation.goBack() }]
       );
     } catch (error) {
       console.error('Error adding listing:', error);
       Alert.alert(
         'Error',
-        'Failed to add your listing. Please try again later.'
+        error instanceof Error && error.message === SUSPENDED_ACCOUNT_ERROR
+          ? SUSPENDED_ACCOUNT_ERROR
+          : 'Failed to add your listing. Please try again later.'
       );
     } finally {
       setIsLoading(false);
@@ -259,32 +263,39 @@ export const AddListingScreen = () => {
             <View style={styles.placeholder} />
           </View>
 
-          <View style={styles.imageSection}>
-            <TouchableOpacity style={styles.imageUpload} onPress={pickImage}>
-              {imageUri ? (
-                <Image 
-                  source={{ uri: imageUri }} 
-                  style={styles.previewImage as any} 
-                  resizeMode="cover"
-                />
-              ) : (
-                <>
-                  <Ionicons name="camera" size={40} color={theme.colors.primary} />
-                  <Text style={styles.imageUploadText}>Add Photos</Text>
-                </>
-              )}
-            </TouchableOpacity>
-            {imageUri && (
-              <TouchableOpacity 
-                style={styles.changeImageButton} 
-                onPress={pickImage}
-              >
-                <Text style={styles.changeImageText}>Change Image</Text>
-              </TouchableOpacity>
-            )}
-          </View>
+          <ListingPhotoEditor photos={photos} onChange={setPhotos} />
 
           <View style={styles.form}>
+            <FormInput
+              label="ISBN (Optional)"
+              placeholder="Enter or scan the ISBN to fill in details"
+              value={isbn}
+              onChangeText={setIsbn}
+              autoCapitalize="characters"
+              error={errors.isbn}
+            />
+            <View style={styles.isbnActions}>
+              <TouchableOpacity
+                style={styles.isbnActionButton}
+                onPress={() => setIsScannerVisible(true)}
+              >
+                <Ionicons name="barcode-outline" size={18} color={theme.colors.primary} />
+                <Text style={styles.isbnActionText}>Scan Barcode</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={styles.isbnActionButton}
+                onPress={() => lookUpIsbn(isbn)}
+                disabled={!isbn || isLookingUp}
+              >
+                {isLookingUp ? (
+                  <ActivityIndicator size="small" color={theme.colors.primary} />
+                ) : (
+                  <Ionicons name="search-outline" size={18} color={theme.colors.primary} />
+                )}
+                <Text style={styles.isbnActionText}>Look Up</Text>
+              </TouchableOpacity>
+            </View>
+            
             <FormInput
               label="Book Title"
               placeholder="Enter the book title"
@@ -365,11 +376,32 @@ export const AddListingScreen = () => {
             )}
             
             <FormInput
-              label="ISBN (Optional)"
-              placeholder="Enter ISBN"
-              value={isbn}
-              onChangeText={setIsbn}
+              label="Publisher (Optional)"
+              placeholder="Enter the publisher"
+              value={publisher}
+              onChangeText={setPublisher}
+            />
+            
+            <FormInput
+              label="Edition (Optional)"
+              placeholder="e.g., 3rd Edition"
+              value={edition}
+              onChangeText={setEdition}
+            />
+            
+            <FormInput
+              label="Publication Year (Optional)"
+              placeholder="e.g., 2019"
+              value={publicationYear}
+              onChangeText={setPublicationYear}
               keyboardType="numeric"
+              error={errors.publicationYear}
+            />
+            
+            <LocationPicker
+              label="Pickup Location (Optional)"
+              value={location}
+              onChange={setLocation}
             />
             
             <FormInput
@@ -398,6 +430,12 @@ export const AddListingScreen = () => {
           </View>
         </ScrollView>
       </KeyboardAvoidingView>
+
+      <IsbnScannerModal
+        visible={isScannerVisible}
+        onClose={() => setIsScannerVisible(false)}
+        onScanned={handleIsbnScanned}
+      />
     </SafeAreaView>
   );
 };
@@ -430,38 +468,27 @@ const styles = StyleSheet.create({
   placeholder: {
     width: 24,
   },
-  imageSection: {
-    marginBottom: theme.spacing.lg,
-  },
-  imageUpload: {
-    height: 200,
-    backgroundColor: '#f5f5f5',
-    borderRadius: theme.borderRadius.md,
-    borderWidth: 1,
-    borderColor: theme.colors.border,
-    borderStyle: 'dashed',
-    justifyContent: 'center',
-    alignItems: 'center',
-    overflow: 'hidden',
-  },
-  previewImage: {
+  form: {
     width: '100%',
-    height: '100%',
   },
-  imageUploadText: {
-    marginTop: theme.spacing.sm,
-    color: theme.colors.primary,
+  isbnActions: {
+    flexDirection: 'row',
+    marginTop: -theme.spacing.sm,
+    marginBottom: theme.spacing.md,
   },
-  changeImageButton: {
-    marginTop: theme.spacing.sm,
-    alignSelf: 'center',
+  isbnActionButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: theme.spacing.xs,
+    paddingHorizontal: theme.spacing.sm,
+    borderRadius: theme.borderRadius.md,
+    borderWidth: 1,
+    borderColor: theme.colors.primary,
+    marginRight: theme.spacing.sm,
   },
-  changeImageText: {
+  isbnActionText: {
     color: theme.colors.primary,
-    fontSize: 14,
-  },
-  form: {
-    width: '100%',
+    marginLeft: theme.spacing.xs,
   },
   label: {
     fontSize: theme.typography.body.fontSize,
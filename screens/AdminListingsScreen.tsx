@@ -0,0 +1,167 @@
+import React, { useCallback, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, TextStyle } from 'react-native';
+import { format } from 'date-fns';
+import { AdminTable, AdminTableColumn, useAdminTable } from '../components/AdminTable';
+import { ListingStatusBadge } from '../components/ListingStatusBadge';
+import { AdminListing, AdminListingFilter, AdminService } from '../services/AdminService';
+import { getListingStatus, getModerationState } from '../services/BookService';
+import { theme } from '../styles/theme';
+import { confirmAction, promptText, showMessage } from '../utils/dialogs';
+
+const FILTERS: { filter: AdminListingFilter; label: string; emptyText: string }[] = [
+  { filter: 'all', label: 'All listings', emptyText: 'No listings yet' },
+  { filter: 'pending', label: 'Awaiting approval', emptyText: 'No listings are waiting for approval' },
+  { filter: 'hidden', label: 'Hidden after reports', emptyText: 'No listings are hidden' },
+];
+
+const COLUMNS: AdminTableColumn<AdminListing>[] = [
+  {
+    title: 'Book',
+    flex: 3,
+    render: listing => (
+      <>
+        <Text style={styles.primaryText} numberOfLines={1}>{listing.title}</Text>
+        <Text style={styles.secondaryText} numberOfLines={1}>{listing.author}</Text>
+      </>
+    )
+  },
+  { title: 'Seller', flex: 2, render: listing => <Text numberOfLines={1}>{listing.sellerName}</Text> },
+  { title: 'Price', render: listing => <Text>${listing.price.toFixed(2)}</Text> },
+  { title: 'Status', render: listing => <ListingStatusBadge status={getListingStatus(listing)} /> },
+  {
+    title: 'Approval',
+    flex: 2,
+    render: listing => {
+      switch (getModerationState(listing)) {
+        case 'pending':
+          return <Text style={styles.pendingText}>Awaiting approval</Text>;
+        case 'rejected':
+          return (
+            <>
+              <Text style={styles.hiddenText}>Rejected</Text>
+              <Text style={styles.secondaryText} numberOfLines={2}>{listing.moderation_reason}</Text>
+            </>
+          );
+        default:
+          return <Text style={styles.secondaryText}>Approved</Text>;
+      }
+    }
+  },
+  {
+    title: 'Visibility',
+    flex: 2,
+    render: listing => listing.hidden_at ? (
+      <Text style={styles.hiddenText}>Hidden {format(new Date(listing.hidden_at), 'MMM d')}</Text>
+    ) : (
+      <Text style={styles.secondaryText}>Visible</Text>
+    )
+  },
+  { title: 'Listed', render: listing => <Text>{format(new Date(listing.created_at), 'MMM d, yyyy')}</Text> },
+];
+
+export const AdminListingsScreen = () => {
+  const [filter, setFilter] = useState<AdminListingFilter>('all');
+  const fetchPage = useCallback((page: number) => AdminService.getListings(page, filter), [filter]);
+  const table = useAdminTable(fetchPage);
+
+  const rejectListings = async (ids: string[]) => {
+    const reason = await promptText(
+      'Reject Listings',
+      `Why ${ids.length === 1 ? 'is this listing' : 'are these listings'} rejected? The seller will see your answer.`,
+      'Reject'
+    );
+    if (reason === null) {
+      return;
+    }
+    if (!reason.trim()) {
+      showMessage('Reason Required', 'Please give a reason for rejecting the listing.');
+      return;
+    }
+    await AdminService.rejectListings(ids, reason);
+  };
+
+  const removeListings = async (ids: string[]) => {
+    const confirmed = await confirmAction(
+      'Remove Listings',
+      `Delete ${ids.length} listing${ids.length === 1 ? '' : 's'}? Users who saved them will be told they were removed.`,
+      'Remove'
+    );
+    if (confirmed) {
+      await AdminService.removeListings(ids);
+    }
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.filters}>
+        {FILTERS.map(option => (
+          <TouchableOpacity
+            key={option.filter}
+            style={[styles.filterChip, filter === option.filter && styles.activeFilterChip]}
+            onPress={() => setFilter(option.filter)}
+          >
+            <Text style={[styles.filterText, filter === option.filter && styles.activeFilterText]}>
+              {option.label}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      <AdminTable
+        table={table}
+        columns={COLUMNS}
+        rowLabel={listing => listing.title}
+        actions={[
+          { label: 'Approve', onPress: ids => AdminService.approveListings(ids) },
+          { label: 'Reject', onPress: rejectListings },
+          { label: 'Remove', onPress: removeListings, destructive: true },
+        ]}
+        emptyText={FILTERS.find(option => option.filter === filter)!.emptyText}
+      />
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#fff',
+  },
+  filters: {
+    flexDirection: 'row',
+    paddingHorizontal: theme.spacing.md,
+    paddingTop: theme.spacing.md,
+  },
+  filterChip: {
+    paddingVertical: theme.spacing.xs,
+    paddingHorizontal: theme.spacing.md,
+    marginRight: theme.spacing.sm,
+    borderRadius: theme.borderRadius.round,
+    borderWidth: 1,
+    borderColor: theme.colors.border,
+  },
+  activeFilterChip: {
+    backgroundColor: theme.colors.primary,
+    borderColor: theme.colors.primary,
+  },
+  filterText: {
+    color: theme.colors.text,
+  },
+  activeFilterText: {
+    color: '#fff',
+    fontWeight: '600' as TextStyle['fontWeight'],
+  },
+  primaryText: {
+    fontWeight: '600' as TextStyle['fontWeight'],
+    color: theme.colors.text,
+  },
+  secondaryText: {
+    color: theme.colors.textSecondary,
+  },
+  hiddenText: {
+    color: theme.colors.error,
+  },
+  pendingText: {
+    color: theme.colors.warning,
+  },
+});
@@ -0,0 +1,124 @@
+import React, { useCallback, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, TextStyle } from 'react-native';
+import { format } from 'date-fns';
+import { AdminTable, AdminTableColumn, useAdminTable } from '../components/AdminTable';
+import { AdminReport, AdminService } from '../services/AdminService';
+import { REPORT_REASON_LABELS, ReportStatus } from '../services/ReportService';
+import { theme } from '../styles/theme';
+
+const STATUS_FILTERS: { status: ReportStatus | null; label: string }[] = [
+  { status: 'open', label: 'Open' },
+  { status: 'resolved', label: 'Resolved' },
+  { status: 'dismissed', label: 'Dismissed' },
+  { status: null, label: 'All' },
+];
+
+/**
+ * What a report is about, e.g. "Listing: Clean Code"
+ */
+function describeTarget(report: AdminReport): string {
+  if (report.listing_id) {
+    return `Listing: ${report.listingTitle}`;
+  }
+  if (report.message_id) {
+    return `Message from ${report.reportedUserName}`;
+  }
+  return `User: ${report.reportedUserName}`;
+}
+
+const COLUMNS: AdminTableColumn<AdminReport>[] = [
+  {
+    title: 'Reported',
+    flex: 3,
+    render: report => <Text style={styles.primaryText} numberOfLines={1}>{describeTarget(report)}</Text>
+  },
+  {
+    title: 'Reason',
+    flex: 3,
+    render: report => (
+      <>
+        <Text>{REPORT_REASON_LABELS[report.reason]}</Text>
+        {report.details ? <Text style={styles.secondaryText} numberOfLines={2}>{report.details}</Text> : null}
+      </>
+    )
+  },
+  { title: 'Reporter', flex: 2, render: report => <Text numberOfLines={1}>{report.reporterName}</Text> },
+  { title: 'Status', render: report => <Text style={styles.statusText}>{report.status}</Text> },
+  { title: 'Filed', render: report => <Text>{format(new Date(report.created_at), 'MMM d, yyyy')}</Text> },
+];
+
+export const AdminReportsScreen = () => {
+  const [status, setStatus] = useState<ReportStatus | null>('open');
+  const fetchPage = useCallback((page: number) => AdminService.getReports(page, status), [status]);
+  const table = useAdminTable(fetchPage);
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.filters}>
+        {STATUS_FILTERS.map(filter => (
+          <TouchableOpacity
+            key={filter.label}
+            style={[styles.filterChip, status === filter.status && styles.activeFilterChip]}
+            onPress={() => setStatus(filter.status)}
+          >
+            <Text style={[styles.filterText, status === filter.status && styles.activeFilterText]}>
+              {filter.label}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      <AdminTable
+        table={table}
+        columns={COLUMNS}
+        rowLabel={describeTarget}
+        actions={[
+          { label: 'Resolve', onPress: ids => AdminService.resolveReports(ids) },
+          { label: 'Dismiss', onPress: ids => AdminService.dismissReports(ids) },
+        ]}
+        emptyText={status === 'open' ? 'No open reports' : 'No reports'}
+      />
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#fff',
+  },
+  filters: {
+    flexDirection: 'row',
+    paddingHorizontal: theme.spacing.md,
+    paddingTop: theme.spacing.md,
+  },
+  filterChip: {
+    paddingVertical: theme.spacing.xs,
+    paddingHorizontal: theme.spacing.md,
+    marginRight: theme.spacing.sm,
+    borderRadius: theme.borderRadius.round,
+    borderWidth: 1,
+    borderColor: theme.colors.border,
+  },
+  activeFilterChip: {
+    backgroundColor: theme.colors.primary,
+    borderColor: theme.colors.primary,
+  },
+  filterText: {
+    color: theme.colors.text,
+  },
+  activeFilterText: {
+    color: '#fff',
+    fontWeight: '600' as TextStyle['fontWeight'],
+  },
+  primaryText: {
+    fontWeight: '600' as TextStyle['fontWeight'],
+    color: theme.colors.text,
+  },
+  secondaryText: {
+    color: theme.colors.textSecondary,
+  },
+  statusText: {
+    textTransform: 'capitalize',
+  },
+});
@@ -0,0 +1,53 @@
+import React, { useCallback } from 'react';
+import { View, Text, StyleSheet, TextStyle } from 'react-native';
+import { format } from 'date-fns';
+import { AdminTable, AdminTableColumn, useAdminTable } from '../components/AdminTable';
+import { AdminService, AdminTransaction } from '../services/AdminService';
+import { theme } from '../styles/theme';
+
+const COLUMNS: AdminTableColumn<AdminTransaction>[] = [
+  {
+    title: 'Book',
+    flex: 3,
+    render: transaction => <Text style={styles.primaryText} numberOfLines={1}>{transaction.listing_title}</Text>
+  },
+  { title: 'Seller', flex: 2, render: transaction => <Text numberOfLines={1}>{transaction.sellerName}</Text> },
+  { title: 'Buyer', flex: 2, render: transaction => <Text numberOfLines={1}>{transaction.buyerName}</Text> },
+  { title: 'Price', render: transaction => <Text>${transaction.price.toFixed(2)}</Text> },
+  { title: 'Method', render: transaction => <Text style={styles.methodText}>{transaction.method}</Text> },
+  {
+    title: 'Completed',
+    render: transaction => <Text>{format(new Date(transaction.created_at), 'MMM d, yyyy')}</Text>
+  },
+];
+
+export const AdminTransactionsScreen = () => {
+  const fetchPage = useCallback((page: number) => AdminService.getTransactions(page), []);
+  const table = useAdminTable(fetchPage);
+
+  return (
+    <View style={styles.container}>
+      <AdminTable
+        table={table}
+        columns={COLUMNS}
+        rowLabel={transaction => transaction.listing_title}
+        actions={[]}
+        emptyText="No sales or exchanges yet"
+      />
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#fff',
+  },
+  primaryText: {
+    fontWeight: '600' as TextStyle['fontWeight'],
+    color: theme.colors.text,
+  },
+  methodText: {
+    textTransform: 'capitalize',
+  },
+});
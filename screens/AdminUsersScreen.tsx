@@ -0,0 +1,80 @@
+import React, { useCallback } from 'react';
+import { View, Text, StyleSheet, TextStyle } from 'react-native';
+import { format } from 'date-fns';
+import { AdminTable, AdminTableColumn, useAdminTable } from '../components/AdminTable';
+import { AdminService, AdminUser } from '../services/AdminService';
+import { theme } from '../styles/theme';
+import { confirmAction } from '../utils/dialogs';
+
+const COLUMNS: AdminTableColumn<AdminUser>[] = [
+  {
+    title: 'Name',
+    flex: 2,
+    render: user => (
+      <Text style={styles.primaryText} numberOfLines={1}>
+        {user.name}{user.isAdmin ? '  (admin)' : ''}
+      </Text>
+    )
+  },
+  { title: 'Email', flex: 3, render: user => <Text numberOfLines={1}>{user.email || '-'}</Text> },
+  {
+    title: 'Joined',
+    render: user => <Text>{user.joinDate ? format(new Date(user.joinDate), 'MMM d, yyyy') : '-'}</Text>
+  },
+  {
+    title: 'Status',
+    render: user => user.suspendedAt ? (
+      <Text style={styles.suspendedText}>Suspended {format(new Date(user.suspendedAt), 'MMM d')}</Text>
+    ) : (
+      <Text style={styles.secondaryText}>Active</Text>
+    )
+  },
+];
+
+export const AdminUsersScreen = () => {
+  const fetchPage = useCallback((page: number) => AdminService.getUsers(page), []);
+  const table = useAdminTable(fetchPage);
+
+  const suspendUsers = async (ids: string[]) => {
+    const confirmed = await confirmAction(
+      'Suspend Users',
+      `Suspend ${ids.length} user${ids.length === 1 ? '' : 's'}? They will not be able to list books or send messages until restored.`,
+      'Suspend'
+    );
+    if (confirmed) {
+      await AdminService.suspendUsers(ids);
+    }
+  };
+
+  return (
+    <View style={styles.container}>
+      <AdminTable
+        table={table}
+        columns={COLUMNS}
+        rowLabel={user => user.name}
+        actions={[
+          { label: 'Restore', onPress: ids => AdminService.restoreUsers(ids) },
+          { label: 'Suspend', onPress: suspendUsers, destructive: true },
+        ]}
+        emptyText="No users yet"
+      />
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#fff',
+  },
+  primaryText: {
+    fontWeight: '600' as TextStyle['fontWeight'],
+    color: theme.colors.text,
+  },
+  secondaryText: {
+    color: theme.colors.textSecondary,
+  },
+  suspendedText: {
+    color: theme.colors.error,
+  },
+});
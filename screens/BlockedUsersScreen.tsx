@@ -0,0 +1,268 @@
+import React, { useState, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  FlatList,
+  TouchableOpacity,
+  ActivityIndicator,
+  Alert,
+  Image,
+  TextStyle
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { useFocusEffect } from '@react-navigation/native';
+import { Ionicons } from '@expo/vector-icons';
+import { format } from 'date-fns';
+import { RootStackParamList } from '../navigation/AppNavigator';
+import { BlockService, BlockedUserWithProfile } from '../services/BlockService';
+import { theme } from '../styles/theme';
+
+type BlockedUsersScreenProps = {
+  navigation: NativeStackNavigationProp<RootStackParamList, 'BlockedUsers'>;
+};
+
+export const BlockedUsersScreen = ({ navigation }: BlockedUsersScreenProps) => {
+  const [blockedUsers, setBlockedUsers] = useState<BlockedUserWithProfile[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [unblockingId, setUnblockingId] = useState<string | null>(null);
+
+  const fetchBlockedUsers = useCallback(async () => {
+    try {
+      setError(null);
+      setBlockedUsers(await BlockService.getBlockedUsers());
+    } catch (err) {
+      console.error('Error fetching blocked users:', err);
+      setError('Failed to load blocked users. Please try again later.');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useFocusEffect(
+    useCallback(() => {
+      fetchBlockedUsers();
+    }, [fetchBlockedUsers])
+  );
+
+  const handleUnblock = (user: BlockedUserWithProfile) => {
+    Alert.alert(
+      `Unblock ${user.name}?`,
+      'You will be able to message each other again, and their listings and your conversations with them will show up again.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Unblock',
+          onPress: async () => {
+            try {
+              setUnblockingId(user.id);
+              await BlockService.unblockUser(user.id);
+              setBlockedUsers(prev => prev.filter(item => item.id !== user.id));
+            } catch (err) {
+              console.error('Error unblocking user:', err);
+              Alert.alert('Error', 'Failed to unblock this user. Please try again.');
+            } finally {
+              setUnblockingId(null);
+            }
+          }
+        }
+      ]
+    );
+  };
+
+  const renderBlockedUser = ({ item }: { item: BlockedUserWithProfile }) => (
+    <View style={styles.userItem}>
+      {item.profileImage ? (
+        <Image source={{ uri: item.profileImage }} style={styles.userImage} />
+      ) : (
+        <View style={[styles.userImage, styles.userImagePlaceholder]}>
+          <Ionicons name="person" size={22} color="#fff" />
+        </View>
+      )}
+      <View style={styles.userContent}>
+        <Text style={styles.userName} numberOfLines={1}>{item.name}</Text>
+        <Text style={styles.blockedDate}>Blocked {format(new Date(item.blockedAt), 'MMM d, yyyy')}</Text>
+      </View>
+      <TouchableOpacity
+        style={styles.unblockButton}
+        onPress={() => handleUnblock(item)}
+        disabled={unblockingId === item.id}
+        accessibilityLabel={`Unblock ${item.name}`}
+      >
+        {unblockingId === item.id ? (
+          <ActivityIndicator size="small" color={theme.colors.primary} />
+        ) : (
+          <Text style={styles.unblockText}>Unblock</Text>
+        )}
+      </TouchableOpacity>
+    </View>
+  );
+
+  return (
+    <SafeAreaView style={styles.safeArea} edges={['top']}>
+      <View style={styles.container}>
+        {/* Header */}
+        <View style={styles.header}>
+          <TouchableOpacity
+            style={styles.backButton}
+            onPress={() => navigation.goBack()}
+          >
+            <Ionicons name="arrow-back" size={24} color={theme.colors.text} />
+          </TouchableOpacity>
+          <Text style={styles.headerTitle}>Blocked Users</Text>
+        </View>
+
+        {isLoading ? (
+          <View style={styles.loadingContainer}>
+            <ActivityIndicator size="large" color={theme.colors.primary} />
+          </View>
+        ) : error ? (
+          <View style={styles.errorContainer}>
+            <Ionicons name="alert-circle-outline" size={40} color={theme.colors.error} />
+            <Text style={styles.errorText}>{error}</Text>
+            <TouchableOpacity style={styles.retryButton} onPress={fetchBlockedUsers}>
+              <Text style={styles.retryText}>Retry</Text>
+            </TouchableOpacity>
+          </View>
+        ) : (
+          <FlatList
+            data={blockedUsers}
+            keyExtractor={(item) => item.id}
+            renderItem={renderBlockedUser}
+            contentContainerStyle={styles.listContainer}
+            ListEmptyComponent={
+              <View style={styles.emptyContainer}>
+                <Ionicons name="ban-outline" size={60} color={theme.colors.textSecondary} />
+                <Text style={styles.emptyText}>You have not blocked anyone</Text>
+                <Text style={styles.emptySubtext}>
+                  Block someone from a conversation to stop them messaging you and hide their listings
+                </Text>
+              </View>
+            }
+          />
+        )}
+      </View>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  safeArea: {
+    flex: 1,
+    backgroundColor: theme.colors.background,
+  },
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: theme.spacing.md,
+    borderBottomWidth: 1,
+    borderBottomColor: theme.colors.border,
+    backgroundColor: '#fff',
+  },
+  backButton: {
+    marginRight: theme.spacing.md,
+    padding: theme.spacing.xs,
+  },
+  headerTitle: {
+    flex: 1,
+    fontSize: 18,
+    fontWeight: '600' as TextStyle['fontWeight'],
+    color: theme.colors.text,
+  },
+  listContainer: {
+    flexGrow: 1,
+  },
+  userItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: theme.spacing.md,
+    borderBottomWidth: 1,
+    borderBottomColor: theme.colors.border,
+    backgroundColor: '#fff',
+  },
+  userImage: {
+    width: 44,
+    height: 44,
+    borderRadius: 22,
+    marginRight: theme.spacing.md,
+  },
+  userImagePlaceholder: {
+    backgroundColor: theme.colors.primary,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  userContent: {
+    flex: 1,
+  },
+  userName: {
+    fontSize: 16,
+    fontWeight: '600' as TextStyle['fontWeight'],
+    color: theme.colors.text,
+  },
+  blockedDate: {
+    marginTop: 2,
+    fontSize: 12,
+    color: theme.colors.textSecondary,
+  },
+  unblockButton: {
+    minWidth: 80,
+    alignItems: 'center',
+    paddingVertical: theme.spacing.xs,
+    paddingHorizontal: theme.spacing.md,
+    borderRadius: theme.borderRadius.md,
+    borderWidth: 1,
+    borderColor: theme.colors.primary,
+  },
+  unblockText: {
+    color: theme.colors.primary,
+    fontWeight: '700' as TextStyle['fontWeight'],
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  errorContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: theme.spacing.lg,
+  },
+  errorText: {
+    textAlign: 'center',
+    marginVertical: theme.spacing.md,
+    color: theme.colors.error,
+  },
+  retryButton: {
+    paddingVertical: theme.spacing.sm,
+    paddingHorizontal: theme.spacing.md,
+    backgroundColor: theme.colors.primary,
+    borderRadius: theme.borderRadius.md,
+    marginTop: theme.spacing.md,
+  },
+  retryText: {
+    color: '#fff',
+    fontWeight: '700' as TextStyle['fontWeight'],
+  },
+  emptyContainer: {
+    alignItems: 'center',
+    padding: theme.spacing.xl,
+  },
+  emptyText: {
+    marginTop: theme.spacing.md,
+    fontSize: 16,
+    color: theme.colors.textSecondary,
+    textAlign: 'center',
+  },
+  emptySubtext: {
+    marginTop: theme.spacing.sm,
+    fontSize: 14,
+    color: theme.colors.textSecondary,
+    textAlign: 'center',
+  },
+});
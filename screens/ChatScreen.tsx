@@ -20,9 +20,31 @@ import { RouteProp, useFocusEffect } from '@react-navigation/native';
 import { Ionicons } from '@expo/vector-icons';
 import { format } from 'date-fns';
 import { RootStackParamList } from '../navigation/AppNavigator';
-import { MessageService, Message } from '../services/MessageService';
+import {
+  MessageService,
+  Message,
+  Conversation,
+  QueuedMessage,
+  QUEUED_MESSAGE_WRITE,
+  BLOCKED_MESSAGE_ERROR
+} from '../services/MessageService';
+import { OfflineService } from '../services/OfflineService';
+import { BookService, BookListing, getListingStatus } from '../services/BookService';
+import { TransactionMethod, TransactionService } from '../services/TransactionService';
+import { ExchangeService, SwapProposalWithListings } from '../services/ExchangeService';
+import { SwapProposalCard } from '../components/SwapProposalCard';
+import { SwapProposalModal } from '../components/SwapProposalModal';
+import { ReportModal } from '../components/ReportModal';
+import { RecordSaleModal } from '../components/RecordSaleModal';
+import { ReportService } from '../services/ReportService';
+import { BlockService } from '../services/BlockService';
 import { theme } from '../styles/theme';
-import { getUserId } from '../utils/auth';
+import { getUserId, SUSPENDED_ACCOUNT_ERROR } from '../utils/auth';
+
+// Messages and swap proposals share one timeline, ordered by creation time
+type ChatItem =
+  | { kind: 'message'; id: string; created_at: string; message: Message }
+  | { kind: 'proposal'; id: string; created_at: string; proposal: SwapProposalWithListings };
 
 type ChatScreenProps = {
   navigation: NativeStackNavigationProp<RootStackParamList, 'Chat'>;
@@ -32,6 +54,15 @@ type ChatScreenProps = {
 export const ChatScreen = ({ navigation, route }: ChatScreenProps) => {
   const { conversationId, otherUserName, listingTitle } = route.params;
   const [messages, setMessages] = useState<Message[]>([]);
+  const [proposals, setProposals] = useState<SwapProposalWithListings[]>([]);
+  const [conversation, setConversation] = useState<Conversation | null>(null);
+  const [listing, setListing] = useState<BookListing | null>(null);
+  const [swapModalVisible, setSwapModalVisible] = useState(false);
+  const [reportModalVisible, setReportModalVisible] = useState(false);
+  const [saleModalVisible, setSaleModalVisible] = useState(false);
+  // The message being reported, or null when reporting the other user
+  const [reportedMessage, setReportedMessage] = useState<Message | null>(null);
+  const [counteringProposal, setCounteringProposal] = useState<SwapProposalWithListings | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [isSending, setIsSending] = useState(false);
   const [newMessage, setNewMessage] = useState('');
@@ -55,6 +86,31 @@ export const ChatScreen = ({ navigation, route }: ChatScreenProps) => {
     fetchUserId();
   }, []);
 
+  // Get the conversation and its listing, to know who may propose a swap
+  const fetchConversation = useCallback(async () => {
+    try {
+      const data = await MessageService.getConversationById(conversationId);
+      setConversation(data);
+      if (data) {
+        setListing(await BookService.getListingById(data.listing_id));
+      }
+    } catch (err) {
+      console.error('Error fetching conversation:', err);
+    }
+  }, [conversationId]);
+
+  useEffect(() => {
+    fetchConversation();
+  }, [fetchConversation]);
+
+  const fetchProposals = useCallback(async () => {
+    try {
+      setProposals(await ExchangeService.getProposalsForConversation(conversationId));
+    } catch (err) {
+      console.error('Error fetching swap proposals:', err);
+    }
+  }, [conversationId]);
+
   // Fetch messages and mark as read
   const fetchMessages = useCallback(async () => {
     try {
@@ -63,37 +119,123 @@ export const ChatScreen = ({ navigation, route }: ChatScreenProps) => {
       
       const data = await MessageService.getMessages(conversationId);
       setMessages(data);
+      fetchProposals();
       
-      // Mark messages as read
-      await MessageService.markMessagesAsRead(conversationId);
+      // Mark messages as read; offline this waits until the next visit
+      MessageService.markMessagesAsRead(conversationId).catch(err => {
+        console.error('Error marking messages as read:', err);
+      });
     } catch (err) {
       console.error('Error fetching messages:', err);
       setError('Failed to load messages. Please try again later.');
     } finally {
       setIsLoading(false);
     }
-  }, [conversationId]);
+  }, [conversationId, fetchProposals]);
+
+  // Add a message to the list, or replace it if we already have it
+  const upsertMessage = useCallback((message: Message) => {
+    setMessages(prev => {
+      const index = prev.findIndex(m => m.id === message.id);
+      if (index === -1) {
+        return [...prev, message];
+      }
+      const updated = [...prev];
+      updated[index] = message;
+      return updated;
+    });
+  }, []);
 
   // Fetch messages when screen comes into focus
   useFocusEffect(
     useCallback(() => {
       fetchMessages();
-      
-      // Set up a refresh interval
-      const intervalId = setInterval(fetchMessages, 10000); // Refresh every 10 seconds
-      
-      return () => clearInterval(intervalId);
     }, [fetchMessages])
   );
 
+  // Keep the chat live while it is focused. Proposal changes touch the
+  // conversation row, so a conversation event means proposals may have changed.
+  useFocusEffect(
+    useCallback(() => {
+      if (!userId) return;
+
+      const unsubscribe = MessageService.subscribeToConversation(conversationId, event => {
+        if (event.type === 'message') {
+          upsertMessage(event.message);
+
+          if (event.eventType === 'INSERT' && event.message.receiver_id === userId) {
+            MessageService.markMessagesAsRead(conversationId).catch(err => {
+              console.error('Error marking messages as read:', err);
+            });
+          }
+        } else {
+          fetchProposals();
+          fetchConversation();
+        }
+      });
+
+      return unsubscribe;
+    }, [conversationId, userId, upsertMessage, fetchProposals, fetchConversation])
+  );
+
+  // Messages sent offline are delivered in the background; show when that happens or fails
+  useEffect(() => {
+    return OfflineService.subscribeToQueue(event => {
+      if (event.type === 'changed' || event.write.type !== QUEUED_MESSAGE_WRITE) return;
+
+      const queued = event.write.payload as QueuedMessage;
+      if (queued.conversationId !== conversationId) return;
+
+      if (event.type === 'synced') {
+        setMessages(prev => prev.map(m => (m.id === queued.id ? { ...m, pending: false } : m)));
+      } else {
+        setMessages(prev => prev.filter(m => m.id !== queued.id));
+        Alert.alert(
+          'Message Not Sent',
+          `"${queued.content}" could not be delivered. The conversation may no longer be available.`
+        );
+      }
+    });
+  }, [conversationId]);
+
+  const chatItems: ChatItem[] = [
+    ...messages.map(message => ({
+      kind: 'message' as const,
+      id: message.id,
+      created_at: message.created_at,
+      message
+    })),
+    ...proposals.map(proposal => ({
+      kind: 'proposal' as const,
+      id: proposal.id,
+      created_at: proposal.created_at,
+      proposal
+    }))
+  ].sort((a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime());
+
+  const otherUserId = conversation
+    ? (conversation.buyer_id === userId ? conversation.seller_id : conversation.buyer_id)
+    : null;
+
+  // Only the buyer can start a swap, and only for an available listing that accepts exchanges
+  const canProposeSwap = !!conversation && !!listing &&
+    conversation.buyer_id === userId &&
+    listing.exchange_option &&
+    (!listing.status || listing.status === 'active');
+
+  // The seller records who got the book, while it is still available or reserved
+  const canRecordSale = !!conversation && !!listing &&
+    conversation.seller_id === userId &&
+    ['active', 'reserved'].includes(getListingStatus(listing));
+
   // Scroll to bottom when messages change
   useEffect(() => {
-    if (messages.length > 0 && !isLoading) {
+    if (chatItems.length > 0 && !isLoading) {
       setTimeout(() => {
         flatListRef.current?.scrollToEnd({ animated: false });
       }, 100);
     }
-  }, [messages, isLoading]);
+  }, [messages, proposals, isLoading]);
 
   // Handle sending a new message
   const handleSendMessage = async () => {
@@ -101,24 +243,154 @@ export const ChatScreen = ({ navigation, route }: ChatScreenProps) => {
     
     try {
       setIsSending(true);
-      await MessageService.sendMessage(conversationId, newMessage.trim());
+      const sent = await MessageService.sendMessage(conversationId, newMessage.trim());
       setNewMessage('');
-      fetchMessages();
+      upsertMessage(sent);
     } catch (err) {
       console.error('Error sending message:', err);
-      Alert.alert('Error', 'Failed to send message. Please try again.');
+      const reason = (err as { message?: string } | null)?.message;
+      Alert.alert(
+        'Error',
+        reason === BLOCKED_MESSAGE_ERROR || reason === SUSPENDED_ACCOUNT_ERROR
+          ? reason
+          : 'Failed to send message. Please try again.'
+      );
     } finally {
       setIsSending(false);
     }
   };
 
+  // Send a new swap proposal, or a counter to the one being answered
+  const handleSubmitProposal = async (offeredListingIds: string[], message: string) => {
+    if (counteringProposal) {
+      await ExchangeService.counterProposal(counteringProposal.id, offeredListingIds, message);
+    } else {
+      await ExchangeService.proposeSwap(conversationId, offeredListingIds, message);
+    }
+    fetchProposals();
+  };
+
+  const handleAcceptProposal = (proposal: SwapProposalWithListings) => {
+    Alert.alert(
+      'Accept Swap',
+      'All books in this swap will be marked as traded. Continue?',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Accept',
+          onPress: async () => {
+            try {
+              await ExchangeService.acceptProposal(proposal.id);
+              fetchProposals();
+              fetchConversation();
+            } catch (err) {
+              console.error('Error accepting swap:', err);
+              Alert.alert('Error', err instanceof Error ? err.message : 'Failed to accept swap. Please try again.');
+            }
+          }
+        }
+      ]
+    );
+  };
+
+  const handleRecordSale = async (price: number, method: TransactionMethod) => {
+    await TransactionService.recordTransaction(conversationId, price, method);
+    fetchConversation();
+    Alert.alert(
+      method === 'exchange' ? 'Exchange Recorded' : 'Sale Recorded',
+      `The listing is now marked as ${method === 'exchange' ? 'traded' : 'sold'}. You can find it in your purchase and sales history.`
+    );
+  };
+
+  const handleRejectProposal = async (proposal: SwapProposalWithListings) => {
+    try {
+      await ExchangeService.rejectProposal(proposal.id);
+      fetchProposals();
+    } catch (err) {
+      console.error('Error rejecting swap:', err);
+      Alert.alert('Error', 'Failed to decline swap. Please try again.');
+    }
+  };
+
+  const openReportModal = (message: Message | null) => {
+    setReportedMessage(message);
+    setReportModalVisible(true);
+  };
+
+  const handleBlockUser = () => {
+    if (!otherUserId) return;
+
+    Alert.alert(
+      `Block ${otherUserName}?`,
+      'You will not be able to message each other, and you will no longer see their listings or this conversation. You can unblock them from your profile.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Block',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await BlockService.blockUser(otherUserId);
+              navigation.goBack();
+            } catch (err) {
+              console.error('Error blocking user:', err);
+              Alert.alert('Error', 'Failed to block this user. Please try again.');
+            }
+          }
+        }
+      ]
+    );
+  };
+
+  const handleMoreOptions = () => {
+    Alert.alert(
+      otherUserName,
+      undefined,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        ...(canRecordSale ? [{ text: `Mark as Sold to ${otherUserName}`, onPress: () => setSaleModalVisible(true) }] : []),
+        { text: `Report ${otherUserName}`, onPress: () => openReportModal(null) },
+        { text: `Block ${otherUserName}`, style: 'destructive', onPress: handleBlockUser }
+      ]
+    );
+  };
+
+  const handleMessageLongPress = (message: Message) => {
+    Alert.alert(
+      'Message',
+      undefined,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Report Message', style: 'destructive', onPress: () => openReportModal(message) }
+      ]
+    );
+  };
+
+  const openProposalModal = (proposal: SwapProposalWithListings | null) => {
+    setCounteringProposal(proposal);
+    setSwapModalVisible(true);
+  };
+
   // Format time for display
   const formatMessageTime = (dateString: string) => {
     return format(new Date(dateString), 'h:mm a');
   };
 
-  // Render a message item
-  const renderMessageItem = ({ item }: ListRenderItemInfo<Message>) => {
+  // Render a message or swap proposal
+  const renderChatItem = ({ item: chatItem }: ListRenderItemInfo<ChatItem>) => {
+    if (chatItem.kind === 'proposal') {
+      return (
+        <SwapProposalCard
+          proposal={chatItem.proposal}
+          currentUserId={userId}
+          onAccept={handleAcceptProposal}
+          onReject={handleRejectProposal}
+          onCounter={openProposalModal}
+        />
+      );
+    }
+
+    const item = chatItem.message;
     const isMyMessage = userId === item.sender_id;
     
     return (
@@ -126,22 +398,27 @@ export const ChatScreen = ({ navigation, route }: ChatScreenProps) => {
         styles.messageContainer,
         isMyMessage ? styles.myMessageContainer : styles.otherMessageContainer
       ]}>
-        <View style={[
-          styles.messageBubble,
-          isMyMessage ? styles.myMessageBubble : styles.otherMessageBubble
-        ]}>
+        <TouchableOpacity
+          style={[
+            styles.messageBubble,
+            isMyMessage ? styles.myMessageBubble : styles.otherMessageBubble
+          ]}
+          activeOpacity={0.8}
+          onLongPress={() => handleMessageLongPress(item)}
+          disabled={isMyMessage}
+        >
           <Text style={[
             styles.messageText,
             isMyMessage ? styles.myMessageText : styles.otherMessageText
           ]}>
             {item.content}
           </Text>
-        </View>
+        </TouchableOpacity>
         <Text style={[
           styles.messageTime,
           isMyMessage ? styles.myMessageTime : styles.otherMessageTime
         ]}>
-          {formatMessageTime(item.created_at)}
+          {item.pending ? 'Waiting for connection…' : formatMessageTime(item.created_at)}
         </Text>
       </View>
     );
@@ -163,14 +440,37 @@ export const ChatScreen = ({ navigation, route }: ChatScreenProps) => {
             <Ionicons name="arrow-back" size={24} color={theme.colors.text} />
           </TouchableOpacity>
           
-          <View style={styles.headerTextContainer}>
+          <TouchableOpacity
+            style={styles.headerTextContainer}
+            onPress={() => otherUserId && navigation.navigate('SellerProfile', { userId: otherUserId })}
+            disabled={!otherUserId}
+          >
             <Text style={styles.headerTitle} numberOfLines={1}>
               {otherUserName}
             </Text>
             <Text style={styles.listingTitle} numberOfLines={1}>
               {listingTitle}
             </Text>
-          </View>
+          </TouchableOpacity>
+
+          {canProposeSwap && (
+            <TouchableOpacity
+              style={styles.swapButton}
+              onPress={() => openProposalModal(null)}
+            >
+              <Ionicons name="swap-horizontal" size={24} color={theme.colors.primary} />
+            </TouchableOpacity>
+          )}
+
+          {otherUserId && (
+            <TouchableOpacity
+              style={styles.swapButton}
+              onPress={handleMoreOptions}
+              accessibilityLabel="More options"
+            >
+              <Ionicons name="ellipsis-vertical" size={22} color={theme.colors.textSecondary} />
+            </TouchableOpacity>
+          )}
         </View>
         
         {/* Messages List */}
@@ -190,9 +490,9 @@ export const ChatScreen = ({ navigation, route }: ChatScreenProps) => {
         ) : (
           <FlatList
             ref={flatListRef}
-            data={messages}
-            keyExtractor={(item) => item.id}
-            renderItem={renderMessageItem}
+            data={chatItems}
+            keyExtractor={(item) => `${item.kind}-${item.id}`}
+            renderItem={renderChatItem}
             contentContainerStyle={styles.messagesList}
             showsVerticalScrollIndicator={true}
             inverted={false}
@@ -225,6 +525,40 @@ export const ChatScreen = ({ navigation, route }: ChatScreenProps) => {
           </TouchableOpacity>
         </View>
       </KeyboardAvoidingView>
+
+      {conversation && (
+        <SwapProposalModal
+          visible={swapModalVisible}
+          onClose={() => setSwapModalVisible(false)}
+          onSubmit={handleSubmitProposal}
+          ownerId={conversation.buyer_id}
+          title={counteringProposal ? 'Counter Offer' : 'Propose a Swap'}
+          submitLabel={counteringProposal ? 'Send Counter Offer' : 'Send Proposal'}
+          initialSelectedIds={counteringProposal?.offered_listing_ids}
+        />
+      )}
+
+      {canRecordSale && (
+        <RecordSaleModal
+          visible={saleModalVisible}
+          buyerName={otherUserName}
+          listedPrice={listing.price}
+          allowExchange={!!listing.exchange_option}
+          onClose={() => setSaleModalVisible(false)}
+          onSubmit={handleRecordSale}
+        />
+      )}
+
+      {otherUserId && (
+        <ReportModal
+          visible={reportModalVisible}
+          title={reportedMessage ? 'Report Message' : `Report ${otherUserName}`}
+          onClose={() => setReportModalVisible(false)}
+          onSubmit={(reason, details) => reportedMessage
+            ? ReportService.reportMessage(reportedMessage, reason, details)
+            : ReportService.reportUser(otherUserId, reason, details)}
+        />
+      )}
     </SafeAreaView>
   );
 };
@@ -252,6 +586,10 @@ const styles = StyleSheet.create({
   headerTextContainer: {
     flex: 1,
   },
+  swapButton: {
+    marginLeft: theme.spacing.md,
+    padding: theme.spacing.xs,
+  },
   headerTitle: {
     fontSize: 18,
     fontWeight: '600' as TextStyle['fontWeight'],
@@ -18,12 +18,14 @@ import { useFocusEffect, useIsFocused } from '@react-navigation/native';
 import { RootStackParamList } from '../navigation/AppNavigator';
 import { theme } from '../styles/theme';
 import { MessageService, ConversationWithDetails } from '../services/MessageService';
+import { useAuth } from '../store/AuthContext';
 
 type ConversationsScreenProps = {
   navigation: NativeStackNavigationProp<RootStackParamList, 'Conversations'>;
 };
 
 export const ConversationsScreen = ({ navigation }: ConversationsScreenProps) => {
+  const { user } = useAuth();
   const [conversations, setConversations] = useState<ConversationWithDetails[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [isRefreshing, setIsRefreshing] = useState(false);
@@ -32,9 +34,10 @@ export const ConversationsScreen = ({ navigation }: ConversationsScreenProps) =>
   const isFocused = useIsFocused();
 
   const fetchConversations = useCallback(async () => {
+    // No loading state here: this also runs for realtime updates, which should
+    // refresh the list in place. The initial load starts with isLoading = true.
     try {
       setError(null);
-      setIsLoading(true);
       const data = await MessageService.getConversations();
       setConversations(data);
       
@@ -66,35 +69,31 @@ export const ConversationsScreen = ({ navigation }: ConversationsScreenProps) =>
   useFocusEffect(
     useCallback(() => {
       fetchConversations();
-      
-      // Set up a refresh interval when the screen is focused
-      const intervalId = setInterval(() => {
-        fetchConversations();
-      }, 30000); // Check for new messages every 30 seconds
-      
-      return () => clearInterval(intervalId);
     }, [fetchConversations])
   );
   
-  // Also fetch total unread count periodically when not on this screen
+  // Keep the list and the tab badge current as messages arrive. While the screen
+  // is focused the whole list is refreshed; otherwise only the unread count.
   useEffect(() => {
-    if (!isFocused) {
-      const fetchUnreadCount = async () => {
-        try {
-          const count = await MessageService.getUnreadCount();
-          updateBadge(count);
-        } catch (error) {
-          console.error('Error fetching unread count:', error);
-        }
-      };
-      
-      const intervalId = setInterval(() => {
+    if (!user) return;
+    
+    const fetchUnreadCount = async () => {
+      try {
+        const count = await MessageService.getUnreadCount();
+        updateBadge(count);
+      } catch (error) {
+        console.error('Error fetching unread count:', error);
+      }
+    };
+    
+    return MessageService.subscribeToInbox(user.id, () => {
+      if (isFocused) {
+        fetchConversations();
+      } else {
         fetchUnreadCount();
-      }, 60000); // Check once per minute when not on screen
-      
-      return () => clearInterval(intervalId);
-    }
-  }, [isFocused, updateBadge]);
+      }
+    });
+  }, [user, isFocused, fetchConversations, updateBadge]);
 
   const handleRefresh = () => {
     setIsRefreshing(true);
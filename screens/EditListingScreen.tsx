@@ -6,7 +6,6 @@ import {
   TouchableOpacity,
   ScrollView,
   Alert,
-  Image,
   KeyboardAvoidingView,
   Platform,
   ActivityIndicator,
@@ -17,12 +16,14 @@ import { RouteProp } from '@react-navigation/native';
 import { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import { RootStackParamList } from '../navigation/AppNavigator';
 import { FormInput } from '../components/FormInput';
+import { LocationPicker } from '../components/LocationPicker';
+import { ListingPhotoEditor } from '../components/ListingPhotoEditor';
 import { Button } from '../components/Button';
 import { theme } from '../styles/theme';
 import { BookService, BookListing } from '../services/BookService';
-import { ImageService } from '../services/ImageService';
+import { ListingImageService, ListingPhoto, toListingPhotos } from '../services/ListingImageService';
 import { useAuth } from '../store/AuthContext';
-import * as ImagePicker from 'expo-image-picker';
+import { GeoPoint } from '../utils/location';
 
 type EditListingScreenProps = {
   route: RouteProp<RootStackParamList, 'EditListing'>;
@@ -40,14 +41,13 @@ export const EditListingScreen = ({ route, navigation }: EditListingScreenProps)
   const [description, setDescription] = useState('');
   const [category, setCategory] = useState('');
   const [isbn, setIsbn] = useState('');
-  const [imageUri, setImageUri] = useState<string | null>(null);
-  const [imageUrl, setImageUrl] = useState<string | null>(null);
-  const [imagePath, setImagePath] = useState<string | null>(null);
+  const [photos, setPhotos] = useState<ListingPhoto[]>([]);
   const [isNegotiable, setIsNegotiable] = useState(false);
   const [exchangeOption, setExchangeOption] = useState(false);
   const [publisher, setPublisher] = useState('');
   const [publicationYear, setPublicationYear] = useState('');
   const [edition, setEdition] = useState('');
+  const [location, setLocation] = useState<GeoPoint | null>(null);
 
   const [errors, setErrors] = useState<{
     title?: string;
@@ -64,23 +64,13 @@ export const EditListingScreen = ({ route, navigation }: EditListingScreenProps)
     fetchListingDetails();
   }, [id]);
 
-  // Request camera roll permissions on component mount
-  useEffect(() => {
-    (async () => {
-      const { status } = await ImagePicker.requestMediaLibraryPermissionsAsync();
-      if (status !== 'granted') {
-        Alert.alert(
-          'Permission Required',
-          'Sorry, we need camera roll permissions to make this work!'
-        );
-      }
-    })();
-  }, []);
-
   const fetchListingDetails = async () => {
     try {
       setIsLoading(true);
-      const data = await BookService.getListingById(id);
+      const [data, images] = await Promise.all([
+        BookService.getListingById(id),
+        ListingImageService.getImagesForListing(id),
+      ]);
       
       if (!data) {
         Alert.alert('Error', 'Listing not found');
@@ -103,26 +93,25 @@ export const EditListingScreen = ({ route, navigation }: EditListingScreenProps)
       setDescription(data.description || '');
       setCategory(data.category || '');
       setIsbn(data.isbn || '');
-      setImageUrl(data.image_url);
       setIsNegotiable(data.is_negotiable || false);
       setExchangeOption(data.exchange_option || false);
       setPublisher(data.publisher || '');
       setPublicationYear(data.publication_year ? data.publication_year.toString() : '');
       setEdition(data.edition || '');
+      setLocation(
+        data.latitude != null && data.longitude != null
+          ? { latitude: data.latitude, longitude: data.longitude }
+          : null
+      );
 
-      // Parse image path from URL if available
-      if (data.image_url && data.image_url.includes('book-images')) {
-        try {
-          // This assumes your image_url format is consistent
-          const pathRegex = /book-images\/(.+)/;
-          const match = data.image_url.match(pathRegex);
-          if (match && match[1]) {
-            setImagePath(match[1]);
-          }
-        } catch (error) {
-          console.error('Error parsing image path:', error);
-        }
-      }
+      // Listings from before multi-photo support only have image_url
+      setPhotos(
+        images.length > 0
+          ? toListingPhotos(images)
+          : data.image_url
+            ? [{ key: 'legacy-cover', uri: data.image_url, isCover: true }]
+            : []
+      );
     } catch (error) {
       console.error('Error fetching listing details:', error);
       Alert.alert('Error', 'Failed to load listing details');
@@ -132,75 +121,6 @@ export const EditListingScreen = ({ route, navigation }: EditListingScreenProps)
     }
   };
 
-  const pickImage = async () => {
-    // Show options dialog for camera or gallery
-    Alert.alert(
-      'Choose Image Source',
-      'Where would you like to select an image from?',
-      [
-        { 
-          text: 'Cancel', 
-          style: 'cancel' 
-        },
-        { 
-          text: 'Camera', 
-          onPress: takePicture 
-        },
-        { 
-          text: 'Photo Library', 
-          onPress: selectFromGallery 
-        },
-      ]
-    );
-  };
-
-  const takePicture = async () => {
-    try {
-      // First check and request camera permissions
-      const { status } = await ImagePicker.requestCameraPermissionsAsync();
-      if (status !== 'granted') {
-        Alert.alert(
-          'Permission Denied',
-          'We need camera permissions to take pictures'
-        );
-        return;
-      }
-
-      // Launch camera
-      const result = await ImagePicker.launchCameraAsync({
-        mediaTypes: ImagePicker.MediaTypeOptions.Images,
-        allowsEditing: true,
-        aspect: [4, 6],
-        quality: 0.7,
-      });
-
-      if (!result.canceled) {
-        setImageUri(result.assets[0].uri);
-      }
-    } catch (error) {
-      console.error('Error taking picture:', error);
-      Alert.alert('Error', 'Failed to take picture');
-    }
-  };
-
-  const selectFromGallery = async () => {
-    try {
-      const result = await ImagePicker.launchImageLibraryAsync({
-        mediaTypes: ImagePicker.MediaTypeOptions.Images,
-        allowsEditing: true,
-        aspect: [4, 6],
-        quality: 0.7,
-      });
-
-      if (!result.canceled) {
-        setImageUri(result.assets[0].uri);
-      }
-    } catch (error) {
-      console.error('Error selecting image:', error);
-      Alert.alert('Error', 'Failed to select image');
-    }
-  };
-
   const validateForm = () => {
     const newErrors: {
       title?: string;
@@ -246,26 +166,6 @@ export const EditListingScreen = ({ route, navigation }: EditListingScreenProps)
     setIsSaving(true);
     
     try {
-      let updatedImageUrl = imageUrl; // Start with the current image URL
-      
-      // If user selected a new image, upload it to Supabase Storage
-      if (imageUri) {
-        try {
-          // Generate a path based on user ID and timestamp or use existing path
-          const newImagePath = imagePath || `${user.id}/book-${Date.now()}`;
-          // Upload the image and get the public URL
-          updatedImageUrl = await ImageService.uploadImage(imageUri, 'book-images', newImagePath);
-        } catch (imageError) {
-          console.error('Error uploading image:', imageError);
-          // If image upload fails, we'll use the existing image but continue with the listing update
-          Alert.alert(
-            'Image Upload Warning',
-            'Failed to upload your new image. Your listing will continue with the existing image.',
-            [{ text: 'Continue' }]
-          );
-        }
-      }
-      
       const updatedListing = {
         title,
         author,
@@ -274,15 +174,29 @@ export const EditListingScreen = ({ route, navigation }: EditListingScreenProps)
         description: description || undefined,
         category: category || undefined,
         isbn: isbn || undefined,
-        image_url: updatedImageUrl || undefined,
         is_negotiable: isNegotiable,
         exchange_option: exchangeOption,
         publisher: publisher || undefined,
         publication_year: publicationYear ? Number(publicationYear) : undefined,
         edition: edition || undefined,
+        // Send null rather than undefined so a removed location is cleared in the database
+        latitude: location ? location.latitude : null,
+        longitude: location ? location.longitude : null,
       };
       
       await BookService.updateListing(id, updatedListing);
+
+      try {
+        await ListingImageService.saveListingImages(id, user.id, photos);
+      } catch (imageError) {
+        console.error('Error saving images:', imageError);
+        // If the photos fail to save, we'll keep the existing ones but continue with the listing update
+        Alert.alert(
+          'Image Upload Warning',
+          'Failed to save your photos. Your listing will continue with the existing photos.',
+          [{ text: 'Continue' }]
+        );
+      }
       
       Alert.alert(
         'Success',
@@ -350,35 +264,8 @@ export const EditListingScreen = ({ route, navigation }: EditListingScreenProps)
             <View style={styles.placeholder} />
           </View>
 
-          <View style={styles.imageSection}>
-            <TouchableOpacity style={styles.imageUpload} onPress={pickImage}>
-              {imageUri ? (
-                <Image 
-                  source={{ uri: imageUri }} 
-                  style={styles.previewImage} 
-                  resizeMode="cover"
-                />
-              ) : imageUrl ? (
-                <Image 
-                  source={{ uri: imageUrl }} 
-                  style={styles.previewImage} 
-                  resizeMode="cover"
-                />
-              ) : (
-                <>
-                  <Ionicons name="camera" size={40} color={theme.colors.primary} />
-                  <Text style={styles.imageUploadText}>Add Photos</Text>
-                </>
-              )}
-            </TouchableOpacity>
-            {(imageUri || imageUrl) && (
-              <TouchableOpacity 
-                style={styles.changeImageButton} 
-                onPress={pickImage}
-              >
-                <Text style={styles.changeImageText}>Change Image</Text>
-              </TouchableOpacity>
-            )}
+          <View style={styles.photoSection}>
+            <ListingPhotoEditor photos={photos} onChange={setPhotos} />
           </View>
 
           <View style={styles.form}>
@@ -516,6 +403,12 @@ export const EditListingScreen = ({ route, navigation }: EditListingScreenProps)
               </View>
             </View>
             
+            <LocationPicker
+              label="Pickup Location (Optional)"
+              value={location}
+              onChange={setLocation}
+            />
+            
             <FormInput
               label="Description (Optional)"
               placeholder="Describe your book, including any damage or notes"
@@ -576,38 +469,9 @@ const styles = StyleSheet.create({
   placeholder: {
     width: 24, // Same width as the back button
   },
-  imageSection: {
-    alignItems: 'center',
-    paddingVertical: theme.spacing.md,
-  },
-  imageUpload: {
-    width: 200,
-    height: 300,
-    backgroundColor: theme.colors.border,
-    borderRadius: theme.borderRadius.md,
-    justifyContent: 'center',
-    alignItems: 'center',
-    overflow: 'hidden',
-  },
-  previewImage: {
-    width: '100%',
-    height: '100%',
-  },
-  imageUploadText: {
-    marginTop: theme.spacing.sm,
-    color: theme.colors.text,
-  },
-  changeImageButton: {
-    marginTop: theme.spacing.md,
-    padding: theme.spacing.sm,
-    backgroundColor: theme.colors.background,
-    borderRadius: theme.borderRadius.md,
-    borderWidth: 1,
-    borderColor: theme.colors.primary,
-  },
-  changeImageText: {
-    color: theme.colors.primary,
-    fontWeight: 'bold',
+  photoSection: {
+    paddingHorizontal: theme.spacing.md,
+    paddingTop: theme.spacing.md,
   },
   form: {
     padding: theme.spacing.md,
@@ -0,0 +1,333 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  ScrollView,
+  Alert,
+  Image,
+  KeyboardAvoidingView,
+  Platform,
+  ActivityIndicator,
+  TextStyle,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { RootStackParamList } from '../navigation/AppNavigator';
+import { FormInput } from '../components/FormInput';
+import { Button } from '../components/Button';
+import { theme } from '../styles/theme';
+import { UserService } from '../services/UserService';
+import * as ImagePicker from 'expo-image-picker';
+
+type EditProfileScreenProps = {
+  navigation: NativeStackNavigationProp<RootStackParamList, 'EditProfile'>;
+};
+
+export const EditProfileScreen = ({ navigation }: EditProfileScreenProps) => {
+  const [userId, setUserId] = useState<string | null>(null);
+  const [name, setName] = useState('');
+  const [bio, setBio] = useState('');
+  const [location, setLocation] = useState('');
+  const [phone, setPhone] = useState('');
+  const [profileImage, setProfileImage] = useState<string | undefined>(undefined);
+  const [imageUri, setImageUri] = useState<string | null>(null);
+
+  const [errors, setErrors] = useState<{ name?: string }>({});
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Load the current profile when the component mounts
+  useEffect(() => {
+    const fetchProfile = async () => {
+      try {
+        setIsLoading(true);
+        const currentUser = await UserService.getCurrentUser();
+
+        if (!currentUser) {
+          Alert.alert('Error', 'You must be logged in to edit your profile');
+          navigation.goBack();
+          return;
+        }
+
+        setUserId(currentUser.id);
+        setName(currentUser.name || '');
+        setBio(currentUser.bio || '');
+        setLocation(currentUser.location || '');
+        setPhone(currentUser.phone || '');
+        setProfileImage(currentUser.profileImage);
+      } catch (error) {
+        console.error('Error fetching profile:', error);
+        Alert.alert('Error', 'Failed to load your profile');
+        navigation.goBack();
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchProfile();
+  }, []);
+
+  const pickImage = async () => {
+    try {
+      const { status } = await ImagePicker.requestMediaLibraryPermissionsAsync();
+      if (status !== 'granted') {
+        Alert.alert(
+          'Permission Required',
+          'We need photo library permissions to change your profile picture'
+        );
+        return;
+      }
+
+      const result = await ImagePicker.launchImageLibraryAsync({
+        mediaTypes: ImagePicker.MediaTypeOptions.Images,
+        allowsEditing: true,
+        aspect: [1, 1],
+        quality: 0.7,
+      });
+
+      if (!result.canceled) {
+        setImageUri(result.assets[0].uri);
+      }
+    } catch (error) {
+      console.error('Error selecting image:', error);
+      Alert.alert('Error', 'Failed to select image');
+    }
+  };
+
+  const validateForm = () => {
+    const newErrors: { name?: string } = {};
+
+    if (!name.trim()) {
+      newErrors.name = 'Name is required';
+    }
+
+    setErrors(newErrors);
+    return Object.keys(newErrors).length === 0;
+  };
+
+  const handleSubmit = async () => {
+    if (!validateForm() || !userId) return;
+
+    setIsSaving(true);
+
+    try {
+      let updatedProfileImage = profileImage;
+
+      // If the user picked a new picture, upload it to the avatars bucket
+      if (imageUri) {
+        try {
+          updatedProfileImage = await UserService.uploadAvatar(userId, imageUri);
+        } catch (imageError) {
+          console.error('Error uploading avatar:', imageError);
+          Alert.alert(
+            'Image Upload Warning',
+            'Failed to upload your new profile picture. The rest of your profile will still be saved.',
+            [{ text: 'Continue' }]
+          );
+        }
+      }
+
+      await UserService.updateProfile(userId, {
+        // Empty strings rather than undefined so cleared fields are saved as cleared
+        name: name.trim(),
+        bio: bio.trim(),
+        location: location.trim(),
+        phone: phone.trim(),
+        profileImage: updatedProfileImage,
+      });
+
+      Alert.alert(
+        'Success',
+        'Your profile has been updated!',
+        [{ text: 'OK', onPress: () => navigation.goBack() }]
+      );
+    } catch (error) {
+      console.error('Error updating profile:', error);
+      Alert.alert('Error', 'Failed to update your profile. Please try again later.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <SafeAreaView style={styles.container} edges={['top']}>
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color={theme.colors.primary} />
+          <Text style={styles.loadingText}>Loading your profile...</Text>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView style={styles.container} edges={['top']}>
+      <KeyboardAvoidingView
+        behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+        style={styles.keyboardAvoidingView}
+      >
+        <ScrollView contentContainerStyle={styles.scrollContent}>
+          <View style={styles.header}>
+            <TouchableOpacity
+              style={styles.backButton}
+              onPress={() => navigation.goBack()}
+            >
+              <Ionicons name="arrow-back" size={24} color={theme.colors.text} />
+            </TouchableOpacity>
+            <Text style={styles.headerTitle}>Edit Profile</Text>
+            <View style={styles.placeholder} />
+          </View>
+
+          <View style={styles.imageSection}>
+            <TouchableOpacity style={styles.avatar} onPress={pickImage}>
+              {imageUri || profileImage ? (
+                <Image
+                  source={{ uri: imageUri || profileImage }}
+                  style={styles.avatarImage}
+                  resizeMode="cover"
+                />
+              ) : (
+                <Ionicons name="person" size={60} color={theme.colors.background} />
+              )}
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.changeImageButton} onPress={pickImage}>
+              <Text style={styles.changeImageText}>Change Photo</Text>
+            </TouchableOpacity>
+          </View>
+
+          <View style={styles.form}>
+            <FormInput
+              label="Name"
+              placeholder="Enter your name"
+              value={name}
+              onChangeText={setName}
+              error={errors.name}
+            />
+
+            <FormInput
+              label="Location (Optional)"
+              placeholder="e.g., New York, NY"
+              value={location}
+              onChangeText={setLocation}
+            />
+
+            <FormInput
+              label="Phone (Optional)"
+              placeholder="Enter your phone number"
+              value={phone}
+              onChangeText={setPhone}
+              keyboardType="phone-pad"
+            />
+
+            <FormInput
+              label="Bio (Optional)"
+              placeholder="Tell buyers a little about yourself"
+              value={bio}
+              onChangeText={setBio}
+              multiline
+              numberOfLines={4}
+              textAlignVertical="top"
+              style={styles.bioInput}
+            />
+
+            <Button
+              title={isSaving ? 'Saving...' : 'Save Changes'}
+              onPress={handleSubmit}
+              disabled={isSaving}
+            />
+            {isSaving && (
+              <ActivityIndicator
+                style={styles.loadingIndicator}
+                size="small"
+                color={theme.colors.primary}
+              />
+            )}
+          </View>
+        </ScrollView>
+      </KeyboardAvoidingView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: theme.colors.background,
+  },
+  keyboardAvoidingView: {
+    flex: 1,
+  },
+  scrollContent: {
+    flexGrow: 1,
+    paddingBottom: theme.spacing.xl,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    padding: theme.spacing.md,
+    borderBottomWidth: 1,
+    borderBottomColor: theme.colors.border,
+  },
+  backButton: {
+    padding: theme.spacing.xs,
+  },
+  headerTitle: {
+    ...(theme.typography.h2 as TextStyle),
+    color: theme.colors.text,
+  },
+  placeholder: {
+    width: 24, // Same width as the back button
+  },
+  imageSection: {
+    alignItems: 'center',
+    paddingVertical: theme.spacing.md,
+  },
+  avatar: {
+    width: 120,
+    height: 120,
+    borderRadius: 60,
+    backgroundColor: theme.colors.primary,
+    justifyContent: 'center',
+    alignItems: 'center',
+    overflow: 'hidden',
+  },
+  avatarImage: {
+    width: '100%',
+    height: '100%',
+  },
+  changeImageButton: {
+    marginTop: theme.spacing.md,
+    padding: theme.spacing.sm,
+    backgroundColor: theme.colors.background,
+    borderRadius: theme.borderRadius.md,
+    borderWidth: 1,
+    borderColor: theme.colors.primary,
+  },
+  changeImageText: {
+    color: theme.colors.primary,
+    fontWeight: 'bold',
+  },
+  form: {
+    padding: theme.spacing.md,
+  },
+  bioInput: {
+    minHeight: 100,
+  },
+  loadingIndicator: {
+    marginTop: theme.spacing.md,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  loadingText: {
+    ...(theme.typography.body as TextStyle),
+    color: theme.colors.textSecondary,
+    marginTop: theme.spacing.md,
+  },
+});
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef, useCallback } from 'react';
 import {
   View,
   Text,
@@ -10,18 +10,25 @@ import {
   Platform,
   ActivityIndicator,
   RefreshControl,
-  TextStyle
+  TextStyle,
+  TextInput,
+  ScrollView,
+  Alert
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { theme } from '../styles/theme';
 import { useAuth } from '../store/AuthContext';
+import { useNotifications } from '../store/NotificationContext';
 import { Ionicons } from '@expo/vector-icons';
-import { BookService, BookListing, BookFilterOptions } from '../services/BookService';
+import { BookService, BookListing, BookFilterOptions, ListingCursor, ListingPage } from '../services/BookService';
 import { SavedItemsService, SavedItemType } from '../services/SavedItemsService';
+import { SavedSearch, SavedSearchService, SavedSearchWithMatches, isSavableSearch } from '../services/SavedSearchService';
 import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { useFocusEffect } from '@react-navigation/native';
 import { RootStackParamList } from '../navigation/AppNavigator';
 import { FilterModal } from '../components/FilterModal';
 import { BookCard } from '../components/BookCard';
+import { SaveSearchModal } from '../components/SaveSearchModal';
 
 type HomeScreenProps = {
   navigation: NativeStackNavigationProp<RootStackParamList, 'Home'>;
@@ -29,8 +36,40 @@ type HomeScreenProps = {
 
 type TabType = 'all' | 'favorites' | 'wishlist';
 
+const hasActiveFilters = (filters: BookFilterOptions) =>
+  Object.values(filters).some(value =>
+    (Array.isArray(value) && value.length > 0) ||
+    (!Array.isArray(value) && value !== undefined)
+  );
+
+// Number of filter groups in use, shown on the filter button
+const countActiveFilters = (filters: BookFilterOptions) => {
+  let count = 0;
+  if (filters.categories && filters.categories.length > 0) count++;
+  if (filters.conditions && filters.conditions.length > 0) count++;
+  if (filters.minPrice !== undefined || filters.maxPrice !== undefined) count++;
+  if (filters.isNegotiable !== undefined) count++;
+  if (filters.exchangeOption !== undefined) count++;
+  if (filters.radiusKm !== undefined) count++;
+  return count;
+};
+
+/**
+ * Fetch the next page of the "all" feed
+ */
+const fetchFeedPage = (
+  filters: BookFilterOptions,
+  searchTerm: string,
+  cursor: ListingCursor | null
+): Promise<ListingPage> => searchTerm
+  ? BookService.searchListings(searchTerm, { cursor }, filters)
+  : hasActiveFilters(filters)
+    ? BookService.getFilteredListings(filters, { cursor })
+    : BookService.getListings({ cursor });
+
 export const HomeScreen = ({ navigation }: HomeScreenProps) => {
   const { user } = useAuth();
+  const { unreadCount: unreadNotifications } = useNotifications();
   const { width } = useWindowDimensions();
   const [listings, setListings] = useState<BookListing[]>([]);
   const [isLoading, setIsLoading] = useState(true);
@@ -40,17 +79,31 @@ export const HomeScreen = ({ navigation }: HomeScreenProps) => {
   const [activeFilters, setActiveFilters] = useState<BookFilterOptions>({});
   const [filterCount, setFilterCount] = useState(0);
   const [activeTab, setActiveTab] = useState<TabType>('all');
+  const [nextCursor, setNextCursor] = useState<ListingCursor | null>(null);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  // The search bar's text, and the search the feed currently shows
+  const [isSearchVisible, setIsSearchVisible] = useState(false);
+  const [searchInput, setSearchInput] = useState('');
+  const [searchTerm, setSearchTerm] = useState('');
+  const [savedSearches, setSavedSearches] = useState<SavedSearchWithMatches[]>([]);
+  const [isSaveSearchModalVisible, setIsSaveSearchModalVisible] = useState(false);
+  // Bumped on every fresh load so pages requested for an older feed are dropped
+  const feedVersion = useRef(0);
+  const loadMoreInFlight = useRef(false);
   
   // Calculate card width based on screen size
   const isTablet = width > 768;
   const numColumns = isTablet ? 2 : 1;
 
-  const fetchListings = async (filters: BookFilterOptions = {}) => {
+  const fetchListings = async (filters: BookFilterOptions = {}, term: string = searchTerm) => {
+    const version = ++feedVersion.current;
+    
     try {
       setError(null);
       setIsLoading(true);
       
       let data: BookListing[] = [];
+      let cursor: ListingCursor | null = null;
       
       // Fetch different data based on the active tab
       if (activeTab === 'favorites') {
@@ -58,27 +111,48 @@ export const HomeScreen = ({ navigation }: HomeScreenProps) => {
       } else if (activeTab === 'wishlist') {
         data = await SavedItemsService.getWishlist();
       } else {
-        // Determine if we need to use the filtered endpoint
-        const hasFilters = Object.keys(filters).length > 0 && 
-          Object.values(filters).some(value => 
-            (Array.isArray(value) && value.length > 0) || 
-            (!Array.isArray(value) && value !== undefined)
-          );
-        
-        if (hasFilters) {
-          data = await BookService.getFilteredListings(filters);
-        } else {
-          data = await BookService.getListings();
-        }
+        const page = await fetchFeedPage(filters, term, null);
+        data = page.listings;
+        cursor = page.nextCursor;
       }
       
+      if (version !== feedVersion.current) return;
+      
       setListings(data);
+      setNextCursor(cursor);
     } catch (err) {
+      if (version !== feedVersion.current) return;
       console.error('Error fetching listings:', err);
       setError('Failed to load listings. Please try again later.');
     } finally {
-      setIsLoading(false);
-      setIsRefreshing(false);
+      if (version === feedVersion.current) {
+        setIsLoading(false);
+        setIsRefreshing(false);
+      }
+    }
+  };
+
+  // Append the next page when the user scrolls near the end of the feed
+  const handleLoadMore = async () => {
+    if (!nextCursor || activeTab !== 'all' || loadMoreInFlight.current) return;
+    
+    const version = feedVersion.current;
+    loadMoreInFlight.current = true;
+    setIsLoadingMore(true);
+    
+    try {
+      const page = await fetchFeedPage(activeFilters, searchTerm, nextCursor);
+      
+      if (version !== feedVersion.current) return;
+      
+      setListings(prev => [...prev, ...page.listings]);
+      setNextCursor(page.nextCursor);
+    } catch (err) {
+      // Leave the cursor in place so scrolling again retries this page
+      console.error('Error loading more listings:', err);
+    } finally {
+      loadMoreInFlight.current = false;
+      setIsLoadingMore(false);
     }
   };
 
@@ -87,25 +161,99 @@ export const HomeScreen = ({ navigation }: HomeScreenProps) => {
     fetchListings(activeTab === 'all' ? activeFilters : {});
   };
 
-  const handleApplyFilters = (filters: BookFilterOptions) => {
+  const handleApplyFilters = (filters: BookFilterOptions, term: string = searchTerm) => {
     // Only apply filters in the "all" tab
     if (activeTab !== 'all') {
       setActiveTab('all');
     }
     
     setActiveFilters(filters);
-    
-    // Calculate filter count
-    let count = 0;
-    if (filters.categories && filters.categories.length > 0) count++;
-    if (filters.conditions && filters.conditions.length > 0) count++;
-    if (filters.minPrice !== undefined || filters.maxPrice !== undefined) count++;
-    if (filters.isNegotiable !== undefined) count++;
-    if (filters.exchangeOption !== undefined) count++;
-    
-    setFilterCount(count);
-    fetchListings(filters);
+    setFilterCount(countActiveFilters(filters));
+    fetchListings(filters, term);
+  };
+
+  const handleSearch = () => {
+    const term = searchInput.trim();
+    setSearchTerm(term);
+    handleApplyFilters(activeFilters, term);
+  };
+
+  const handleClearSearch = () => {
+    setSearchInput('');
+    setSearchTerm('');
+    setIsSearchVisible(false);
+    handleApplyFilters(activeFilters, '');
+  };
+
+  const handleClearAll = () => {
+    setSearchInput('');
+    setSearchTerm('');
+    handleApplyFilters({}, '');
   };
+
+  const loadSavedSearches = useCallback(async () => {
+    try {
+      setSavedSearches(await SavedSearchService.getSavedSearches());
+    } catch (err) {
+      // The feed works without them; the chips just stay as they were
+      console.error('Error loading saved searches:', err);
+    }
+  }, []);
+
+  // Refresh the new-match counts when the app opens and whenever the feed comes back into view
+  useFocusEffect(
+    useCallback(() => {
+      loadSavedSearches();
+    }, [loadSavedSearches])
+  );
+
+  // Show a saved search's results; its matches now count as seen
+  const handleOpenSavedSearch = async (search: SavedSearchWithMatches) => {
+    const term = search.query || '';
+    setSearchInput(term);
+    setSearchTerm(term);
+    setIsSearchVisible(!!term);
+    handleApplyFilters(search.filters, term);
+
+    if (search.newMatchCount > 0) {
+      setSavedSearches(prev => prev.map(item => item.id === search.id ? { ...item, newMatchCount: 0 } : item));
+    }
+
+    try {
+      await SavedSearchService.markSearchChecked(search.id);
+    } catch (err) {
+      console.error('Error updating saved search:', err);
+    }
+  };
+
+  const handleDeleteSavedSearch = (search: SavedSearchWithMatches) => {
+    Alert.alert(
+      'Delete Saved Search',
+      `Stop tracking new listings for "${search.name}"?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await SavedSearchService.deleteSavedSearch(search.id);
+              setSavedSearches(prev => prev.filter(item => item.id !== search.id));
+            } catch (err) {
+              Alert.alert('Error', 'Failed to delete saved search. Please try again later.');
+            }
+          }
+        }
+      ]
+    );
+  };
+
+  const handleSearchSaved = (search: SavedSearch) => {
+    setSavedSearches(prev => [...prev, { ...search, newMatchCount: 0 }]);
+    Alert.alert('Search Saved', `New listings matching "${search.name}" will show up under Saved Searches.`);
+  };
+
+  const canSaveSearch = activeTab === 'all' && isSavableSearch(searchTerm, activeFilters);
   
   const handleTabChange = (tab: TabType) => {
     setActiveTab(tab);
@@ -143,6 +291,16 @@ export const HomeScreen = ({ navigation }: HomeScreenProps) => {
         <View style={styles.header}>
           <Text style={styles.headerTitle}>Book Listings</Text>
           <View style={styles.headerButtons}>
+            {canSaveSearch && (
+              <TouchableOpacity
+                style={styles.saveSearchButton}
+                onPress={() => setIsSaveSearchModalVisible(true)}
+                accessibilityLabel="Save search"
+              >
+                <Ionicons name="bookmark-outline" size={24} color={theme.colors.text} />
+              </TouchableOpacity>
+            )}
+
             <TouchableOpacity 
               style={styles.filterButton}
               onPress={() => setIsFilterModalVisible(true)}
@@ -159,11 +317,54 @@ export const HomeScreen = ({ navigation }: HomeScreenProps) => {
               )}
             </TouchableOpacity>
             
-            <TouchableOpacity style={styles.searchButton}>
+            <TouchableOpacity
+              style={styles.searchButton}
+              onPress={() => setIsSearchVisible(visible => !visible)}
+              accessibilityLabel="Search"
+            >
               <Ionicons name="search-outline" size={24} color={theme.colors.text} />
             </TouchableOpacity>
+
+            <TouchableOpacity
+              style={styles.notificationsButton}
+              onPress={() => navigation.navigate('Notifications')}
+              accessibilityLabel="Notifications"
+            >
+              <View style={styles.filterBadgeContainer}>
+                <Ionicons name="notifications-outline" size={24} color={theme.colors.text} />
+                {unreadNotifications > 0 && (
+                  <View style={styles.notificationBadge}>
+                    <Text style={styles.filterBadgeText}>
+                      {unreadNotifications > 99 ? '99+' : unreadNotifications}
+                    </Text>
+                  </View>
+                )}
+              </View>
+            </TouchableOpacity>
           </View>
         </View>
+
+        {isSearchVisible && (
+          <View style={styles.searchBar}>
+            <Ionicons name="search-outline" size={20} color={theme.colors.textSecondary} />
+            <TextInput
+              style={styles.searchInput}
+              placeholder="Search by title, author or course"
+              value={searchInput}
+              onChangeText={setSearchInput}
+              onSubmitEditing={handleSearch}
+              returnKeyType="search"
+              autoCapitalize="none"
+              autoCorrect={false}
+              autoFocus
+            />
+            {(searchInput.length > 0 || searchTerm.length > 0) && (
+              <TouchableOpacity onPress={handleClearSearch} accessibilityLabel="Clear search">
+                <Ionicons name="close-circle" size={20} color={theme.colors.textSecondary} />
+              </TouchableOpacity>
+            )}
+          </View>
+        )}
         
         {/* Tab selectors */}
         <View style={styles.tabContainer}>
@@ -195,6 +396,31 @@ export const HomeScreen = ({ navigation }: HomeScreenProps) => {
           </TouchableOpacity>
         </View>
         
+        {activeTab === 'all' && savedSearches.length > 0 && (
+          <View style={styles.savedSearches}>
+            <Text style={styles.savedSearchesLabel}>Saved Searches</Text>
+            <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+              {savedSearches.map(search => (
+                <TouchableOpacity
+                  key={search.id}
+                  style={styles.savedSearchChip}
+                  onPress={() => handleOpenSavedSearch(search)}
+                  onLongPress={() => handleDeleteSavedSearch(search)}
+                >
+                  <Text style={styles.savedSearchName} numberOfLines={1}>{search.name}</Text>
+                  {search.newMatchCount > 0 && (
+                    <View style={styles.savedSearchBadge}>
+                      <Text style={styles.savedSearchBadgeText}>
+                        {search.newMatchCount > 99 ? '99+' : `${search.newMatchCount} new`}
+                      </Text>
+                    </View>
+                  )}
+                </TouchableOpacity>
+              ))}
+            </ScrollView>
+          </View>
+        )}
+
         {error ? (
           <View style={styles.errorContainer}>
             <Ionicons name="alert-circle-outline" size={40} color={theme.colors.error} />
@@ -215,17 +441,19 @@ export const HomeScreen = ({ navigation }: HomeScreenProps) => {
                 ? 'No favorite books yet'
                 : activeTab === 'wishlist'
                   ? 'Your wishlist is empty'
-                  : filterCount > 0 
-                    ? 'No books match your filters'
-                    : 'No books listed yet'
+                  : searchTerm
+                    ? 'No books match your search'
+                    : filterCount > 0 
+                      ? 'No books match your filters'
+                      : 'No books listed yet'
               }
             </Text>
-            {activeTab === 'all' && filterCount > 0 && (
+            {activeTab === 'all' && (filterCount > 0 || searchTerm.length > 0) && (
               <TouchableOpacity 
                 style={styles.clearFiltersButton}
-                onPress={() => handleApplyFilters({})}
+                onPress={handleClearAll}
               >
-                <Text style={styles.clearFiltersText}>Clear Filters</Text>
+                <Text style={styles.clearFiltersText}>{searchTerm ? 'Clear Search' : 'Clear Filters'}</Text>
               </TouchableOpacity>
             )}
           </View>
@@ -245,6 +473,17 @@ export const HomeScreen = ({ navigation }: HomeScreenProps) => {
             key={numColumns}
             numColumns={numColumns}
             columnWrapperStyle={isTablet ? styles.columnWrapper : undefined}
+            onEndReached={handleLoadMore}
+            onEndReachedThreshold={0.5}
+            ListFooterComponent={
+              isLoadingMore ? (
+                <ActivityIndicator
+                  style={styles.loadMoreIndicator}
+                  size="small"
+                  color={theme.colors.primary}
+                />
+              ) : null
+            }
             refreshControl={
               <RefreshControl
                 refreshing={isRefreshing}
@@ -263,6 +502,14 @@ export const HomeScreen = ({ navigation }: HomeScreenProps) => {
         onApply={handleApplyFilters}
         currentFilters={activeFilters}
       />
+
+      <SaveSearchModal
+        visible={isSaveSearchModalVisible}
+        onClose={() => setIsSaveSearchModalVisible(false)}
+        onSaved={handleSearchSaved}
+        query={searchTerm || null}
+        filters={activeFilters}
+      />
     </SafeAreaView>
   );
 };
@@ -361,9 +608,73 @@ const styles = StyleSheet.create({
     padding: theme.spacing.xs,
     marginLeft: theme.spacing.sm,
   },
+  notificationsButton: {
+    padding: theme.spacing.xs,
+    marginLeft: theme.spacing.sm,
+  },
   filterButton: {
     padding: theme.spacing.xs,
   },
+  saveSearchButton: {
+    padding: theme.spacing.xs,
+    marginRight: theme.spacing.sm,
+  },
+  searchBar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginHorizontal: theme.spacing.md,
+    marginTop: theme.spacing.sm,
+    paddingHorizontal: theme.spacing.sm,
+    borderWidth: 1,
+    borderColor: theme.colors.border,
+    borderRadius: theme.borderRadius.md,
+    backgroundColor: '#fff',
+  },
+  searchInput: {
+    flex: 1,
+    paddingVertical: theme.spacing.sm,
+    paddingHorizontal: theme.spacing.sm,
+    fontSize: 16,
+    color: theme.colors.text,
+  },
+  savedSearches: {
+    paddingHorizontal: theme.spacing.md,
+    paddingTop: theme.spacing.sm,
+  },
+  savedSearchesLabel: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: theme.colors.textSecondary,
+    marginBottom: theme.spacing.xs,
+  },
+  savedSearchChip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    maxWidth: 220,
+    paddingVertical: theme.spacing.xs,
+    paddingHorizontal: theme.spacing.sm,
+    marginRight: theme.spacing.sm,
+    borderWidth: 1,
+    borderColor: theme.colors.primary,
+    borderRadius: 16,
+  },
+  savedSearchName: {
+    flexShrink: 1,
+    color: theme.colors.primary,
+    fontWeight: '500',
+  },
+  savedSearchBadge: {
+    marginLeft: theme.spacing.xs,
+    paddingHorizontal: 6,
+    paddingVertical: 1,
+    backgroundColor: theme.colors.primary,
+    borderRadius: 10,
+  },
+  savedSearchBadgeText: {
+    color: '#FFF',
+    fontSize: 11,
+    fontWeight: '700',
+  },
   filterBadgeContainer: {
     position: 'relative',
   },
@@ -383,6 +694,18 @@ const styles = StyleSheet.create({
     fontSize: 12,
     fontWeight: '700',
   },
+  notificationBadge: {
+    position: 'absolute',
+    top: -5,
+    right: -8,
+    backgroundColor: theme.colors.error,
+    borderRadius: 9,
+    minWidth: 18,
+    height: 18,
+    paddingHorizontal: 3,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
   tabContainer: {
     flexDirection: 'row',
     borderBottomWidth: 1,
@@ -413,4 +736,7 @@ const styles = StyleSheet.create({
   columnWrapper: {
     justifyContent: 'space-between',
   },
+  loadMoreIndicator: {
+    marginVertical: theme.spacing.md,
+  },
 }); 
\ No newline at end of file
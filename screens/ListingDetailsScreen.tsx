@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import {
   View,
   Text,
@@ -15,13 +15,42 @@ import {
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { Ionicons } from '@expo/vector-icons';
-import { RouteProp } from '@react-navigation/native';
+import { RouteProp, useFocusEffect } from '@react-navigation/native';
 import { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import { RootStackParamList } from '../navigation/AppNavigator';
-import { BookService, BookListing } from '../services/BookService';
+import { format } from 'date-fns';
+import {
+  BookService,
+  BookListing,
+  ListingStatus,
+  LISTING_STATUS_TRANSITIONS,
+  TRANSACTION_STATUSES,
+  getListingStatus,
+  getModerationState
+} from '../services/BookService';
+import { ListingImageService } from '../services/ListingImageService';
+import { UserService, User } from '../services/UserService';
 import { theme } from '../styles/theme';
 import { useAuth } from '../store/AuthContext';
 import { ContactSellerModal } from '../components/ContactSellerModal';
+import { ReportModal } from '../components/ReportModal';
+import { ReportService } from '../services/ReportService';
+import { ListingStatusBadge } from '../components/ListingStatusBadge';
+import { ImageGallery } from '../components/ImageGallery';
+
+// Action labels for the statuses a seller can set by hand. 'sold' and 'traded'
+// are left out because only recording a sale in the chat or accepting a swap
+// proposal sets them.
+const getStatusActionLabel = (from: ListingStatus, to: ListingStatus): string => {
+  switch (to) {
+    case 'reserved':
+      return 'Mark as Reserved';
+    case 'archived':
+      return 'Archive';
+    default:
+      return from === 'archived' ? 'Relist' : 'Mark as Available';
+  }
+};
 
 type ListingDetailsScreenProps = {
   route: RouteProp<RootStackParamList, 'ListingDetails'>;
@@ -33,12 +62,18 @@ export const ListingDetailsScreen = ({ route, navigation }: ListingDetailsScreen
   const { user } = useAuth();
   const { width } = useWindowDimensions();
   const [listing, setListing] = useState<BookListing | null>(null);
+  const [imageUrls, setImageUrls] = useState<string[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const [sellerInfo, setSellerInfo] = useState<any>(null);
+  const [sellerInfo, setSellerInfo] = useState<User | null>(null);
   const [isContactModalVisible, setIsContactModalVisible] = useState(false);
+  const [isReportModalVisible, setIsReportModalVisible] = useState(false);
+  const [isUpdatingStatus, setIsUpdatingStatus] = useState(false);
 
   const isSeller = user?.id === listing?.seller_id;
+  const status = listing ? getListingStatus(listing) : 'active';
+  const moderationState = listing ? getModerationState(listing) : 'approved';
+  const statusActions = LISTING_STATUS_TRANSITIONS[status].filter(next => !TRANSACTION_STATUSES.includes(next));
   const isTablet = width > 768;
 
   useEffect(() => {
@@ -46,18 +81,15 @@ export const ListingDetailsScreen = ({ route, navigation }: ListingDetailsScreen
       try {
         setIsLoading(true);
         setError(null);
-        const data = await BookService.getListingById(id);
+        // Offline the listing comes from the cache but its photos do not, so the
+        // gallery falls back to the cover instead of failing the screen
+        const [data, images] = await Promise.all([
+          BookService.getListingById(id),
+          ListingImageService.getImagesForListing(id).catch(() => []),
+        ]);
         if (data) {
           setListing(data);
-          
-          // In a real app, you would fetch seller info here
-          // For now, we'll use a placeholder
-          setSellerInfo({
-            id: data.seller_id,
-            name: 'Book Seller',
-            rating: 4.8,
-            joined: 'Jan 2023',
-          });
+          setImageUrls(images.map(image => image.image_url));
         }
       } catch (err) {
         console.error('Error fetching listing details:', err);
@@ -70,6 +102,32 @@ export const ListingDetailsScreen = ({ route, navigation }: ListingDetailsScreen
     fetchListingDetails();
   }, [id]);
 
+  // Refetch the seller whenever the screen is focused so a newly written review is reflected
+  useFocusEffect(
+    useCallback(() => {
+      if (!listing) {
+        return;
+      }
+
+      const fetchSellerInfo = async () => {
+        try {
+          const seller = await UserService.getUserById(listing.seller_id);
+          setSellerInfo(seller || {
+            id: listing.seller_id,
+            email: '',
+            name: 'Book Seller',
+            joinDate: listing.created_at,
+            reviewCount: 0,
+          });
+        } catch (err) {
+          console.error('Error fetching seller info:', err);
+        }
+      };
+
+      fetchSellerInfo();
+    }, [listing])
+  );
+
   const handleContact = () => {
     setIsContactModalVisible(true);
   };
@@ -85,29 +143,48 @@ export const ListingDetailsScreen = ({ route, navigation }: ListingDetailsScreen
     }
   };
 
+  const handleViewReviews = () => {
+    if (!sellerInfo) return;
+    navigation.navigate('SellerReviews', {
+      sellerId: sellerInfo.id,
+      sellerName: sellerInfo.name,
+    });
+  };
+
+  const handleViewSellerProfile = () => {
+    if (!sellerInfo) return;
+    navigation.navigate('SellerProfile', { userId: sellerInfo.id });
+  };
+
   const handleEdit = () => {
     navigation.navigate('EditListing', { id });
   };
 
-  const handleDelete = () => {
+  const updateStatus = async (newStatus: ListingStatus) => {
+    try {
+      setIsUpdatingStatus(true);
+      const updated = await BookService.updateListingStatus(id, newStatus);
+      setListing(updated);
+    } catch (err) {
+      console.error('Error updating listing status:', err);
+      Alert.alert('Error', 'Failed to update listing. Please try again later.');
+    } finally {
+      setIsUpdatingStatus(false);
+    }
+  };
+
+  const handleStatusChange = (newStatus: ListingStatus) => {
+    if (newStatus !== 'archived') {
+      updateStatus(newStatus);
+      return;
+    }
+
     Alert.alert(
-      'Delete Listing',
-      'Are you sure you want to delete this listing? This action cannot be undone.',
+      'Archive Listing',
+      'Archived listings are hidden from buyers. You can find and relist them from My Listings.',
       [
         { text: 'Cancel', style: 'cancel' },
-        {
-          text: 'Delete',
-          style: 'destructive',
-          onPress: async () => {
-            try {
-              await BookService.deleteListing(id);
-              navigation.goBack();
-            } catch (err) {
-              console.error('Error deleting listing:', err);
-              Alert.alert('Error', 'Failed to delete listing. Please try again later.');
-            }
-          },
-        },
+        { text: 'Archive', onPress: () => updateStatus('archived') },
       ]
     );
   };
@@ -149,19 +226,31 @@ export const ListingDetailsScreen = ({ route, navigation }: ListingDetailsScreen
             <Ionicons name="arrow-back" size={24} color={theme.colors.text} />
           </TouchableOpacity>
           
-          <TouchableOpacity style={styles.shareButton} onPress={handleShare}>
-            <Ionicons name="share-outline" size={24} color={theme.colors.text} />
-          </TouchableOpacity>
+          <View style={styles.headerActions}>
+            {user && !isSeller && (
+              <TouchableOpacity
+                style={styles.shareButton}
+                onPress={() => setIsReportModalVisible(true)}
+                accessibilityLabel="Report listing"
+              >
+                <Ionicons name="flag-outline" size={24} color={theme.colors.text} />
+              </TouchableOpacity>
+            )}
+            <TouchableOpacity style={[styles.shareButton, styles.headerActionSpacing]} onPress={handleShare}>
+              <Ionicons name="share-outline" size={24} color={theme.colors.text} />
+            </TouchableOpacity>
+          </View>
         </View>
 
-        {/* Book image */}
-        <Image
-          source={{ uri: listing.image_url || 'https://source.unsplash.com/random/400x600/?book' }}
-          style={[
-            styles.bookImage,
-            isTablet && { height: 400 }
-          ]}
-          resizeMode="cover"
+        {/* Book photos; listings without gallery rows fall back to the cover image */}
+        <ImageGallery
+          imageUrls={
+            imageUrls.length > 0
+              ? imageUrls
+              : [listing.image_url || 'https://source.unsplash.com/random/400x600/?book']
+          }
+          width={width}
+          height={isTablet ? 400 : 300}
         />
 
         {/* Book info section */}
@@ -169,6 +258,40 @@ export const ListingDetailsScreen = ({ route, navigation }: ListingDetailsScreen
           <Text style={styles.bookTitle}>{listing.title}</Text>
           <Text style={styles.bookAuthor}>by {listing.author}</Text>
           
+          {status !== 'active' && (
+            <View style={styles.statusRow}>
+              <ListingStatusBadge status={status} />
+            </View>
+          )}
+
+          {isSeller && listing.hidden_at && (
+            <View style={styles.hiddenNotice}>
+              <Ionicons name="eye-off-outline" size={18} color={theme.colors.error} />
+              <Text style={styles.hiddenNoticeText}>
+                This listing was reported by several users and is hidden from buyers until it has been reviewed.
+              </Text>
+            </View>
+          )}
+
+          {isSeller && moderationState === 'pending' && (
+            <View style={[styles.hiddenNotice, styles.pendingNotice]}>
+              <Ionicons name="time-outline" size={18} color={theme.colors.warning} />
+              <Text style={[styles.hiddenNoticeText, styles.pendingNoticeText]}>
+                This listing is waiting for approval. Buyers will see it once it has been reviewed.
+              </Text>
+            </View>
+          )}
+
+          {isSeller && moderationState === 'rejected' && (
+            <View style={styles.hiddenNotice}>
+              <Ionicons name="close-circle-outline" size={18} color={theme.colors.error} />
+              <Text style={styles.hiddenNoticeText}>
+                This listing was rejected{listing.moderation_reason ? `: ${listing.moderation_reason}` : '.'}
+                {'\n'}Edit it to send it for review again.
+              </Text>
+            </View>
+          )}
+
           <View style={styles.priceRow}>
             <Text style={styles.price}>${listing.price.toFixed(2)}</Text>
             {listing.is_negotiable && (
@@ -237,43 +360,76 @@ export const ListingDetailsScreen = ({ route, navigation }: ListingDetailsScreen
           )}
 
           {/* Seller info */}
-          <View style={styles.sellerSection}>
-            <Text style={styles.sectionTitle}>About the Seller</Text>
-            <View style={styles.sellerInfo}>
-              <View style={styles.sellerAvatar}>
-                <Ionicons name="person" size={24} color={theme.colors.background} />
-              </View>
-              <View style={styles.sellerDetails}>
-                <Text style={styles.sellerName}>{sellerInfo.name}</Text>
-                <View style={styles.sellerStats}>
-                  <Ionicons name="star" size={14} color="#FFD700" />
-                  <Text style={styles.sellerStatsText}>{sellerInfo.rating} • Member since {sellerInfo.joined}</Text>
+          {sellerInfo && (
+            <View style={styles.sellerSection}>
+              <Text style={styles.sectionTitle}>About the Seller</Text>
+              <TouchableOpacity style={styles.sellerInfo} onPress={handleViewSellerProfile}>
+                {sellerInfo.profileImage ? (
+                  <Image source={{ uri: sellerInfo.profileImage }} style={styles.sellerAvatar} />
+                ) : (
+                  <View style={styles.sellerAvatar}>
+                    <Ionicons name="person" size={24} color={theme.colors.background} />
+                  </View>
+                )}
+                <View style={styles.sellerDetails}>
+                  <Text style={styles.sellerName}>{sellerInfo.name}</Text>
+                  <View style={styles.sellerStats}>
+                    <Ionicons name="star" size={14} color="#FFD700" />
+                    <Text style={styles.sellerStatsText}>
+                      {sellerInfo.rating !== undefined ? sellerInfo.rating.toFixed(1) : 'No rating'}
+                      {` (${sellerInfo.reviewCount || 0})`} • Member since {format(new Date(sellerInfo.joinDate), 'MMM yyyy')}
+                    </Text>
+                  </View>
                 </View>
-              </View>
+                <Ionicons name="chevron-forward" size={20} color={theme.colors.textSecondary} />
+              </TouchableOpacity>
+              <TouchableOpacity style={styles.reviewsLink} onPress={handleViewReviews}>
+                <Text style={styles.reviewsLinkText}>
+                  {sellerInfo.reviewCount ? 'See all reviews' : 'Reviews'}
+                </Text>
+                <Ionicons name="chevron-forward" size={16} color={theme.colors.primary} />
+              </TouchableOpacity>
             </View>
-          </View>
+          )}
         </View>
       </ScrollView>
 
       {/* Action buttons */}
       <View style={styles.actionContainer}>
         {isSeller ? (
-          <View style={styles.sellerActions}>
-            <TouchableOpacity style={styles.editButton} onPress={handleEdit}>
-              <Ionicons name="create-outline" size={20} color={theme.colors.background} />
-              <Text style={styles.editButtonText}>Edit Listing</Text>
-            </TouchableOpacity>
-            
-            <TouchableOpacity style={styles.deleteButton} onPress={handleDelete}>
-              <Ionicons name="trash-outline" size={20} color={theme.colors.background} />
-              <Text style={styles.deleteButtonText}>Delete</Text>
-            </TouchableOpacity>
-          </View>
-        ) : (
+          <>
+            <View style={styles.sellerActions}>
+              <TouchableOpacity style={styles.editButton} onPress={handleEdit}>
+                <Ionicons name="create-outline" size={20} color={theme.colors.background} />
+                <Text style={styles.editButtonText}>Edit Listing</Text>
+              </TouchableOpacity>
+            </View>
+
+            <View style={styles.statusActions}>
+              {statusActions.map(next => (
+                <TouchableOpacity
+                  key={next}
+                  style={[styles.statusButton, isUpdatingStatus && styles.disabledButton]}
+                  onPress={() => handleStatusChange(next)}
+                  disabled={isUpdatingStatus}
+                >
+                  <Text style={styles.statusButtonText}>{getStatusActionLabel(status, next)}</Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+            {(status === 'active' || status === 'reserved') && (
+              <Text style={styles.statusHint}>
+                Sold it? Mark it as sold from your conversation with the buyer.
+              </Text>
+            )}
+          </>
+        ) : status === 'active' || status === 'reserved' ? (
           <TouchableOpacity style={styles.contactButton} onPress={handleContact}>
             <Ionicons name="chatbubble-outline" size={20} color="#fff" style={styles.contactButtonIcon} />
             <Text style={styles.contactButtonText}>Message Seller</Text>
           </TouchableOpacity>
+        ) : (
+          <Text style={styles.unavailableText}>This book is no longer available</Text>
         )}
       </View>
       
@@ -288,6 +444,15 @@ export const ListingDetailsScreen = ({ route, navigation }: ListingDetailsScreen
           listingTitle={listing.title}
         />
       )}
+
+      {listing && (
+        <ReportModal
+          visible={isReportModalVisible}
+          title="Report Listing"
+          onClose={() => setIsReportModalVisible(false)}
+          onSubmit={(reason, details) => ReportService.reportListing(listing, reason, details)}
+        />
+      )}
     </SafeAreaView>
   );
 };
@@ -317,10 +482,11 @@ const styles = StyleSheet.create({
     borderRadius: theme.borderRadius.round,
     backgroundColor: 'rgba(255, 255, 255, 0.8)',
   },
-  bookImage: {
-    width: '100%',
-    height: 300,
-    backgroundColor: theme.colors.border,
+  headerActions: {
+    flexDirection: 'row',
+  },
+  headerActionSpacing: {
+    marginLeft: theme.spacing.sm,
   },
   infoSection: {
     padding: theme.spacing.md,
@@ -334,6 +500,29 @@ const styles = StyleSheet.create({
     color: theme.colors.textSecondary,
     marginBottom: theme.spacing.md,
   },
+  statusRow: {
+    marginBottom: theme.spacing.sm,
+  },
+  hiddenNotice: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    padding: theme.spacing.sm,
+    marginBottom: theme.spacing.md,
+    borderRadius: theme.borderRadius.md,
+    borderWidth: 1,
+    borderColor: theme.colors.error,
+  },
+  hiddenNoticeText: {
+    flex: 1,
+    marginLeft: theme.spacing.sm,
+    color: theme.colors.error,
+  },
+  pendingNotice: {
+    borderColor: theme.colors.warning,
+  },
+  pendingNoticeText: {
+    color: theme.colors.warning,
+  },
   priceRow: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -438,6 +627,16 @@ const styles = StyleSheet.create({
     marginLeft: 4,
     fontSize: 14,
   },
+  reviewsLink: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: theme.spacing.md,
+  },
+  reviewsLinkText: {
+    color: theme.colors.primary,
+    fontWeight: '600' as TextStyle['fontWeight'],
+    marginRight: 2,
+  },
   actionContainer: {
     padding: theme.spacing.md,
     borderTopWidth: 1,
@@ -448,33 +647,49 @@ const styles = StyleSheet.create({
     flexDirection: 'row',
   },
   editButton: {
-    flex: 3,
+    flex: 1,
     backgroundColor: theme.colors.primary,
     flexDirection: 'row',
     justifyContent: 'center',
     alignItems: 'center',
     paddingVertical: theme.spacing.md,
     borderRadius: theme.borderRadius.md,
-    marginRight: theme.spacing.md,
   },
   editButtonText: {
     color: theme.colors.background,
     fontWeight: '700' as TextStyle['fontWeight'],
     marginLeft: theme.spacing.xs,
   },
-  deleteButton: {
-    flex: 2,
-    backgroundColor: theme.colors.error,
+  statusActions: {
     flexDirection: 'row',
-    justifyContent: 'center',
+    marginTop: theme.spacing.sm,
+  },
+  statusButton: {
+    flex: 1,
     alignItems: 'center',
-    paddingVertical: theme.spacing.md,
+    paddingVertical: theme.spacing.sm,
     borderRadius: theme.borderRadius.md,
+    borderWidth: 1,
+    borderColor: theme.colors.primary,
+    marginHorizontal: theme.spacing.xs / 2,
   },
-  deleteButtonText: {
-    color: theme.colors.background,
-    fontWeight: '700' as TextStyle['fontWeight'],
-    marginLeft: theme.spacing.xs,
+  statusButtonText: {
+    color: theme.colors.primary,
+    fontWeight: '600' as TextStyle['fontWeight'],
+  },
+  disabledButton: {
+    opacity: 0.5,
+  },
+  statusHint: {
+    marginTop: theme.spacing.sm,
+    textAlign: 'center',
+    fontSize: 12,
+    color: theme.colors.textSecondary,
+  },
+  unavailableText: {
+    textAlign: 'center',
+    color: theme.colors.textSecondary,
+    paddingVertical: theme.spacing.md,
   },
   contactButton: {
     backgroundColor: theme.colors.primary,
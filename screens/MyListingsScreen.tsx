@@ -0,0 +1,254 @@
+import React, { useState, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  FlatList,
+  TouchableOpacity,
+  ActivityIndicator,
+  RefreshControl,
+  TextStyle,
+  ScrollView
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { useFocusEffect } from '@react-navigation/native';
+import { Ionicons } from '@expo/vector-icons';
+import { RootStackParamList } from '../navigation/AppNavigator';
+import { BookService, BookListing, ListingStatus } from '../services/BookService';
+import { BookCard } from '../components/BookCard';
+import { LISTING_STATUS_LABELS } from '../components/ListingStatusBadge';
+import { useAuth } from '../store/AuthContext';
+import { theme } from '../styles/theme';
+
+type MyListingsScreenProps = {
+  navigation: NativeStackNavigationProp<RootStackParamList, 'MyListings'>;
+};
+
+type StatusFilter = 'all' | ListingStatus;
+
+const STATUS_FILTERS: StatusFilter[] = ['all', 'active', 'reserved', 'sold', 'traded', 'archived'];
+
+export const MyListingsScreen = ({ navigation }: MyListingsScreenProps) => {
+  const { user } = useAuth();
+  const [listings, setListings] = useState<BookListing[]>([]);
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>('all');
+  const [isLoading, setIsLoading] = useState(true);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchListings = useCallback(async () => {
+    if (!user) return;
+
+    try {
+      setError(null);
+      const data = await BookService.getListingsBySeller(
+        user.id,
+        statusFilter === 'all' ? undefined : [statusFilter]
+      );
+      setListings(data);
+    } catch (err) {
+      console.error('Error fetching my listings:', err);
+      setError('Failed to load your listings. Please try again later.');
+    } finally {
+      setIsLoading(false);
+      setIsRefreshing(false);
+    }
+  }, [user, statusFilter]);
+
+  // Refetch on focus so status changes made on the details screen show up
+  useFocusEffect(
+    useCallback(() => {
+      fetchListings();
+    }, [fetchListings])
+  );
+
+  const handleFilterChange = (filter: StatusFilter) => {
+    setIsLoading(true);
+    setStatusFilter(filter);
+  };
+
+  const handleRefresh = () => {
+    setIsRefreshing(true);
+    fetchListings();
+  };
+
+  return (
+    <SafeAreaView style={styles.safeArea} edges={['top']}>
+      <View style={styles.container}>
+        {/* Header */}
+        <View style={styles.header}>
+          <TouchableOpacity
+            style={styles.backButton}
+            onPress={() => navigation.goBack()}
+          >
+            <Ionicons name="arrow-back" size={24} color={theme.colors.text} />
+          </TouchableOpacity>
+          <Text style={styles.headerTitle}>My Listings</Text>
+        </View>
+
+        {/* Status filters */}
+        <View>
+          <ScrollView
+            horizontal
+            showsHorizontalScrollIndicator={false}
+            contentContainerStyle={styles.filterRow}
+          >
+            {STATUS_FILTERS.map(filter => (
+              <TouchableOpacity
+                key={filter}
+                style={[styles.filterChip, statusFilter === filter && styles.activeFilterChip]}
+                onPress={() => handleFilterChange(filter)}
+              >
+                <Text style={[styles.filterText, statusFilter === filter && styles.activeFilterText]}>
+                  {filter === 'all' ? 'All' : LISTING_STATUS_LABELS[filter]}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </ScrollView>
+        </View>
+
+        {isLoading ? (
+          <View style={styles.loadingContainer}>
+            <ActivityIndicator size="large" color={theme.colors.primary} />
+            <Text style={styles.loadingText}>Loading your listings...</Text>
+          </View>
+        ) : error ? (
+          <View style={styles.errorContainer}>
+            <Ionicons name="alert-circle-outline" size={40} color={theme.colors.error} />
+            <Text style={styles.errorText}>{error}</Text>
+            <TouchableOpacity style={styles.retryButton} onPress={fetchListings}>
+              <Text style={styles.retryText}>Retry</Text>
+            </TouchableOpacity>
+          </View>
+        ) : (
+          <FlatList
+            data={listings}
+            keyExtractor={(item) => item.id}
+            renderItem={({ item }) => (
+              <BookCard
+                book={item}
+                onPress={(book) => navigation.navigate('ListingDetails', { id: book.id })}
+              />
+            )}
+            contentContainerStyle={styles.listContainer}
+            ListEmptyComponent={
+              <View style={styles.emptyContainer}>
+                <Ionicons name="book-outline" size={60} color={theme.colors.textSecondary} />
+                <Text style={styles.emptyText}>
+                  {statusFilter === 'all'
+                    ? "You haven't listed any books yet"
+                    : `No ${LISTING_STATUS_LABELS[statusFilter].toLowerCase()} listings`}
+                </Text>
+              </View>
+            }
+            refreshControl={
+              <RefreshControl
+                refreshing={isRefreshing}
+                onRefresh={handleRefresh}
+                colors={[theme.colors.primary]}
+                tintColor={theme.colors.primary}
+              />
+            }
+          />
+        )}
+      </View>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  safeArea: {
+    flex: 1,
+    backgroundColor: theme.colors.background,
+  },
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: theme.spacing.md,
+    borderBottomWidth: 1,
+    borderBottomColor: theme.colors.border,
+    backgroundColor: '#fff',
+  },
+  backButton: {
+    marginRight: theme.spacing.md,
+    padding: theme.spacing.xs,
+  },
+  headerTitle: {
+    flex: 1,
+    fontSize: 18,
+    fontWeight: '600' as TextStyle['fontWeight'],
+    color: theme.colors.text,
+  },
+  filterRow: {
+    paddingHorizontal: theme.spacing.md,
+    paddingVertical: theme.spacing.sm,
+  },
+  filterChip: {
+    paddingHorizontal: theme.spacing.md,
+    paddingVertical: theme.spacing.xs,
+    borderRadius: theme.borderRadius.lg,
+    borderWidth: 1,
+    borderColor: theme.colors.border,
+    marginRight: theme.spacing.sm,
+  },
+  activeFilterChip: {
+    backgroundColor: theme.colors.primary,
+    borderColor: theme.colors.primary,
+  },
+  filterText: {
+    color: theme.colors.text,
+  },
+  activeFilterText: {
+    color: '#fff',
+    fontWeight: '600' as TextStyle['fontWeight'],
+  },
+  listContainer: {
+    padding: theme.spacing.md,
+    flexGrow: 1,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  loadingText: {
+    marginTop: theme.spacing.md,
+    color: theme.colors.textSecondary,
+  },
+  errorContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: theme.spacing.lg,
+  },
+  errorText: {
+    textAlign: 'center',
+    marginVertical: theme.spacing.md,
+    color: theme.colors.error,
+  },
+  retryButton: {
+    paddingVertical: theme.spacing.sm,
+    paddingHorizontal: theme.spacing.md,
+    backgroundColor: theme.colors.primary,
+    borderRadius: theme.borderRadius.md,
+    marginTop: theme.spacing.md,
+  },
+  retryText: {
+    color: '#fff',
+    fontWeight: '700' as TextStyle['fontWeight'],
+  },
+  emptyContainer: {
+    alignItems: 'center',
+    padding: theme.spacing.xl,
+  },
+  emptyText: {
+    marginTop: theme.spacing.md,
+    fontSize: 16,
+    color: theme.colors.textSecondary,
+    textAlign: 'center',
+  },
+});
@@ -0,0 +1,372 @@
+import React, { useState, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  FlatList,
+  TouchableOpacity,
+  ActivityIndicator,
+  Alert,
+  RefreshControl,
+  TextStyle
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { useFocusEffect } from '@react-navigation/native';
+import { Ionicons } from '@expo/vector-icons';
+import { format, isToday, isYesterday } from 'date-fns';
+import { RootStackParamList } from '../navigation/AppNavigator';
+import { AppNotification, NotificationService, NotificationType } from '../services/NotificationService';
+import { MessageService } from '../services/MessageService';
+import { useNotifications } from '../store/NotificationContext';
+import { theme } from '../styles/theme';
+
+type NotificationsScreenProps = {
+  navigation: NativeStackNavigationProp<RootStackParamList, 'Notifications'>;
+};
+
+const NOTIFICATION_ICONS: Record<NotificationType, keyof typeof Ionicons.glyphMap> = {
+  price_drop: 'pricetag-outline',
+  listing_removed: 'close-circle-outline',
+  message: 'chatbubble-outline',
+};
+
+export const NotificationsScreen = ({ navigation }: NotificationsScreenProps) => {
+  const { refreshUnreadCount } = useNotifications();
+  const [notifications, setNotifications] = useState<AppNotification[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchNotifications = useCallback(async () => {
+    try {
+      setError(null);
+      setNotifications(await NotificationService.getNotifications());
+    } catch (err) {
+      console.error('Error fetching notifications:', err);
+      setError('Failed to load notifications. Please try again later.');
+    } finally {
+      setIsLoading(false);
+      setIsRefreshing(false);
+    }
+  }, []);
+
+  useFocusEffect(
+    useCallback(() => {
+      fetchNotifications();
+    }, [fetchNotifications])
+  );
+
+  const handleRefresh = () => {
+    setIsRefreshing(true);
+    fetchNotifications();
+  };
+
+  const openChat = async (conversationId: string) => {
+    const conversations = await MessageService.getConversations();
+    const conversation = conversations.find(item => item.id === conversationId);
+
+    if (!conversation) {
+      Alert.alert('Conversation Unavailable', 'This conversation is no longer available.');
+      return;
+    }
+
+    navigation.navigate('Chat', {
+      conversationId: conversation.id,
+      otherUserName: conversation.otherUser.name,
+      listingTitle: conversation.listing.title
+    });
+  };
+
+  const handlePress = async (notification: AppNotification) => {
+    try {
+      if (!notification.read) {
+        await NotificationService.markAsRead(notification.id);
+        setNotifications(prev => prev.map(item => item.id === notification.id ? { ...item, read: true } : item));
+        refreshUnreadCount();
+      }
+
+      if (notification.type === 'message' && notification.conversation_id) {
+        await openChat(notification.conversation_id);
+      } else if (notification.type === 'price_drop' && notification.listing_id) {
+        navigation.navigate('ListingDetails', { id: notification.listing_id });
+      }
+    } catch (err) {
+      console.error('Error opening notification:', err);
+      Alert.alert('Error', 'Failed to open the notification');
+    }
+  };
+
+  const handleMarkAllRead = async () => {
+    try {
+      await NotificationService.markAllAsRead();
+      setNotifications(prev => prev.map(item => ({ ...item, read: true })));
+      refreshUnreadCount();
+    } catch (err) {
+      Alert.alert('Error', 'Failed to mark notifications as read');
+    }
+  };
+
+  const handleClearAll = () => {
+    Alert.alert(
+      'Clear Notifications',
+      'Delete all of your notifications?',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Clear All',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await NotificationService.clearAll();
+              setNotifications([]);
+              refreshUnreadCount();
+            } catch (err) {
+              Alert.alert('Error', 'Failed to clear notifications');
+            }
+          }
+        }
+      ]
+    );
+  };
+
+  const formatNotificationDate = (dateString: string) => {
+    const date = new Date(dateString);
+
+    if (isToday(date)) {
+      return format(date, 'h:mm a');
+    } else if (isYesterday(date)) {
+      return 'Yesterday';
+    } else {
+      return format(date, 'MMM d');
+    }
+  };
+
+  const hasUnread = notifications.some(item => !item.read);
+
+  const renderNotification = ({ item }: { item: AppNotification }) => (
+    <TouchableOpacity
+      style={[styles.notificationItem, !item.read && styles.unreadItem]}
+      onPress={() => handlePress(item)}
+    >
+      <View style={styles.iconContainer}>
+        <Ionicons name={NOTIFICATION_ICONS[item.type]} size={22} color={theme.colors.primary} />
+      </View>
+      <View style={styles.notificationContent}>
+        <View style={styles.notificationHeader}>
+          <Text style={[styles.notificationTitle, !item.read && styles.unreadText]}>{item.title}</Text>
+          <Text style={styles.notificationDate}>{formatNotificationDate(item.created_at)}</Text>
+        </View>
+        <Text style={styles.notificationBody} numberOfLines={2}>{item.body}</Text>
+      </View>
+      {!item.read && <View style={styles.unreadDot} />}
+    </TouchableOpacity>
+  );
+
+  return (
+    <SafeAreaView style={styles.safeArea} edges={['top']}>
+      <View style={styles.container}>
+        {/* Header */}
+        <View style={styles.header}>
+          <TouchableOpacity
+            style={styles.backButton}
+            onPress={() => navigation.goBack()}
+          >
+            <Ionicons name="arrow-back" size={24} color={theme.colors.text} />
+          </TouchableOpacity>
+          <Text style={styles.headerTitle}>Notifications</Text>
+          {hasUnread && (
+            <TouchableOpacity
+              style={styles.headerAction}
+              onPress={handleMarkAllRead}
+              accessibilityLabel="Mark all as read"
+            >
+              <Ionicons name="checkmark-done-outline" size={24} color={theme.colors.text} />
+            </TouchableOpacity>
+          )}
+          {notifications.length > 0 && (
+            <TouchableOpacity
+              style={styles.headerAction}
+              onPress={handleClearAll}
+              accessibilityLabel="Clear all notifications"
+            >
+              <Ionicons name="trash-outline" size={24} color={theme.colors.text} />
+            </TouchableOpacity>
+          )}
+        </View>
+
+        {isLoading ? (
+          <View style={styles.loadingContainer}>
+            <ActivityIndicator size="large" color={theme.colors.primary} />
+            <Text style={styles.loadingText}>Loading notifications...</Text>
+          </View>
+        ) : error ? (
+          <View style={styles.errorContainer}>
+            <Ionicons name="alert-circle-outline" size={40} color={theme.colors.error} />
+            <Text style={styles.errorText}>{error}</Text>
+            <TouchableOpacity style={styles.retryButton} onPress={fetchNotifications}>
+              <Text style={styles.retryText}>Retry</Text>
+            </TouchableOpacity>
+          </View>
+        ) : (
+          <FlatList
+            data={notifications}
+            keyExtractor={(item) => item.id}
+            renderItem={renderNotification}
+            contentContainerStyle={styles.listContainer}
+            ListEmptyComponent={
+              <View style={styles.emptyContainer}>
+                <Ionicons name="notifications-outline" size={60} color={theme.colors.textSecondary} />
+                <Text style={styles.emptyText}>No notifications yet</Text>
+                <Text style={styles.emptySubtext}>
+                  Price drops and changes to books you saved, and new messages, show up here
+                </Text>
+              </View>
+            }
+            refreshControl={
+              <RefreshControl
+                refreshing={isRefreshing}
+                onRefresh={handleRefresh}
+                colors={[theme.colors.primary]}
+                tintColor={theme.colors.primary}
+              />
+            }
+          />
+        )}
+      </View>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  safeArea: {
+    flex: 1,
+    backgroundColor: theme.colors.background,
+  },
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: theme.spacing.md,
+    borderBottomWidth: 1,
+    borderBottomColor: theme.colors.border,
+    backgroundColor: '#fff',
+  },
+  backButton: {
+    marginRight: theme.spacing.md,
+    padding: theme.spacing.xs,
+  },
+  headerTitle: {
+    flex: 1,
+    fontSize: 18,
+    fontWeight: '600' as TextStyle['fontWeight'],
+    color: theme.colors.text,
+  },
+  headerAction: {
+    padding: theme.spacing.xs,
+    marginLeft: theme.spacing.sm,
+  },
+  listContainer: {
+    flexGrow: 1,
+  },
+  notificationItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: theme.spacing.md,
+    borderBottomWidth: 1,
+    borderBottomColor: theme.colors.border,
+    backgroundColor: '#fff',
+  },
+  unreadItem: {
+    backgroundColor: theme.colors.background,
+  },
+  iconContainer: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: theme.colors.border,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: theme.spacing.md,
+  },
+  notificationContent: {
+    flex: 1,
+  },
+  notificationHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 2,
+  },
+  notificationTitle: {
+    fontSize: 16,
+    color: theme.colors.text,
+  },
+  unreadText: {
+    fontWeight: '700' as TextStyle['fontWeight'],
+  },
+  notificationDate: {
+    fontSize: 12,
+    color: theme.colors.textSecondary,
+  },
+  notificationBody: {
+    fontSize: 14,
+    color: theme.colors.textSecondary,
+  },
+  unreadDot: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+    backgroundColor: theme.colors.primary,
+    marginLeft: theme.spacing.sm,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  loadingText: {
+    marginTop: theme.spacing.md,
+    color: theme.colors.textSecondary,
+  },
+  errorContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: theme.spacing.lg,
+  },
+  errorText: {
+    textAlign: 'center',
+    marginVertical: theme.spacing.md,
+    color: theme.colors.error,
+  },
+  retryButton: {
+    paddingVertical: theme.spacing.sm,
+    paddingHorizontal: theme.spacing.md,
+    backgroundColor: theme.colors.primary,
+    borderRadius: theme.borderRadius.md,
+    marginTop: theme.spacing.md,
+  },
+  retryText: {
+    color: '#fff',
+    fontWeight: '700' as TextStyle['fontWeight'],
+  },
+  emptyContainer: {
+    alignItems: 'center',
+    padding: theme.spacing.xl,
+  },
+  emptyText: {
+    marginTop: theme.spacing.md,
+    fontSize: 16,
+    color: theme.colors.textSecondary,
+    textAlign: 'center',
+  },
+  emptySubtext: {
+    marginTop: theme.spacing.sm,
+    fontSize: 14,
+    color: theme.colors.textSecondary,
+    textAlign: 'center',
+  },
+});
@@ -1,4 +1,4 @@
-import React from 'react';
+import React, { useState, useCallback } from 'react';
 import {
   View,
   Text,
@@ -9,17 +9,62 @@ import {
   Alert,
   useWindowDimensions,
   Platform,
+  ActivityIndicator,
+  Switch,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
+import { useNavigation, useFocusEffect } from '@react-navigation/native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import { Ionicons } from '@expo/vector-icons';
+import { format } from 'date-fns';
 import { theme } from '../styles/theme';
 import { useAuth } from '../store/AuthContext';
 import { Button } from '../components/Button';
+import { RootStackParamList } from '../navigation/AppNavigator';
+import { UserService, User } from '../services/UserService';
+import { BookService } from '../services/BookService';
+import { PushNotificationService, PushSettings } from '../services/PushNotificationService';
+import { AdminService } from '../services/AdminService';
+import { TransactionService } from '../services/TransactionService';
 
 export const ProfileScreen = () => {
   const { user, signOut } = useAuth();
+  const navigation = useNavigation<NativeStackNavigationProp<RootStackParamList>>();
   const { width } = useWindowDimensions();
   const isTablet = width > 768;
+  const [profile, setProfile] = useState<User | null>(null);
+  const [listedCount, setListedCount] = useState(0);
+  const [soldCount, setSoldCount] = useState(0);
+  const [pushSettings, setPushSettings] = useState<PushSettings>({ messages: true, offers: true });
+  const [isLoading, setIsLoading] = useState(true);
+  // The admin dashboard is part of the web build only
+  const [canOpenDashboard, setCanOpenDashboard] = useState(false);
+
+  // Reload on focus so edits made on the Edit Profile screen show up
+  useFocusEffect(
+    useCallback(() => {
+      const fetchProfile = async () => {
+        try {
+          const currentUser = await UserService.getCurrentUser();
+          setProfile(currentUser);
+
+          if (currentUser) {
+            setListedCount((await BookService.getSellerListingCounts(currentUser.id)).listed);
+            // Books count as sold once the seller records the sale to a buyer
+            setSoldCount(await TransactionService.getSalesCount(currentUser.id));
+            setPushSettings(await PushNotificationService.getSettings());
+            setCanOpenDashboard(Platform.OS === 'web' && await AdminService.isAdmin());
+          }
+        } catch (error) {
+          console.error('Error fetching profile:', error);
+        } finally {
+          setIsLoading(false);
+        }
+      };
+
+      fetchProfile();
+    }, [])
+  );
 
   const handleSignOut = async () => {
     try {
@@ -33,15 +78,20 @@ export const ProfileScreen = () => {
     }
   };
 
-  // Mock user data
-  const userData = {
-    name: 'John Doe',
-    email: user?.email || 'user@example.com',
-    location: 'New York, NY',
-    joinDate: 'January 2023',
-    booksListed: 12,
-    booksSold: 8,
-    profileImage: 'https://source.unsplash.com/random/200x200/?portrait',
+  const handleTogglePush = async (settings: Partial<PushSettings>) => {
+    const previous = pushSettings;
+    setPushSettings({ ...previous, ...settings });
+
+    try {
+      setPushSettings(await PushNotificationService.updateSettings(settings));
+    } catch (error) {
+      setPushSettings(previous);
+      Alert.alert('Error', 'Failed to update notification settings');
+    }
+  };
+
+  const handleEditProfile = () => {
+    navigation.navigate('EditProfile');
   };
 
   const ProfileSection = ({ title, children }: { title: string; children: React.ReactNode }) => (
@@ -58,72 +108,144 @@ export const ProfileScreen = () => {
     </View>
   );
 
+  const ProfileToggle = ({ label, value, onValueChange }: { label: string; value: boolean; onValueChange: (value: boolean) => void }) => (
+    <View style={styles.profileItem}>
+      <Text style={styles.profileLabel}>{label}</Text>
+      <Switch
+        value={value}
+        onValueChange={onValueChange}
+        accessibilityLabel={label}
+        trackColor={{ true: theme.colors.primary, false: theme.colors.border }}
+      />
+    </View>
+  );
+
   return (
     <SafeAreaView style={styles.safeArea} edges={['top']}>
       <View style={styles.container}>
         <View style={styles.header}>
           <Text style={styles.headerTitle}>My Profile</Text>
-          <TouchableOpacity style={styles.settingsButton}>
+          <TouchableOpacity style={styles.settingsButton} onPress={handleEditProfile}>
             <Ionicons name="settings-outline" size={24} color={theme.colors.text} />
           </TouchableOpacity>
         </View>
 
-        <ScrollView 
-          contentContainerStyle={[
-            styles.scrollContent,
-            isTablet && styles.tabletScrollContent
-          ]}
-          showsVerticalScrollIndicator={false}
-        >
-          <View style={styles.profileHeader}>
-            <Image 
-              source={{ uri: userData.profileImage }} 
-              style={styles.profileImage} 
-            />
-            <Text style={styles.profileName}>{userData.name}</Text>
-            <Text style={styles.profileEmail}>{userData.email}</Text>
+        {isLoading ? (
+          <View style={styles.loadingContainer}>
+            <ActivityIndicator size="large" color={theme.colors.primary} />
           </View>
+        ) : (
+          <ScrollView 
+            contentContainerStyle={[
+              styles.scrollContent,
+              isTablet && styles.tabletScrollContent
+            ]}
+            showsVerticalScrollIndicator={false}
+          >
+            <View style={styles.profileHeader}>
+              {profile?.profileImage ? (
+                <Image 
+                  source={{ uri: profile.profileImage }} 
+                  style={styles.profileImage} 
+                />
+              ) : (
+                <View style={[styles.profileImage, styles.profileImagePlaceholder]}>
+                  <Ionicons name="person" size={60} color={theme.colors.background} />
+                </View>
+              )}
+              <Text style={styles.profileName}>{profile?.name || 'Your Name'}</Text>
+              <Text style={styles.profileEmail}>{profile?.email || user?.email}</Text>
+              <TouchableOpacity style={styles.editProfileButton} onPress={handleEditProfile}>
+                <Text style={styles.editProfileText}>Edit Profile</Text>
+              </TouchableOpacity>
+            </View>
 
-          <View style={isTablet ? styles.tabletSectionsContainer : null}>
-            <ProfileSection title="Account Information">
-              <ProfileItem label="Location" value={userData.location} />
-              <ProfileItem label="Member Since" value={userData.joinDate} />
-            </ProfileSection>
+            <View style={isTablet ? styles.tabletSectionsContainer : null}>
+              <ProfileSection title="Account Information">
+                <ProfileItem label="Location" value={profile?.location || 'Not set'} />
+                <ProfileItem
+                  label="Member Since"
+                  value={profile?.joinDate ? format(new Date(profile.joinDate), 'MMMM yyyy') : '-'}
+                />
+              </ProfileSection>
 
-            <ProfileSection title="Activity">
-              <ProfileItem label="Books Listed" value={userData.booksListed.toString()} />
-              <ProfileItem label="Books Sold" value={userData.booksSold.toString()} />
-            </ProfileSection>
-          </View>
+              <ProfileSection title="Activity">
+                <ProfileItem label="Books Listed" value={listedCount.toString()} />
+                <ProfileItem label="Books Sold" value={soldCount.toString()} />
+              </ProfileSection>
 
-          <View style={[
-            styles.actions,
-            isTablet && styles.tabletActions
-          ]}>
-            <TouchableOpacity style={styles.actionButton}>
-              <Ionicons name="list-outline" size={24} color={theme.colors.text} />
-              <Text style={styles.actionText}>My Listings</Text>
-            </TouchableOpacity>
-            
-            <TouchableOpacity style={styles.actionButton}>
-              <Ionicons name="help-circle-outline" size={24} color={theme.colors.text} />
-              <Text style={styles.actionText}>Help</Text>
-            </TouchableOpacity>
-            
-            <TouchableOpacity style={styles.actionButton}>
-              <Ionicons name="heart-outline" size={24} color={theme.colors.text} />
-              <Text style={styles.actionText}>Favorites</Text>
-            </TouchableOpacity>
-          </View>
+              <ProfileSection title="Notifications">
+                <ProfileToggle
+                  label="Message notifications"
+                  value={pushSettings.messages}
+                  onValueChange={messages => handleTogglePush({ messages })}
+                />
+                <ProfileToggle
+                  label="Offer notifications"
+                  value={pushSettings.offers}
+                  onValueChange={offers => handleTogglePush({ offers })}
+                />
+              </ProfileSection>
+            </View>
 
-          <View style={isTablet ? styles.tabletButtonContainer : styles.buttonContainer}>
-            <Button 
-              title="Sign Out" 
-              onPress={handleSignOut} 
-              variant="secondary" 
-            />
-          </View>
-        </ScrollView>
+            <View style={[
+              styles.actions,
+              isTablet && styles.tabletActions
+            ]}>
+              <TouchableOpacity
+                style={styles.actionButton}
+                onPress={() => navigation.navigate('MyListings')}
+              >
+                <Ionicons name="list-outline" size={24} color={theme.colors.text} />
+                <Text style={styles.actionText}>My Listings</Text>
+              </TouchableOpacity>
+
+              <TouchableOpacity
+                style={styles.actionButton}
+                onPress={() => navigation.navigate('TransactionHistory')}
+              >
+                <Ionicons name="receipt-outline" size={24} color={theme.colors.text} />
+                <Text style={styles.actionText}>History</Text>
+              </TouchableOpacity>
+              
+              <TouchableOpacity style={styles.actionButton}>
+                <Ionicons name="help-circle-outline" size={24} color={theme.colors.text} />
+                <Text style={styles.actionText}>Help</Text>
+              </TouchableOpacity>
+              
+              <TouchableOpacity style={styles.actionButton}>
+                <Ionicons name="heart-outline" size={24} color={theme.colors.text} />
+                <Text style={styles.actionText}>Favorites</Text>
+              </TouchableOpacity>
+
+              <TouchableOpacity
+                style={styles.actionButton}
+                onPress={() => navigation.navigate('BlockedUsers')}
+              >
+                <Ionicons name="ban-outline" size={24} color={theme.colors.text} />
+                <Text style={styles.actionText}>Blocked</Text>
+              </TouchableOpacity>
+
+              {canOpenDashboard && (
+                <TouchableOpacity
+                  style={styles.actionButton}
+                  onPress={() => navigation.navigate('Admin')}
+                >
+                  <Ionicons name="shield-checkmark-outline" size={24} color={theme.colors.text} />
+                  <Text style={styles.actionText}>Admin</Text>
+                </TouchableOpacity>
+              )}
+            </View>
+
+            <View style={isTablet ? styles.tabletButtonContainer : styles.buttonContainer}>
+              <Button 
+                title="Sign Out" 
+                onPress={handleSignOut} 
+                variant="secondary" 
+              />
+            </View>
+          </ScrollView>
+        )}
       </View>
     </SafeAreaView>
   );
@@ -165,6 +287,11 @@ const styles = StyleSheet.create({
   settingsButton: {
     padding: theme.spacing.xs,
   },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
   scrollContent: {
     padding: theme.spacing.md,
     paddingBottom: theme.spacing.xl * 2, // Extra padding for tab bar
@@ -185,6 +312,23 @@ const styles = StyleSheet.create({
     borderRadius: 60,
     marginBottom: theme.spacing.md,
   },
+  profileImagePlaceholder: {
+    backgroundColor: theme.colors.primary,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  editProfileButton: {
+    marginTop: theme.spacing.md,
+    paddingVertical: theme.spacing.xs,
+    paddingHorizontal: theme.spacing.md,
+    borderRadius: theme.borderRadius.md,
+    borderWidth: 1,
+    borderColor: theme.colors.primary,
+  },
+  editProfileText: {
+    color: theme.colors.primary,
+    fontWeight: 'bold',
+  },
   profileName: {
     ...theme.typography.h2,
     marginBottom: theme.spacing.xs,
@@ -218,6 +362,7 @@ const styles = StyleSheet.create({
   profileItem: {
     flexDirection: 'row',
     justifyContent: 'space-between',
+    alignItems: 'center',
     paddingVertical: theme.spacing.sm,
     borderBottomWidth: 1,
     borderBottomColor: theme.colors.border,
@@ -16,9 +16,16 @@ import { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import { RootStackParamList } from '../navigation/AppNavigator';
 import { BookListing } from '../services/BookService';
 import { SavedItemsService, SavedItemType } from '../services/SavedItemsService';
+import {
+  WantedBook,
+  WantedBookListingMatch,
+  WantedBookService,
+  describeWantedBook
+} from '../services/WantedBookService';
 import { theme } from '../styles/theme';
 import { Ionicons } from '@expo/vector-icons';
 import { BookCard } from '../components/BookCard';
+import { AddWantedBookModal } from '../components/AddWantedBookModal';
 import { useFocusEffect } from '@react-navigation/native';
 
 type SavedItemsScreenProps = {
@@ -30,6 +37,9 @@ type TabType = 'favorites' | 'wishlist';
 export const SavedItemsScreen = ({ navigation }: SavedItemsScreenProps) => {
   const [activeTab, setActiveTab] = useState<TabType>('favorites');
   const [items, setItems] = useState<BookListing[]>([]);
+  const [wantedBooks, setWantedBooks] = useState<WantedBook[]>([]);
+  const [matches, setMatches] = useState<WantedBookListingMatch[]>([]);
+  const [isAddWantedVisible, setIsAddWantedVisible] = useState(false);
   const [isLoading, setIsLoading] = useState(true);
   const [isRefreshing, setIsRefreshing] = useState(false);
   const { width } = useWindowDimensions();
@@ -42,11 +52,20 @@ export const SavedItemsScreen = ({ navigation }: SavedItemsScreenProps) => {
     try {
       setIsLoading(true);
       
-      const data = activeTab === 'favorites'
-        ? await SavedItemsService.getFavorites()
-        : await SavedItemsService.getWishlist();
-      
-      setItems(data);
+      if (activeTab === 'favorites') {
+        setItems(await SavedItemsService.getFavorites());
+        return;
+      }
+
+      const [wishlist, wanted, found] = await Promise.all([
+        SavedItemsService.getWishlist(),
+        WantedBookService.getWantedBooks(),
+        WantedBookService.getMatches(),
+      ]);
+
+      setItems(wishlist);
+      setWantedBooks(wanted);
+      setMatches(found);
     } catch (error) {
       console.error('Error fetching saved items:', error);
       Alert.alert('Error', 'Failed to load your saved items');
@@ -76,6 +95,104 @@ export const SavedItemsScreen = ({ navigation }: SavedItemsScreenProps) => {
   const navigateToListingDetail = (book: BookListing) => {
     navigation.navigate('ListingDetails', { id: book.id });
   };
+
+  const handleWantedBookAdded = (wanted: WantedBook) => {
+    setWantedBooks(prev => [wanted, ...prev]);
+  };
+
+  const handleRemoveWantedBook = (wanted: WantedBook) => {
+    Alert.alert(
+      'Remove Book',
+      `Stop looking for ${describeWantedBook(wanted)}?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Remove',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await WantedBookService.removeWantedBook(wanted.id);
+              setWantedBooks(prev => prev.filter(item => item.id !== wanted.id));
+              setMatches(prev => prev
+                .map(match => ({ ...match, wanted: match.wanted.filter(item => item.id !== wanted.id) }))
+                .filter(match => match.wanted.length > 0));
+            } catch (error) {
+              console.error('Error removing wanted book:', error);
+              Alert.alert('Error', 'Failed to remove the book. Please try again later.');
+            }
+          }
+        }
+      ]
+    );
+  };
+
+  // Summary of a wanted book's limits, e.g. "Up to $25.00 · Like New, Good"
+  const describeWantedLimits = (wanted: WantedBook) => {
+    const price = wanted.max_price !== null ? `Up to $${wanted.max_price.toFixed(2)}` : 'Any price';
+    const conditions = wanted.conditions.length > 0 ? wanted.conditions.join(', ') : 'Any condition';
+    return `${price} · ${conditions}`;
+  };
+
+  const renderWishlistHeader = () => (
+    <View>
+      {matches.length > 0 && (
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Matches</Text>
+          {matches.map(match => (
+            <View key={match.listing.id}>
+              <Text style={styles.matchCaption}>
+                Matches {match.wanted.map(describeWantedBook).join(', ')}
+              </Text>
+              <BookCard
+                book={match.listing}
+                onPress={navigateToListingDetail}
+                isTablet={isTablet}
+              />
+            </View>
+          ))}
+        </View>
+      )}
+
+      <View style={styles.section}>
+        <View style={styles.sectionHeader}>
+          <Text style={styles.sectionTitle}>Wanted Books</Text>
+          <TouchableOpacity
+            style={styles.addWantedButton}
+            onPress={() => setIsAddWantedVisible(true)}
+          >
+            <Ionicons name="add" size={18} color={theme.colors.primary} />
+            <Text style={styles.addWantedButtonText}>Add</Text>
+          </TouchableOpacity>
+        </View>
+        {wantedBooks.length === 0 ? (
+          <Text style={styles.sectionHint}>
+            Looking for a book nobody has listed yet? Add it and we'll show you matching listings.
+          </Text>
+        ) : (
+          wantedBooks.map(wanted => (
+            <View key={wanted.id} style={styles.wantedRow}>
+              <View style={styles.wantedInfo}>
+                <Text style={styles.wantedTitle} numberOfLines={1}>{describeWantedBook(wanted)}</Text>
+                <Text style={styles.wantedLimits} numberOfLines={1}>{describeWantedLimits(wanted)}</Text>
+              </View>
+              <TouchableOpacity
+                onPress={() => handleRemoveWantedBook(wanted)}
+                accessibilityLabel={`Remove ${describeWantedBook(wanted)}`}
+              >
+                <Ionicons name="trash-outline" size={20} color={theme.colors.textSecondary} />
+              </TouchableOpacity>
+            </View>
+          ))
+        )}
+      </View>
+
+      {items.length > 0 && <Text style={styles.sectionTitle}>Saved Listings</Text>}
+    </View>
+  );
+
+  const isEmpty = activeTab === 'favorites'
+    ? items.length === 0
+    : items.length === 0 && wantedBooks.length === 0 && matches.length === 0;
   
   if (isLoading && !isRefreshing) {
     return (
@@ -126,7 +243,7 @@ export const SavedItemsScreen = ({ navigation }: SavedItemsScreenProps) => {
           </TouchableOpacity>
         </View>
         
-        {items.length === 0 ? (
+        {isEmpty ? (
           <View style={styles.emptyContainer}>
             <Ionicons 
               name={activeTab === 'favorites' ? "heart-outline" : "bookmark-outline"} 
@@ -145,6 +262,14 @@ export const SavedItemsScreen = ({ navigation }: SavedItemsScreenProps) => {
             >
               <Text style={styles.browseButtonText}>Browse Books</Text>
             </TouchableOpacity>
+            {activeTab === 'wishlist' && (
+              <TouchableOpacity
+                style={styles.secondaryButton}
+                onPress={() => setIsAddWantedVisible(true)}
+              >
+                <Text style={styles.secondaryButtonText}>Add a Book You Want</Text>
+              </TouchableOpacity>
+            )}
           </View>
         ) : (
           <FlatList
@@ -157,6 +282,7 @@ export const SavedItemsScreen = ({ navigation }: SavedItemsScreenProps) => {
               />
             )}
             keyExtractor={(item) => item.id}
+            ListHeaderComponent={activeTab === 'wishlist' ? renderWishlistHeader() : null}
             contentContainerStyle={styles.listContainer}
             showsVerticalScrollIndicator={false}
             key={numColumns}
@@ -173,6 +299,12 @@ export const SavedItemsScreen = ({ navigation }: SavedItemsScreenProps) => {
           />
         )}
       </View>
+
+      <AddWantedBookModal
+        visible={isAddWantedVisible}
+        onClose={() => setIsAddWantedVisible(false)}
+        onAdded={handleWantedBookAdded}
+      />
     </SafeAreaView>
   );
 };
@@ -255,6 +387,70 @@ const styles = StyleSheet.create({
     color: '#fff',
     fontWeight: '700',
   },
+  secondaryButton: {
+    marginTop: theme.spacing.sm,
+    paddingVertical: theme.spacing.sm,
+    paddingHorizontal: theme.spacing.md,
+  },
+  secondaryButtonText: {
+    color: theme.colors.primary,
+    fontWeight: '700',
+  },
+  section: {
+    marginBottom: theme.spacing.lg,
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: theme.colors.text,
+    marginBottom: theme.spacing.sm,
+  },
+  sectionHint: {
+    color: theme.colors.textSecondary,
+    fontSize: 14,
+  },
+  matchCaption: {
+    color: theme.colors.primary,
+    fontSize: 13,
+    fontWeight: '600',
+    marginBottom: theme.spacing.xs,
+  },
+  addWantedButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: theme.spacing.sm,
+  },
+  addWantedButtonText: {
+    color: theme.colors.primary,
+    fontWeight: '700',
+    marginLeft: theme.spacing.xs,
+  },
+  wantedRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: theme.spacing.sm,
+    borderBottomWidth: 1,
+    borderBottomColor: theme.colors.border,
+  },
+  wantedInfo: {
+    flex: 1,
+    marginRight: theme.spacing.sm,
+  },
+  wantedTitle: {
+    color: theme.colors.text,
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  wantedLimits: {
+    color: theme.colors.textSecondary,
+    fontSize: 13,
+    marginTop: 2,
+  },
   listContainer: {
     padding: theme.spacing.md,
     paddingBottom: theme.spacing.xl * 2, // Extra padding at bottom for tab bar
@@ -0,0 +1,314 @@
+import React, { useState, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  FlatList,
+  TouchableOpacity,
+  Image,
+  ActivityIndicator,
+  RefreshControl,
+  TextStyle
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { RouteProp, useFocusEffect } from '@react-navigation/native';
+import { Ionicons } from '@expo/vector-icons';
+import { format } from 'date-fns';
+import { RootStackParamList } from '../navigation/AppNavigator';
+import { UserService, User } from '../services/UserService';
+import { BookService, BookListing } from '../services/BookService';
+import { BookCard } from '../components/BookCard';
+import { theme } from '../styles/theme';
+
+type SellerProfileScreenProps = {
+  navigation: NativeStackNavigationProp<RootStackParamList, 'SellerProfile'>;
+  route: RouteProp<RootStackParamList, 'SellerProfile'>;
+};
+
+export const SellerProfileScreen = ({ navigation, route }: SellerProfileScreenProps) => {
+  const { userId } = route.params;
+  const [seller, setSeller] = useState<User | null>(null);
+  const [listings, setListings] = useState<BookListing[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchProfile = useCallback(async () => {
+    try {
+      setError(null);
+      const [sellerData, listingsData] = await Promise.all([
+        UserService.getUserById(userId),
+        BookService.getListingsBySeller(userId, ['active'])
+      ]);
+
+      if (!sellerData) {
+        setError('This user could not be found.');
+        return;
+      }
+
+      setSeller(sellerData);
+      setListings(listingsData);
+    } catch (err) {
+      console.error('Error fetching seller profile:', err);
+      setError('Failed to load this profile. Please try again later.');
+    } finally {
+      setIsLoading(false);
+      setIsRefreshing(false);
+    }
+  }, [userId]);
+
+  // Refetch on focus so a review written from here is reflected in the rating
+  useFocusEffect(
+    useCallback(() => {
+      fetchProfile();
+    }, [fetchProfile])
+  );
+
+  const handleRefresh = () => {
+    setIsRefreshing(true);
+    fetchProfile();
+  };
+
+  const handleViewReviews = () => {
+    if (!seller) return;
+    navigation.navigate('SellerReviews', {
+      sellerId: seller.id,
+      sellerName: seller.name,
+    });
+  };
+
+  const renderHeader = () => {
+    if (!seller) return null;
+
+    return (
+      <View>
+        <View style={styles.profileHeader}>
+          {seller.profileImage ? (
+            <Image source={{ uri: seller.profileImage }} style={styles.avatar} />
+          ) : (
+            <View style={styles.avatar}>
+              <Ionicons name="person" size={48} color={theme.colors.background} />
+            </View>
+          )}
+          <Text style={styles.name}>{seller.name}</Text>
+          {seller.location ? (
+            <View style={styles.infoRow}>
+              <Ionicons name="location-outline" size={14} color={theme.colors.textSecondary} />
+              <Text style={styles.infoText}>{seller.location}</Text>
+            </View>
+          ) : null}
+          <Text style={styles.infoText}>
+            Member since {format(new Date(seller.joinDate), 'MMM yyyy')}
+          </Text>
+
+          <TouchableOpacity style={styles.ratingRow} onPress={handleViewReviews}>
+            <Ionicons name="star" size={16} color="#FFD700" />
+            <Text style={styles.ratingText}>
+              {seller.rating !== undefined ? seller.rating.toFixed(1) : 'No rating'}
+              {` (${seller.reviewCount || 0} ${seller.reviewCount === 1 ? 'review' : 'reviews'})`}
+            </Text>
+            <Ionicons name="chevron-forward" size={16} color={theme.colors.primary} />
+          </TouchableOpacity>
+        </View>
+
+        {seller.bio ? (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>About</Text>
+            <Text style={styles.bioText}>{seller.bio}</Text>
+          </View>
+        ) : null}
+
+        <Text style={[styles.sectionTitle, styles.listingsTitle]}>
+          Books for Sale ({listings.length})
+        </Text>
+      </View>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.safeArea} edges={['top']}>
+      <View style={styles.container}>
+        {/* Header */}
+        <View style={styles.header}>
+          <TouchableOpacity
+            style={styles.backButton}
+            onPress={() => navigation.goBack()}
+          >
+            <Ionicons name="arrow-back" size={24} color={theme.colors.text} />
+          </TouchableOpacity>
+          <Text style={styles.headerTitle} numberOfLines={1}>
+            {seller?.name || 'Seller Profile'}
+          </Text>
+        </View>
+
+        {isLoading ? (
+          <View style={styles.loadingContainer}>
+            <ActivityIndicator size="large" color={theme.colors.primary} />
+            <Text style={styles.loadingText}>Loading profile...</Text>
+          </View>
+        ) : error ? (
+          <View style={styles.errorContainer}>
+            <Ionicons name="alert-circle-outline" size={40} color={theme.colors.error} />
+            <Text style={styles.errorText}>{error}</Text>
+            <TouchableOpacity style={styles.retryButton} onPress={fetchProfile}>
+              <Text style={styles.retryText}>Retry</Text>
+            </TouchableOpacity>
+          </View>
+        ) : (
+          <FlatList
+            data={listings}
+            keyExtractor={(item) => item.id}
+            renderItem={({ item }) => (
+              <BookCard
+                book={item}
+                onPress={(book) => navigation.push('ListingDetails', { id: book.id })}
+              />
+            )}
+            contentContainerStyle={styles.listContainer}
+            ListHeaderComponent={renderHeader}
+            ListEmptyComponent={
+              <View style={styles.emptyContainer}>
+                <Ionicons name="book-outline" size={48} color={theme.colors.textSecondary} />
+                <Text style={styles.emptyText}>No books for sale right now</Text>
+              </View>
+            }
+            refreshControl={
+              <RefreshControl
+                refreshing={isRefreshing}
+                onRefresh={handleRefresh}
+                colors={[theme.colors.primary]}
+                tintColor={theme.colors.primary}
+              />
+            }
+          />
+        )}
+      </View>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  safeArea: {
+    flex: 1,
+    backgroundColor: theme.colors.background,
+  },
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: theme.spacing.md,
+    borderBottomWidth: 1,
+    borderBottomColor: theme.colors.border,
+    backgroundColor: '#fff',
+  },
+  backButton: {
+    marginRight: theme.spacing.md,
+    padding: theme.spacing.xs,
+  },
+  headerTitle: {
+    flex: 1,
+    fontSize: 18,
+    fontWeight: '600' as TextStyle['fontWeight'],
+    color: theme.colors.text,
+  },
+  listContainer: {
+    padding: theme.spacing.md,
+    flexGrow: 1,
+  },
+  profileHeader: {
+    alignItems: 'center',
+    paddingVertical: theme.spacing.lg,
+  },
+  avatar: {
+    width: 100,
+    height: 100,
+    borderRadius: 50,
+    backgroundColor: theme.colors.primary,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginBottom: theme.spacing.md,
+  },
+  name: {
+    ...(theme.typography.h2 as TextStyle),
+    color: theme.colors.text,
+    marginBottom: theme.spacing.xs,
+  },
+  infoRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: theme.spacing.xs,
+  },
+  infoText: {
+    color: theme.colors.textSecondary,
+    marginLeft: 2,
+  },
+  ratingRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: theme.spacing.md,
+  },
+  ratingText: {
+    color: theme.colors.primary,
+    fontWeight: '600' as TextStyle['fontWeight'],
+    marginHorizontal: 4,
+  },
+  section: {
+    marginBottom: theme.spacing.md,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '600' as TextStyle['fontWeight'],
+    marginBottom: theme.spacing.sm,
+  },
+  listingsTitle: {
+    marginTop: theme.spacing.sm,
+  },
+  bioText: {
+    fontSize: 16,
+    lineHeight: 24,
+    color: theme.colors.text,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  loadingText: {
+    marginTop: theme.spacing.md,
+    color: theme.colors.textSecondary,
+  },
+  errorContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: theme.spacing.lg,
+  },
+  errorText: {
+    textAlign: 'center',
+    marginVertical: theme.spacing.md,
+    color: theme.colors.error,
+  },
+  retryButton: {
+    paddingVertical: theme.spacing.sm,
+    paddingHorizontal: theme.spacing.md,
+    backgroundColor: theme.colors.primary,
+    borderRadius: theme.borderRadius.md,
+    marginTop: theme.spacing.md,
+  },
+  retryText: {
+    color: '#fff',
+    fontWeight: '700' as TextStyle['fontWeight'],
+  },
+  emptyContainer: {
+    alignItems: 'center',
+    padding: theme.spacing.xl,
+  },
+  emptyText: {
+    marginTop: theme.spacing.md,
+    fontSize: 16,
+    color: theme.colors.textSecondary,
+  },
+});
@@ -0,0 +1,322 @@
+import React, { useState, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  FlatList,
+  TouchableOpacity,
+  Image,
+  ActivityIndicator,
+  RefreshControl,
+  TextStyle,
+  ListRenderItemInfo
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { RouteProp, useFocusEffect } from '@react-navigation/native';
+import { Ionicons } from '@expo/vector-icons';
+import { format } from 'date-fns';
+import { RootStackParamList } from '../navigation/AppNavigator';
+import { ReviewService, ReviewWithReviewer, SellerRatingSummary } from '../services/ReviewService';
+import { WriteReviewModal } from '../components/WriteReviewModal';
+import { theme } from '../styles/theme';
+
+type SellerReviewsScreenProps = {
+  navigation: NativeStackNavigationProp<RootStackParamList, 'SellerReviews'>;
+  route: RouteProp<RootStackParamList, 'SellerReviews'>;
+};
+
+const renderStars = (rating: number, size: number) => (
+  <View style={styles.starsRow}>
+    {[1, 2, 3, 4, 5].map(star => (
+      <Ionicons
+        key={star}
+        name={star <= Math.round(rating) ? 'star' : 'star-outline'}
+        size={size}
+        color="#FFD700"
+      />
+    ))}
+  </View>
+);
+
+export const SellerReviewsScreen = ({ navigation, route }: SellerReviewsScreenProps) => {
+  const { sellerId, sellerName } = route.params;
+  const [reviews, setReviews] = useState<ReviewWithReviewer[]>([]);
+  const [summary, setSummary] = useState<SellerRatingSummary>({ averageRating: null, reviewCount: 0 });
+  const [canReview, setCanReview] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [isReviewModalVisible, setIsReviewModalVisible] = useState(false);
+
+  const fetchReviews = useCallback(async () => {
+    try {
+      setError(null);
+      const [reviewsData, summaryData, eligible] = await Promise.all([
+        ReviewService.getReviewsForSeller(sellerId),
+        ReviewService.getSellerRating(sellerId),
+        ReviewService.canReviewSeller(sellerId)
+      ]);
+      setReviews(reviewsData);
+      setSummary(summaryData);
+      setCanReview(eligible);
+    } catch (err) {
+      console.error('Error fetching reviews:', err);
+      setError('Failed to load reviews. Please try again later.');
+    } finally {
+      setIsLoading(false);
+      setIsRefreshing(false);
+    }
+  }, [sellerId]);
+
+  useFocusEffect(
+    useCallback(() => {
+      fetchReviews();
+    }, [fetchReviews])
+  );
+
+  const handleRefresh = () => {
+    setIsRefreshing(true);
+    fetchReviews();
+  };
+
+  const renderReviewItem = ({ item }: ListRenderItemInfo<ReviewWithReviewer>) => (
+    <View style={styles.reviewItem}>
+      <View style={styles.reviewHeader}>
+        <Image
+          source={{
+            uri: item.reviewer.profileImage || 'https://source.unsplash.com/random/200x200/?portrait'
+          }}
+          style={styles.reviewerImage}
+        />
+        <View style={styles.reviewHeaderText}>
+          <Text style={styles.reviewerName}>{item.reviewer.name}</Text>
+          <Text style={styles.reviewDate}>{format(new Date(item.created_at), 'MMM d, yyyy')}</Text>
+        </View>
+        {renderStars(item.rating, 14)}
+      </View>
+      {item.comment ? <Text style={styles.reviewComment}>{item.comment}</Text> : null}
+    </View>
+  );
+
+  return (
+    <SafeAreaView style={styles.safeArea} edges={['top']}>
+      <View style={styles.container}>
+        {/* Header */}
+        <View style={styles.header}>
+          <TouchableOpacity
+            style={styles.backButton}
+            onPress={() => navigation.goBack()}
+          >
+            <Ionicons name="arrow-back" size={24} color={theme.colors.text} />
+          </TouchableOpacity>
+          <Text style={styles.headerTitle} numberOfLines={1}>
+            Reviews for {sellerName}
+          </Text>
+        </View>
+
+        {isLoading ? (
+          <View style={styles.loadingContainer}>
+            <ActivityIndicator size="large" color={theme.colors.primary} />
+            <Text style={styles.loadingText}>Loading reviews...</Text>
+          </View>
+        ) : error ? (
+          <View style={styles.errorContainer}>
+            <Ionicons name="alert-circle-outline" size={40} color={theme.colors.error} />
+            <Text style={styles.errorText}>{error}</Text>
+            <TouchableOpacity style={styles.retryButton} onPress={fetchReviews}>
+              <Text style={styles.retryText}>Retry</Text>
+            </TouchableOpacity>
+          </View>
+        ) : (
+          <FlatList
+            data={reviews}
+            keyExtractor={(item) => item.id}
+            renderItem={renderReviewItem}
+            contentContainerStyle={styles.listContainer}
+            ListHeaderComponent={
+              <View style={styles.summary}>
+                <Text style={styles.summaryRating}>
+                  {summary.averageRating !== null ? summary.averageRating.toFixed(1) : '–'}
+                </Text>
+                {renderStars(summary.averageRating ?? 0, 20)}
+                <Text style={styles.summaryCount}>
+                  {summary.reviewCount === 1 ? '1 review' : `${summary.reviewCount} reviews`}
+                </Text>
+                {canReview && (
+                  <TouchableOpacity
+                    style={styles.writeReviewButton}
+                    onPress={() => setIsReviewModalVisible(true)}
+                  >
+                    <Ionicons name="create-outline" size={18} color="#fff" />
+                    <Text style={styles.writeReviewText}>Write a Review</Text>
+                  </TouchableOpacity>
+                )}
+              </View>
+            }
+            ListEmptyComponent={
+              <View style={styles.emptyContainer}>
+                <Ionicons name="star-outline" size={60} color={theme.colors.textSecondary} />
+                <Text style={styles.emptyText}>No reviews yet</Text>
+              </View>
+            }
+            refreshControl={
+              <RefreshControl
+                refreshing={isRefreshing}
+                onRefresh={handleRefresh}
+                colors={[theme.colors.primary]}
+                tintColor={theme.colors.primary}
+              />
+            }
+          />
+        )}
+      </View>
+
+      <WriteReviewModal
+        visible={isReviewModalVisible}
+        onClose={() => setIsReviewModalVisible(false)}
+        onSubmitted={fetchReviews}
+        sellerId={sellerId}
+        sellerName={sellerName}
+      />
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  safeArea: {
+    flex: 1,
+    backgroundColor: theme.colors.background,
+  },
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: theme.spacing.md,
+    borderBottomWidth: 1,
+    borderBottomColor: theme.colors.border,
+    backgroundColor: '#fff',
+  },
+  backButton: {
+    marginRight: theme.spacing.md,
+    padding: theme.spacing.xs,
+  },
+  headerTitle: {
+    flex: 1,
+    fontSize: 18,
+    fontWeight: '600' as TextStyle['fontWeight'],
+    color: theme.colors.text,
+  },
+  listContainer: {
+    padding: theme.spacing.md,
+    flexGrow: 1,
+  },
+  summary: {
+    alignItems: 'center',
+    paddingVertical: theme.spacing.lg,
+    marginBottom: theme.spacing.md,
+    borderBottomWidth: 1,
+    borderBottomColor: theme.colors.border,
+  },
+  summaryRating: {
+    ...(theme.typography.h1 as TextStyle),
+    color: theme.colors.text,
+  },
+  summaryCount: {
+    color: theme.colors.textSecondary,
+    marginTop: theme.spacing.xs,
+  },
+  starsRow: {
+    flexDirection: 'row',
+  },
+  writeReviewButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: theme.colors.primary,
+    paddingVertical: theme.spacing.sm,
+    paddingHorizontal: theme.spacing.md,
+    borderRadius: theme.borderRadius.md,
+    marginTop: theme.spacing.md,
+  },
+  writeReviewText: {
+    color: '#fff',
+    fontWeight: '700' as TextStyle['fontWeight'],
+    marginLeft: theme.spacing.xs,
+  },
+  reviewItem: {
+    paddingVertical: theme.spacing.md,
+    borderBottomWidth: 1,
+    borderBottomColor: theme.colors.border,
+  },
+  reviewHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  reviewerImage: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    marginRight: theme.spacing.sm,
+    backgroundColor: theme.colors.border,
+  },
+  reviewHeaderText: {
+    flex: 1,
+  },
+  reviewerName: {
+    fontSize: 16,
+    fontWeight: '600' as TextStyle['fontWeight'],
+    color: theme.colors.text,
+  },
+  reviewDate: {
+    fontSize: 12,
+    color: theme.colors.textSecondary,
+  },
+  reviewComment: {
+    marginTop: theme.spacing.sm,
+    fontSize: 15,
+    lineHeight: 22,
+    color: theme.colors.text,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  loadingText: {
+    marginTop: theme.spacing.md,
+    color: theme.colors.textSecondary,
+  },
+  errorContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: theme.spacing.lg,
+  },
+  errorText: {
+    textAlign: 'center',
+    marginVertical: theme.spacing.md,
+    color: theme.colors.error,
+  },
+  retryButton: {
+    paddingVertical: theme.spacing.sm,
+    paddingHorizontal: theme.spacing.md,
+    backgroundColor: theme.colors.primary,
+    borderRadius: theme.borderRadius.md,
+    marginTop: theme.spacing.md,
+  },
+  retryText: {
+    color: '#fff',
+    fontWeight: '700' as TextStyle['fontWeight'],
+  },
+  emptyContainer: {
+    alignItems: 'center',
+    padding: theme.spacing.xl,
+  },
+  emptyText: {
+    marginTop: theme.spacing.md,
+    fontSize: 16,
+    color: theme.colors.textSecondary,
+  },
+});
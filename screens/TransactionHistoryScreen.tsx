@@ -0,0 +1,300 @@
+import React, { useState, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  FlatList,
+  TouchableOpacity,
+  ActivityIndicator,
+  TextStyle
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { useFocusEffect } from '@react-navigation/native';
+import { Ionicons } from '@expo/vector-icons';
+import { format } from 'date-fns';
+import { RootStackParamList } from '../navigation/AppNavigator';
+import { TransactionService, TransactionWithDetails } from '../services/TransactionService';
+import { theme } from '../styles/theme';
+
+type TransactionHistoryScreenProps = {
+  navigation: NativeStackNavigationProp<RootStackParamList, 'TransactionHistory'>;
+};
+
+type RoleFilter = 'all' | TransactionWithDetails['role'];
+
+const ROLE_FILTERS: { filter: RoleFilter; label: string }[] = [
+  { filter: 'all', label: 'All' },
+  { filter: 'purchase', label: 'Purchases' },
+  { filter: 'sale', label: 'Sales' },
+];
+
+/**
+ * e.g. "Sold to Sam" or "Exchanged with Sam"
+ */
+function describeTransaction(transaction: TransactionWithDetails): string {
+  if (transaction.method === 'exchange') {
+    return `Exchanged with ${transaction.otherUserName}`;
+  }
+  return transaction.role === 'sale'
+    ? `Sold to ${transaction.otherUserName}`
+    : `Bought from ${transaction.otherUserName}`;
+}
+
+export const TransactionHistoryScreen = ({ navigation }: TransactionHistoryScreenProps) => {
+  const [transactions, setTransactions] = useState<TransactionWithDetails[]>([]);
+  const [roleFilter, setRoleFilter] = useState<RoleFilter>('all');
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchTransactions = useCallback(async () => {
+    try {
+      setError(null);
+      setTransactions(await TransactionService.getHistory());
+    } catch (err) {
+      console.error('Error fetching transaction history:', err);
+      setError('Failed to load your history. Please try again later.');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useFocusEffect(
+    useCallback(() => {
+      fetchTransactions();
+    }, [fetchTransactions])
+  );
+
+  const visibleTransactions = roleFilter === 'all'
+    ? transactions
+    : transactions.filter(transaction => transaction.role === roleFilter);
+
+  const renderTransaction = ({ item }: { item: TransactionWithDetails }) => (
+    <TouchableOpacity
+      style={styles.transactionItem}
+      onPress={() => item.listing_id && navigation.navigate('ListingDetails', { id: item.listing_id })}
+      disabled={!item.listing_id}
+    >
+      <View style={[styles.roleIcon, item.role === 'sale' && styles.saleIcon]}>
+        <Ionicons
+          name={item.method === 'exchange' ? 'swap-horizontal' : item.role === 'sale' ? 'arrow-up' : 'arrow-down'}
+          size={20}
+          color="#fff"
+        />
+      </View>
+      <View style={styles.transactionContent}>
+        <Text style={styles.listingTitle} numberOfLines={1}>{item.listing_title}</Text>
+        <Text style={styles.transactionDetail} numberOfLines={1}>{describeTransaction(item)}</Text>
+        <Text style={styles.transactionDate}>{format(new Date(item.created_at), 'MMM d, yyyy')}</Text>
+      </View>
+      <Text style={styles.price}>${item.price.toFixed(2)}</Text>
+    </TouchableOpacity>
+  );
+
+  return (
+    <SafeAreaView style={styles.safeArea} edges={['top']}>
+      <View style={styles.container}>
+        {/* Header */}
+        <View style={styles.header}>
+          <TouchableOpacity
+            style={styles.backButton}
+            onPress={() => navigation.goBack()}
+          >
+            <Ionicons name="arrow-back" size={24} color={theme.colors.text} />
+          </TouchableOpacity>
+          <Text style={styles.headerTitle}>Purchases & Sales</Text>
+        </View>
+
+        {/* Role filters */}
+        <View style={styles.filterRow}>
+          {ROLE_FILTERS.map(({ filter, label }) => (
+            <TouchableOpacity
+              key={filter}
+              style={[styles.filterChip, roleFilter === filter && styles.activeFilterChip]}
+              onPress={() => setRoleFilter(filter)}
+            >
+              <Text style={[styles.filterText, roleFilter === filter && styles.activeFilterText]}>{label}</Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        {isLoading ? (
+          <View style={styles.loadingContainer}>
+            <ActivityIndicator size="large" color={theme.colors.primary} />
+          </View>
+        ) : error ? (
+          <View style={styles.errorContainer}>
+            <Ionicons name="alert-circle-outline" size={40} color={theme.colors.error} />
+            <Text style={styles.errorText}>{error}</Text>
+            <TouchableOpacity style={styles.retryButton} onPress={fetchTransactions}>
+              <Text style={styles.retryText}>Retry</Text>
+            </TouchableOpacity>
+          </View>
+        ) : (
+          <FlatList
+            data={visibleTransactions}
+            keyExtractor={(item) => item.id}
+            renderItem={renderTransaction}
+            contentContainerStyle={styles.listContainer}
+            ListEmptyComponent={
+              <View style={styles.emptyContainer}>
+                <Ionicons name="receipt-outline" size={60} color={theme.colors.textSecondary} />
+                <Text style={styles.emptyText}>
+                  {roleFilter === 'purchase'
+                    ? 'No purchases yet'
+                    : roleFilter === 'sale'
+                      ? 'No sales yet'
+                      : 'No purchases or sales yet'}
+                </Text>
+                <Text style={styles.emptySubtext}>
+                  Sellers record a sale from the conversation with the buyer
+                </Text>
+              </View>
+            }
+          />
+        )}
+      </View>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  safeArea: {
+    flex: 1,
+    backgroundColor: theme.colors.background,
+  },
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: theme.spacing.md,
+    borderBottomWidth: 1,
+    borderBottomColor: theme.colors.border,
+    backgroundColor: '#fff',
+  },
+  backButton: {
+    marginRight: theme.spacing.md,
+    padding: theme.spacing.xs,
+  },
+  headerTitle: {
+    flex: 1,
+    fontSize: 18,
+    fontWeight: '600' as TextStyle['fontWeight'],
+    color: theme.colors.text,
+  },
+  filterRow: {
+    flexDirection: 'row',
+    paddingHorizontal: theme.spacing.md,
+    paddingVertical: theme.spacing.sm,
+  },
+  filterChip: {
+    paddingHorizontal: theme.spacing.md,
+    paddingVertical: theme.spacing.xs,
+    borderRadius: theme.borderRadius.lg,
+    borderWidth: 1,
+    borderColor: theme.colors.border,
+    marginRight: theme.spacing.sm,
+  },
+  activeFilterChip: {
+    backgroundColor: theme.colors.primary,
+    borderColor: theme.colors.primary,
+  },
+  filterText: {
+    color: theme.colors.text,
+  },
+  activeFilterText: {
+    color: '#fff',
+    fontWeight: '600' as TextStyle['fontWeight'],
+  },
+  listContainer: {
+    flexGrow: 1,
+  },
+  transactionItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: theme.spacing.md,
+    borderBottomWidth: 1,
+    borderBottomColor: theme.colors.border,
+    backgroundColor: '#fff',
+  },
+  roleIcon: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    marginRight: theme.spacing.md,
+    backgroundColor: theme.colors.secondary,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  saleIcon: {
+    backgroundColor: theme.colors.success,
+  },
+  transactionContent: {
+    flex: 1,
+  },
+  listingTitle: {
+    fontSize: 16,
+    fontWeight: '600' as TextStyle['fontWeight'],
+    color: theme.colors.text,
+  },
+  transactionDetail: {
+    marginTop: 2,
+    color: theme.colors.textSecondary,
+  },
+  transactionDate: {
+    marginTop: 2,
+    fontSize: 12,
+    color: theme.colors.textSecondary,
+  },
+  price: {
+    marginLeft: theme.spacing.sm,
+    fontSize: 16,
+    fontWeight: '700' as TextStyle['fontWeight'],
+    color: theme.colors.text,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  errorContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: theme.spacing.lg,
+  },
+  errorText: {
+    textAlign: 'center',
+    marginVertical: theme.spacing.md,
+    color: theme.colors.error,
+  },
+  retryButton: {
+    paddingVertical: theme.spacing.sm,
+    paddingHorizontal: theme.spacing.md,
+    backgroundColor: theme.colors.primary,
+    borderRadius: theme.borderRadius.md,
+    marginTop: theme.spacing.md,
+  },
+  retryText: {
+    color: '#fff',
+    fontWeight: '700' as TextStyle['fontWeight'],
+  },
+  emptyContainer: {
+    alignItems: 'center',
+    padding: theme.spacing.xl,
+  },
+  emptyText: {
+    marginTop: theme.spacing.md,
+    fontSize: 16,
+    color: theme.colors.textSecondary,
+    textAlign: 'center',
+  },
+  emptySubtext: {
+    marginTop: theme.spacing.sm,
+    fontSize: 14,
+    color: theme.colors.textSecondary,
+    textAlign: 'center',
+  },
+});
@@ -0,0 +1,80 @@
+import React from 'react';
+import { Alert } from 'react-native';
+import { fireEvent, screen, waitFor } from '@testing-library/react-native';
+import { AdminListingsScreen } from '../AdminListingsScreen';
+import { fakeSupabase } from '../../test/fakeSupabase';
+import { makeListing, makeProfile } from '../../test/fixtures';
+import { renderWithProviders } from '../../test/renderWithProviders';
+
+const ADMIN = 'admin-1';
+const SELLER = 'seller-1';
+
+describe('AdminListingsScreen', () => {
+  beforeEach(() => {
+    fakeSupabase.signInAs(ADMIN);
+    fakeSupabase.seed('user_profiles', [
+      { ...makeProfile(ADMIN, 'Ada Admin'), is_admin: true },
+      makeProfile(SELLER, 'Sam Seller'),
+    ]);
+  });
+
+  it('approves a hidden listing picked from the hidden filter', async () => {
+    fakeSupabase.seed('book_listings', [
+      makeListing({ id: 'book-1', title: 'Clean Code', hidden_at: '2024-03-01T00:00:00Z' }),
+      makeListing({ id: 'book-2', title: 'Refactoring' }),
+    ]);
+    renderWithProviders(<AdminListingsScreen />);
+
+    expect(await screen.findByText('Refactoring')).toBeTruthy();
+    fireEvent.press(screen.getByText('Hidden after reports'));
+    await waitFor(() => expect(screen.queryByText('Refactoring')).toBeNull());
+    fireEvent.press(screen.getByLabelText('Select Clean Code'));
+    fireEvent.press(screen.getByText('Approve'));
+
+    expect(await screen.findByText('No listings are hidden')).toBeTruthy();
+    expect(fakeSupabase.rows('book_listings').find(listing => listing.id === 'book-1')?.hidden_at).toBeNull();
+  });
+
+  it('rejects a listing with a reason for its seller', async () => {
+    jest.spyOn(Alert, 'prompt').mockImplementation((_title, _message, buttons) => {
+      (buttons as any[]).find(button => button.text === 'Reject')?.onPress?.('Not a textbook');
+    });
+    fakeSupabase.seed('book_listings', [makeListing({ id: 'book-1', title: 'Clean Code', moderation_state: 'pending' })]);
+    renderWithProviders(<AdminListingsScreen />);
+
+    fireEvent.press(await screen.findByLabelText('Select Clean Code'));
+    fireEvent.press(screen.getByText('Reject'));
+
+    expect(await screen.findByText('Rejected')).toBeTruthy();
+    expect(screen.getByText('Not a textbook')).toBeTruthy();
+    expect(fakeSupabase.rows('book_listings')[0]).toMatchObject({ moderation_state: 'rejected', moderation_reason: 'Not a textbook' });
+  });
+
+  it('removes listings only after the admin confirms', async () => {
+    jest.spyOn(Alert, 'alert').mockImplementation((_title, _message, buttons) => {
+      buttons?.find(button => button.text === 'Remove')?.onPress?.();
+    });
+    fakeSupabase.seed('book_listings', [makeListing({ id: 'book-1', title: 'Clean Code' })]);
+    renderWithProviders(<AdminListingsScreen />);
+
+    fireEvent.press(await screen.findByLabelText('Select all rows'));
+    fireEvent.press(screen.getByText('Remove'));
+
+    expect(await screen.findByText('No listings yet')).toBeTruthy();
+    expect(fakeSupabase.rows('book_listings')).toHaveLength(0);
+  });
+
+  it('pages through listings', async () => {
+    fakeSupabase.seed('book_listings', Array.from({ length: 21 }, (_, index) => makeListing({
+      id: `book-${index}`,
+      title: `Book number ${index}`,
+    })));
+    renderWithProviders(<AdminListingsScreen />);
+
+    expect(await screen.findByText('1–20 of 21')).toBeTruthy();
+    fireEvent.press(screen.getByLabelText('Next page'));
+
+    expect(await screen.findByText('21–21 of 21')).toBeTruthy();
+    expect(screen.getByText('Page 2 of 2')).toBeTruthy();
+  });
+});
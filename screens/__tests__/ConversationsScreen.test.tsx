@@ -0,0 +1,69 @@
+import React from 'react';
+import { fireEvent, screen, waitFor } from '@testing-library/react-native';
+import { ConversationsScreen } from '../ConversationsScreen';
+import { fakeSupabase } from '../../test/fakeSupabase';
+import { makeListing, makeProfile } from '../../test/fixtures';
+import { mockNavigation } from '../../test/navigation';
+import { renderWithProviders } from '../../test/renderWithProviders';
+
+const BUYER = 'buyer-1';
+const SELLER = 'seller-1';
+
+const renderInbox = () =>
+  renderWithProviders(<ConversationsScreen navigation={mockNavigation as any} />);
+
+describe('ConversationsScreen', () => {
+  beforeEach(() => {
+    fakeSupabase.signInAs(BUYER);
+    fakeSupabase.seed('user_profiles', [makeProfile(BUYER, 'Bea Buyer'), makeProfile(SELLER, 'Sam Seller')]);
+    fakeSupabase.seed('book_listings', [makeListing({ id: 'book-1', title: 'Clean Code', seller_id: SELLER })]);
+  });
+
+  it('explains the empty inbox', async () => {
+    renderInbox();
+
+    expect(await screen.findByText('No conversations yet')).toBeTruthy();
+    expect(mockNavigation.setOptions).toHaveBeenCalledWith({ tabBarBadge: undefined });
+  });
+
+  describe('with a conversation', () => {
+    beforeEach(() => {
+      fakeSupabase.seed('conversations', [{
+        id: 'conv-1',
+        listing_id: 'book-1',
+        buyer_id: BUYER,
+        seller_id: SELLER,
+        created_at: '2030-01-01T09:00:00Z',
+        last_message_at: '2030-01-01T10:05:00Z',
+        is_active: true,
+      }]);
+      fakeSupabase.seed('messages', [
+        { id: 'm-1', conversation_id: 'conv-1', sender_id: BUYER, receiver_id: SELLER, content: 'Is it available?', created_at: '2030-01-01T09:00:00Z', read: true },
+        { id: 'm-2', conversation_id: 'conv-1', sender_id: SELLER, receiver_id: BUYER, content: 'Yes!', created_at: '2030-01-01T10:00:00Z', read: false },
+        { id: 'm-3', conversation_id: 'conv-1', sender_id: SELLER, receiver_id: BUYER, content: 'Want to meet?', created_at: '2030-01-01T10:05:00Z', read: false },
+      ]);
+    });
+
+    it('lists it with the other user, the latest message and the unread count', async () => {
+      renderInbox();
+
+      expect(await screen.findByText('Sam Seller')).toBeTruthy();
+      expect(screen.getByText('Want to meet?')).toBeTruthy();
+      expect(screen.getByText('Re: Clean Code')).toBeTruthy();
+      expect(screen.getByText('2')).toBeTruthy();
+      await waitFor(() => expect(mockNavigation.setOptions).toHaveBeenCalledWith({ tabBarBadge: 2 }));
+    });
+
+    it('opens the chat when tapped', async () => {
+      renderInbox();
+
+      fireEvent.press(await screen.findByText('Sam Seller'));
+
+      expect(mockNavigation.navigate).toHaveBeenCalledWith('Chat', {
+        conversationId: 'conv-1',
+        otherUserName: 'Sam Seller',
+        listingTitle: 'Clean Code',
+      });
+    });
+  });
+});
@@ -0,0 +1,91 @@
+import React from 'react';
+import { fireEvent, screen, waitFor } from '@testing-library/react-native';
+import { HomeScreen } from '../HomeScreen';
+import { BookService } from '../../services/BookService';
+import { fakeSupabase } from '../../test/fakeSupabase';
+import { makeListing } from '../../test/fixtures';
+import { mockNavigation } from '../../test/navigation';
+import { renderWithProviders } from '../../test/renderWithProviders';
+
+const renderHome = () =>
+  renderWithProviders(<HomeScreen navigation={mockNavigation as any} />);
+
+describe('HomeScreen', () => {
+  beforeEach(() => {
+    fakeSupabase.signInAs('reader-1');
+    fakeSupabase.seed('book_listings', [
+      makeListing({ id: 'book-1', title: 'The Pragmatic Programmer', price: 25 }),
+      makeListing({ id: 'book-2', title: 'Gödel, Escher, Bach', price: 18 }),
+      makeListing({ id: 'book-3', title: 'Sold Already', status: 'sold' }),
+    ]);
+  });
+
+  it('shows the active listings', async () => {
+    renderHome();
+
+    expect(await screen.findByText('The Pragmatic Programmer')).toBeTruthy();
+    expect(screen.getByText('Gödel, Escher, Bach')).toBeTruthy();
+    expect(screen.queryByText('Sold Already')).toBeNull();
+  });
+
+  it('opens a listing when it is tapped', async () => {
+    renderHome();
+
+    fireEvent.press(await screen.findByText('The Pragmatic Programmer'));
+
+    expect(mockNavigation.navigate).toHaveBeenCalledWith('ListingDetails', { id: 'book-1' });
+  });
+
+  it('shows saved favorites on the Favorites tab', async () => {
+    fakeSupabase.seed('saved_items', [{ user_id: 'reader-1', book_id: 'book-2', type: 'favorite' }]);
+    renderHome();
+    await screen.findByText('The Pragmatic Programmer');
+
+    fireEvent.press(screen.getByText('Favorites'));
+
+    expect(await screen.findByText('Gödel, Escher, Bach')).toBeTruthy();
+    expect(screen.queryByText('The Pragmatic Programmer')).toBeNull();
+  });
+
+  it('says so when nothing is listed yet', async () => {
+    fakeSupabase.reset();
+    fakeSupabase.signInAs('reader-1');
+    renderHome();
+
+    expect(await screen.findByText('No books listed yet')).toBeTruthy();
+  });
+
+  it('shows saved searches with their new matches and opens one', async () => {
+    fakeSupabase.seed('book_listings', [
+      makeListing({ id: 'book-4', title: 'Linear Algebra Done Right', category: 'Mathematics', created_at: '2024-06-01T00:00:00Z' }),
+    ]);
+    fakeSupabase.seed('saved_searches', [{
+      id: 'search-1',
+      user_id: 'reader-1',
+      name: 'Maths books',
+      query: null,
+      filters: { categories: ['Mathematics'] },
+      last_checked_at: '2024-01-01T00:00:00Z',
+      created_at: '2023-12-01T00:00:00Z',
+    }]);
+    renderHome();
+
+    expect(await screen.findByText('1 new')).toBeTruthy();
+    fireEvent.press(screen.getByText('Maths books'));
+
+    expect(await screen.findByText('Linear Algebra Done Right')).toBeTruthy();
+    expect(screen.queryByText('The Pragmatic Programmer')).toBeNull();
+    expect(screen.queryByText('1 new')).toBeNull();
+    await waitFor(() => expect(fakeSupabase.rows('saved_searches')[0].last_checked_at).not.toBe('2024-01-01T00:00:00Z'));
+  });
+
+  it('offers a retry when the listings fail to load', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    jest.spyOn(BookService, 'getListings').mockRejectedValue(new Error('Internal error'));
+
+    renderHome();
+
+    expect(await screen.findByText('Failed to load listings. Please try again later.')).toBeTruthy();
+    expect(screen.getByText('Retry')).toBeTruthy();
+  });
+});
@@ -0,0 +1,109 @@
+import React from 'react';
+import { Alert } from 'react-native';
+import { fireEvent, screen, waitFor } from '@testing-library/react-native';
+import { ListingDetailsScreen } from '../ListingDetailsScreen';
+import { fakeSupabase } from '../../test/fakeSupabase';
+import { makeListing, makeProfile } from '../../test/fixtures';
+import { mockNavigation, mockRoute } from '../../test/navigation';
+import { renderWithProviders } from '../../test/renderWithProviders';
+
+const renderDetails = (id: string) =>
+  renderWithProviders(
+    <ListingDetailsScreen navigation={mockNavigation as any} route={mockRoute({ id }) as any} />
+  );
+
+describe('ListingDetailsScreen', () => {
+  beforeEach(() => {
+    fakeSupabase.seed('user_profiles', [makeProfile('seller-1', 'Sam Seller')]);
+    fakeSupabase.seed('book_listings', [
+      makeListing({ id: 'book-1', title: 'Refactoring', author: 'Martin Fowler', price: 32.5, seller_id: 'seller-1' }),
+    ]);
+  });
+
+  it('shows the listing and its seller to a buyer', async () => {
+    fakeSupabase.signInAs('buyer-1');
+    renderDetails('book-1');
+
+    expect(await screen.findByText('Refactoring')).toBeTruthy();
+    expect(screen.getByText('by Martin Fowler')).toBeTruthy();
+    expect(screen.getByText('$32.50')).toBeTruthy();
+    expect(await screen.findByText('Sam Seller')).toBeTruthy();
+    expect(screen.getByText('Message Seller')).toBeTruthy();
+    expect(screen.queryByText('Edit Listing')).toBeNull();
+  });
+
+  it('shows a listing viewed before from the cache when offline', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    fakeSupabase.signInAs('buyer-1');
+    const first = renderDetails('book-1');
+    expect(await screen.findByText('Sam Seller')).toBeTruthy();
+    first.unmount();
+
+    fakeSupabase.isNetworkDown = true;
+    renderDetails('book-1');
+
+    expect(await screen.findByText('Refactoring')).toBeTruthy();
+    expect(screen.queryByText('Failed to load listing details. Please try again later.')).toBeNull();
+  });
+
+  it('lets the seller change the listing status', async () => {
+    fakeSupabase.signInAs('seller-1');
+    renderDetails('book-1');
+
+    fireEvent.press(await screen.findByText('Mark as Reserved'));
+
+    expect(await screen.findByText('Mark as Available')).toBeTruthy();
+    expect(fakeSupabase.rows('book_listings')[0].status).toBe('reserved');
+    // Selling is recorded from the chat, so the history has the sale
+    expect(screen.queryByText('Mark as Sold')).toBeNull();
+  });
+
+  it('lets a buyer report the listing', async () => {
+    jest.spyOn(Alert, 'alert');
+    const submitReport = jest.fn(() => ({ id: 'report-1' }));
+    fakeSupabase.onRpc('submit_report', submitReport);
+    fakeSupabase.signInAs('buyer-1');
+    renderDetails('book-1');
+
+    fireEvent.press(await screen.findByLabelText('Report listing'));
+    fireEvent.press(screen.getByText('Fraud or scam attempt'));
+    fireEvent.press(screen.getByText('Send Report'));
+
+    await waitFor(() => expect(Alert.alert).toHaveBeenCalledWith('Report Sent', expect.any(String)));
+    expect(submitReport).toHaveBeenCalledWith(expect.objectContaining({ p_reason: 'scam', p_listing_id: 'book-1' }));
+  });
+
+  it('tells the seller their listing is hidden after being reported', async () => {
+    fakeSupabase.rows('book_listings')[0].hidden_at = '2024-01-02T00:00:00Z';
+    fakeSupabase.signInAs('seller-1');
+    renderDetails('book-1');
+
+    expect(await screen.findByText(/hidden from buyers until it has been reviewed/)).toBeTruthy();
+    expect(screen.queryByLabelText('Report listing')).toBeNull();
+  });
+
+  it('tells the seller why their listing was rejected', async () => {
+    Object.assign(fakeSupabase.rows('book_listings')[0], { moderation_state: 'rejected', moderation_reason: 'Blurry photos' });
+    fakeSupabase.signInAs('seller-1');
+    renderDetails('book-1');
+
+    expect(await screen.findByText(/This listing was rejected: Blurry photos/)).toBeTruthy();
+  });
+
+  it('opens the seller profile', async () => {
+    fakeSupabase.signInAs('buyer-1');
+    renderDetails('book-1');
+
+    fireEvent.press(await screen.findByText('Sam Seller'));
+
+    expect(mockNavigation.navigate).toHaveBeenCalledWith('SellerProfile', { userId: 'seller-1' });
+  });
+
+  it('says so when the listing does not exist', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    fakeSupabase.signInAs('buyer-1');
+    renderDetails('missing');
+
+    expect(await screen.findByText(/not found/i)).toBeTruthy();
+  });
+});
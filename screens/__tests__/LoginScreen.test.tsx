@@ -0,0 +1,69 @@
+import React from 'react';
+import { Alert } from 'react-native';
+import { fireEvent, screen, waitFor } from '@testing-library/react-native';
+import { LoginScreen } from '../LoginScreen';
+import { fakeSupabase } from '../../test/fakeSupabase';
+import { mockNavigation } from '../../test/navigation';
+import { renderWithProviders } from '../../test/renderWithProviders';
+
+const fillIn = (email: string, password: string) => {
+  fireEvent.changeText(screen.getByPlaceholderText('Enter your email'), email);
+  fireEvent.changeText(screen.getByPlaceholderText('Enter your password'), password);
+  fireEvent.press(screen.getByText('Sign In'));
+};
+
+describe('LoginScreen', () => {
+  it('asks for the missing fields before signing in', async () => {
+    renderWithProviders(<LoginScreen />);
+
+    fireEvent.press(await screen.findByText('Sign In'));
+
+    expect(screen.getByText('Email is required')).toBeTruthy();
+    expect(screen.getByText('Password is required')).toBeTruthy();
+  });
+
+  it('rejects a malformed email address', async () => {
+    renderWithProviders(<LoginScreen />);
+    await screen.findByText('Sign In');
+
+    fillIn('not-an-email', 'password123');
+
+    expect(screen.getByText('Email is invalid')).toBeTruthy();
+  });
+
+  it('signs in with valid credentials', async () => {
+    fakeSupabase.addAccount('reader@example.com', 'correct-horse');
+    jest.spyOn(Alert, 'alert');
+    renderWithProviders(<LoginScreen />);
+    await screen.findByText('Sign In');
+
+    fillIn('reader@example.com', 'correct-horse');
+
+    await waitFor(async () => {
+      const { data } = await fakeSupabase.client.auth.getSession();
+      expect(data.session?.user.email).toBe('reader@example.com');
+    });
+    expect(Alert.alert).not.toHaveBeenCalled();
+  });
+
+  it('reports wrong credentials', async () => {
+    fakeSupabase.addAccount('reader@example.com', 'correct-horse');
+    jest.spyOn(Alert, 'alert');
+    renderWithProviders(<LoginScreen />);
+    await screen.findByText('Sign In');
+
+    fillIn('reader@example.com', 'wrong-password');
+
+    await waitFor(() => expect(Alert.alert).toHaveBeenCalledWith('Login Failed', 'Invalid login credentials'));
+  });
+
+  it('links to registration and password reset', async () => {
+    renderWithProviders(<LoginScreen />);
+
+    fireEvent.press(await screen.findByText('Sign Up'));
+    fireEvent.press(screen.getByText('Forgot Password?'));
+
+    expect(mockNavigation.navigate).toHaveBeenCalledWith('Register');
+    expect(mockNavigation.navigate).toHaveBeenCalledWith('ForgotPassword');
+  });
+});
@@ -0,0 +1,70 @@
+import React from 'react';
+import { fireEvent, screen, waitFor } from '@testing-library/react-native';
+import { NotificationsScreen } from '../NotificationsScreen';
+import { fakeSupabase } from '../../test/fakeSupabase';
+import { mockNavigation } from '../../test/navigation';
+import { renderWithProviders } from '../../test/renderWithProviders';
+
+const READER = 'reader-1';
+
+const renderNotifications = () =>
+  renderWithProviders(<NotificationsScreen navigation={mockNavigation as any} />);
+
+describe('NotificationsScreen', () => {
+  beforeEach(() => {
+    fakeSupabase.signInAs(READER);
+  });
+
+  it('explains the empty notification center', async () => {
+    renderNotifications();
+
+    expect(await screen.findByText('No notifications yet')).toBeTruthy();
+  });
+
+  describe('with notifications', () => {
+    beforeEach(() => {
+      fakeSupabase.seed('notifications', [
+        {
+          id: 'n-1',
+          user_id: READER,
+          type: 'price_drop',
+          title: 'Price drop',
+          body: '"Clean Code" is now $15.00 (was $20.00)',
+          listing_id: 'book-1',
+          conversation_id: null,
+          read: false,
+          created_at: '2030-01-01T10:00:00Z',
+        },
+        {
+          id: 'n-2',
+          user_id: READER,
+          type: 'listing_removed',
+          title: 'Listing removed',
+          body: '"Refactoring" is no longer available',
+          listing_id: 'book-2',
+          conversation_id: null,
+          read: false,
+          created_at: '2030-01-01T09:00:00Z',
+        },
+      ]);
+    });
+
+    it('opens the listing of a price drop and marks it as read', async () => {
+      renderNotifications();
+
+      fireEvent.press(await screen.findByText('"Clean Code" is now $15.00 (was $20.00)'));
+
+      await waitFor(() => expect(mockNavigation.navigate).toHaveBeenCalledWith('ListingDetails', { id: 'book-1' }));
+      expect(fakeSupabase.rows('notifications').find(row => row.id === 'n-1')?.read).toBe(true);
+    });
+
+    it('marks everything as read', async () => {
+      renderNotifications();
+
+      fireEvent.press(await screen.findByLabelText('Mark all as read'));
+
+      await waitFor(() => expect(screen.queryByLabelText('Mark all as read')).toBeNull());
+      expect(fakeSupabase.rows('notifications').every(row => row.read)).toBe(true);
+    });
+  });
+});
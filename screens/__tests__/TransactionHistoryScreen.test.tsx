@@ -0,0 +1,69 @@
+import React from 'react';
+import { fireEvent, screen } from '@testing-library/react-native';
+import { TransactionHistoryScreen } from '../TransactionHistoryScreen';
+import { fakeSupabase } from '../../test/fakeSupabase';
+import { makeProfile } from '../../test/fixtures';
+import { mockNavigation } from '../../test/navigation';
+import { renderWithProviders } from '../../test/renderWithProviders';
+
+const USER = 'user-1';
+
+function makeTransaction(id: string, overrides: Record<string, unknown> = {}) {
+  return {
+    id,
+    listing_id: `book-${id}`,
+    conversation_id: null,
+    seller_id: USER,
+    buyer_id: 'buyer-1',
+    listing_title: 'Clean Code',
+    price: 15,
+    method: 'sale',
+    created_at: '2024-03-01T00:00:00Z',
+    ...overrides,
+  };
+}
+
+const renderHistory = () =>
+  renderWithProviders(<TransactionHistoryScreen navigation={mockNavigation as any} />);
+
+describe('TransactionHistoryScreen', () => {
+  beforeEach(() => {
+    fakeSupabase.signInAs(USER);
+    fakeSupabase.seed('user_profiles', [
+      makeProfile(USER, 'Uma User'),
+      makeProfile('buyer-1', 'Bea Buyer'),
+      makeProfile('seller-2', 'Sid Seller'),
+    ]);
+  });
+
+  it('explains the empty history', async () => {
+    renderHistory();
+
+    expect(await screen.findByText('No purchases or sales yet')).toBeTruthy();
+  });
+
+  it('lists purchases and sales and filters them', async () => {
+    fakeSupabase.seed('transactions', [
+      makeTransaction('1'),
+      makeTransaction('2', {
+        listing_title: 'Refactoring',
+        seller_id: 'seller-2',
+        buyer_id: USER,
+        price: 5,
+        method: 'exchange',
+        created_at: '2024-03-02T00:00:00Z',
+      }),
+    ]);
+
+    renderHistory();
+
+    expect(await screen.findByText('Sold to Bea Buyer')).toBeTruthy();
+    expect(screen.getByText('Exchanged with Sid Seller')).toBeTruthy();
+    expect(screen.getByText('$15.00')).toBeTruthy();
+
+    fireEvent.press(screen.getByText('Purchases'));
+
+    expect(screen.queryByText('Clean Code')).toBeNull();
+    expect(screen.getByText('Refactoring')).toBeTruthy();
+  });
+});
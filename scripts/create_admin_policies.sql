@@ -0,0 +1,140 @@
+-- Admin role and the moderation rights that come with it. Run after the
+-- user_profiles, conversation, reports and blocked_users scripts.
+--
+-- Make a user an admin from the SQL editor:
+--   UPDATE public.user_profiles SET is_admin = true WHERE email = 'moderator@example.com';
+
+ALTER TABLE public.user_profiles ADD COLUMN IF NOT EXISTS is_admin BOOLEAN NOT NULL DEFAULT false;
+ALTER TABLE public.user_profiles ADD COLUMN IF NOT EXISTS suspended_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX IF NOT EXISTS idx_user_profiles_join_date ON public.user_profiles(join_date DESC);
+
+-- Whether the signed-in user is an admin. Runs with the definer's rights so
+-- policies on user_profiles can call it without recursing into themselves.
+CREATE OR REPLACE FUNCTION public.is_admin()
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT COALESCE((SELECT is_admin FROM public.user_profiles WHERE id = auth.uid()), false);
+$$;
+
+-- Whether an admin suspended a user
+CREATE OR REPLACE FUNCTION public.is_suspended(p_user_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT EXISTS (
+        SELECT 1 FROM public.user_profiles
+        WHERE id = p_user_id AND suspended_at IS NOT NULL
+    );
+$$;
+
+GRANT EXECUTE ON FUNCTION public.is_admin() TO authenticated;
+
+-- Users write their own profile directly, so keep them from making themselves
+-- admins or lifting their own suspension
+CREATE OR REPLACE FUNCTION public.check_user_profile_moderation()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF current_user NOT IN ('anon', 'authenticated') OR public.is_admin() THEN
+        RETURN NEW;
+    END IF;
+
+    IF TG_OP = 'INSERT' AND (NEW.is_admin OR NEW.suspended_at IS NOT NULL) THEN
+        RAISE EXCEPTION 'Only admins can change roles or suspend users';
+    END IF;
+
+    IF TG_OP = 'UPDATE' AND (
+        NEW.is_admin IS DISTINCT FROM OLD.is_admin OR
+        NEW.suspended_at IS DISTINCT FROM OLD.suspended_at
+    ) THEN
+        RAISE EXCEPTION 'Only admins can change roles or suspend users';
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS check_user_profiles_moderation ON public.user_profiles;
+CREATE TRIGGER check_user_profiles_moderation
+BEFORE INSERT OR UPDATE ON public.user_profiles
+FOR EACH ROW
+EXECUTE FUNCTION public.check_user_profile_moderation();
+
+-- Replaces the version in create_reports_table.sql: admins may now hide and
+-- unhide listings as well
+CREATE OR REPLACE FUNCTION public.check_book_listing_hidden_at()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.hidden_at IS DISTINCT FROM OLD.hidden_at
+        AND current_user IN ('anon', 'authenticated')
+        AND NOT public.is_admin() THEN
+        RAISE EXCEPTION 'Only moderators can hide or unhide a listing';
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Admins see and manage every listing, including hidden ones
+DROP POLICY IF EXISTS "Admins can view all listings" ON public.book_listings;
+CREATE POLICY "Admins can view all listings"
+    ON public.book_listings FOR SELECT
+    USING (public.is_admin());
+
+DROP POLICY IF EXISTS "Admins can update any listing" ON public.book_listings;
+CREATE POLICY "Admins can update any listing"
+    ON public.book_listings FOR UPDATE
+    USING (public.is_admin());
+
+DROP POLICY IF EXISTS "Admins can delete any listing" ON public.book_listings;
+CREATE POLICY "Admins can delete any listing"
+    ON public.book_listings FOR DELETE
+    USING (public.is_admin());
+
+-- Along with the photos of listings they remove
+DROP POLICY IF EXISTS "Admins can delete listing images" ON storage.objects;
+CREATE POLICY "Admins can delete listing images"
+    ON storage.objects FOR DELETE
+    USING (bucket_id = 'book-images' AND public.is_admin());
+
+-- Admins handle every report
+DROP POLICY IF EXISTS reports_admin_select_policy ON public.reports;
+CREATE POLICY reports_admin_select_policy ON public.reports
+    FOR SELECT USING (public.is_admin());
+
+DROP POLICY IF EXISTS reports_admin_update_policy ON public.reports;
+CREATE POLICY reports_admin_update_policy ON public.reports
+    FOR UPDATE USING (public.is_admin());
+
+-- Admins suspend and restore users
+DROP POLICY IF EXISTS user_profiles_admin_update_policy ON public.user_profiles;
+CREATE POLICY user_profiles_admin_update_policy ON public.user_profiles
+    FOR UPDATE USING (public.is_admin());
+
+-- Suspended users can no longer list books or message anyone. These policies are
+-- restrictive, so they apply on top of the policies that let users insert rows.
+DROP POLICY IF EXISTS "Suspended users cannot list books" ON public.book_listings;
+CREATE POLICY "Suspended users cannot list books"
+    ON public.book_listings AS RESTRICTIVE FOR INSERT
+    WITH CHECK (NOT public.is_suspended(auth.uid()));
+
+DROP POLICY IF EXISTS "Suspended users cannot start conversations" ON public.conversations;
+CREATE POLICY "Suspended users cannot start conversations"
+    ON public.conversations AS RESTRICTIVE FOR INSERT
+    WITH CHECK (NOT public.is_suspended(auth.uid()));
+
+DROP POLICY IF EXISTS "Suspended users cannot send messages" ON public.messages;
+CREATE POLICY "Suspended users cannot send messages"
+    ON public.messages AS RESTRICTIVE FOR INSERT
+    WITH CHECK (NOT public.is_suspended(auth.uid()));
+
+-- Column comments
+COMMENT ON COLUMN public.user_profiles.is_admin IS 'Whether the user can use the admin dashboard and moderate listings, users and reports';
+COMMENT ON COLUMN public.user_profiles.suspended_at IS 'When an admin suspended the user; suspended users cannot list books or send messages';
@@ -0,0 +1,83 @@
+-- Create blocked_users table for users who do not want to hear from someone again
+CREATE TABLE IF NOT EXISTS public.blocked_users (
+    blocker_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    blocked_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+
+    PRIMARY KEY (blocker_id, blocked_id),
+    CHECK (blocker_id <> blocked_id)
+);
+
+-- Add indexes for improved query performance
+CREATE INDEX IF NOT EXISTS idx_blocked_users_blocked_id ON public.blocked_users(blocked_id);
+
+-- Add RLS (Row Level Security) policies
+ALTER TABLE public.blocked_users ENABLE ROW LEVEL SECURITY;
+
+-- Both users can see a block, so the app can tell a blocked user why their
+-- message was not sent; only the blocker can add or lift it
+CREATE POLICY blocked_users_select_policy ON public.blocked_users
+    FOR SELECT USING (auth.uid() = blocker_id OR auth.uid() = blocked_id);
+
+CREATE POLICY blocked_users_insert_policy ON public.blocked_users
+    FOR INSERT WITH CHECK (auth.uid() = blocker_id);
+
+CREATE POLICY blocked_users_delete_policy ON public.blocked_users
+    FOR DELETE USING (auth.uid() = blocker_id);
+
+-- Whether either of two users blocked the other
+CREATE OR REPLACE FUNCTION public.is_blocked_between(user_a UUID, user_b UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT EXISTS (
+        SELECT 1 FROM public.blocked_users
+        WHERE (blocker_id = user_a AND blocked_id = user_b)
+           OR (blocker_id = user_b AND blocked_id = user_a)
+    );
+$$;
+
+-- Reject conversations and messages between users when either blocked the other.
+-- 42501 (insufficient privilege) makes the app drop a message queued offline
+-- instead of retrying it.
+CREATE OR REPLACE FUNCTION public.check_conversation_not_blocked()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF public.is_blocked_between(NEW.buyer_id, NEW.seller_id) THEN
+        RAISE EXCEPTION 'You cannot message this user' USING ERRCODE = '42501';
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION public.check_message_not_blocked()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF public.is_blocked_between(NEW.sender_id, NEW.receiver_id) THEN
+        RAISE EXCEPTION 'You cannot message this user' USING ERRCODE = '42501';
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS check_conversations_not_blocked ON public.conversations;
+CREATE TRIGGER check_conversations_not_blocked
+BEFORE INSERT ON public.conversations
+FOR EACH ROW
+EXECUTE FUNCTION public.check_conversation_not_blocked();
+
+DROP TRIGGER IF EXISTS check_messages_not_blocked ON public.messages;
+CREATE TRIGGER check_messages_not_blocked
+BEFORE INSERT ON public.messages
+FOR EACH ROW
+EXECUTE FUNCTION public.check_message_not_blocked();
+
+-- Table and column comments
+COMMENT ON TABLE public.blocked_users IS 'Users who blocked another user from messaging them';
+COMMENT ON COLUMN public.blocked_users.blocker_id IS 'User who made the block';
+COMMENT ON COLUMN public.blocked_users.blocked_id IS 'User who can no longer message the blocker, and whose listings the blocker no longer sees';
@@ -102,4 +102,7 @@ COMMENT ON COLUMN public.messages.sender_id IS 'User who sent the message';
 COMMENT ON COLUMN public.messages.receiver_id IS 'User who received the message';
 COMMENT ON COLUMN public.messages.content IS 'Content of the message';
 COMMENT ON COLUMN public.messages.created_at IS 'When the message was sent';
-COMMENT ON COLUMN public.messages.read IS 'Whether the message has been read by the receiver'; 
\ No newline at end of file
+COMMENT ON COLUMN public.messages.read IS 'Whether the message has been read by the receiver';
+
+-- Stream inserts and updates to the app through Supabase realtime
+ALTER PUBLICATION supabase_realtime ADD TABLE public.conversations, public.messages;
@@ -0,0 +1,86 @@
+-- Create listing_images table for listings with several photos
+CREATE TABLE IF NOT EXISTS public.listing_images (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    listing_id UUID NOT NULL REFERENCES public.book_listings(id) ON DELETE CASCADE,
+    image_url TEXT NOT NULL,
+    image_path TEXT,
+    thumbnail_url TEXT,
+    thumbnail_path TEXT,
+    position SMALLINT NOT NULL DEFAULT 0 CHECK (position >= 0),
+    is_cover BOOLEAN NOT NULL DEFAULT FALSE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+-- Add thumbnails to installations created before they existed
+ALTER TABLE public.listing_images ADD COLUMN IF NOT EXISTS thumbnail_url TEXT;
+
+-- Add storage paths to installations created before they existed
+ALTER TABLE public.listing_images ADD COLUMN IF NOT EXISTS image_path TEXT;
+ALTER TABLE public.listing_images ADD COLUMN IF NOT EXISTS thumbnail_path TEXT;
+
+-- Add indexes for improved query performance
+CREATE INDEX IF NOT EXISTS idx_listing_images_listing_id ON public.listing_images(listing_id, position);
+
+-- A listing has at most one cover photo
+CREATE UNIQUE INDEX IF NOT EXISTS idx_listing_images_cover
+    ON public.listing_images(listing_id) WHERE is_cover;
+
+-- Add RLS (Row Level Security) policies
+ALTER TABLE public.listing_images ENABLE ROW LEVEL SECURITY;
+
+-- Anyone can view listing photos
+CREATE POLICY listing_images_select_policy ON public.listing_images
+    FOR SELECT USING (true);
+
+-- Only the seller can add, change or remove photos of a listing
+CREATE POLICY listing_images_insert_policy ON public.listing_images
+    FOR INSERT WITH CHECK (
+        EXISTS (
+            SELECT 1 FROM public.book_listings l
+            WHERE l.id = listing_id AND l.seller_id = auth.uid()
+        )
+    );
+
+CREATE POLICY listing_images_update_policy ON public.listing_images
+    FOR UPDATE USING (
+        EXISTS (
+            SELECT 1 FROM public.book_listings l
+            WHERE l.id = listing_id AND l.seller_id = auth.uid()
+        )
+    );
+
+CREATE POLICY listing_images_delete_policy ON public.listing_images
+    FOR DELETE USING (
+        EXISTS (
+            SELECT 1 FROM public.book_listings l
+            WHERE l.id = listing_id AND l.seller_id = auth.uid()
+        )
+    );
+
+-- Table and column comments
+COMMENT ON TABLE public.listing_images IS 'Stores the photos of each book listing';
+COMMENT ON COLUMN public.listing_images.id IS 'Unique identifier for the photo';
+COMMENT ON COLUMN public.listing_images.listing_id IS 'Listing the photo belongs to';
+COMMENT ON COLUMN public.listing_images.image_url IS 'Public URL of the photo in the book-images bucket';
+COMMENT ON COLUMN public.listing_images.image_path IS 'Path of the photo within the book-images bucket; null for photos saved before paths were stored';
+COMMENT ON COLUMN public.listing_images.thumbnail_url IS 'Public URL of a small version of the photo; null for photos uploaded before thumbnails existed';
+COMMENT ON COLUMN public.listing_images.thumbnail_path IS 'Path of the thumbnail within the book-images bucket';
+COMMENT ON COLUMN public.listing_images.position IS 'Order of the photo in the gallery, starting at 0';
+COMMENT ON COLUMN public.listing_images.is_cover IS 'Whether this photo is shown on listing cards; mirrored to book_listings.image_url and thumbnail_url';
+COMMENT ON COLUMN public.listing_images.created_at IS 'When the photo was added';
+COMMENT ON COLUMN public.listing_images.updated_at IS 'When the photo was last reordered or changed';
+
+-- Create a trigger to automatically update updated_at
+CREATE OR REPLACE FUNCTION update_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+    NEW.updated_at = now();
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER update_listing_images_updated_at
+BEFORE UPDATE ON public.listing_images
+FOR EACH ROW
+EXECUTE FUNCTION update_updated_at();
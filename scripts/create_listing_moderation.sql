@@ -0,0 +1,67 @@
+-- Listing approval queue: new listings wait for an admin to approve them before
+-- buyers can see them. Run after create_admin_policies.sql.
+
+-- Listings from before the queue existed are approved; new ones start out pending
+ALTER TABLE public.book_listings ADD COLUMN IF NOT EXISTS moderation_state VARCHAR(20) NOT NULL DEFAULT 'approved'
+    CHECK (moderation_state IN ('pending', 'approved', 'rejected'));
+ALTER TABLE public.book_listings ALTER COLUMN moderation_state SET DEFAULT 'pending';
+ALTER TABLE public.book_listings ADD COLUMN IF NOT EXISTS moderation_reason TEXT;
+
+-- Add index for the admins' approval queue
+CREATE INDEX IF NOT EXISTS book_listings_moderation_state_idx ON public.book_listings(moderation_state, created_at DESC);
+
+-- Replaces the policy in create_reports_table.sql: listings that are not approved
+-- are hidden like reported ones, from everyone but their seller and admins
+DROP POLICY IF EXISTS "Anyone can view listings that are not hidden" ON public.book_listings;
+DROP POLICY IF EXISTS "Anyone can view approved listings that are not hidden" ON public.book_listings;
+CREATE POLICY "Anyone can view approved listings that are not hidden"
+    ON public.book_listings FOR SELECT
+    USING ((moderation_state = 'approved' AND hidden_at IS NULL) OR auth.uid() = seller_id);
+
+-- Sellers write their listings directly, so the state of a new listing is decided
+-- here: sellers with 3 approved listings and none rejected skip the queue. After
+-- that sellers can only send a rejected listing back for review.
+-- (mirrors AUTO_APPROVE_AFTER_APPROVED_LISTINGS in services/BookService.ts)
+CREATE OR REPLACE FUNCTION public.set_book_listing_moderation_state()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF current_user NOT IN ('anon', 'authenticated') OR public.is_admin() THEN
+        RETURN NEW;
+    END IF;
+
+    IF TG_OP = 'INSERT' THEN
+        SELECT CASE
+            WHEN count(*) FILTER (WHERE moderation_state = 'approved') >= 3
+                AND count(*) FILTER (WHERE moderation_state = 'rejected') = 0
+            THEN 'approved'
+            ELSE 'pending'
+        END
+        INTO NEW.moderation_state
+        FROM public.book_listings
+        WHERE seller_id = NEW.seller_id;
+
+        NEW.moderation_reason := NULL;
+        RETURN NEW;
+    END IF;
+
+    IF NEW.moderation_state IS DISTINCT FROM OLD.moderation_state
+        AND NOT (OLD.moderation_state = 'rejected' AND NEW.moderation_state = 'pending') THEN
+        RAISE EXCEPTION 'Only admins can approve or reject a listing';
+    END IF;
+
+    IF NEW.moderation_reason IS DISTINCT FROM OLD.moderation_reason AND NEW.moderation_reason IS NOT NULL THEN
+        RAISE EXCEPTION 'Only admins can approve or reject a listing';
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS set_book_listings_moderation_state ON public.book_listings;
+CREATE TRIGGER set_book_listings_moderation_state
+BEFORE INSERT OR UPDATE OF moderation_state, moderation_reason ON public.book_listings
+FOR EACH ROW
+EXECUTE FUNCTION public.set_book_listing_moderation_state();
+
+COMMENT ON COLUMN public.book_listings.moderation_state IS 'Whether an admin approved the listing; only approved listings are shown to buyers';
+COMMENT ON COLUMN public.book_listings.moderation_reason IS 'Why an admin rejected the listing, shown to its seller';
@@ -0,0 +1,198 @@
+-- Create notifications table for the in-app notification center
+CREATE TABLE IF NOT EXISTS public.notifications (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    type TEXT NOT NULL CHECK (type IN ('price_drop', 'listing_removed', 'message')),
+    title TEXT NOT NULL,
+    body TEXT NOT NULL,
+    -- No foreign key: a removed listing's notification outlives the listing
+    listing_id UUID,
+    conversation_id UUID REFERENCES public.conversations(id) ON DELETE CASCADE,
+    read BOOLEAN NOT NULL DEFAULT false,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+-- Add indexes for improved query performance
+CREATE INDEX IF NOT EXISTS idx_notifications_user_id ON public.notifications(user_id);
+CREATE INDEX IF NOT EXISTS idx_notifications_unread ON public.notifications(user_id) WHERE NOT read;
+
+-- Add RLS (Row Level Security) policies
+ALTER TABLE public.notifications ENABLE ROW LEVEL SECURITY;
+
+-- Users can only see, mark as read and clear their own notifications. Notifications
+-- are only created by the triggers below, so there is no insert policy.
+CREATE POLICY notifications_select_policy ON public.notifications
+    FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY notifications_update_policy ON public.notifications
+    FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY notifications_delete_policy ON public.notifications
+    FOR DELETE USING (auth.uid() = user_id);
+
+-- Stream inserts and updates to the app through Supabase realtime for the badge counts
+ALTER PUBLICATION supabase_realtime ADD TABLE public.notifications;
+
+-- The message a message notification is about, so each message is announced once
+ALTER TABLE public.notifications ADD COLUMN IF NOT EXISTS message_id UUID REFERENCES public.messages(id) ON DELETE CASCADE;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_notifications_message ON public.notifications(user_id, type, message_id);
+
+-- Notifications used to be sent by functions the app called, which trusted what
+-- the app told them. They are now only sent by the triggers below, when the
+-- change they announce really happens.
+DROP FUNCTION IF EXISTS public.notify_price_drop(UUID, NUMERIC);
+DROP FUNCTION IF EXISTS public.notify_listing_removed(UUID);
+DROP FUNCTION IF EXISTS public.notify_listing_unavailable(UUID);
+DROP FUNCTION IF EXISTS public.notify_new_message(UUID);
+
+-- Tell everyone who saved a listing that its price went down. The trigger
+-- functions run with the definer's rights because whoever changes a listing
+-- cannot read other users' saved items.
+CREATE OR REPLACE FUNCTION public.notify_listing_price_drop()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    INSERT INTO public.notifications (user_id, type, title, body, listing_id)
+    SELECT DISTINCT s.user_id, 'price_drop', 'Price drop',
+        format('"%s" is now $%s (was $%s)', NEW.title,
+            to_char(NEW.price, 'FM999999990.00'), to_char(OLD.price, 'FM999999990.00')),
+        NEW.id
+    FROM public.saved_items s
+    WHERE s.book_id = NEW.id AND s.user_id <> NEW.seller_id;
+
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS notify_listing_price_drop ON public.book_listings;
+CREATE TRIGGER notify_listing_price_drop
+AFTER UPDATE OF price ON public.book_listings
+FOR EACH ROW
+WHEN (NEW.price < OLD.price)
+EXECUTE FUNCTION public.notify_listing_price_drop();
+
+-- Tell everyone who saved a listing that it is being deleted. Runs before the
+-- delete, since saved items go with the listing.
+CREATE OR REPLACE FUNCTION public.notify_listing_deleted()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    INSERT INTO public.notifications (user_id, type, title, body, listing_id)
+    SELECT DISTINCT s.user_id, 'listing_removed', 'Listing removed',
+        format('"%s" is no longer available', OLD.title),
+        OLD.id
+    FROM public.saved_items s
+    WHERE s.book_id = OLD.id AND s.user_id <> OLD.seller_id;
+
+    RETURN OLD;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS notify_listing_deleted ON public.book_listings;
+CREATE TRIGGER notify_listing_deleted
+BEFORE DELETE ON public.book_listings
+FOR EACH ROW
+EXECUTE FUNCTION public.notify_listing_deleted();
+
+-- Tell everyone who saved a listing that it was sold, traded or archived
+CREATE OR REPLACE FUNCTION public.notify_savers_listing_unavailable(listing public.book_listings)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    notified INTEGER;
+BEGIN
+    IF listing.status NOT IN ('sold', 'traded', 'archived') THEN
+        RETURN 0;
+    END IF;
+
+    INSERT INTO public.notifications (user_id, type, title, body, listing_id)
+    SELECT DISTINCT s.user_id, 'listing_removed',
+        CASE listing.status
+            WHEN 'sold' THEN 'Listing sold'
+            WHEN 'traded' THEN 'Listing traded'
+            ELSE 'Listing removed'
+        END,
+        CASE listing.status
+            WHEN 'sold' THEN format('"%s" has been sold', listing.title)
+            WHEN 'traded' THEN format('"%s" has been traded', listing.title)
+            ELSE format('"%s" is no longer available', listing.title)
+        END,
+        listing.id
+    FROM public.saved_items s
+    WHERE s.book_id = listing.id AND s.user_id <> listing.seller_id;
+
+    GET DIAGNOSTICS notified = ROW_COUNT;
+    RETURN notified;
+END;
+$$;
+
+-- Announce a listing going off the market, whether the seller archived it, a sale
+-- was recorded or a swap accepted
+CREATE OR REPLACE FUNCTION public.notify_listing_status_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    PERFORM public.notify_savers_listing_unavailable(NEW);
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS notify_listing_status_change ON public.book_listings;
+CREATE TRIGGER notify_listing_status_change
+AFTER UPDATE OF status ON public.book_listings
+FOR EACH ROW
+WHEN (
+    NEW.status IN ('sold', 'traded', 'archived')
+    AND coalesce(OLD.status, 'active') NOT IN ('sold', 'traded', 'archived')
+)
+EXECUTE FUNCTION public.notify_listing_status_change();
+
+-- Tell the receiver of a message that it arrived
+CREATE OR REPLACE FUNCTION public.notify_message_received()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    INSERT INTO public.notifications (user_id, type, title, body, listing_id, conversation_id, message_id)
+    SELECT NEW.receiver_id, 'message', 'New message', left(NEW.content, 100), c.listing_id, NEW.conversation_id, NEW.id
+    FROM public.conversations c
+    WHERE c.id = NEW.conversation_id
+    ON CONFLICT (user_id, type, message_id) DO NOTHING;
+
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS notify_message_received ON public.messages;
+CREATE TRIGGER notify_message_received
+AFTER INSERT ON public.messages
+FOR EACH ROW
+EXECUTE FUNCTION public.notify_message_received();
+
+-- Only the triggers above send notifications
+REVOKE EXECUTE ON FUNCTION public.notify_listing_price_drop() FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION public.notify_listing_deleted() FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION public.notify_savers_listing_unavailable(public.book_listings) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION public.notify_listing_status_change() FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION public.notify_message_received() FROM PUBLIC;
+
+-- Table and column comments
+COMMENT ON TABLE public.notifications IS 'In-app notifications about saved listings and messages';
+COMMENT ON COLUMN public.notifications.user_id IS 'User the notification is for';
+COMMENT ON COLUMN public.notifications.type IS 'What happened: price_drop, listing_removed or message';
+COMMENT ON COLUMN public.notifications.listing_id IS 'Listing the notification is about, which may since have been deleted';
+COMMENT ON COLUMN public.notifications.message_id IS 'Message a message notification is about';
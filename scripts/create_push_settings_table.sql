@@ -0,0 +1,214 @@
+-- Create push_settings table for push tokens and which pushes each user wants, and
+-- send pushes for new messages and swap offers from the database. Run after the
+-- user profile, conversation and swap proposal scripts.
+CREATE TABLE IF NOT EXISTS public.push_settings (
+    user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+    push_tokens TEXT[] NOT NULL DEFAULT '{}',
+    mute_message_pushes BOOLEAN NOT NULL DEFAULT false,
+    mute_offer_pushes BOOLEAN NOT NULL DEFAULT false
+);
+
+-- Find the user a device token is registered with
+CREATE INDEX IF NOT EXISTS idx_push_settings_push_tokens ON public.push_settings USING GIN (push_tokens);
+
+-- Add RLS (Row Level Security) policies
+ALTER TABLE public.push_settings ENABLE ROW LEVEL SECURITY;
+
+-- Tokens are as good as an address to push to, so only their user can see them
+CREATE POLICY push_settings_select_policy ON public.push_settings
+    FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY push_settings_insert_policy ON public.push_settings
+    FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY push_settings_update_policy ON public.push_settings
+    FOR UPDATE USING (auth.uid() = user_id);
+
+-- Installations that kept these on user_profiles, where everyone could read them:
+-- move them here and drop the columns
+DO $$
+BEGIN
+    IF EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_schema = 'public' AND table_name = 'user_profiles' AND column_name = 'push_tokens'
+    ) THEN
+        INSERT INTO public.push_settings (user_id, push_tokens, mute_message_pushes, mute_offer_pushes)
+        SELECT id, push_tokens, mute_message_pushes, mute_offer_pushes
+        FROM public.user_profiles
+        ON CONFLICT (user_id) DO NOTHING;
+
+        ALTER TABLE public.user_profiles
+            DROP COLUMN push_tokens,
+            DROP COLUMN mute_message_pushes,
+            DROP COLUMN mute_offer_pushes;
+    END IF;
+END;
+$$;
+
+-- Register a device's push token for the signed-in user. A device belongs to whoever
+-- signed in last, so the token is taken off anyone else's settings; that needs the
+-- definer's rights, since users can only update their own.
+CREATE OR REPLACE FUNCTION public.add_push_token(p_token TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RAISE EXCEPTION 'Not signed in';
+    END IF;
+
+    UPDATE public.push_settings
+    SET push_tokens = array_remove(push_tokens, p_token)
+    WHERE p_token = ANY (push_tokens) AND user_id <> auth.uid();
+
+    INSERT INTO public.push_settings (user_id, push_tokens)
+    VALUES (auth.uid(), ARRAY[p_token])
+    ON CONFLICT (user_id) DO UPDATE
+    SET push_tokens = array_append(array_remove(push_settings.push_tokens, p_token), p_token);
+END;
+$$;
+
+-- Stop sending pushes for the signed-in user to a device, e.g. on sign out
+CREATE OR REPLACE FUNCTION public.remove_push_token(p_token TEXT)
+RETURNS VOID
+LANGUAGE sql
+AS $$
+    UPDATE public.push_settings
+    SET push_tokens = array_remove(push_tokens, p_token)
+    WHERE user_id = auth.uid();
+$$;
+
+GRANT EXECUTE ON FUNCTION public.add_push_token(TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.remove_push_token(TEXT) TO authenticated;
+
+-- Pushes are posted to Expo's push service with pg_net, which sends the request
+-- once the transaction commits, so a push that cannot be sent never fails the
+-- message or offer
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+-- Push something that happened in a conversation to every device of a user,
+-- unless they muted this kind of push. The payload carries the conversation so
+-- tapping the push opens it; see getChatPushData in services/PushNotificationService.ts.
+-- Pushes go to Expo's push service unless the app.push_endpoint setting names
+-- another, e.g. a local stub:
+--   ALTER DATABASE postgres SET app.push_endpoint = 'http://localhost:4000/--/api/v2/push/send';
+-- (mirrors buildChatPushMessages in utils/chatPush.ts, which the tests check)
+CREATE OR REPLACE FUNCTION public.send_chat_push(
+    p_receiver_id UUID,
+    p_sender_id UUID,
+    p_conversation_id UUID,
+    p_kind TEXT,
+    p_body TEXT
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    settings public.push_settings%ROWTYPE;
+    sender_name TEXT;
+    listing_title TEXT;
+    messages JSONB;
+BEGIN
+    SELECT * INTO settings FROM public.push_settings WHERE user_id = p_receiver_id;
+
+    IF NOT FOUND OR cardinality(settings.push_tokens) = 0
+        OR (p_kind = 'message' AND settings.mute_message_pushes)
+        OR (p_kind = 'offer' AND settings.mute_offer_pushes)
+    THEN
+        RETURN;
+    END IF;
+
+    SELECT name INTO sender_name FROM public.user_profiles WHERE id = p_sender_id;
+    SELECT b.title INTO listing_title
+    FROM public.conversations c
+    JOIN public.book_listings b ON b.id = c.listing_id
+    WHERE c.id = p_conversation_id;
+
+    SELECT jsonb_agg(jsonb_build_object(
+        'to', token,
+        'title', coalesce(sender_name, 'User'),
+        'body', CASE WHEN length(p_body) > 150 THEN left(p_body, 149) || '…' ELSE p_body END,
+        'sound', 'default',
+        'data', jsonb_build_object(
+            'kind', p_kind,
+            'conversationId', p_conversation_id,
+            'otherUserName', coalesce(sender_name, 'User'),
+            'listingTitle', coalesce(listing_title, 'Book')
+        )
+    ))
+    INTO messages
+    FROM unnest(settings.push_tokens) AS token;
+
+    PERFORM net.http_post(
+        url := coalesce(nullif(current_setting('app.push_endpoint', true), ''), 'https://exp.host/--/api/v2/push/send'),
+        body := messages,
+        headers := '{"Accept": "application/json", "Content-Type": "application/json"}'::jsonb
+    );
+END;
+$$;
+
+-- Only the triggers below send pushes
+REVOKE EXECUTE ON FUNCTION public.send_chat_push(UUID, UUID, UUID, TEXT, TEXT) FROM PUBLIC;
+
+-- Push a new message to its receiver
+CREATE OR REPLACE FUNCTION public.push_new_message()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    PERFORM public.send_chat_push(NEW.receiver_id, NEW.sender_id, NEW.conversation_id, 'message', NEW.content);
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS push_new_message ON public.messages;
+CREATE TRIGGER push_new_message
+AFTER INSERT ON public.messages
+FOR EACH ROW
+EXECUTE FUNCTION public.push_new_message();
+
+-- Push a swap offer or counter-offer to the user who has to answer it
+-- (mirrors describeSwapOffer in utils/chatPush.ts)
+CREATE OR REPLACE FUNCTION public.push_new_swap_proposal()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    books TEXT := CASE
+        WHEN cardinality(NEW.offered_listing_ids) = 1 THEN '1 book'
+        ELSE cardinality(NEW.offered_listing_ids) || ' books'
+    END;
+BEGIN
+    PERFORM public.send_chat_push(
+        CASE WHEN NEW.proposed_by = NEW.buyer_id THEN NEW.seller_id ELSE NEW.buyer_id END,
+        NEW.proposed_by,
+        NEW.conversation_id,
+        'offer',
+        CASE
+            WHEN NEW.parent_proposal_id IS NULL THEN format('Offered %s in a swap', books)
+            ELSE format('Made a counter-offer of %s for a swap', books)
+        END
+    );
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS push_new_swap_proposal ON public.swap_proposals;
+CREATE TRIGGER push_new_swap_proposal
+AFTER INSERT ON public.swap_proposals
+FOR EACH ROW
+EXECUTE FUNCTION public.push_new_swap_proposal();
+
+-- Table and column comments
+COMMENT ON TABLE public.push_settings IS 'Push tokens and push preferences, readable only by their user';
+COMMENT ON COLUMN public.push_settings.push_tokens IS 'Expo push tokens of the devices the user is signed in on';
+COMMENT ON COLUMN public.push_settings.mute_message_pushes IS 'Whether the user turned off push notifications for new messages';
+COMMENT ON COLUMN public.push_settings.mute_offer_pushes IS 'Whether the user turned off push notifications for swap offers';
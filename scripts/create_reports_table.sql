@@ -0,0 +1,149 @@
+-- Create reports table for listings, users and messages reported by other users
+CREATE TABLE IF NOT EXISTS public.reports (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    reporter_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    reason TEXT NOT NULL CHECK (reason IN ('spam', 'scam', 'inappropriate', 'harassment', 'other')),
+    details TEXT CHECK (char_length(details) <= 1000),
+    listing_id UUID REFERENCES public.book_listings(id) ON DELETE CASCADE,
+    reported_user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+    message_id UUID REFERENCES public.messages(id) ON DELETE CASCADE,
+    status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'dismissed', 'resolved')),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+
+    -- A listing, a user, or a message together with its sender
+    CHECK (
+        (listing_id IS NOT NULL AND reported_user_id IS NULL AND message_id IS NULL) OR
+        (listing_id IS NULL AND reported_user_id IS NOT NULL)
+    )
+);
+
+-- Add indexes for improved query performance
+CREATE INDEX IF NOT EXISTS idx_reports_reporter_id ON public.reports(reporter_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_reports_listing_id ON public.reports(listing_id) WHERE listing_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_reports_open ON public.reports(created_at DESC) WHERE status = 'open';
+
+-- Add RLS (Row Level Security) policies
+ALTER TABLE public.reports ENABLE ROW LEVEL SECURITY;
+
+-- Users can see the reports they made. Reports are only created by submit_report,
+-- so there is no insert policy.
+CREATE POLICY reports_select_policy ON public.reports
+    FOR SELECT USING (auth.uid() = reporter_id);
+
+-- Listings reported by enough different users are hidden until a moderator reviews them
+ALTER TABLE public.book_listings ADD COLUMN IF NOT EXISTS hidden_at TIMESTAMP WITH TIME ZONE;
+
+-- Hidden listings stay visible to their seller only
+DROP POLICY IF EXISTS "Anyone can view book listings" ON public.book_listings;
+DROP POLICY IF EXISTS "Anyone can view listings that are not hidden" ON public.book_listings;
+CREATE POLICY "Anyone can view listings that are not hidden"
+    ON public.book_listings FOR SELECT
+    USING (hidden_at IS NULL OR auth.uid() = seller_id);
+
+-- Sellers update their listings directly, so keep them from unhiding one themselves;
+-- only functions running with the definer's rights may change hidden_at
+CREATE OR REPLACE FUNCTION public.check_book_listing_hidden_at()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.hidden_at IS DISTINCT FROM OLD.hidden_at AND current_user IN ('anon', 'authenticated') THEN
+        RAISE EXCEPTION 'Only moderators can hide or unhide a listing';
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS check_book_listings_hidden_at ON public.book_listings;
+CREATE TRIGGER check_book_listings_hidden_at
+BEFORE UPDATE OF hidden_at ON public.book_listings
+FOR EACH ROW
+EXECUTE FUNCTION public.check_book_listing_hidden_at();
+
+-- File a report for the signed-in user and return it. Users cannot report the same
+-- thing twice while the first report is open, and can file at most 10 reports a day.
+-- A listing reported by 3 different users is hidden. Runs with the definer's rights
+-- because reporters cannot count other users' reports or update other users' listings.
+-- (mirrors REPORT_LIMITS in utils/reports.ts)
+CREATE OR REPLACE FUNCTION public.submit_report(
+    p_reason TEXT,
+    p_details TEXT DEFAULT NULL,
+    p_listing_id UUID DEFAULT NULL,
+    p_reported_user_id UUID DEFAULT NULL,
+    p_message_id UUID DEFAULT NULL
+)
+RETURNS public.reports
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    report public.reports%ROWTYPE;
+    reporters INTEGER;
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RAISE EXCEPTION 'Not signed in';
+    END IF;
+
+    IF p_reported_user_id = auth.uid() OR EXISTS (
+        SELECT 1 FROM public.book_listings WHERE id = p_listing_id AND seller_id = auth.uid()
+    ) THEN
+        RAISE EXCEPTION 'You cannot report yourself';
+    END IF;
+
+    -- Only the receiver of a message can report it, and only as sent by its sender
+    IF p_message_id IS NOT NULL AND NOT EXISTS (
+        SELECT 1 FROM public.messages
+        WHERE id = p_message_id AND receiver_id = auth.uid() AND sender_id = p_reported_user_id
+    ) THEN
+        RAISE EXCEPTION 'Message not found';
+    END IF;
+
+    IF EXISTS (
+        SELECT 1 FROM public.reports
+        WHERE reporter_id = auth.uid()
+          AND status = 'open'
+          AND CASE
+              WHEN p_message_id IS NOT NULL THEN message_id = p_message_id
+              WHEN p_listing_id IS NOT NULL THEN listing_id = p_listing_id
+              ELSE reported_user_id = p_reported_user_id AND message_id IS NULL
+          END
+    ) THEN
+        RAISE EXCEPTION 'You have already reported this';
+    END IF;
+
+    IF (
+        SELECT count(*) FROM public.reports
+        WHERE reporter_id = auth.uid() AND created_at > now() - interval '1 day'
+    ) >= 10 THEN
+        RAISE EXCEPTION 'You have sent too many reports today. Please try again tomorrow.';
+    END IF;
+
+    INSERT INTO public.reports (reporter_id, reason, details, listing_id, reported_user_id, message_id)
+    VALUES (auth.uid(), p_reason, nullif(trim(p_details), ''), p_listing_id, p_reported_user_id, p_message_id)
+    RETURNING * INTO report;
+
+    IF p_listing_id IS NOT NULL THEN
+        SELECT count(DISTINCT reporter_id) INTO reporters
+        FROM public.reports
+        WHERE listing_id = p_listing_id AND status = 'open';
+
+        IF reporters >= 3 THEN
+            UPDATE public.book_listings
+            SET hidden_at = now()
+            WHERE id = p_listing_id AND hidden_at IS NULL;
+        END IF;
+    END IF;
+
+    RETURN report;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.submit_report(TEXT, TEXT, UUID, UUID, UUID) TO authenticated;
+
+-- Table and column comments
+COMMENT ON TABLE public.reports IS 'Listings, users and messages reported by other users';
+COMMENT ON COLUMN public.reports.reason IS 'spam, scam, inappropriate, harassment or other';
+COMMENT ON COLUMN public.reports.details IS 'What the reporter wrote about the problem';
+COMMENT ON COLUMN public.reports.reported_user_id IS 'Reported user, or the sender of a reported message';
+COMMENT ON COLUMN public.reports.status IS 'open until a moderator dismisses it or acts on it';
+COMMENT ON COLUMN public.book_listings.hidden_at IS 'When the listing was hidden for review after being reported';
@@ -0,0 +1,111 @@
+-- Create reviews table for seller ratings and reviews
+CREATE TABLE IF NOT EXISTS public.reviews (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    seller_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    reviewer_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    rating SMALLINT NOT NULL CHECK (rating BETWEEN 1 AND 5),
+    comment TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+
+    -- Users cannot review themselves
+    CHECK (seller_id <> reviewer_id),
+
+    -- Each user can leave only one review per seller
+    UNIQUE (seller_id, reviewer_id)
+);
+
+-- Add indexes for improved query performance
+CREATE INDEX IF NOT EXISTS idx_reviews_seller_id ON public.reviews(seller_id);
+CREATE INDEX IF NOT EXISTS idx_reviews_reviewer_id ON public.reviews(reviewer_id);
+CREATE INDEX IF NOT EXISTS idx_reviews_created_at ON public.reviews(created_at);
+
+-- Aggregate rating and review count per seller
+CREATE OR REPLACE VIEW public.seller_ratings AS
+    SELECT
+        seller_id,
+        ROUND(AVG(rating)::numeric, 1) AS average_rating,
+        COUNT(*) AS review_count
+    FROM public.reviews
+    GROUP BY seller_id;
+
+-- Add RLS (Row Level Security) policies
+ALTER TABLE public.reviews ENABLE ROW LEVEL SECURITY;
+
+-- Anyone can read reviews
+DROP POLICY IF EXISTS reviews_select_policy ON public.reviews;
+CREATE POLICY reviews_select_policy ON public.reviews
+    FOR SELECT USING (true);
+
+-- Users can only review sellers they have asked about one of their listings
+DROP POLICY IF EXISTS reviews_insert_policy ON public.reviews;
+CREATE POLICY reviews_insert_policy ON public.reviews
+    FOR INSERT WITH CHECK (
+        reviewer_id = auth.uid()
+        AND EXISTS (
+            SELECT 1 FROM public.conversations c
+            WHERE c.buyer_id = auth.uid() AND c.seller_id = reviews.seller_id
+        )
+    );
+
+-- Users can only update their own reviews, and only while they could still write them
+DROP POLICY IF EXISTS reviews_update_policy ON public.reviews;
+CREATE POLICY reviews_update_policy ON public.reviews
+    FOR UPDATE USING (auth.uid() = reviewer_id)
+    WITH CHECK (
+        reviewer_id = auth.uid()
+        AND EXISTS (
+            SELECT 1 FROM public.conversations c
+            WHERE c.buyer_id = auth.uid() AND c.seller_id = reviews.seller_id
+        )
+    );
+
+-- A review stays with the seller and the reviewer it was written for
+CREATE OR REPLACE FUNCTION public.check_review_participants()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.seller_id IS DISTINCT FROM OLD.seller_id OR NEW.reviewer_id IS DISTINCT FROM OLD.reviewer_id THEN
+        RAISE EXCEPTION 'A review cannot be moved to another seller or reviewer';
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS check_reviews_participants ON public.reviews;
+CREATE TRIGGER check_reviews_participants
+BEFORE UPDATE OF seller_id, reviewer_id ON public.reviews
+FOR EACH ROW
+EXECUTE FUNCTION public.check_review_participants();
+
+-- Users can only delete their own reviews
+DROP POLICY IF EXISTS reviews_delete_policy ON public.reviews;
+CREATE POLICY reviews_delete_policy ON public.reviews
+    FOR DELETE USING (auth.uid() = reviewer_id);
+
+-- Table and column comments
+COMMENT ON TABLE public.reviews IS 'Stores ratings and reviews that users leave for sellers';
+COMMENT ON COLUMN public.reviews.id IS 'Unique identifier for the review';
+COMMENT ON COLUMN public.reviews.seller_id IS 'User who is being reviewed';
+COMMENT ON COLUMN public.reviews.reviewer_id IS 'User who wrote the review';
+COMMENT ON COLUMN public.reviews.rating IS 'Star rating from 1 to 5';
+COMMENT ON COLUMN public.reviews.comment IS 'Optional written feedback';
+COMMENT ON COLUMN public.reviews.created_at IS 'When the review was written';
+COMMENT ON COLUMN public.reviews.updated_at IS 'When the review was last edited';
+
+COMMENT ON VIEW public.seller_ratings IS 'Average rating and review count for each seller';
+
+-- Create a trigger to automatically update updated_at
+CREATE OR REPLACE FUNCTION update_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+    NEW.updated_at = now();
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS update_reviews_updated_at ON public.reviews;
+CREATE TRIGGER update_reviews_updated_at
+BEFORE UPDATE ON public.reviews
+FOR EACH ROW
+EXECUTE FUNCTION update_updated_at();
@@ -0,0 +1,45 @@
+-- Create saved_searches table for saved searches and their new-match alerts
+CREATE TABLE IF NOT EXISTS public.saved_searches (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    name TEXT NOT NULL CHECK (char_length(name) BETWEEN 1 AND 60),
+    query TEXT,
+    filters JSONB NOT NULL DEFAULT '{}'::jsonb,
+    last_checked_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+-- Add indexes for improved query performance
+CREATE INDEX IF NOT EXISTS idx_saved_searches_user_id ON public.saved_searches(user_id);
+
+-- Counting new matches filters listings by creation time
+CREATE INDEX IF NOT EXISTS idx_book_listings_created_at ON public.book_listings(created_at);
+
+-- Add RLS (Row Level Security) policies
+ALTER TABLE public.saved_searches ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Users can only view their own saved searches
+CREATE POLICY saved_searches_select_policy ON public.saved_searches
+    FOR SELECT USING (auth.uid() = user_id);
+
+-- Policy: Users can only insert their own saved searches
+CREATE POLICY saved_searches_insert_policy ON public.saved_searches
+    FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+-- Policy: Users can only update their own saved searches
+CREATE POLICY saved_searches_update_policy ON public.saved_searches
+    FOR UPDATE USING (auth.uid() = user_id);
+
+-- Policy: Users can only delete their own saved searches
+CREATE POLICY saved_searches_delete_policy ON public.saved_searches
+    FOR DELETE USING (auth.uid() = user_id);
+
+-- Comment on table and columns for documentation
+COMMENT ON TABLE public.saved_searches IS 'Stores named searches users want to be told about';
+COMMENT ON COLUMN public.saved_searches.id IS 'Unique identifier for the saved search';
+COMMENT ON COLUMN public.saved_searches.user_id IS 'User who saved the search';
+COMMENT ON COLUMN public.saved_searches.name IS 'Name the user gave the search';
+COMMENT ON COLUMN public.saved_searches.query IS 'Search text as typed, if any';
+COMMENT ON COLUMN public.saved_searches.filters IS 'Filter options (categories, conditions, price, location)';
+COMMENT ON COLUMN public.saved_searches.last_checked_at IS 'Listings created after this count as new matches';
+COMMENT ON COLUMN public.saved_searches.created_at IS 'When the search was saved';
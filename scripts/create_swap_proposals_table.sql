@@ -0,0 +1,194 @@
+-- Create swap_proposals table for the book exchange workflow
+CREATE TABLE IF NOT EXISTS public.swap_proposals (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    conversation_id UUID NOT NULL REFERENCES public.conversations(id) ON DELETE CASCADE,
+    target_listing_id UUID NOT NULL REFERENCES public.book_listings(id) ON DELETE CASCADE,
+    offered_listing_ids UUID[] NOT NULL CHECK (cardinality(offered_listing_ids) > 0),
+    buyer_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    seller_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    proposed_by UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    parent_proposal_id UUID REFERENCES public.swap_proposals(id) ON DELETE SET NULL,
+    message TEXT,
+    status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'accepted', 'rejected', 'countered')),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+
+    -- The proposer must be one of the two parties
+    CHECK (proposed_by = buyer_id OR proposed_by = seller_id)
+);
+
+-- Add indexes for improved query performance
+CREATE INDEX IF NOT EXISTS idx_swap_proposals_conversation_id ON public.swap_proposals(conversation_id);
+CREATE INDEX IF NOT EXISTS idx_swap_proposals_target_listing_id ON public.swap_proposals(target_listing_id);
+CREATE INDEX IF NOT EXISTS idx_swap_proposals_buyer_id ON public.swap_proposals(buyer_id);
+CREATE INDEX IF NOT EXISTS idx_swap_proposals_seller_id ON public.swap_proposals(seller_id);
+CREATE INDEX IF NOT EXISTS idx_swap_proposals_status ON public.swap_proposals(status);
+
+-- Add RLS (Row Level Security) policies
+ALTER TABLE public.swap_proposals ENABLE ROW LEVEL SECURITY;
+
+-- Users can only view proposals they are a party to
+DROP POLICY IF EXISTS swap_proposals_select_policy ON public.swap_proposals;
+CREATE POLICY swap_proposals_select_policy ON public.swap_proposals
+    FOR SELECT USING (auth.uid() = buyer_id OR auth.uid() = seller_id);
+
+-- Users can only create proposals as themselves, within their own conversations,
+-- for the listing the conversation is about and with active books of the buyer's
+DROP POLICY IF EXISTS swap_proposals_insert_policy ON public.swap_proposals;
+CREATE POLICY swap_proposals_insert_policy ON public.swap_proposals
+    FOR INSERT WITH CHECK (
+        proposed_by = auth.uid()
+        AND EXISTS (
+            SELECT 1 FROM public.conversations c
+            WHERE c.id = conversation_id
+            AND c.listing_id = swap_proposals.target_listing_id
+            AND c.buyer_id = swap_proposals.buyer_id
+            AND c.seller_id = swap_proposals.seller_id
+        )
+        AND NOT EXISTS (
+            SELECT 1 FROM unnest(swap_proposals.offered_listing_ids) AS offered(listing_id)
+            WHERE NOT EXISTS (
+                SELECT 1 FROM public.book_listings b
+                WHERE b.id = offered.listing_id
+                AND b.seller_id = swap_proposals.buyer_id
+                AND b.status = 'active'
+            )
+        )
+    );
+
+-- Only the party who did not make an offer responds to it, by turning it down or
+-- countering it; accepting goes through accept_swap_proposal below
+DROP POLICY IF EXISTS swap_proposals_update_policy ON public.swap_proposals;
+CREATE POLICY swap_proposals_update_policy ON public.swap_proposals
+    FOR UPDATE
+    USING (
+        status = 'pending'
+        AND auth.uid() = CASE WHEN proposed_by = buyer_id THEN seller_id ELSE buyer_id END
+    )
+    WITH CHECK (status IN ('rejected', 'countered'));
+
+-- Policies cannot tell which columns an update changes, so status is the only one
+-- users may update
+REVOKE UPDATE ON public.swap_proposals FROM anon, authenticated;
+GRANT UPDATE (status) ON public.swap_proposals TO authenticated;
+
+-- Table and column comments
+COMMENT ON TABLE public.swap_proposals IS 'Stores book swap offers made inside conversations';
+COMMENT ON COLUMN public.swap_proposals.id IS 'Unique identifier for the proposal';
+COMMENT ON COLUMN public.swap_proposals.conversation_id IS 'Conversation the proposal is shown in';
+COMMENT ON COLUMN public.swap_proposals.target_listing_id IS 'Seller listing the buyer wants';
+COMMENT ON COLUMN public.swap_proposals.offered_listing_ids IS 'Buyer listings offered in exchange';
+COMMENT ON COLUMN public.swap_proposals.buyer_id IS 'User who offers their books';
+COMMENT ON COLUMN public.swap_proposals.seller_id IS 'User who owns the target listing';
+COMMENT ON COLUMN public.swap_proposals.proposed_by IS 'User who made this version of the offer';
+COMMENT ON COLUMN public.swap_proposals.parent_proposal_id IS 'Proposal this one counters, if any';
+COMMENT ON COLUMN public.swap_proposals.message IS 'Optional note attached to the offer';
+COMMENT ON COLUMN public.swap_proposals.status IS 'pending, accepted, rejected or countered';
+COMMENT ON COLUMN public.swap_proposals.created_at IS 'When the proposal was made';
+COMMENT ON COLUMN public.swap_proposals.updated_at IS 'When the proposal was last updated';
+
+-- Create a trigger to automatically update updated_at
+CREATE OR REPLACE FUNCTION update_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+    NEW.updated_at = now();
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER update_swap_proposals_updated_at
+BEFORE UPDATE ON public.swap_proposals
+FOR EACH ROW
+EXECUTE FUNCTION update_updated_at();
+
+-- Accept a pending proposal, mark every listing involved as traded and record
+-- the exchanges.
+-- Runs as the function owner because the accepting user does not own the other party's listings.
+CREATE OR REPLACE FUNCTION public.accept_swap_proposal(proposal_id UUID)
+RETURNS public.swap_proposals
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    proposal public.swap_proposals;
+BEGIN
+    SELECT * INTO proposal
+    FROM public.swap_proposals
+    WHERE id = proposal_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Proposal not found';
+    END IF;
+
+    IF proposal.status <> 'pending' THEN
+        RAISE EXCEPTION 'Proposal is no longer pending';
+    END IF;
+
+    -- Only the party who did not make this offer can accept it
+    IF auth.uid() IS DISTINCT FROM
+        CASE WHEN proposal.proposed_by = proposal.buyer_id THEN proposal.seller_id ELSE proposal.buyer_id END
+    THEN
+        RAISE EXCEPTION 'Only the recipient can accept this proposal';
+    END IF;
+
+    -- The function can change any listing, so check again that the target is the
+    -- seller's and every offered book the buyer's before touching them
+    IF NOT EXISTS (
+        SELECT 1 FROM public.book_listings
+        WHERE id = proposal.target_listing_id AND seller_id = proposal.seller_id
+    ) OR EXISTS (
+        SELECT 1 FROM unnest(proposal.offered_listing_ids) AS offered(listing_id)
+        WHERE NOT EXISTS (
+            SELECT 1 FROM public.book_listings b
+            WHERE b.id = offered.listing_id AND b.seller_id = proposal.buyer_id
+        )
+    ) THEN
+        RAISE EXCEPTION 'Only the books of the two users can be swapped';
+    END IF;
+
+    IF EXISTS (
+        SELECT 1 FROM public.book_listings
+        WHERE (id = proposal.target_listing_id OR id = ANY (proposal.offered_listing_ids))
+        AND status <> 'active'
+    ) THEN
+        RAISE EXCEPTION 'One of the listings is no longer available';
+    END IF;
+
+    UPDATE public.book_listings
+    SET status = 'traded'
+    WHERE id = proposal.target_listing_id OR id = ANY (proposal.offered_listing_ids);
+
+    -- Record each book as exchanged to the other party, so the trade shows in both
+    -- users' history and sales counts (needs create_transactions_table.sql)
+    INSERT INTO public.transactions (listing_id, conversation_id, seller_id, buyer_id, listing_title, price, method)
+    SELECT b.id, proposal.conversation_id, b.seller_id,
+           CASE WHEN b.seller_id = proposal.seller_id THEN proposal.buyer_id ELSE proposal.seller_id END,
+           b.title, 0, 'exchange'
+    FROM public.book_listings b
+    WHERE b.id = proposal.target_listing_id OR b.id = ANY (proposal.offered_listing_ids);
+
+    UPDATE public.swap_proposals
+    SET status = 'accepted'
+    WHERE id = proposal.id
+    RETURNING * INTO proposal;
+
+    -- Any other open offers for the traded books can no longer be honoured
+    UPDATE public.swap_proposals
+    SET status = 'rejected'
+    WHERE status = 'pending'
+    AND id <> proposal.id
+    AND (
+        target_listing_id = proposal.target_listing_id
+        OR offered_listing_ids && proposal.offered_listing_ids
+    );
+
+    -- Touch the conversation so realtime subscribers on both sides refresh
+    UPDATE public.conversations
+    SET last_message_at = NOW()
+    WHERE id = proposal.conversation_id;
+
+    RETURN proposal;
+END;
+$$;
@@ -0,0 +1,125 @@
+-- Create transactions table for completed sales and exchanges. Run after the
+-- conversation and admin scripts.
+CREATE TABLE IF NOT EXISTS public.transactions (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    -- A listing changes hands once; the record outlives the listing and the conversation
+    listing_id UUID UNIQUE REFERENCES public.book_listings(id) ON DELETE SET NULL,
+    conversation_id UUID REFERENCES public.conversations(id) ON DELETE SET NULL,
+    seller_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    buyer_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    listing_title TEXT NOT NULL,
+    price DECIMAL(10, 2) NOT NULL CHECK (price >= 0),
+    method TEXT NOT NULL CHECK (method IN ('sale', 'exchange')),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+
+    CHECK (seller_id <> buyer_id)
+);
+
+-- Add indexes for improved query performance
+CREATE INDEX IF NOT EXISTS idx_transactions_seller_id ON public.transactions(seller_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_transactions_buyer_id ON public.transactions(buyer_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_transactions_created_at ON public.transactions(created_at DESC, id DESC);
+
+-- Add RLS (Row Level Security) policies
+ALTER TABLE public.transactions ENABLE ROW LEVEL SECURITY;
+
+-- Both sides of a transaction can see it, and admins can see all of them
+CREATE POLICY transactions_select_policy ON public.transactions
+    FOR SELECT USING (auth.uid() IN (seller_id, buyer_id) OR public.is_admin());
+
+-- Transactions are only written by record_transaction below, together with the
+-- listing's status, and are never changed or deleted, so there are no insert,
+-- update or delete policies
+DROP POLICY IF EXISTS transactions_insert_policy ON public.transactions;
+
+-- Record that the seller sold or exchanged a listing to the buyer of one of its
+-- conversations and mark the listing sold or traded, in one go so there is never
+-- a sold listing without a transaction or the other way round. The checks mirror
+-- TransactionService.recordTransaction.
+CREATE OR REPLACE FUNCTION public.record_transaction(
+    p_conversation_id UUID,
+    p_price DECIMAL,
+    p_method TEXT
+)
+RETURNS public.transactions
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    conversation public.conversations;
+    listing public.book_listings;
+    new_status TEXT := CASE p_method WHEN 'sale' THEN 'sold' WHEN 'exchange' THEN 'traded' END;
+    recorded public.transactions;
+BEGIN
+    IF p_price IS NULL OR p_price < 0 THEN
+        RAISE EXCEPTION 'Please enter the price you agreed on';
+    END IF;
+
+    SELECT * INTO conversation
+    FROM public.conversations
+    WHERE id = p_conversation_id;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Conversation not found';
+    END IF;
+
+    IF auth.uid() IS DISTINCT FROM conversation.seller_id THEN
+        RAISE EXCEPTION 'Only the seller can record a sale';
+    END IF;
+
+    SELECT * INTO listing
+    FROM public.book_listings
+    WHERE id = conversation.listing_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Listing not found';
+    END IF;
+
+    -- (mirrors LISTING_STATUS_TRANSITIONS in services/BookService.ts)
+    IF listing.status NOT IN ('active', 'reserved') THEN
+        RAISE EXCEPTION 'A % listing cannot be marked as %', listing.status, new_status;
+    END IF;
+
+    INSERT INTO public.transactions (listing_id, conversation_id, seller_id, buyer_id, listing_title, price, method)
+    VALUES (listing.id, conversation.id, conversation.seller_id, conversation.buyer_id, listing.title, p_price, p_method)
+    RETURNING * INTO recorded;
+
+    UPDATE public.book_listings
+    SET status = new_status
+    WHERE id = listing.id
+    RETURNING * INTO listing;
+
+    RETURN recorded;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.record_transaction(UUID, DECIMAL, TEXT) TO authenticated;
+
+-- Sellers update their listings directly, so keep them from marking one sold or
+-- traded without a transaction; only record_transaction and accept_swap_proposal,
+-- which run with the definer's rights, may
+CREATE OR REPLACE FUNCTION public.check_book_listing_transaction_status()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.status IN ('sold', 'traded') AND NEW.status IS DISTINCT FROM OLD.status
+        AND current_user IN ('anon', 'authenticated') THEN
+        RAISE EXCEPTION 'Record the sale from your conversation with the buyer';
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS check_book_listings_transaction_status ON public.book_listings;
+CREATE TRIGGER check_book_listings_transaction_status
+BEFORE UPDATE OF status ON public.book_listings
+FOR EACH ROW
+EXECUTE FUNCTION public.check_book_listing_transaction_status();
+
+-- Table and column comments
+COMMENT ON TABLE public.transactions IS 'Sales and exchanges sellers recorded with a buyer';
+COMMENT ON COLUMN public.transactions.listing_title IS 'Title of the listing when the transaction was recorded';
+COMMENT ON COLUMN public.transactions.price IS 'Price the seller and buyer agreed on';
+COMMENT ON COLUMN public.transactions.method IS 'sale or exchange';
@@ -5,7 +5,10 @@ CREATE TABLE IF NOT EXISTS public.user_profiles (
     email TEXT,
     profile_image TEXT,
     bio TEXT,
+    location TEXT,
     phone TEXT,
+    join_date TIMESTAMP WITH TIME ZONE DEFAULT now(),
+    rating NUMERIC(2, 1),
     created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
     updated_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
 );
@@ -15,6 +18,11 @@ CREATE INDEX IF NOT EXISTS idx_user_profiles_id ON public.user_profiles(id);
 CREATE INDEX IF NOT EXISTS idx_user_profiles_name ON public.user_profiles(name);
 CREATE INDEX IF NOT EXISTS idx_user_profiles_email ON public.user_profiles(email);
 
+-- Add profile columns to installations created before they existed
+ALTER TABLE public.user_profiles ADD COLUMN IF NOT EXISTS location TEXT;
+ALTER TABLE public.user_profiles ADD COLUMN IF NOT EXISTS join_date TIMESTAMP WITH TIME ZONE DEFAULT now();
+ALTER TABLE public.user_profiles ADD COLUMN IF NOT EXISTS rating NUMERIC(2, 1);
+
 -- Add RLS (Row Level Security) policies
 ALTER TABLE public.user_profiles ENABLE ROW LEVEL SECURITY;
 
@@ -37,7 +45,10 @@ COMMENT ON COLUMN public.user_profiles.name IS 'User display name';
 COMMENT ON COLUMN public.user_profiles.email IS 'User email';
 COMMENT ON COLUMN public.user_profiles.profile_image IS 'URL to the user profile image';
 COMMENT ON COLUMN public.user_profiles.bio IS 'User biography or description';
+COMMENT ON COLUMN public.user_profiles.location IS 'Free-text location shown on the profile, e.g. a city';
 COMMENT ON COLUMN public.user_profiles.phone IS 'User phone number';
+COMMENT ON COLUMN public.user_profiles.join_date IS 'When the user joined, shown as "Member since"';
+COMMENT ON COLUMN public.user_profiles.rating IS 'Legacy stored rating; the app shows the seller_ratings aggregate instead';
 COMMENT ON COLUMN public.user_profiles.created_at IS 'When the profile was created';
 COMMENT ON COLUMN public.user_profiles.updated_at IS 'When the profile was last updated';
 
@@ -0,0 +1,115 @@
+-- Create wanted_books and wanted_book_matches tables for wishlist entries that
+-- describe a book rather than point at an existing listing
+CREATE TABLE IF NOT EXISTS public.wanted_books (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    isbn TEXT CHECK (isbn ~ '^97[89][0-9]{10}$'),
+    title TEXT,
+    author TEXT,
+    max_price NUMERIC(10, 2) CHECK (max_price > 0),
+    conditions TEXT[] NOT NULL DEFAULT '{}',
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+
+    -- A wanted book is identified by its ISBN or its title
+    CHECK (isbn IS NOT NULL OR title IS NOT NULL)
+);
+
+CREATE TABLE IF NOT EXISTS public.wanted_book_matches (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    wanted_book_id UUID NOT NULL REFERENCES public.wanted_books(id) ON DELETE CASCADE,
+    listing_id UUID NOT NULL REFERENCES public.book_listings(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+
+    UNIQUE (wanted_book_id, listing_id)
+);
+
+-- Add indexes for improved query performance
+CREATE INDEX IF NOT EXISTS idx_wanted_books_user_id ON public.wanted_books(user_id);
+CREATE INDEX IF NOT EXISTS idx_wanted_books_isbn ON public.wanted_books(isbn);
+CREATE INDEX IF NOT EXISTS idx_wanted_book_matches_user_id ON public.wanted_book_matches(user_id);
+CREATE INDEX IF NOT EXISTS idx_wanted_book_matches_listing_id ON public.wanted_book_matches(listing_id);
+
+-- Add RLS (Row Level Security) policies
+ALTER TABLE public.wanted_books ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.wanted_book_matches ENABLE ROW LEVEL SECURITY;
+
+-- Users can only see and manage their own wanted books
+CREATE POLICY wanted_books_select_policy ON public.wanted_books
+    FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY wanted_books_insert_policy ON public.wanted_books
+    FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY wanted_books_delete_policy ON public.wanted_books
+    FOR DELETE USING (auth.uid() = user_id);
+
+-- Users can only see their own matches. Matches are only created by
+-- record_wanted_book_matches, so there is no insert policy.
+CREATE POLICY wanted_book_matches_select_policy ON public.wanted_book_matches
+    FOR SELECT USING (auth.uid() = user_id);
+
+-- Lower-case text with everything but letters and digits reduced to single spaces
+CREATE OR REPLACE FUNCTION public.normalize_book_text(input TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+    SELECT trim(regexp_replace(lower(coalesce(input, '')), '[^a-z0-9]+', ' ', 'g'));
+$$;
+
+-- Record which wanted books a new listing fulfils and return how many people want it.
+-- Runs with the definer's rights because sellers cannot read other users' wanted books;
+-- it only ever returns a count.
+CREATE OR REPLACE FUNCTION public.record_wanted_book_matches(p_listing_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    listing public.book_listings%ROWTYPE;
+    wanted_by INTEGER;
+BEGIN
+    SELECT * INTO listing FROM public.book_listings WHERE id = p_listing_id;
+
+    -- Only the seller can announce their own active listing
+    IF NOT FOUND OR listing.seller_id <> auth.uid() OR coalesce(listing.status, 'active') <> 'active' THEN
+        RETURN 0;
+    END IF;
+
+    WITH matched AS (
+        SELECT w.id, w.user_id
+        FROM public.wanted_books w
+        WHERE w.user_id <> listing.seller_id
+          AND (w.max_price IS NULL OR listing.price <= w.max_price)
+          AND (cardinality(w.conditions) = 0 OR listing.condition = ANY (w.conditions))
+          AND CASE
+              WHEN w.isbn IS NOT NULL AND listing.isbn IS NOT NULL THEN w.isbn = listing.isbn
+              ELSE w.title IS NOT NULL
+                  AND ' ' || normalize_book_text(listing.title) || ' ' LIKE '% ' || normalize_book_text(w.title) || ' %'
+                  AND (w.author IS NULL
+                      OR ' ' || normalize_book_text(listing.author) || ' ' LIKE '% ' || normalize_book_text(w.author) || ' %')
+          END
+    ), recorded AS (
+        INSERT INTO public.wanted_book_matches (wanted_book_id, listing_id, user_id)
+        SELECT id, p_listing_id, user_id FROM matched
+        ON CONFLICT (wanted_book_id, listing_id) DO NOTHING
+    )
+    SELECT count(DISTINCT user_id) INTO wanted_by FROM matched;
+
+    RETURN wanted_by;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.record_wanted_book_matches(UUID) TO authenticated;
+
+-- Table and column comments
+COMMENT ON TABLE public.wanted_books IS 'Books users want that may not be listed yet';
+COMMENT ON COLUMN public.wanted_books.isbn IS 'ISBN-13 of the wanted book, if known';
+COMMENT ON COLUMN public.wanted_books.title IS 'Title of the wanted book, matched as whole words';
+COMMENT ON COLUMN public.wanted_books.author IS 'Author of the wanted book, narrowing title matches';
+COMMENT ON COLUMN public.wanted_books.max_price IS 'Highest price the user will pay, if any';
+COMMENT ON COLUMN public.wanted_books.conditions IS 'Acceptable conditions; empty accepts any';
+COMMENT ON TABLE public.wanted_book_matches IS 'Listings found to fulfil a wanted book when they were created';
+COMMENT ON COLUMN public.wanted_book_matches.user_id IS 'User who wants the book';
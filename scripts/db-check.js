@@ -13,7 +13,16 @@ console.log('1. book_listings - For book information');
 console.log('2. user_profiles - For user information');
 console.log('3. saved_items - For favorites and wishlist');
 console.log('4. conversations - For messaging conversations');
-console.log('5. messages - For individual messages\n');
+console.log('5. messages - For individual messages');
+console.log('6. reviews - For seller ratings and reviews');
+console.log('7. swap_proposals - For book swap proposals');
+console.log('8. listing_images - For listing photos');
+console.log('9. saved_searches - For saved searches and new-match alerts');
+console.log('10. wanted_books - For wishlist entries for books not yet listed');
+console.log('11. wanted_book_matches - For listings that fulfil wanted books');
+console.log('12. notifications - For the notification center');
+console.log('13. reports - For reports of listings, users and messages');
+console.log('14. blocked_users - For blocked users\n');
 
 console.log('If you see errors related to missing tables, follow these steps:\n');
 
@@ -32,6 +41,46 @@ console.log('1. Open the Supabase dashboard at https://app.supabase.com');
 console.log('2. Select your project and go to "SQL Editor"');
 console.log('3. Run the SQL script from scripts/create_conversation_tables.sql\n');
 
+console.log('For reviews table:');
+console.log('1. Open the Supabase dashboard at https://app.supabase.com');
+console.log('2. Select your project and go to "SQL Editor"');
+console.log('3. Run the SQL script from scripts/create_reviews_table.sql\n');
+
+console.log('For swap_proposals table:');
+console.log('1. Open the Supabase dashboard at https://app.supabase.com');
+console.log('2. Select your project and go to "SQL Editor"');
+console.log('3. Run the SQL script from scripts/create_swap_proposals_table.sql\n');
+
+console.log('For listing_images table:');
+console.log('1. Open the Supabase dashboard at https://app.supabase.com');
+console.log('2. Select your project and go to "SQL Editor"');
+console.log('3. Run the SQL script from scripts/create_listing_images_table.sql\n');
+
+console.log('For saved_searches table:');
+console.log('1. Open the Supabase dashboard at https://app.supabase.com');
+console.log('2. Select your project and go to "SQL Editor"');
+console.log('3. Run the SQL script from scripts/create_saved_searches_table.sql\n');
+
+console.log('For wanted_books & wanted_book_matches tables:');
+console.log('1. Open the Supabase dashboard at https://app.supabase.com');
+console.log('2. Select your project and go to "SQL Editor"');
+console.log('3. Run the SQL script from scripts/create_wanted_books_tables.sql\n');
+
+console.log('For notifications table:');
+console.log('1. Open the Supabase dashboard at https://app.supabase.com');
+console.log('2. Select your project and go to "SQL Editor"');
+console.log('3. Run the SQL script from scripts/create_notifications_table.sql\n');
+
+console.log('For reports table:');
+console.log('1. Open the Supabase dashboard at https://app.supabase.com');
+console.log('2. Select your project and go to "SQL Editor"');
+console.log('3. Run the SQL script from scripts/create_reports_table.sql\n');
+
+console.log('For blocked_users table:');
+console.log('1. Open the Supabase dashboard at https://app.supabase.com');
+console.log('2. Select your project and go to "SQL Editor"');
+console.log('3. Run the SQL script from scripts/create_blocked_users_table.sql\n');
+
 console.log('Until the tables are created, the app will fall back to using mock data.');
 console.log('This ensures you can still use and test the app functionality.\n');
 
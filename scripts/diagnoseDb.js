@@ -14,7 +14,16 @@ async function runDiagnostic() {
       'user_profiles',
       'saved_items',
       'conversations',
-      'messages'
+      'messages',
+      'reviews',
+      'swap_proposals',
+      'listing_images',
+      'saved_searches',
+      'wanted_books',
+      'wanted_book_matches',
+      'notifications',
+      'reports',
+      'blocked_users'
     ];
     
     const results = {};
@@ -48,6 +57,42 @@ async function runDiagnostic() {
         messages: {
           script: 'scripts/create_conversation_tables.sql',
           description: 'Create the conversations and messages tables for messaging functionality'
+        },
+        reviews: {
+          script: 'scripts/create_reviews_table.sql',
+          description: 'Create the reviews table for seller ratings and reviews'
+        },
+        swap_proposals: {
+          script: 'scripts/create_swap_proposals_table.sql',
+          description: 'Create the swap_proposals table for book swap proposals'
+        },
+        listing_images: {
+          script: 'scripts/create_listing_images_table.sql',
+          description: 'Create the listing_images table for Listing photos'
+        },
+        saved_searches: {
+          script: 'scripts/create_saved_searches_table.sql',
+          description: 'Create the saved_searches table for saved searches and new-match alerts'
+        },
+        wanted_books: {
+          script: 'scripts/create_wanted_books_tables.sql',
+          description: 'Create the wanted_books and wanted_book_matches tables for wishlist matching'
+        },
+        wanted_book_matches: {
+          script: 'scripts/create_wanted_books_tables.sql',
+          description: 'Create the wanted_books and wanted_book_matches tables for wishlist matching'
+        },
+        notifications: {
+          script: 'scripts/create_notifications_table.sql',
+          description: 'Create the notifications table for the notification center'
+        },
+        reports: {
+          script: 'scripts/create_reports_table.sql',
+          description: 'Create the reports table for reports of listings, users and messages'
+        },
+        blocked_users: {
+          script: 'scripts/create_blocked_users_table.sql',
+          description: 'Create the blocked_users table for blocked users'
         }
       };
       
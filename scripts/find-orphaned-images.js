@@ -0,0 +1,193 @@
+#!/usr/bin/env node
+
+/**
+ * Find images in Supabase Storage that no database row references any more,
+ * e.g. photos of deleted listings or files left behind by failed uploads.
+ *
+ * Usage:
+ *   node scripts/find-orphaned-images.js           Report orphaned images
+ *   node scripts/find-orphaned-images.js --delete  Report and delete them
+ *
+ * Listing every folder of a bucket needs the service role key, so set
+ * SUPABASE_SERVICE_ROLE_KEY (never ship this key in the app).
+ */
+
+// Import polyfill properly for Node.js environment
+require('react-native-url-polyfill/auto.js');
+const { createClient } = require('@supabase/supabase-js');
+
+const supabaseUrl = process.env.EXPO_PUBLIC_SUPABASE_URL || 'https://rbqrtnlqylbujgdyrztr.supabase.co';
+const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+// Files younger than this may belong to a listing that is still being saved
+const GRACE_PERIOD_HOURS = 24;
+const PAGE_SIZE = 1000;
+
+// Supabase creates this file to keep an empty folder around; it is not an image
+const FOLDER_PLACEHOLDER = '.emptyFolderPlaceholder';
+
+// Each bucket and the columns that reference files in it
+const BUCKETS = [
+  {
+    bucket: 'book-images',
+    sources: [
+      { table: 'book_listings', columns: ['image_url', 'image_path', 'thumbnail_url', 'thumbnail_path'] },
+      { table: 'listing_images', columns: ['image_url', 'image_path', 'thumbnail_url', 'thumbnail_path'] },
+    ],
+  },
+  {
+    bucket: 'avatars',
+    sources: [
+      { table: 'user_profiles', columns: ['profile_image'] },
+    ],
+  },
+];
+
+/**
+ * Get the path of a file within a bucket from a stored path or public URL
+ */
+function toStoragePath(value, bucket) {
+  if (!value) return null;
+  if (!/^https?:\/\//.test(value)) return value;
+
+  const marker = `/${bucket}/`;
+  const index = value.indexOf(marker);
+  return index === -1 ? null : decodeURIComponent(value.slice(index + marker.length));
+}
+
+/**
+ * List every file in a bucket, walking into folders and skipping folder placeholders
+ */
+async function listAllFiles(supabase, bucket, prefix = '') {
+  const files = [];
+
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const { data, error } = await supabase.storage
+      .from(bucket)
+      .list(prefix, { limit: PAGE_SIZE, offset });
+
+    if (error) throw error;
+
+    for (const entry of data) {
+      const path = prefix ? `${prefix}/${entry.name}` : entry.name;
+      if (entry.id === null) {
+        // Folders have no id
+        files.push(...await listAllFiles(supabase, bucket, path));
+      } else if (entry.name !== FOLDER_PLACEHOLDER) {
+        files.push({
+          path,
+          size: (entry.metadata && entry.metadata.size) || 0,
+          createdAt: new Date(entry.created_at),
+        });
+      }
+    }
+
+    if (data.length < PAGE_SIZE) {
+      return files;
+    }
+  }
+}
+
+/**
+ * Collect the paths in a bucket that the database still references
+ */
+async function getReferencedPaths(supabase, bucket, sources) {
+  const referenced = new Set();
+
+  for (const { table, columns } of sources) {
+    for (let from = 0; ; from += PAGE_SIZE) {
+      const { data, error } = await supabase
+        .from(table)
+        .select(columns.join(', '))
+        .range(from, from + PAGE_SIZE - 1);
+
+      if (error) {
+        if (error.code === '42P01') {
+          console.log(`  ${table} table does not exist, skipping`);
+          break;
+        }
+        throw error;
+      }
+
+      for (const row of data) {
+        for (const column of columns) {
+          const path = toStoragePath(row[column], bucket);
+          if (path) referenced.add(path);
+        }
+      }
+
+      if (data.length < PAGE_SIZE) break;
+    }
+  }
+
+  return referenced;
+}
+
+function formatBytes(bytes) {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+async function findOrphanedImages() {
+  const shouldDelete = process.argv.includes('--delete');
+
+  console.log('\n====== 2nd Hand Book App - Orphaned Image Check ======\n');
+
+  if (!serviceRoleKey) {
+    console.error('SUPABASE_SERVICE_ROLE_KEY is not set.');
+    console.error('Find it in the Supabase dashboard under Project Settings > API and run:');
+    console.error('  SUPABASE_SERVICE_ROLE_KEY=<key> npm run storage-check\n');
+    process.exitCode = 1;
+    return;
+  }
+
+  const supabase = createClient(supabaseUrl, serviceRoleKey, {
+    auth: { persistSession: false },
+  });
+  const cutoff = Date.now() - GRACE_PERIOD_HOURS * 60 * 60 * 1000;
+  let totalOrphans = 0;
+  let totalBytes = 0;
+
+  for (const { bucket, sources } of BUCKETS) {
+    console.log(`Checking bucket ${bucket}...`);
+
+    const [files, referenced] = await Promise.all([
+      listAllFiles(supabase, bucket),
+      getReferencedPaths(supabase, bucket, sources),
+    ]);
+    const orphans = files.filter(file => !referenced.has(file.path) && file.createdAt.getTime() < cutoff);
+    const bytes = orphans.reduce((sum, file) => sum + file.size, 0);
+
+    console.log(`  ${files.length} files, ${orphans.length} orphaned (${formatBytes(bytes)})`);
+    for (const file of orphans) {
+      console.log(`  - ${file.path} (${formatBytes(file.size)}, uploaded ${file.createdAt.toISOString()})`);
+    }
+
+    if (shouldDelete && orphans.length > 0) {
+      for (let i = 0; i < orphans.length; i += PAGE_SIZE) {
+        const { error } = await supabase.storage
+          .from(bucket)
+          .remove(orphans.slice(i, i + PAGE_SIZE).map(file => file.path));
+
+        if (error) throw error;
+      }
+      console.log(`  Deleted ${orphans.length} orphaned files from ${bucket}`);
+    }
+
+    totalOrphans += orphans.length;
+    totalBytes += bytes;
+    console.log('');
+  }
+
+  console.log(`Total: ${totalOrphans} orphaned files (${formatBytes(totalBytes)})`);
+  if (totalOrphans > 0 && !shouldDelete) {
+    console.log('Run again with --delete to remove them.');
+  }
+  console.log(`Files uploaded in the last ${GRACE_PERIOD_HOURS} hours are never reported.\n`);
+}
+
+findOrphanedImages().catch(error => {
+  console.error('Orphaned image check failed:', error);
+  process.exitCode = 1;
+});
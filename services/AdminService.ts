@@ -0,0 +1,285 @@
+import { repositories, TablePage } from '../repositories';
+import { getUserId } from '../utils/auth';
+import { BookService, BookListing } from './BookService';
+import type { Report, ReportStatus } from './ReportService';
+import type { Transaction } from './TransactionService';
+
+// Rows on each page of the admin tables
+export const ADMIN_PAGE_SIZE = 20;
+
+// Which listings the admin listings table shows: all of them, those waiting for
+// approval, or those hidden after being reported
+export type AdminListingFilter = 'all' | 'pending' | 'hidden';
+
+export interface AdminListing extends BookListing {
+  sellerName: string;
+}
+
+export interface AdminUser {
+  id: string;
+  name: string;
+  email?: string;
+  joinDate?: string;
+  isAdmin: boolean;
+  suspendedAt: string | null;
+}
+
+export interface AdminReport extends Report {
+  reporterName: string;
+  // The reported user, or the sender of a reported message
+  reportedUserName?: string;
+  listingTitle?: string;
+}
+
+export interface AdminTransaction extends Transaction {
+  sellerName: string;
+  buyerName: string;
+}
+
+/**
+ * Throw unless the current user is an admin. The database enforces this too;
+ * checking first gives a clear error instead of an empty result.
+ */
+async function requireAdmin(): Promise<string> {
+  const userId = await getUserId();
+  const profile = await repositories.users.getById(userId);
+
+  if (!profile?.is_admin) {
+    throw new Error('Only admins can do this');
+  }
+
+  return userId;
+}
+
+/**
+ * Names of the users with the given IDs, by ID
+ */
+async function getUserNames(ids: (string | null | undefined)[]): Promise<Map<string, string>> {
+  const uniqueIds = [...new Set(ids.filter((id): id is string => !!id))];
+  const profiles = await repositories.users.getByIds(uniqueIds);
+  return new Map(profiles.map(profile => [profile.id, profile.name || 'Unknown User']));
+}
+
+export const AdminService = {
+  /**
+   * Whether the current user can use the admin dashboard
+   */
+  async isAdmin(): Promise<boolean> {
+    const user = await repositories.auth.getSessionUser();
+
+    if (!user) {
+      return false;
+    }
+
+    try {
+      const profile = await repositories.users.getById(user.id);
+      return !!profile?.is_admin;
+    } catch (error) {
+      console.error('Error checking admin role:', error);
+      return false;
+    }
+  },
+
+  /**
+   * One page of the listings matching a filter, newest first
+   */
+  async getListings(page: number, filter: AdminListingFilter = 'all'): Promise<TablePage<AdminListing>> {
+    await requireAdmin();
+
+    try {
+      const result = await repositories.listings.listAll(filter, { page, pageSize: ADMIN_PAGE_SIZE });
+      const names = await getUserNames(result.rows.map(listing => listing.seller_id));
+
+      return {
+        ...result,
+        rows: result.rows.map(listing => ({
+          ...listing,
+          sellerName: names.get(listing.seller_id) || 'Unknown User'
+        }))
+      };
+    } catch (error) {
+      console.error('Error fetching listings for admin:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Show listings to buyers: approve those waiting for review, and show those hidden
+   * after being reported again, dismissing their open reports
+   */
+  async approveListings(ids: string[]): Promise<void> {
+    await requireAdmin();
+
+    try {
+      await repositories.listings.setModeration(ids, 'approved', null);
+      await repositories.listings.setHidden(ids, false);
+      await repositories.reports.closeForListings(ids, 'dismissed');
+    } catch (error) {
+      console.error('Error approving listings:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Keep listings from buyers, telling their sellers why. Their open reports are resolved.
+   */
+  async rejectListings(ids: string[], reason: string): Promise<void> {
+    await requireAdmin();
+
+    if (!reason.trim()) {
+      throw new Error('Please give a reason for rejecting the listing');
+    }
+
+    try {
+      await repositories.listings.setModeration(ids, 'rejected', reason.trim());
+      await repositories.reports.closeForListings(ids, 'resolved');
+    } catch (error) {
+      console.error('Error rejecting listings:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Delete listings, telling users who saved them as a seller deleting them would.
+   * Their reports go with them.
+   */
+  async removeListings(ids: string[]): Promise<void> {
+    await requireAdmin();
+
+    for (const id of ids) {
+      await BookService.deleteListing(id);
+    }
+  },
+
+  /**
+   * One page of all users, most recently joined first
+   */
+  async getUsers(page: number): Promise<TablePage<AdminUser>> {
+    await requireAdmin();
+
+    try {
+      const result = await repositories.users.list({ page, pageSize: ADMIN_PAGE_SIZE });
+
+      return {
+        ...result,
+        rows: result.rows.map(profile => ({
+          id: profile.id,
+          name: profile.name || 'Unknown User',
+          email: profile.email,
+          joinDate: profile.join_date || profile.created_at,
+          isAdmin: !!profile.is_admin,
+          suspendedAt: profile.suspended_at || null
+        }))
+      };
+    } catch (error) {
+      console.error('Error fetching users for admin:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Stop users from listing books and sending messages
+   */
+  async suspendUsers(ids: string[]): Promise<void> {
+    const adminId = await requireAdmin();
+
+    if (ids.includes(adminId)) {
+      throw new Error('You cannot suspend yourself');
+    }
+
+    try {
+      await repositories.users.setSuspended(ids, true);
+    } catch (error) {
+      console.error('Error suspending users:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Lift the suspension of users
+   */
+  async restoreUsers(ids: string[]): Promise<void> {
+    await requireAdmin();
+
+    try {
+      await repositories.users.setSuspended(ids, false);
+    } catch (error) {
+      console.error('Error restoring users:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * One page of reports with a status, or all of them, newest first
+   */
+  async getReports(page: number, status: ReportStatus | null = 'open'): Promise<TablePage<AdminReport>> {
+    await requireAdmin();
+
+    try {
+      const result = await repositories.reports.listAll(status, { page, pageSize: ADMIN_PAGE_SIZE });
+      const [names, listings] = await Promise.all([
+        getUserNames(result.rows.flatMap(report => [report.reporter_id, report.reported_user_id])),
+        repositories.listings.getByIds(
+          result.rows.map(report => report.listing_id).filter((id): id is string => !!id)
+        )
+      ]);
+
+      return {
+        ...result,
+        rows: result.rows.map(report => ({
+          ...report,
+          reporterName: names.get(report.reporter_id) || 'Unknown User',
+          reportedUserName: report.reported_user_id
+            ? names.get(report.reported_user_id) || 'Unknown User'
+            : undefined,
+          listingTitle: report.listing_id
+            ? listings.find(listing => listing.id === report.listing_id)?.title || 'Removed listing'
+            : undefined
+        }))
+      };
+    } catch (error) {
+      console.error('Error fetching reports for admin:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Close reports after acting on them
+   */
+  async resolveReports(ids: string[]): Promise<void> {
+    await requireAdmin();
+    await repositories.reports.setStatus(ids, 'resolved');
+  },
+
+  /**
+   * Close reports that needed no action
+   */
+  async dismissReports(ids: string[]): Promise<void> {
+    await requireAdmin();
+    await repositories.reports.setStatus(ids, 'dismissed');
+  },
+
+  /**
+   * One page of the log of completed sales and exchanges, newest first
+   */
+  async getTransactions(page: number): Promise<TablePage<AdminTransaction>> {
+    await requireAdmin();
+
+    try {
+      const result = await repositories.transactions.listAll({ page, pageSize: ADMIN_PAGE_SIZE });
+      const names = await getUserNames(result.rows.flatMap(transaction => [transaction.seller_id, transaction.buyer_id]));
+
+      return {
+        ...result,
+        rows: result.rows.map(transaction => ({
+          ...transaction,
+          sellerName: names.get(transaction.seller_id) || 'Unknown User',
+          buyerName: names.get(transaction.buyer_id) || 'Unknown User'
+        }))
+      };
+    } catch (error) {
+      console.error('Error fetching transactions for admin:', error);
+      throw error;
+    }
+  }
+};
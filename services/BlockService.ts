@@ -0,0 +1,102 @@
+import { repositories } from '../repositories';
+import { getUserId } from '../utils/auth';
+
+export interface BlockedUser {
+  blocker_id: string;
+  blocked_id: string;
+  created_at: string;
+}
+
+// A blocked user as shown in the list for unblocking them
+export interface BlockedUserWithProfile {
+  id: string;
+  name: string;
+  profileImage?: string;
+  blockedAt: string;
+}
+
+export const BlockService = {
+  /**
+   * Block a user. Neither of you can message the other any more, their
+   * conversations are hidden and their listings no longer show up for you.
+   */
+  async blockUser(userId: string): Promise<void> {
+    const blockerId = await getUserId();
+
+    if (!blockerId) {
+      throw new Error('User must be logged in to block users');
+    }
+
+    if (blockerId === userId) {
+      throw new Error('You cannot block yourself');
+    }
+
+    try {
+      await repositories.blocks.block(blockerId, userId);
+    } catch (error) {
+      console.error('Error blocking user:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Lift a block
+   */
+  async unblockUser(userId: string): Promise<void> {
+    const blockerId = await getUserId();
+
+    try {
+      await repositories.blocks.unblock(blockerId, userId);
+    } catch (error) {
+      console.error('Error unblocking user:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * IDs of the users the current user blocked; none when signed out, so
+   * listings can still be browsed
+   */
+  async getBlockedUserIds(): Promise<string[]> {
+    const user = await repositories.auth.getSessionUser();
+
+    if (!user) {
+      return [];
+    }
+
+    const blocks = await repositories.blocks.listBlocked(user.id);
+    return blocks.map(block => block.blocked_id);
+  },
+
+  /**
+   * The users the current user blocked, most recent first
+   */
+  async getBlockedUsers(): Promise<BlockedUserWithProfile[]> {
+    const blockerId = await getUserId();
+
+    try {
+      const blocks = await repositories.blocks.listBlocked(blockerId);
+      const profiles = await repositories.users.getByIds(blocks.map(block => block.blocked_id));
+
+      return blocks.map(block => {
+        const profile = profiles.find(item => item.id === block.blocked_id);
+        return {
+          id: block.blocked_id,
+          name: profile?.name || 'Unknown User',
+          profileImage: profile?.profile_image,
+          blockedAt: block.created_at,
+        };
+      });
+    } catch (error) {
+      console.error('Error fetching blocked users:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Whether the current user blocked another user
+   */
+  async isBlocked(userId: string): Promise<boolean> {
+    return (await this.getBlockedUserIds()).includes(userId);
+  }
+};
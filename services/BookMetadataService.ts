@@ -0,0 +1,68 @@
+import { CreateBookListing } from './BookService';
+import { mockBookMetadata } from '../utils/mockData';
+import { toIsbn13 } from '../utils/isbn';
+
+// Listing fields a metadata lookup can fill in. The seller still sets price,
+// condition and the rest.
+export type BookMetadata = Pick<CreateBookListing, 'title' | 'author'> &
+  Partial<Pick<CreateBookListing, 'publisher' | 'edition' | 'publication_year' | 'category' | 'description'>>;
+
+/**
+ * A source of book details by ISBN. Providers are tried in order until one
+ * returns a result, so an online catalogue can be placed in front of the
+ * offline fixtures.
+ */
+export interface BookMetadataProvider {
+  name: string;
+  // Receives a normalized ISBN-13; resolves to null when the book is unknown
+  lookup(isbn13: string): Promise<BookMetadata | null>;
+}
+
+/**
+ * Looks books up in the bundled fixtures, so autofill works offline and in development
+ */
+export const fixtureMetadataProvider: BookMetadataProvider = {
+  name: 'fixtures',
+  async lookup(isbn13: string): Promise<BookMetadata | null> {
+    return mockBookMetadata[isbn13] || null;
+  },
+};
+
+let providers: BookMetadataProvider[] = [fixtureMetadataProvider];
+
+export const BookMetadataService = {
+  /**
+   * Replace the providers used for lookups, in priority order
+   */
+  setProviders(newProviders: BookMetadataProvider[]): void {
+    providers = [...newProviders];
+  },
+
+  getProviders(): BookMetadataProvider[] {
+    return [...providers];
+  },
+
+  /**
+   * Find book details for an ISBN-10 or ISBN-13. Returns null when the ISBN is
+   * invalid or no provider knows the book. A provider that fails is skipped.
+   */
+  async lookupIsbn(isbn: string): Promise<(BookMetadata & { isbn: string }) | null> {
+    const isbn13 = toIsbn13(isbn);
+    if (!isbn13) {
+      return null;
+    }
+
+    for (const provider of providers) {
+      try {
+        const metadata = await provider.lookup(isbn13);
+        if (metadata) {
+          return { ...metadata, isbn: isbn13 };
+        }
+      } catch (error) {
+        console.error(`Error looking up ISBN with ${provider.name} provider:`, error);
+      }
+    }
+
+    return null;
+  },
+};
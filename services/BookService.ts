@@ -1,8 +1,37 @@
-import { supabase } from '../config/supabase';
-import { mockListings, getMockListingById, getMockListingsBySeller } from '../utils/mockData';
-
-// Define a constant to determine whether to use mock data or real API
-const USE_MOCK_DATA = false; // Set to false to use real API
+import { repositories, ListingPageRequest } from '../repositories';
+import { GeoPoint } from '../utils/location';
+import { assertNotSuspended } from '../utils/auth';
+import { ImageService } from './ImageService';
+import { OfflineService } from './OfflineService';
+import { BlockService } from './BlockService';
+import { parseSearchQuery } from '../utils/search';
+import { CACHE_KEYS, findCachedListing, readCache, writeCache } from '../utils/offlineCache';
+
+// Only active listings are shown to buyers. Listings become 'traded' when a swap
+// proposal involving them is accepted; sellers manage the other states themselves.
+export type ListingStatus = 'active' | 'reserved' | 'sold' | 'traded' | 'archived';
+
+// Legal status changes. Sold and traded listings can only be archived, and an
+// archived listing can be relisted.
+export const LISTING_STATUS_TRANSITIONS: Record<ListingStatus, ListingStatus[]> = {
+  active: ['reserved', 'sold', 'traded', 'archived'],
+  reserved: ['active', 'sold', 'traded', 'archived'],
+  sold: ['archived'],
+  traded: ['archived'],
+  archived: ['active'],
+};
+
+// Statuses only recording a transaction sets: a sale from the chat with the buyer,
+// or an accepted swap. Both users' history and the seller's sales count rely on it.
+export const TRANSACTION_STATUSES: ListingStatus[] = ['sold', 'traded'];
+
+// New listings wait for an admin before buyers can see them. Listings created
+// before the approval queue existed have no state and count as approved.
+export type ModerationState = 'pending' | 'approved' | 'rejected';
+
+// Sellers with this many approved listings and none rejected skip the queue
+// (mirrors set_book_listing_moderation_state in scripts/create_listing_moderation.sql)
+export const AUTO_APPROVE_AFTER_APPROVED_LISTINGS = 3;
 
 // Define the BookListing type based on our database schema
 export interface BookListing {
@@ -12,7 +41,13 @@ export interface BookListing {
   price: number;
   condition: string;
   description?: string;
-  image_url?: string;
+  // The cover photo; the full gallery is in listing_images
+  image_url?: string | null;
+  // A small version of the cover for list cards
+  thumbnail_url?: string | null;
+  // Where the cover and its thumbnail are stored in the book-images bucket
+  image_path?: string | null;
+  thumbnail_path?: string | null;
   category?: string;
   edition?: string;
   isbn?: string;
@@ -20,8 +55,20 @@ export interface BookListing {
   publication_year?: number;
   is_negotiable?: boolean;
   exchange_option?: boolean;
+  latitude?: number | null;
+  longitude?: number | null;
+  status?: ListingStatus;
+  // Set when enough users reported the listing; only its seller can still see it
+  hidden_at?: string | null;
+  moderation_state?: ModerationState;
+  // Why an admin rejected the listing, shown to its seller
+  moderation_reason?: string | null;
   seller_id: string;
   created_at: string;
+  // Only present on results of a location-based search
+  distance_km?: number;
+  // Only present on results of a text search
+  search_rank?: number;
 }
 
 // Define the CreateBookListing type for adding new listings
@@ -39,9 +86,26 @@ export interface CreateBookListing {
   publication_year?: number;
   is_negotiable?: boolean;
   exchange_option?: boolean;
+  latitude?: number | null;
+  longitude?: number | null;
   seller_id: string;
+  // Set by BookService.createListing from the seller's history
+  moderation_state?: ModerationState;
 }
 
+// Fields that can be changed on an existing listing
+export type BookListingUpdate = Omit<Partial<CreateBookListing>, 'image_url'> & {
+  status?: ListingStatus;
+  // null clears the cover photo
+  image_url?: string | null;
+  image_path?: string | null;
+  thumbnail_url?: string | null;
+  thumbnail_path?: string | null;
+  // Sellers can only send a rejected listing back for review
+  moderation_state?: ModerationState;
+  moderation_reason?: string | null;
+};
+
 export interface BookFilterOptions {
   categories?: string[];
   conditions?: string[];
@@ -49,72 +113,119 @@ export interface BookFilterOptions {
   maxPrice?: number;
   isNegotiable?: boolean;
   exchangeOption?: boolean;
+  center?: GeoPoint;
+  radiusKm?: number;
+  // Sellers whose listings are left out; BookService fills this in from the block list
+  excludeSellerIds?: string[];
+}
+
+// Position in the listing feed. Feeds are ordered newest first, with the id
+// breaking ties between listings created at the same moment.
+export interface ListingCursor {
+  created_at: string;
+  id: string;
+  // Only set on search results, which are ordered by relevance first
+  rank?: number;
+  // Only set on location results, which are ordered nearest first
+  distance_km?: number;
+}
+
+export interface ListingPageOptions {
+  cursor?: ListingCursor | null;
+  limit?: number;
+}
+
+export interface ListingPage {
+  listings: BookListing[];
+  // null once there are no more listings to load
+  nextCursor: ListingCursor | null;
+}
+
+export const LISTING_PAGE_SIZE = 20;
+
+
+export function canTransitionListingStatus(from: ListingStatus, to: ListingStatus): boolean {
+  return LISTING_STATUS_TRANSITIONS[from].includes(to);
+}
+
+/**
+ * Listings created before statuses existed have no status and count as active
+ */
+export function getListingStatus(listing: Pick<BookListing, 'status'>): ListingStatus {
+  return listing.status || 'active';
+}
+
+/**
+ * Listings created before the approval queue existed have no state and count as approved
+ */
+export function getModerationState(listing: Pick<BookListing, 'moderation_state'>): ModerationState {
+  return listing.moderation_state || 'approved';
+}
+
+/**
+ * Whether a seller's new listing can skip the approval queue, given their earlier listings
+ */
+function canAutoApprove(sellerListings: BookListing[]): boolean {
+  const states = sellerListings.map(getModerationState);
+  return !states.includes('rejected') &&
+    states.filter(state => state === 'approved').length >= AUTO_APPROVE_AFTER_APPROVED_LISTINGS;
+}
+
+/**
+ * Add the sellers the current user blocked to the filters, so their listings are left out
+ */
+async function withoutBlockedSellers(filters: BookFilterOptions): Promise<BookFilterOptions> {
+  const blockedIds = await BlockService.getBlockedUserIds();
+  return blockedIds.length > 0 ? { ...filters, excludeSellerIds: blockedIds } : filters;
+}
+
+function toPageRequest({ cursor, limit = LISTING_PAGE_SIZE }: ListingPageOptions): ListingPageRequest {
+  return { cursor: cursor || null, limit };
 }
 
 export const BookService = {
   /**
-   * Fetch all book listings
+   * Fetch one page of active book listings, newest first
    */
-  async getListings(): Promise<BookListing[]> {
-    if (USE_MOCK_DATA) {
-      return new Promise(resolve => {
-        // Simulate network delay
-        setTimeout(() => {
-          resolve(mockListings);
-        }, 800);
-      });
-    }
-
+  async getListings(options: ListingPageOptions = {}): Promise<ListingPage> {
     try {
-      const { data, error } = await supabase
-        .from('book_listings')
-        .select('*')
-        .order('created_at', { ascending: false });
-
-      if (error) {
-        throw error;
+      const page = await repositories.listings.listActive(await withoutBlockedSellers({}), toPageRequest(options));
+      if (!options.cursor) {
+        // Keep the first page for offline use
+        writeCache(CACHE_KEYS.listingFeed, page.listings);
       }
-
-      return data || [];
+      return page;
     } catch (error) {
+      // Offline, show the last first page we saw; there is nothing to page through after it
+      if (!options.cursor && OfflineService.isOfflineError(error)) {
+        const cachedListings = await readCache<BookListing[]>(CACHE_KEYS.listingFeed);
+        if (cachedListings) {
+          return { listings: cachedListings, nextCursor: null };
+        }
+      }
+
       console.error('Error fetching book listings:', error);
       throw error;
     }
   },
 
   /**
-   * Fetch book listings by search term
+   * Fetch one page of book listings matching a search term and the filters, most relevant first.
+   * Supports quoted phrases ("data structures") and prefix matches (algo*).
    */
-  async searchListings(searchTerm: string): Promise<BookListing[]> {
-    if (USE_MOCK_DATA) {
-      return new Promise(resolve => {
-        // Simulate network delay
-        setTimeout(() => {
-          const filteredListings = mockListings.filter(listing => {
-            const searchTermLower = searchTerm.toLowerCase();
-            return (
-              listing.title.toLowerCase().includes(searchTermLower) ||
-              listing.author.toLowerCase().includes(searchTermLower) ||
-              (listing.description && listing.description.toLowerCase().includes(searchTermLower))
-            );
-          });
-          resolve(filteredListings);
-        }, 800);
-      });
+  async searchListings(
+    searchTerm: string,
+    options: ListingPageOptions = {},
+    filters: BookFilterOptions = {}
+  ): Promise<ListingPage> {
+    const terms = parseSearchQuery(searchTerm);
+
+    if (terms.length === 0) {
+      return { listings: [], nextCursor: null };
     }
 
     try {
-      const { data, error } = await supabase
-        .from('book_listings')
-        .select('*')
-        .or(`title.ilike.%${searchTerm}%,author.ilike.%${searchTerm}%,description.ilike.%${searchTerm}%`)
-        .order('created_at', { ascending: false });
-
-      if (error) {
-        throw error;
-      }
-
-      return data || [];
+      return await repositories.listings.search(terms, await withoutBlockedSellers(filters), toPageRequest(options));
     } catch (error) {
       console.error('Error searching book listings:', error);
       throw error;
@@ -122,33 +233,14 @@ export const BookService = {
   },
 
   /**
-   * Fetch book listings by category
+   * Fetch one page of book listings in a category
    */
-  async getListingsByCategory(category: string): Promise<BookListing[]> {
-    if (USE_MOCK_DATA) {
-      return new Promise(resolve => {
-        // Simulate network delay
-        setTimeout(() => {
-          const filteredListings = mockListings.filter(listing => 
-            listing.category === category
-          );
-          resolve(filteredListings);
-        }, 800);
-      });
-    }
-
+  async getListingsByCategory(category: string, options: ListingPageOptions = {}): Promise<ListingPage> {
     try {
-      const { data, error } = await supabase
-        .from('book_listings')
-        .select('*')
-        .eq('category', category)
-        .order('created_at', { ascending: false });
-
-      if (error) {
-        throw error;
-      }
-
-      return data || [];
+      return await repositories.listings.listActive(
+        await withoutBlockedSellers({ categories: [category] }),
+        toPageRequest(options)
+      );
     } catch (error) {
       console.error('Error fetching book listings by category:', error);
       throw error;
@@ -159,66 +251,37 @@ export const BookService = {
    * Fetch a single book listing by ID
    */
   async getListingById(id: string): Promise<BookListing | null> {
-    if (USE_MOCK_DATA) {
-      return new Promise(resolve => {
-        // Simulate network delay
-        setTimeout(() => {
-          const listing = getMockListingById(id);
-          resolve(listing || null);
-        }, 800);
-      });
-    }
-
     try {
-      const { data, error } = await supabase
-        .from('book_listings')
-        .select('*')
-        .eq('id', id)
-        .single();
-
-      if (error) {
-        throw error;
+      const listing = await repositories.listings.getById(id);
+      if (listing) {
+        writeCache(CACHE_KEYS.listing(id), listing);
       }
-
-      return data;
+      return listing;
     } catch (error) {
+      if (OfflineService.isOfflineError(error)) {
+        const cachedListing = await findCachedListing(id);
+        if (cachedListing) {
+          return cachedListing;
+        }
+      }
+
       console.error('Error fetching book listing by ID:', error);
       throw error;
     }
   },
 
   /**
-   * Create a new book listing
+   * Create a new book listing. It waits for approval unless the seller has a
+   * history of approved listings.
    */
   async createListing(listing: CreateBookListing): Promise<BookListing> {
-    if (USE_MOCK_DATA) {
-      return new Promise(resolve => {
-        // Simulate network delay
-        setTimeout(() => {
-          const newListing: BookListing = {
-            id: `mock-${Math.random().toString(36).substring(2, 15)}`,
-            ...listing,
-            created_at: new Date().toISOString()
-          };
-          // In a real app we would add this to the mockListings array
-          // Here we just return it
-          resolve(newListing);
-        }, 800);
-      });
-    }
-
     try {
-      const { data, error } = await supabase
-        .from('book_listings')
-        .insert(listing)
-        .select()
-        .single();
-
-      if (error) {
-        throw error;
-      }
-
-      return data;
+      await assertNotSuspended(listing.seller_id);
+      const sellerListings = await repositories.listings.listBySeller(listing.seller_id);
+      return await repositories.listings.create({
+        ...listing,
+        moderation_state: canAutoApprove(sellerListings) ? 'approved' : 'pending'
+      });
     } catch (error) {
       console.error('Error creating book listing:', error);
       throw error;
@@ -226,43 +289,23 @@ export const BookService = {
   },
 
   /**
-   * Update an existing book listing
+   * Update an existing book listing. Editing a rejected listing sends it back for review.
+   * Users who saved it are told by the database when the price goes down or it is sold,
+   * traded or archived.
    */
-  async updateListing(id: string, updates: Partial<CreateBookListing>): Promise<BookListing> {
-    if (USE_MOCK_DATA) {
-      return new Promise((resolve, reject) => {
-        // Simulate network delay
-        setTimeout(() => {
-          const listingIndex = mockListings.findIndex(listing => listing.id === id);
-          if (listingIndex === -1) {
-            reject(new Error('Listing not found'));
-            return;
-          }
-          
-          // Create updated listing (in a real app this would modify the mockListings array)
-          const updatedListing = {
-            ...mockListings[listingIndex],
-            ...updates
-          };
-          
-          resolve(updatedListing);
-        }, 800);
-      });
-    }
-
+  async updateListing(id: string, updates: BookListingUpdate): Promise<BookListing> {
     try {
-      const { data, error } = await supabase
-        .from('book_listings')
-        .update(updates)
-        .eq('id', id)
-        .select()
-        .single();
-
-      if (error) {
-        throw error;
-      }
+      const previous = await repositories.listings.getById(id);
+      const isResubmission = !!previous &&
+        getModerationState(previous) === 'rejected' &&
+        updates.status === undefined;
+
+      const updated = await repositories.listings.update(
+        id,
+        isResubmission ? { ...updates, moderation_state: 'pending', moderation_reason: null } : updates
+      );
 
-      return data;
+      return updated;
     } catch (error) {
       console.error('Error updating book listing:', error);
       throw error;
@@ -270,29 +313,35 @@ export const BookService = {
   },
 
   /**
-   * Delete a book listing
+   * Move a listing to a new status, rejecting changes that are not allowed.
+   * Sold and traded are set by TransactionService and ExchangeService instead.
    */
-  async deleteListing(id: string): Promise<void> {
-    if (USE_MOCK_DATA) {
-      return new Promise(resolve => {
-        // Simulate network delay
-        setTimeout(() => {
-          // In a real app, we would filter out the listing from the mockListings array
-          // Here we just resolve with no action
-          resolve();
-        }, 800);
-      });
+  async updateListingStatus(id: string, status: ListingStatus): Promise<BookListing> {
+    if (TRANSACTION_STATUSES.includes(status)) {
+      throw new Error('Record the sale from your conversation with the buyer');
     }
 
-    try {
-      const { error } = await supabase
-        .from('book_listings')
-        .delete()
-        .eq('id', id);
+    const listing = await this.getListingById(id);
 
-      if (error) {
-        throw error;
-      }
+    if (!listing) {
+      throw new Error('Listing not found');
+    }
+
+    const currentStatus = getListingStatus(listing);
+    if (!canTransitionListingStatus(currentStatus, status)) {
+      throw new Error(`A ${currentStatus} listing cannot be marked as ${status}`);
+    }
+
+    return this.updateListing(id, { status });
+  },
+
+  /**
+   * Delete a book listing and its photos. The database tells users who saved it.
+   */
+  async deleteListing(id: string): Promise<void> {
+    try {
+      const photos = await repositories.listings.delete(id);
+      await ImageService.deleteSupersededImages(photos, []);
     } catch (error) {
       console.error('Error deleting book listing:', error);
       throw error;
@@ -300,31 +349,11 @@ export const BookService = {
   },
 
   /**
-   * Get listings by seller ID
+   * Get listings by seller ID, optionally limited to some statuses
    */
-  async getListingsBySeller(sellerId: string): Promise<BookListing[]> {
-    if (USE_MOCK_DATA) {
-      return new Promise(resolve => {
-        // Simulate network delay
-        setTimeout(() => {
-          const sellerListings = getMockListingsBySeller(sellerId);
-          resolve(sellerListings);
-        }, 800);
-      });
-    }
-
+  async getListingsBySeller(sellerId: string, statuses?: ListingStatus[]): Promise<BookListing[]> {
     try {
-      const { data, error } = await supabase
-        .from('book_listings')
-        .select('*')
-        .eq('seller_id', sellerId)
-        .order('created_at', { ascending: false });
-
-      if (error) {
-        throw error;
-      }
-
-      return data || [];
+      return await repositories.listings.listBySeller(sellerId, statuses);
     } catch (error) {
       console.error('Error fetching seller listings:', error);
       throw error;
@@ -332,106 +361,28 @@ export const BookService = {
   },
 
   /**
-   * Fetch book listings with filters
+   * Count a seller's listings: everything they have listed, and those sold or traded
    */
-  async getFilteredListings(filters: BookFilterOptions): Promise<BookListing[]> {
-    if (USE_MOCK_DATA) {
-      return new Promise(resolve => {
-        // Simulate network delay
-        setTimeout(() => {
-          let filteredListings = [...mockListings];
-          
-          // Apply category filter
-          if (filters.categories && filters.categories.length > 0) {
-            filteredListings = filteredListings.filter(listing => 
-              listing.category && filters.categories?.includes(listing.category)
-            );
-          }
-          
-          // Apply condition filter
-          if (filters.conditions && filters.conditions.length > 0) {
-            filteredListings = filteredListings.filter(listing => 
-              filters.conditions?.includes(listing.condition)
-            );
-          }
-          
-          // Apply price range filters
-          if (filters.minPrice !== undefined) {
-            filteredListings = filteredListings.filter(listing => 
-              listing.price >= filters.minPrice!
-            );
-          }
-          
-          if (filters.maxPrice !== undefined) {
-            filteredListings = filteredListings.filter(listing => 
-              listing.price <= filters.maxPrice!
-            );
-          }
-          
-          // Apply negotiable filter
-          if (filters.isNegotiable !== undefined) {
-            filteredListings = filteredListings.filter(listing => 
-              listing.is_negotiable === filters.isNegotiable
-            );
-          }
-          
-          // Apply exchange option filter
-          if (filters.exchangeOption !== undefined) {
-            filteredListings = filteredListings.filter(listing => 
-              listing.exchange_option === filters.exchangeOption
-            );
-          }
-          
-          resolve(filteredListings);
-        }, 800);
-      });
-    }
+  async getSellerListingCounts(sellerId: string): Promise<{ listed: number; sold: number }> {
+    const listings = await this.getListingsBySeller(sellerId);
+    return {
+      listed: listings.length,
+      sold: listings.filter(listing => {
+        const status = getListingStatus(listing);
+        return status === 'sold' || status === 'traded';
+      }).length
+    };
+  },
 
+  /**
+   * Fetch one page of book listings matching the filters
+   */
+  async getFilteredListings(filters: BookFilterOptions, options: ListingPageOptions = {}): Promise<ListingPage> {
     try {
-      let query = supabase
-        .from('book_listings')
-        .select('*')
-        .order('created_at', { ascending: false });
-      
-      // Apply category filter
-      if (filters.categories && filters.categories.length > 0) {
-        query = query.in('category', filters.categories);
-      }
-      
-      // Apply condition filter
-      if (filters.conditions && filters.conditions.length > 0) {
-        query = query.in('condition', filters.conditions);
-      }
-      
-      // Apply price range filters
-      if (filters.minPrice !== undefined) {
-        query = query.gte('price', filters.minPrice);
-      }
-      
-      if (filters.maxPrice !== undefined) {
-        query = query.lte('price', filters.maxPrice);
-      }
-      
-      // Apply negotiable filter
-      if (filters.isNegotiable !== undefined) {
-        query = query.eq('is_negotiable', filters.isNegotiable);
-      }
-      
-      // Apply exchange option filter
-      if (filters.exchangeOption !== undefined) {
-        query = query.eq('exchange_option', filters.exchangeOption);
-      }
-      
-      const { data, error } = await query;
-
-      if (error) {
-        throw error;
-      }
-
-      return data || [];
+      return await repositories.listings.listActive(await withoutBlockedSellers(filters), toPageRequest(options));
     } catch (error) {
       console.error('Error fetching filtered book listings:', error);
       throw error;
     }
   }
-}; 
\ No newline at end of file
+};
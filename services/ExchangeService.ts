@@ -0,0 +1,237 @@
+import { repositories } from '../repositories';
+import { getUserId } from '../utils/auth';
+import { BookListing, BookService } from './BookService';
+import { MessageService } from './MessageService';
+
+export type SwapProposalStatus = 'pending' | 'accepted' | 'rejected' | 'countered';
+
+export interface SwapProposal {
+  id: string;
+  conversation_id: string;
+  target_listing_id: string;
+  offered_listing_ids: string[];
+  buyer_id: string;
+  seller_id: string;
+  proposed_by: string;
+  parent_proposal_id?: string | null;
+  message?: string | null;
+  status: SwapProposalStatus;
+  created_at: string;
+}
+
+export type NewSwapProposal = Omit<SwapProposal, 'id' | 'status' | 'created_at'>;
+
+export type SwapListingSummary = Pick<BookListing, 'id' | 'title' | 'image_url' | 'price'>;
+
+export interface SwapProposalWithListings extends SwapProposal {
+  targetListing: SwapListingSummary;
+  offeredListings: SwapListingSummary[];
+}
+
+function toSummary(id: string, listing?: Partial<BookListing> | null): SwapListingSummary {
+  return {
+    id,
+    title: listing?.title || 'Unknown Book',
+    image_url: listing?.image_url,
+    price: listing?.price || 0
+  };
+}
+
+/**
+ * The user who has to respond to a proposal: whoever did not make it
+ */
+export function getProposalRecipientId(proposal: SwapProposal): string {
+  return proposal.proposed_by === proposal.buyer_id ? proposal.seller_id : proposal.buyer_id;
+}
+
+export const ExchangeService = {
+  /**
+   * Get all swap proposals made in a conversation, oldest first, with listing details
+   */
+  async getProposalsForConversation(conversationId: string): Promise<SwapProposalWithListings[]> {
+    try {
+      const proposals = await repositories.swapProposals.listForConversation(conversationId);
+
+      if (proposals.length === 0) {
+        return [];
+      }
+
+      // Get listing details for every book involved
+      const listingIds = Array.from(new Set(
+        proposals.flatMap(proposal => [proposal.target_listing_id, ...proposal.offered_listing_ids])
+      ));
+      const listings = await repositories.listings.getByIds(listingIds);
+
+      return proposals.map(proposal => ({
+        ...proposal,
+        targetListing: toSummary(
+          proposal.target_listing_id,
+          listings.find(l => l.id === proposal.target_listing_id)
+        ),
+        offeredListings: proposal.offered_listing_ids.map(id =>
+          toSummary(id, listings.find(l => l.id === id))
+        )
+      }));
+    } catch (error) {
+      console.error('Error fetching swap proposals:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Offer one or more of the buyer's own listings in exchange for the listing a conversation is about
+   */
+  async proposeSwap(conversationId: string, offeredListingIds: string[], message?: string): Promise<SwapProposal> {
+    const userId = await getUserId();
+
+    if (!userId) {
+      throw new Error('User must be logged in to propose a swap');
+    }
+
+    const conversation = await MessageService.getConversationById(conversationId);
+    if (!conversation) {
+      throw new Error('Conversation not found');
+    }
+
+    if (conversation.buyer_id !== userId) {
+      throw new Error('Only the buyer can propose a swap');
+    }
+
+    const targetListing = await BookService.getListingById(conversation.listing_id);
+    if (!targetListing || (targetListing.status && targetListing.status !== 'active')) {
+      throw new Error('This listing is no longer available');
+    }
+
+    if (!targetListing.exchange_option) {
+      throw new Error('The seller does not accept exchanges for this listing');
+    }
+
+    await this.validateOfferedListings(offeredListingIds, conversation.buyer_id);
+
+    return this.insertProposal({
+      conversation_id: conversationId,
+      target_listing_id: conversation.listing_id,
+      offered_listing_ids: offeredListingIds,
+      buyer_id: conversation.buyer_id,
+      seller_id: conversation.seller_id,
+      proposed_by: userId,
+      parent_proposal_id: null,
+      message: message?.trim() || null
+    });
+  },
+
+  /**
+   * Reply to a pending proposal with a different selection of the buyer's listings
+   */
+  async counterProposal(proposalId: string, offeredListingIds: string[], message?: string): Promise<SwapProposal> {
+    const userId = await getUserId();
+    const proposal = await this.getPendingProposalForRecipient(proposalId, userId);
+
+    await this.validateOfferedListings(offeredListingIds, proposal.buyer_id);
+
+    await this.updateProposalStatus(proposal, 'countered');
+
+    return this.insertProposal({
+      conversation_id: proposal.conversation_id,
+      target_listing_id: proposal.target_listing_id,
+      offered_listing_ids: offeredListingIds,
+      buyer_id: proposal.buyer_id,
+      seller_id: proposal.seller_id,
+      proposed_by: userId,
+      parent_proposal_id: proposal.id,
+      message: message?.trim() || null
+    });
+  },
+
+  /**
+   * Accept a pending proposal. Every listing involved is marked as traded.
+   */
+  async acceptProposal(proposalId: string): Promise<SwapProposal> {
+    const userId = await getUserId();
+    const proposal = await this.getPendingProposalForRecipient(proposalId, userId);
+
+    try {
+      const accepted = await repositories.swapProposals.accept(proposal.id);
+      // Bump the conversation so both sides' chats refresh
+      await MessageService.touchConversation(proposal.conversation_id);
+      return accepted;
+    } catch (error) {
+      console.error('Error accepting swap proposal:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Reject a pending proposal
+   */
+  async rejectProposal(proposalId: string): Promise<void> {
+    const userId = await getUserId();
+    const proposal = await this.getPendingProposalForRecipient(proposalId, userId);
+    await this.updateProposalStatus(proposal, 'rejected');
+  },
+
+  /**
+   * Load a proposal and check that it is pending and that the user is the one who must respond
+   */
+  async getPendingProposalForRecipient(proposalId: string, userId: string): Promise<SwapProposal> {
+    const proposal = await repositories.swapProposals.getById(proposalId);
+
+    if (!proposal) {
+      throw new Error('Proposal not found');
+    }
+
+    if (proposal.status !== 'pending') {
+      throw new Error('This proposal is no longer pending');
+    }
+
+    if (getProposalRecipientId(proposal) !== userId) {
+      throw new Error('Only the recipient can respond to this proposal');
+    }
+
+    return proposal;
+  },
+
+  /**
+   * Check that every offered listing belongs to the buyer and is still available
+   */
+  async validateOfferedListings(offeredListingIds: string[], buyerId: string): Promise<void> {
+    if (offeredListingIds.length === 0) {
+      throw new Error('Select at least one book to offer');
+    }
+
+    const listings = await Promise.all(offeredListingIds.map(id => BookService.getListingById(id)));
+
+    for (const listing of listings) {
+      if (!listing || listing.seller_id !== buyerId) {
+        throw new Error('Only the buyer\'s own books can be offered');
+      }
+      if (listing.status && listing.status !== 'active') {
+        throw new Error(`"${listing.title}" is no longer available`);
+      }
+    }
+  },
+
+  async insertProposal(proposal: NewSwapProposal): Promise<SwapProposal> {
+    try {
+      const created = await repositories.swapProposals.create(proposal);
+
+      // Bump the conversation so it sorts to the top of the inbox and the chat refreshes
+      await MessageService.touchConversation(proposal.conversation_id);
+
+      return created;
+    } catch (error) {
+      console.error('Error creating swap proposal:', error);
+      throw error;
+    }
+  },
+
+  async updateProposalStatus(proposal: SwapProposal, status: SwapProposalStatus): Promise<void> {
+    try {
+      await repositories.swapProposals.setStatus(proposal.id, status);
+      await MessageService.touchConversation(proposal.conversation_id);
+    } catch (error) {
+      console.error('Error updating swap proposal:', error);
+      throw error;
+    }
+  }
+};
@@ -1,106 +1,316 @@
 import { supabase } from '../config/supabase';
 import * as FileSystem from 'expo-file-system';
+import * as ImageManipulator from 'expo-image-manipulator';
 import { Platform } from 'react-native';
 import { decode } from 'base64-arraybuffer';
 
+// Longest edge, in pixels, of uploaded photos and of their thumbnails
+const MAX_IMAGE_DIMENSION = 1600;
+const THUMBNAIL_DIMENSION = 400;
+
+// JPEG quality of uploaded photos and thumbnails (0-1)
+const IMAGE_QUALITY = 0.7;
+const THUMBNAIL_QUALITY = 0.6;
+
+export interface UploadedImage {
+  // The resized full-size photo
+  url: string;
+  path: string;
+  // A small version for list cards; the same as url if no thumbnail was made
+  thumbnailUrl: string;
+  thumbnailPath: string;
+}
+
+/**
+ * A database row that references stored images. The paths are null on rows
+ * saved before paths were stored, in which case they come from the URLs.
+ */
+export interface StoredImageRef {
+  image_url?: string | null;
+  image_path?: string | null;
+  thumbnail_url?: string | null;
+  thumbnail_path?: string | null;
+}
+
+export interface UploadImageOptions {
+  // Also upload a thumbnail (default true)
+  thumbnail?: boolean;
+}
+
+interface ImageFormat {
+  mimeType: string;
+  extension: string;
+}
+
+const JPEG: ImageFormat = { mimeType: 'image/jpeg', extension: 'jpg' };
+const PNG: ImageFormat = { mimeType: 'image/png', extension: 'png' };
+const HEIC: ImageFormat = { mimeType: 'image/heic', extension: 'heic' };
+const WEBP: ImageFormat = { mimeType: 'image/webp', extension: 'webp' };
+
+/**
+ * Work out the format of an image from the first bytes of the file,
+ * since picker URIs don't reliably carry an extension
+ */
+function formatFromHeader(bytes: Uint8Array): ImageFormat {
+  const ascii = (start: number, end: number) => String.fromCharCode(...bytes.slice(start, end));
+
+  if (bytes[0] === 0x89 && ascii(1, 4) === 'PNG') return PNG;
+  if (ascii(0, 4) === 'RIFF' && ascii(8, 12) === 'WEBP') return WEBP;
+  // HEIC/HEIF files are ISO media files with a heic, heix or mif1 brand
+  if (ascii(4, 8) === 'ftyp' && ['heic', 'heix', 'hevc', 'heim', 'heis', 'mif1', 'msf1'].includes(ascii(8, 12))) {
+    return HEIC;
+  }
+  return JPEG;
+}
+
+async function detectImageFormat(uri: string): Promise<ImageFormat> {
+  try {
+    if (Platform.OS === 'web') {
+      const blob = await (await fetch(uri)).blob();
+      return [PNG, HEIC, WEBP].find(format => format.mimeType === blob.type) || JPEG;
+    }
+
+    const header = await FileSystem.readAsStringAsync(uri, {
+      encoding: FileSystem.EncodingType.Base64,
+      position: 0,
+      length: 16,
+    });
+    return formatFromHeader(new Uint8Array(decode(header)));
+  } catch (error) {
+    console.warn('Could not detect image format, assuming JPEG:', error);
+    return JPEG;
+  }
+}
+
+/**
+ * The size of an image in pixels. Image.getSize only takes callbacks on the web,
+ * so the size comes from the image manipulator, which works the same everywhere.
+ */
+async function getImageSize(uri: string): Promise<{ width: number; height: number }> {
+  const { width, height } = await ImageManipulator.manipulateAsync(uri, []);
+  return { width, height };
+}
+
+/**
+ * Resize an image so its longest edge is at most maxDimension and re-encode it.
+ * PNGs stay PNG to keep transparency; everything else (including HEIC, which
+ * most browsers and Android devices can't show) becomes JPEG.
+ */
+async function compressImage(
+  uri: string,
+  size: { width: number; height: number },
+  format: ImageFormat,
+  maxDimension: number,
+  quality: number
+): Promise<{ uri: string; format: ImageFormat }> {
+  const actions: ImageManipulator.Action[] = [];
+  if (Math.max(size.width, size.height) > maxDimension) {
+    actions.push({
+      resize: size.width >= size.height ? { width: maxDimension } : { height: maxDimension },
+    });
+  }
+
+  const outputFormat = format === PNG ? PNG : JPEG;
+  const result = await ImageManipulator.manipulateAsync(uri, actions, {
+    compress: quality,
+    format: outputFormat === PNG ? ImageManipulator.SaveFormat.PNG : ImageManipulator.SaveFormat.JPEG,
+  });
+
+  return { uri: result.uri, format: outputFormat };
+}
+
+/**
+ * Upload a local file to Supabase Storage as-is
+ * @returns Public URL of the uploaded file
+ */
+async function uploadFile(uri: string, bucket: string, fileName: string, contentType: string): Promise<string> {
+  let base64: string;
+
+  if (Platform.OS === 'web') {
+    // Handle web platform
+    const response = await fetch(uri);
+    const blob = await response.blob();
+    base64 = await new Promise<string>((resolve, reject) => {
+      const reader = new FileReader();
+      reader.onload = () => resolve((reader.result as string).split(',')[1]);
+      reader.onerror = () => reject(new Error('Failed to read file'));
+      reader.readAsDataURL(blob);
+    });
+  } else {
+    // Handle native platforms
+    const fileInfo = await FileSystem.getInfoAsync(uri);
+
+    if (!fileInfo.exists) {
+      throw new Error('File does not exist');
+    }
+
+    // Read the file as base64
+    base64 = await FileSystem.readAsStringAsync(uri, { encoding: FileSystem.EncodingType.Base64 });
+  }
+
+  const { error } = await supabase.storage
+    .from(bucket)
+    .upload(fileName, decode(base64), {
+      contentType,
+      upsert: true,
+    });
+
+  if (error) throw error;
+
+  // Get the public URL
+  const { data: { publicUrl } } = supabase.storage
+    .from(bucket)
+    .getPublicUrl(fileName);
+
+  return publicUrl;
+}
+
 export const ImageService = {
   /**
-   * Upload an image to Supabase Storage
+   * Resize, compress and upload an image to Supabase Storage, along with a
+   * thumbnail. If the image can't be processed, the original file is uploaded.
    * @param uri Local URI of the image
    * @param bucket Supabase Storage bucket name
    * @param path Path within the bucket
-   * @returns Public URL of the uploaded image
+   * @returns Public URLs of the uploaded image and its thumbnail
    */
-  async uploadImage(uri: string, bucket: string = 'book-images', path: string): Promise<string> {
+  async uploadImage(
+    uri: string,
+    bucket: string = 'book-images',
+    path: string,
+    options: UploadImageOptions = {}
+  ): Promise<UploadedImage> {
+    const { thumbnail = true } = options;
+
     try {
       // Generate a unique file name
-      const fileName = `${path}_${new Date().getTime()}.jpg`;
-      
-      let base64;
-      
-      if (Platform.OS === 'web') {
-        // Handle web platform
-        const response = await fetch(uri);
-        const blob = await response.blob();
-        const reader = new FileReader();
-        return new Promise((resolve, reject) => {
-          reader.onload = async () => {
-            try {
-              const result = reader.result as string;
-              base64 = result.split(',')[1];
-              const { data, error } = await supabase.storage
-                .from(bucket)
-                .upload(fileName, decode(base64), {
-                  contentType: 'image/jpeg',
-                  upsert: true,
-                });
-              
-              if (error) throw error;
-              
-              // Get the public URL
-              const { data: { publicUrl } } = supabase.storage
-                .from(bucket)
-                .getPublicUrl(fileName);
-              
-              resolve(publicUrl);
-            } catch (error) {
-              reject(error);
-            }
-          };
-          reader.onerror = () => {
-            reject(new Error('Failed to read file'));
-          };
-          reader.readAsDataURL(blob);
-        });
-      } else {
-        // Handle native platforms
-        const fileInfo = await FileSystem.getInfoAsync(uri);
-        
-        if (!fileInfo.exists) {
-          throw new Error('File does not exist');
+      const baseName = `${path}_${new Date().getTime()}`;
+      const format = await detectImageFormat(uri);
+
+      let image: { uri: string; format: ImageFormat } = { uri, format };
+      let thumbnailImage: { uri: string; format: ImageFormat } | null = null;
+
+      try {
+        const size = await getImageSize(uri);
+        image = await compressImage(uri, size, format, MAX_IMAGE_DIMENSION, IMAGE_QUALITY);
+        if (thumbnail) {
+          thumbnailImage = await compressImage(uri, size, format, THUMBNAIL_DIMENSION, THUMBNAIL_QUALITY);
         }
-        
-        // Read the file as base64
-        base64 = await FileSystem.readAsStringAsync(uri, { encoding: FileSystem.EncodingType.Base64 });
-        
-        // Upload to Supabase
-        const { data, error } = await supabase.storage
-          .from(bucket)
-          .upload(fileName, decode(base64), {
-            contentType: 'image/jpeg',
-            upsert: true,
-          });
-        
-        if (error) throw error;
-        
-        // Get the public URL
-        const { data: { publicUrl } } = supabase.storage
-          .from(bucket)
-          .getPublicUrl(fileName);
-        
-        return publicUrl;
+      } catch (processingError) {
+        console.warn('Could not compress image, uploading the original:', processingError);
       }
+
+      const imagePath = `${baseName}.${image.format.extension}`;
+      const url = await uploadFile(image.uri, bucket, imagePath, image.format.mimeType);
+
+      if (!thumbnailImage) {
+        return { url, path: imagePath, thumbnailUrl: url, thumbnailPath: imagePath };
+      }
+
+      const thumbnailPath = `${baseName}_thumb.${thumbnailImage.format.extension}`;
+      const thumbnailUrl = await uploadFile(
+        thumbnailImage.uri,
+        bucket,
+        thumbnailPath,
+        thumbnailImage.format.mimeType
+      );
+
+      return { url, path: imagePath, thumbnailUrl, thumbnailPath };
     } catch (error) {
       console.error('Error uploading image:', error);
       throw error;
     }
   },
   
+  /**
+   * Upload several images one after another, keeping their order
+   * @param uris Local URIs of the images
+   * @param bucket Supabase Storage bucket name
+   * @param path Path within the bucket; each file gets its own suffix
+   * @returns The uploaded images and their thumbnails, in the same order as uris
+   */
+  async uploadImages(uris: string[], bucket: string = 'book-images', path: string): Promise<UploadedImage[]> {
+    const images: UploadedImage[] = [];
+    for (const [index, uri] of uris.entries()) {
+      images.push(await this.uploadImage(uri, bucket, `${path}-${index}`));
+    }
+    return images;
+  },
+  
+  /**
+   * Get the path of an image within a bucket from its public URL
+   * @returns The path, or null if the URL is not in the bucket
+   */
+  getStoragePath(publicUrl: string, bucket: string = 'book-images'): string | null {
+    const marker = `/${bucket}/`;
+    const index = publicUrl.indexOf(marker);
+    return index === -1 ? null : decodeURIComponent(publicUrl.slice(index + marker.length));
+  },
+  
+  /**
+   * Get the storage paths referenced by a database row, preferring the stored
+   * paths and falling back to the public URLs for older rows
+   * @returns The distinct paths within the bucket
+   */
+  getImagePaths(image: StoredImageRef, bucket: string = 'book-images'): string[] {
+    const paths = [
+      image.image_path || (image.image_url ? this.getStoragePath(image.image_url, bucket) : null),
+      image.thumbnail_path || (image.thumbnail_url ? this.getStoragePath(image.thumbnail_url, bucket) : null),
+    ];
+    return [...new Set(paths.filter((path): path is string => !!path))];
+  },
+  
   /**
    * Delete an image from Supabase Storage
    * @param path Full path to the image in the bucket
    * @param bucket Supabase Storage bucket name
    */
   async deleteImage(path: string, bucket: string = 'book-images'): Promise<void> {
+    return this.deleteImages([path], bucket);
+  },
+  
+  /**
+   * Delete several images from Supabase Storage in one request
+   * @param paths Full paths to the images in the bucket
+   * @param bucket Supabase Storage bucket name
+   */
+  async deleteImages(paths: string[], bucket: string = 'book-images'): Promise<void> {
+    const uniquePaths = [...new Set(paths)];
+    if (uniquePaths.length === 0) {
+      return;
+    }
+
     try {
       const { error } = await supabase.storage
         .from(bucket)
-        .remove([path]);
+        .remove(uniquePaths);
       
       if (error) throw error;
     } catch (error) {
-      console.error('Error deleting image:', error);
+      console.error('Error deleting images:', error);
       throw error;
     }
+  },
+
+  /**
+   * Delete the images a set of rows referenced that the current rows no longer
+   * reference, e.g. after photos are replaced or removed. Failures are logged
+   * but not thrown, since a leftover file does not affect the app.
+   */
+  async deleteSupersededImages(
+    previous: StoredImageRef[],
+    current: StoredImageRef[],
+    bucket: string = 'book-images'
+  ): Promise<void> {
+    const kept = new Set(current.flatMap(image => this.getImagePaths(image, bucket)));
+    const superseded = previous
+      .flatMap(image => this.getImagePaths(image, bucket))
+      .filter(path => !kept.has(path));
+
+    try {
+      await this.deleteImages(superseded, bucket);
+    } catch {
+      // Already logged by deleteImages; scripts/find-orphaned-images.js reports anything left behind
+    }
   }
-}; 
\ No newline at end of file
+};
@@ -0,0 +1,149 @@
+import { getDataSourceConfig, repositories } from '../repositories';
+import { BookService } from './BookService';
+import { ImageService } from './ImageService';
+
+const LISTING_IMAGE_BUCKET = 'book-images';
+
+// Most photos a seller can attach to one listing
+export const MAX_LISTING_PHOTOS = 8;
+
+export interface ListingImage {
+  id: string;
+  listing_id: string;
+  image_url: string;
+  image_path: string | null;
+  // Null for photos uploaded before thumbnails were generated
+  thumbnail_url: string | null;
+  thumbnail_path: string | null;
+  position: number;
+  is_cover: boolean;
+  created_at: string;
+}
+
+// A photo to save; photos that are already saved keep their id
+export type ListingImageRow = Omit<ListingImage, 'id' | 'created_at'> & { id?: string };
+
+/**
+ * A photo in the listing editor. Photos that are already saved carry their
+ * ListingImage; newly picked ones only have a local URI until they are uploaded.
+ */
+export interface ListingPhoto {
+  key: string;
+  uri: string;
+  isCover: boolean;
+  image?: ListingImage;
+}
+
+function byPosition(a: ListingImage, b: ListingImage): number {
+  return a.position - b.position;
+}
+
+/**
+ * Turn saved images into editor photos
+ */
+export function toListingPhotos(images: ListingImage[]): ListingPhoto[] {
+  return [...images].sort(byPosition).map(image => ({
+    key: image.id,
+    uri: image.image_url,
+    isCover: image.is_cover,
+    image,
+  }));
+}
+
+export const ListingImageService = {
+  /**
+   * Get a listing's photos in gallery order
+   */
+  async getImagesForListing(listingId: string): Promise<ListingImage[]> {
+    try {
+      return await repositories.listingImages.listForListing(listingId);
+    } catch (error) {
+      console.error('Error fetching listing images:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Make a listing's photos match the editor: upload new photos, delete removed
+   * ones and save the order and cover. The cover (or the first photo if none is
+   * marked) and its thumbnail are copied to book_listings so listing cards keep working.
+   * @returns The saved images in gallery order
+   */
+  async saveListingImages(listingId: string, sellerId: string, photos: ListingPhoto[]): Promise<ListingImage[]> {
+    if (photos.length > MAX_LISTING_PHOTOS) {
+      throw new Error(`A listing can have at most ${MAX_LISTING_PHOTOS} photos`);
+    }
+
+    const [existing, listing] = await Promise.all([
+      this.getImagesForListing(listingId),
+      BookService.getListingById(listingId),
+    ]);
+    const keptIds = photos.filter(photo => photo.image).map(photo => photo.image!.id);
+    const removed = existing.filter(image => !keptIds.includes(image.id));
+    const isMemoryMode = getDataSourceConfig().mode === 'memory';
+
+    // Upload photos that only exist on the device. Mock mode keeps the local image.
+    const urls = photos.map(photo => photo.uri);
+    const thumbnailUrls = photos.map(photo => photo.image?.thumbnail_url ?? null);
+    const paths = photos.map(photo => photo.image?.image_path ?? null);
+    const thumbnailPaths = photos.map(photo => photo.image?.thumbnail_path ?? null);
+    const localIndexes = isMemoryMode
+      ? []
+      : photos
+          .map((photo, index) => (!photo.image && !/^https?:\/\//.test(photo.uri) ? index : -1))
+          .filter(index => index !== -1);
+
+    if (localIndexes.length > 0) {
+      const uploaded = await ImageService.uploadImages(
+        localIndexes.map(index => photos[index].uri),
+        LISTING_IMAGE_BUCKET,
+        `${sellerId}/${listingId}`
+      );
+      localIndexes.forEach((photoIndex, uploadIndex) => {
+        urls[photoIndex] = uploaded[uploadIndex].url;
+        thumbnailUrls[photoIndex] = uploaded[uploadIndex].thumbnailUrl;
+        paths[photoIndex] = uploaded[uploadIndex].path;
+        thumbnailPaths[photoIndex] = uploaded[uploadIndex].thumbnailPath;
+      });
+    }
+
+    const coverIndex = Math.max(photos.findIndex(photo => photo.isCover), 0);
+    const rows: ListingImageRow[] = photos.map((photo, index) => ({
+      id: photo.image?.id,
+      listing_id: listingId,
+      image_url: urls[index],
+      image_path: paths[index],
+      thumbnail_url: thumbnailUrls[index],
+      thumbnail_path: thumbnailPaths[index],
+      position: index,
+      is_cover: index === coverIndex,
+    }));
+
+    let saved: ListingImage[];
+    try {
+      saved = await repositories.listingImages.replaceForListing(listingId, rows);
+    } catch (error) {
+      console.error('Error saving listing images:', error);
+      throw error;
+    }
+
+    const cover = saved.find(image => image.is_cover);
+    await BookService.updateListing(listingId, {
+      image_url: cover ? cover.image_url : null,
+      image_path: cover ? cover.image_path : null,
+      thumbnail_url: cover ? cover.thumbnail_url : null,
+      thumbnail_path: cover ? cover.thumbnail_path : null,
+    });
+
+    // Removed photos, and a replaced cover from before the gallery existed, are no longer referenced
+    if (!isMemoryMode) {
+      await ImageService.deleteSupersededImages(
+        listing ? [...removed, listing] : removed,
+        saved,
+        LISTING_IMAGE_BUCKET
+      );
+    }
+
+    return saved;
+  },
+};
@@ -1,107 +1,7 @@
-import { supabase } from '../config/supabase';
-import { getUserId } from '../utils/auth';
-import { mockUsers } from '../utils/mockData';
-import { BookService } from './BookService';
-
-// If true, we'll use mock data for messaging
-// We'll also dynamically fall back to mock data if we detect missing tables
-const USE_MOCK_DATA = false;
-
-// Flag to track if we've detected that tables don't exist
-let DETECTED_MISSING_TABLES = false;
-
-// In-memory mock storage for development
-let mockConversations: Conversation[] = [];
-let mockMessages: Message[] = [];
-
-// Helper function to check if an error is "table does not exist"
-function isTableNotExistError(error: any): boolean {
-  return error && error.code === '42P01'; // PostgreSQL error code for "relation does not exist"
-}
-
-// Initialize some mock conversations
-// This is needed whether we start with mock mode or fall back to it
-if (mockConversations.length === 0) {
-  // We'll add some mock data when the service is first loaded
-  // This simulates having some existing conversations
-  mockConversations = [
-    {
-      id: 'conv-001',
-      listing_id: 'book-001',
-      buyer_id: 'user-002',
-      seller_id: 'user-001',
-      created_at: '2023-08-10T09:15:00Z',
-      last_message_at: '2023-08-12T14:30:00Z',
-      is_active: true
-    },
-    {
-      id: 'conv-002',
-      listing_id: 'book-005',
-      buyer_id: 'user-001',
-      seller_id: 'user-005',
-      created_at: '2023-08-15T11:20:00Z',
-      last_message_at: '2023-08-15T16:45:00Z',
-      is_active: true
-    }
-  ];
-  
-  mockMessages = [
-    {
-      id: 'msg-001',
-      conversation_id: 'conv-001',
-      sender_id: 'user-002',
-      receiver_id: 'user-001',
-      content: 'Hi, is this book still available?',
-      created_at: '2023-08-10T09:15:00Z',
-      read: true
-    },
-    {
-      id: 'msg-002',
-      conversation_id: 'conv-001',
-      sender_id: 'user-001',
-      receiver_id: 'user-002',
-      content: 'Yes, it is still available. Are you interested?',
-      created_at: '2023-08-10T10:30:00Z',
-      read: true
-    },
-    {
-      id: 'msg-003',
-      conversation_id: 'conv-001',
-      sender_id: 'user-002',
-      receiver_id: 'user-001',
-      content: 'Great! Would you consider a lower price?',
-      created_at: '2023-08-12T14:30:00Z',
-      read: false
-    },
-    {
-      id: 'msg-004',
-      conversation_id: 'conv-002',
-      sender_id: 'user-001',
-      receiver_id: 'user-005',
-      content: 'Hello, I\'m interested in your programming book. Is it still available?',
-      created_at: '2023-08-15T11:20:00Z',
-      read: true
-    },
-    {
-      id: 'msg-005',
-      conversation_id: 'conv-002',
-      sender_id: 'user-005',
-      receiver_id: 'user-001',
-      content: 'Yes, it\'s still available. It\'s in great condition.',
-      created_at: '2023-08-15T13:05:00Z',
-      read: true
-    },
-    {
-      id: 'msg-006',
-      conversation_id: 'conv-002',
-      sender_id: 'user-001',
-      receiver_id: 'user-005',
-      content: 'Perfect! When can we meet for the exchange?',
-      created_at: '2023-08-15T16:45:00Z',
-      read: false
-    }
-  ];
-}
+import { repositories } from '../repositories';
+import { assertNotSuspended, getUserId } from '../utils/auth';
+import { OfflineService } from './OfflineService';
+import { CACHE_KEYS, readCache, writeCache } from '../utils/offlineCache';
 
 export interface Conversation {
   id: string;
@@ -121,6 +21,8 @@ export interface Message {
   content: string;
   created_at: string;
   read: boolean;
+  // Set on messages sent while offline that are still queued; not a database column
+  pending?: boolean;
 }
 
 export interface ConversationWithDetails extends Conversation {
@@ -139,6 +41,133 @@ export interface ConversationWithDetails extends Conversation {
   };
 }
 
+export type MessageChangeEvent =
+  | { type: 'message'; eventType: 'INSERT' | 'UPDATE'; message: Message }
+  | { type: 'conversation'; eventType: 'INSERT' | 'UPDATE'; conversation: Conversation };
+
+export type MessageChangeListener = (event: MessageChangeEvent) => void;
+
+// Shown when either user blocked the other; the database raises the same message
+export const BLOCKED_MESSAGE_ERROR = 'You cannot message this user';
+
+function getOtherUserId(conversation: Conversation, userId: string): string {
+  return conversation.buyer_id === userId ? conversation.seller_id : conversation.buyer_id;
+}
+
+/**
+ * Move a conversation to the top of the inbox after a message. The message is
+ * already delivered, so failing to do this is not worth failing the send over.
+ */
+async function touchAfterMessage(conversationId: string): Promise<void> {
+  try {
+    await repositories.conversations.touch(conversationId, new Date().toISOString());
+  } catch (error) {
+    console.warn('Error updating conversation:', error);
+  }
+}
+
+// Queued write type for messages sent while offline
+export const QUEUED_MESSAGE_WRITE = 'message';
+
+export interface QueuedMessage {
+  id: string;
+  conversationId: string;
+  senderId: string;
+  content: string;
+  createdAt: string;
+}
+
+/**
+ * Random UUID (v4) for a new message. Choosing the ID on the device lets a
+ * message sent offline keep its ID once delivered, and lets a replay whose
+ * first attempt did reach the server be recognised as a duplicate.
+ */
+function generateMessageId(): string {
+  return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, char => {
+    const random = (Math.random() * 16) | 0;
+    return (char === 'x' ? random : (random & 0x3) | 0x8).toString(16);
+  });
+}
+
+function toPendingMessage(queued: QueuedMessage, receiverId: string): Message {
+  return {
+    id: queued.id,
+    conversation_id: queued.conversationId,
+    sender_id: queued.senderId,
+    receiver_id: receiverId,
+    content: queued.content,
+    created_at: queued.createdAt,
+    read: false,
+    pending: true,
+  };
+}
+
+/**
+ * Messages still queued for a conversation, oldest first
+ */
+async function getQueuedMessages(conversationId: string): Promise<QueuedMessage[]> {
+  const writes = await OfflineService.getPendingWrites();
+  return writes
+    .filter(write => write.type === QUEUED_MESSAGE_WRITE && write.payload.conversationId === conversationId)
+    .map(write => write.payload as QueuedMessage);
+}
+
+/**
+ * Queue a message to send once back online
+ * @returns The message as it should be shown until it is delivered
+ */
+async function queueMessage(queued: QueuedMessage): Promise<Message> {
+  await OfflineService.enqueue(QUEUED_MESSAGE_WRITE, queued);
+
+  // The receiver is only needed for display, so the cached conversation is good enough
+  const cachedConversations = await readCache<ConversationWithDetails[]>(CACHE_KEYS.conversations(queued.senderId));
+  const conversation = cachedConversations?.find(conv => conv.id === queued.conversationId);
+  return toPendingMessage(queued, conversation?.otherUser.id || '');
+}
+
+/**
+ * Reject messages between users when either blocked the other
+ */
+async function assertNotBlocked(userId: string, otherUserId: string): Promise<void> {
+  if (await repositories.blocks.isBlockedBetween(userId, otherUserId)) {
+    // 42501 is what the database raises for these, which makes the queue drop a queued message
+    throw Object.assign(new Error(BLOCKED_MESSAGE_ERROR), { code: '42501' });
+  }
+}
+
+/**
+ * Deliver a message that was sent while offline
+ */
+async function replayQueuedMessage(queued: QueuedMessage): Promise<void> {
+  const conversation = await repositories.conversations.getById(queued.conversationId);
+
+  if (!conversation) {
+    // Reported as "row not found" so the queue drops the message instead of retrying it
+    throw Object.assign(new Error('Conversation not found'), { code: 'PGRST116' });
+  }
+
+  await assertNotBlocked(queued.senderId, getOtherUserId(conversation, queued.senderId));
+
+  try {
+    await repositories.messages.insert({
+      id: queued.id,
+      conversation_id: queued.conversationId,
+      sender_id: queued.senderId,
+      receiver_id: getOtherUserId(conversation, queued.senderId),
+      content: queued.content,
+      created_at: queued.createdAt,
+      read: false
+    });
+  } catch (error) {
+    // 23505 (unique violation) means an earlier attempt got through but its response was lost
+    if ((error as any)?.code !== '23505') {
+      throw error;
+    }
+  }
+
+  await touchAfterMessage(queued.conversationId);
+}
+
 export const MessageService = {
   /**
    * Get all conversations for the current user
@@ -146,259 +175,92 @@ export const MessageService = {
   async getConversations(): Promise<ConversationWithDetails[]> {
     const userId = await getUserId();
     
-    if (USE_MOCK_DATA || DETECTED_MISSING_TABLES) {
-      return new Promise(resolve => {
-        setTimeout(() => {
-          // Filter conversations where current user is either buyer or seller
-          const userConversations = mockConversations.filter(
-            conv => conv.buyer_id === userId || conv.seller_id === userId
-          );
-          
-          // Enhance conversations with additional details
-          const enhancedConversations = userConversations.map(conv => {
-            // Determine the other user in the conversation
-            const otherUserId = conv.buyer_id === userId ? conv.seller_id : conv.buyer_id;
-            const otherUser = mockUsers.find(user => user.id === otherUserId);
-            
-            // Count unread messages
-            const unreadCount = mockMessages.filter(
-              msg => msg.conversation_id === conv.id && 
-                    msg.receiver_id === userId && 
-                    !msg.read
-            ).length;
-            
-            // Get the last message
-            const conversationMessages = mockMessages
-              .filter(msg => msg.conversation_id === conv.id)
-              .sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime());
-            
-            const lastMessage = conversationMessages.length > 0 ? conversationMessages[0].content : undefined;
-            
-            // Get listing details (this would come from BookService in a real app)
-            // For mock, we'll just create some fake data
-            const listing = {
-              id: conv.listing_id,
-              title: `Book #${conv.listing_id.split('-')[1]}`,
-              image_url: 'https://source.unsplash.com/random/200x300/?book',
-              price: 19.99
-            };
-            
-            // Construct the enhanced conversation
-            return {
-              ...conv,
-              unreadCount,
-              lastMessage,
-              otherUser: {
-                id: otherUser?.id || '',
-                name: otherUser?.name || 'Unknown User',
-                profileImage: otherUser?.profileImage
-              },
-              listing
-            };
-          });
-          
-          // Sort by last message time descending
-          enhancedConversations.sort((a, b) => 
-            new Date(b.last_message_at).getTime() - new Date(a.last_message_at).getTime()
-          );
-          
-          resolve(enhancedConversations);
-        }, 800);
-      });
-    }
-    
     try {
-      // Get conversations where user is either buyer or seller
-      const { data: conversations, error } = await supabase
-        .from('conversations')
-        .select('*')
-        .or(`buyer_id.eq.${userId},seller_id.eq.${userId}`)
-        .eq('is_active', true)
-        .order('last_message_at', { ascending: false });
-      
-      if (error) {
-        // If the table doesn't exist, fall back to mock data
-        if (isTableNotExistError(error)) {
-          console.warn('conversations table does not exist, falling back to mock data');
-          DETECTED_MISSING_TABLES = true;
-          
-          // Suggest running the SQL script to create missing tables
-          console.info('To fix this issue, run the SQL script in scripts/create_conversation_tables.sql');
-          
-          return this.getConversations();
-        }
-        throw error;
-      }
+      const [activeConversations, blocks] = await Promise.all([
+        repositories.conversations.listActiveForUser(userId),
+        repositories.blocks.listBlocked(userId)
+      ]);
+      // Threads with blocked users are hidden until they are unblocked
+      const blockedIds = blocks.map(block => block.blocked_id);
+      const conversations = activeConversations.filter(conv => !blockedIds.includes(getOtherUserId(conv, userId)));
       
-      if (!conversations || conversations.length === 0) {
+      if (conversations.length === 0) {
+        writeCache(CACHE_KEYS.conversations(userId), []);
         return [];
       }
       
-      // Get unread counts
-      const unreadCountsPromises = conversations.map(async conv => {
-        try {
-          const { count, error: countError } = await supabase
-            .from('messages')
-            .select('*', { count: 'exact' })
-            .eq('conversation_id', conv.id)
-            .eq('receiver_id', userId)
-            .eq('read', false);
-            
-          if (countError) {
-            // If the table doesn't exist, fall back to mock data
-            if (isTableNotExistError(countError)) {
-              console.warn('messages table does not exist, falling back to mock data');
-              DETECTED_MISSING_TABLES = true;
-              throw countError;
-            }
-            console.error('Error fetching unread count:', countError);
-            return { conversationId: conv.id, count: 0 };
-          }
-          
-          return { conversationId: conv.id, count: count || 0 };
-        } catch (error) {
-          // Fall back to mock data
-          if (isTableNotExistError(error)) {
-            DETECTED_MISSING_TABLES = true;
-            return { conversationId: conv.id, count: 0 };
-          }
-          console.error('Error in unread counts:', error);
-          return { conversationId: conv.id, count: 0 };
-        }
-      });
-      
-      // If we've detected missing tables, fall back to mock data
-      if (DETECTED_MISSING_TABLES) {
-        // Suggest running the SQL script to create missing tables
-        console.info('To fix this issue, run the SQL script in scripts/create_conversation_tables.sql');
-        return this.getConversations();
-      }
-      
-      const unreadCounts = await Promise.all(unreadCountsPromises);
-      
-      // Get last messages
-      const lastMessagesPromises = conversations.map(async conv => {
-        try {
-          const { data: messages, error: messagesError } = await supabase
-            .from('messages')
-            .select('content')
-            .eq('conversation_id', conv.id)
-            .order('created_at', { ascending: false })
-            .limit(1);
-            
-          if (messagesError) {
-            // If the table doesn't exist, fall back to mock data
-            if (isTableNotExistError(messagesError)) {
-              console.warn('messages table does not exist, falling back to mock data');
-              DETECTED_MISSING_TABLES = true;
-              throw messagesError;
-            }
-            return { conversationId: conv.id, message: undefined };
-          }
-          
-          if (!messages || messages.length === 0) {
-            return { conversationId: conv.id, message: undefined };
-          }
-          
-          return { conversationId: conv.id, message: messages[0].content };
-        } catch (error) {
-          // Fall back to mock data
-          if (isTableNotExistError(error)) {
-            DETECTED_MISSING_TABLES = true;
-            return { conversationId: conv.id, message: undefined };
-          }
-          console.error('Error in last messages:', error);
-          return { conversationId: conv.id, message: undefined };
-        }
-      });
-      
-      // If we've detected missing tables by now, fall back to mock data
-      if (DETECTED_MISSING_TABLES) {
-        // Suggest running the SQL script to create missing tables
-        console.info('To fix this issue, run the SQL script in scripts/create_conversation_tables.sql');
-        return this.getConversations();
-      }
-      
-      const lastMessages = await Promise.all(lastMessagesPromises);
-      
-      // Get user details
-      const userIds = conversations.map(conv => 
-        conv.buyer_id === userId ? conv.seller_id : conv.buyer_id
-      );
-      
-      let users = [];
-      try {
-        const { data: usersData, error: usersError } = await supabase
-          .from('user_profiles')
-          .select('id, name, profile_image')
-          .in('id', userIds);
-          
-        if (usersError) {
-          console.error('Error fetching user details:', usersError);
-        } else {
-          users = usersData || [];
-        }
-      } catch (error) {
-        console.error('Error in user details:', error);
-      }
-      
-      // Get listing details
-      const listingIds = conversations.map(conv => conv.listing_id);
-      
-      let listings = [];
-      try {
-        const { data: listingsData, error: listingsError } = await supabase
-          .from('book_listings')
-          .select('id, title, image_url, price')
-          .in('id', listingIds);
-          
-        if (listingsError) {
-          console.error('Error fetching listing details:', listingsError);
-        } else {
-          listings = listingsData || [];
-        }
-      } catch (error) {
-        console.error('Error in listing details:', error);
-      }
+      const [activity, users, listings] = await Promise.all([
+        // Unread counts and last messages
+        Promise.all(conversations.map(async conv => {
+          const [unreadCount, lastMessage] = await Promise.all([
+            repositories.messages.countUnread(userId, conv.id),
+            repositories.messages.latest(conv.id)
+          ]);
+          return { unreadCount, lastMessage: lastMessage?.content };
+        })),
+        // User details
+        repositories.users
+          .getByIds(conversations.map(conv => getOtherUserId(conv, userId)))
+          .catch(error => {
+            console.error('Error fetching user details:', error);
+            return [];
+          }),
+        // Listing details
+        repositories.listings
+          .getByIds(conversations.map(conv => conv.listing_id))
+          .catch(error => {
+            console.error('Error fetching listing details:', error);
+            return [];
+          })
+      ]);
       
       // Combine all data
-      const enhancedConversations = conversations.map(conv => {
-        const otherUserId = conv.buyer_id === userId ? conv.seller_id : conv.buyer_id;
-        const otherUser = users.find(user => user.id === otherUserId) || { id: otherUserId, name: 'Unknown User' };
-        const unreadCount = unreadCounts.find(uc => uc.conversationId === conv.id)?.count || 0;
-        const lastMessage = lastMessages.find(lm => lm.conversationId === conv.id)?.message;
-        const listing = listings.find(l => l.id === conv.listing_id) || { id: conv.listing_id, title: 'Unknown Book', price: 0 };
+      const enhancedConversations = conversations.map((conv, index) => {
+        const otherUserId = getOtherUserId(conv, userId);
+        const otherUser = users.find(user => user.id === otherUserId);
+        const listing = listings.find(l => l.id === conv.listing_id);
         
         return {
           ...conv,
-          unreadCount,
-          lastMessage,
+          unreadCount: activity[index].unreadCount,
+          lastMessage: activity[index].lastMessage,
           otherUser: {
-            id: otherUser.id,
-            name: otherUser.name,
-            profileImage: otherUser.profile_image
+            id: otherUserId,
+            name: otherUser?.name || 'Unknown User',
+            profileImage: otherUser?.profile_image
           },
           listing: {
-            id: listing.id,
-            title: listing.title,
-            image_url: listing.image_url,
-            price: listing.price
+            id: conv.listing_id,
+            title: listing?.title || 'Unknown Book',
+            image_url: listing?.image_url || undefined,
+            price: listing?.price || 0
           }
         };
       });
       
+      writeCache(CACHE_KEYS.conversations(userId), enhancedConversations);
       return enhancedConversations;
     } catch (error) {
-      console.error('Error fetching conversations:', error);
-      
-      // Fall back to mock data if table doesn't exist
-      if (isTableNotExistError(error)) {
-        console.warn('conversations or messages table does not exist, falling back to mock data');
-        DETECTED_MISSING_TABLES = true;
-        console.info('To fix this issue, run the SQL script in scripts/create_conversation_tables.sql');
-        return this.getConversations();
+      if (OfflineService.isOfflineError(error)) {
+        const cached = await readCache<ConversationWithDetails[]>(CACHE_KEYS.conversations(userId));
+        if (cached) {
+          return cached;
+        }
       }
-      
+
+      console.error('Error fetching conversations:', error);
+      throw error;
+    }
+  },
+  
+  /**
+   * Get a single conversation by ID
+   */
+  async getConversationById(conversationId: string): Promise<Conversation | null> {
+    try {
+      return await repositories.conversations.getById(conversationId);
+    } catch (error) {
+      console.error('Error fetching conversation:', error);
       throw error;
     }
   },
@@ -407,47 +269,26 @@ export const MessageService = {
    * Get all messages for a conversation
    */
   async getMessages(conversationId: string): Promise<Message[]> {
-    if (USE_MOCK_DATA || DETECTED_MISSING_TABLES) {
-      return new Promise(resolve => {
-        setTimeout(() => {
-          // Filter messages for the specified conversation
-          const conversationMessages = mockMessages
-            .filter(msg => msg.conversation_id === conversationId)
-            .sort((a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime());
-          
-          resolve(conversationMessages);
-        }, 500);
-      });
-    }
-    
     try {
-      const { data, error } = await supabase
-        .from('messages')
-        .select('*')
-        .eq('conversation_id', conversationId)
-        .order('created_at', { ascending: true });
-        
-      if (error) {
-        if (isTableNotExistError(error)) {
-          console.warn('messages table does not exist, falling back to mock data');
-          DETECTED_MISSING_TABLES = true;
-          console.info('To fix this issue, run the SQL script in scripts/create_conversation_tables.sql');
-          return this.getMessages(conversationId);
-        }
-        throw error;
-      }
+      const messages = await repositories.messages.listForConversation(conversationId);
       
-      return data || [];
+      writeCache(CACHE_KEYS.messages(conversationId), messages);
+      return messages;
     } catch (error) {
-      console.error('Error fetching messages:', error);
-      
-      if (isTableNotExistError(error)) {
-        console.warn('messages table does not exist, falling back to mock data');
-        DETECTED_MISSING_TABLES = true;
-        console.info('To fix this issue, run the SQL script in scripts/create_conversation_tables.sql');
-        return this.getMessages(conversationId);
+      // Offline, show the cached messages followed by any still waiting to be sent
+      if (OfflineService.isOfflineError(error)) {
+        const cached = await readCache<Message[]>(CACHE_KEYS.messages(conversationId));
+        if (cached) {
+          const queued = await getQueuedMessages(conversationId);
+          const receiverId = cached.find(message => message.receiver_id)?.receiver_id || '';
+          return [
+            ...cached,
+            ...queued.map(message => toPendingMessage(message, receiverId)),
+          ];
+        }
       }
-      
+
+      console.error('Error fetching messages:', error);
       throw error;
     }
   },
@@ -462,89 +303,51 @@ export const MessageService = {
       throw new Error('User must be logged in to send messages');
     }
     
-    if (USE_MOCK_DATA) {
-      return new Promise((resolve, reject) => {
-        setTimeout(() => {
-          // Find the conversation
-          const conversation = mockConversations.find(conv => conv.id === conversationId);
-          
-          if (!conversation) {
-            reject(new Error('Conversation not found'));
-            return;
-          }
-          
-          // Determine receiver
-          const receiverId = conversation.buyer_id === userId 
-            ? conversation.seller_id 
-            : conversation.buyer_id;
-          
-          // Create a new message
-          const newMessage: Message = {
-            id: `msg-${mockMessages.length + 1}`.padStart(7, '0'),
-            conversation_id: conversationId,
-            sender_id: userId,
-            receiver_id: receiverId,
-            content,
-            created_at: new Date().toISOString(),
-            read: false
-          };
-          
-          // Add to mock data
-          mockMessages.push(newMessage);
-          
-          // Update conversation's last message time
-          const convIndex = mockConversations.findIndex(conv => conv.id === conversationId);
-          if (convIndex !== -1) {
-            mockConversations[convIndex].last_message_at = newMessage.created_at;
-          }
-          
-          resolve(newMessage);
-        }, 300);
-      });
+    const queued: QueuedMessage = {
+      id: generateMessageId(),
+      conversationId,
+      senderId: userId,
+      content,
+      createdAt: new Date().toISOString(),
+    };
+
+    // Messages still queued from earlier go first, so this one waits behind them
+    if ((await getQueuedMessages(conversationId)).length > 0) {
+      const pending = await queueMessage(queued);
+      OfflineService.replay().catch(error => console.error('Error replaying offline queue:', error));
+      return pending;
     }
-    
+
     try {
       // First get the conversation to determine the receiver
-      const { data: conversation, error: convError } = await supabase
-        .from('conversations')
-        .select('*')
-        .eq('id', conversationId)
-        .single();
-        
-      if (convError) {
-        throw convError;
+      const conversation = await repositories.conversations.getById(conversationId);
+      
+      if (!conversation) {
+        throw new Error('Conversation not found');
       }
       
-      const receiverId = conversation.buyer_id === userId 
-        ? conversation.seller_id 
-        : conversation.buyer_id;
+      await assertNotSuspended(userId);
+      await assertNotBlocked(userId, getOtherUserId(conversation, userId));
       
-      // Create the message
-      const { data, error } = await supabase
-        .from('messages')
-        .insert({
-          conversation_id: conversationId,
-          sender_id: userId,
-          receiver_id: receiverId,
-          content,
-          created_at: new Date().toISOString(),
-          read: false
-        })
-        .select()
-        .single();
-        
-      if (error) {
-        throw error;
-      }
+      const message = await repositories.messages.insert({
+        id: queued.id,
+        conversation_id: conversationId,
+        sender_id: userId,
+        receiver_id: getOtherUserId(conversation, userId),
+        content,
+        created_at: queued.createdAt,
+        read: false
+      });
       
-      // Update the conversation's last message time
-      await supabase
-        .from('conversations')
-        .update({ last_message_at: new Date().toISOString() })
-        .eq('id', conversationId);
+      await touchAfterMessage(conversationId);
       
-      return data;
+      return message;
     } catch (error) {
+      // Offline, queue the message and show it as pending until it is delivered
+      if (OfflineService.isOfflineError(error)) {
+        return queueMessage(queued);
+      }
+
       console.error('Error sending message:', error);
       throw error;
     }
@@ -560,33 +363,8 @@ export const MessageService = {
       throw new Error('User must be logged in to mark messages as read');
     }
     
-    if (USE_MOCK_DATA) {
-      return new Promise(resolve => {
-        setTimeout(() => {
-          // Update mock messages
-          mockMessages = mockMessages.map(msg => {
-            if (msg.conversation_id === conversationId && msg.receiver_id === userId) {
-              return { ...msg, read: true };
-            }
-            return msg;
-          });
-          
-          resolve();
-        }, 200);
-      });
-    }
-    
     try {
-      const { error } = await supabase
-        .from('messages')
-        .update({ read: true })
-        .eq('conversation_id', conversationId)
-        .eq('receiver_id', userId)
-        .eq('read', false);
-        
-      if (error) {
-        throw error;
-      }
+      await repositories.messages.markRead(conversationId, userId);
     } catch (error) {
       console.error('Error marking messages as read:', error);
       throw error;
@@ -607,141 +385,31 @@ export const MessageService = {
       throw new Error('Cannot start a conversation with yourself');
     }
     
-    if (USE_MOCK_DATA) {
-      return new Promise((resolve, reject) => {
-        setTimeout(() => {
-          // Check if a conversation already exists
-          const existingConversation = mockConversations.find(
-            conv => conv.listing_id === listingId && 
-                   conv.buyer_id === userId && 
-                   conv.seller_id === sellerId
-          );
-          
-          if (existingConversation) {
-            // Add the new message to the existing conversation
-            const newMessage: Message = {
-              id: `msg-${mockMessages.length + 1}`.padStart(7, '0'),
-              conversation_id: existingConversation.id,
-              sender_id: userId,
-              receiver_id: sellerId,
-              content: initialMessage,
-              created_at: new Date().toISOString(),
-              read: false
-            };
-            
-            mockMessages.push(newMessage);
-            
-            // Update last message time
-            const convIndex = mockConversations.findIndex(conv => conv.id === existingConversation.id);
-            if (convIndex !== -1) {
-              mockConversations[convIndex].last_message_at = newMessage.created_at;
-            }
-            
-            resolve(existingConversation);
-            return;
-          }
-          
-          // Create a new conversation
-          const newConversation: Conversation = {
-            id: `conv-${mockConversations.length + 1}`.padStart(7, '0'),
-            listing_id: listingId,
-            buyer_id: userId,
-            seller_id: sellerId,
-            created_at: new Date().toISOString(),
-            last_message_at: new Date().toISOString(),
-            is_active: true
-          };
-          
-          // Add to mock data
-          mockConversations.push(newConversation);
-          
-          // Create the initial message
-          const newMessage: Message = {
-            id: `msg-${mockMessages.length + 1}`.padStart(7, '0'),
-            conversation_id: newConversation.id,
-            sender_id: userId,
-            receiver_id: sellerId,
-            content: initialMessage,
-            created_at: new Date().toISOString(),
-            read: false
-          };
-          
-          mockMessages.push(newMessage);
-          
-          resolve(newConversation);
-        }, 500);
-      });
-    }
-    
     try {
-      // Check for existing conversation
-      const { data: existingConversations, error: checkError } = await supabase
-        .from('conversations')
-        .select('*')
-        .eq('listing_id', listingId)
-        .eq('buyer_id', userId)
-        .eq('seller_id', sellerId)
-        .eq('is_active', true);
-        
-      if (checkError) {
-        throw checkError;
-      }
+      await assertNotSuspended(userId);
+      await assertNotBlocked(userId, sellerId);
       
-      let conversationId: string;
+      const details = { listing_id: listingId, buyer_id: userId, seller_id: sellerId };
+      const now = new Date().toISOString();
+      let conversation = await repositories.conversations.findActive(details);
       
-      if (existingConversations && existingConversations.length > 0) {
-        // Use existing conversation
-        conversationId = existingConversations[0].id;
-        
-        // Update last message time
-        await supabase
-          .from('conversations')
-          .update({ last_message_at: new Date().toISOString() })
-          .eq('id', conversationId);
+      if (conversation) {
+        // Continue the existing conversation
+        await repositories.conversations.touch(conversation.id, now);
+        conversation = { ...conversation, last_message_at: now };
       } else {
-        // Create a new conversation
-        const { data: newConversation, error: createError } = await supabase
-          .from('conversations')
-          .insert({
-            listing_id: listingId,
-            buyer_id: userId,
-            seller_id: sellerId,
-            created_at: new Date().toISOString(),
-            last_message_at: new Date().toISOString(),
-            is_active: true
-          })
-          .select()
-          .single();
-          
-        if (createError || !newConversation) {
-          throw createError || new Error('Failed to create conversation');
-        }
-        
-        conversationId = newConversation.id;
+        conversation = await repositories.conversations.create(details);
       }
       
       // Create the initial message
-      await supabase
-        .from('messages')
-        .insert({
-          conversation_id: conversationId,
-          sender_id: userId,
-          receiver_id: sellerId,
-          content: initialMessage,
-          created_at: new Date().toISOString(),
-          read: false
-        });
-      
-      // Return the conversation
-      const { data: conversation, error: getError } = await supabase
-        .from('conversations')
-        .select('*')
-        .eq('id', conversationId)
-        .single();
-        
-      if (getError || !conversation) {
-        throw getError || new Error('Failed to get conversation');
-      }
+      await repositories.messages.insert({
+        conversation_id: conversation.id,
+        sender_id: userId,
+        receiver_id: sellerId,
+        content: initialMessage,
+        created_at: now,
+        read: false
+      });
       
       return conversation;
     } catch (error) {
@@ -750,6 +418,43 @@ export const MessageService = {
     }
   },
   
+  /**
+   * Check whether the current user has ever had a conversation with another user,
+   * either as the buyer or as the seller
+   */
+  async hasConversationWith(otherUserId: string): Promise<boolean> {
+    const userId = await getUserId();
+    
+    if (!userId || userId === otherUserId) {
+      return false;
+    }
+    
+    try {
+      return await repositories.conversations.existsBetween(userId, otherUserId);
+    } catch (error) {
+      console.error('Error checking conversation history:', error);
+      return false;
+    }
+  },
+  
+  /**
+   * Check whether the current user has ever messaged a seller about one of their listings
+   */
+  async hasConversationAsBuyerWith(sellerId: string): Promise<boolean> {
+    const userId = await getUserId();
+    
+    if (!userId || userId === sellerId) {
+      return false;
+    }
+    
+    try {
+      return await repositories.conversations.existsWithSeller(userId, sellerId);
+    } catch (error) {
+      console.error('Error checking conversation history:', error);
+      return false;
+    }
+  },
+  
   /**
    * Get the total number of unread messages for the current user
    */
@@ -760,47 +465,58 @@ export const MessageService = {
       return 0;
     }
     
-    if (USE_MOCK_DATA || DETECTED_MISSING_TABLES) {
-      return new Promise(resolve => {
-        setTimeout(() => {
-          const unreadCount = mockMessages.filter(
-            msg => msg.receiver_id === userId && !msg.read
-          ).length;
-          
-          resolve(unreadCount);
-        }, 200);
-      });
-    }
-    
     try {
-      const { count, error } = await supabase
-        .from('messages')
-        .select('*', { count: 'exact' })
-        .eq('receiver_id', userId)
-        .eq('read', false);
-        
-      if (error) {
-        if (isTableNotExistError(error)) {
-          console.warn('messages table does not exist, falling back to mock data');
-          DETECTED_MISSING_TABLES = true;
-          console.info('To fix this issue, run the SQL script in scripts/create_conversation_tables.sql');
-          return this.getUnreadCount();
-        }
-        throw error;
-      }
-      
-      return count || 0;
+      return await repositories.messages.countUnread(userId);
     } catch (error) {
       console.error('Error getting unread count:', error);
-      
-      if (isTableNotExistError(error)) {
-        console.warn('messages table does not exist, falling back to mock data');
-        DETECTED_MISSING_TABLES = true;
-        console.info('To fix this issue, run the SQL script in scripts/create_conversation_tables.sql');
-        return this.getUnreadCount();
-      }
-      
       return 0;
     }
+  },
+  
+  /**
+   * Listen for new or updated messages in a conversation and for changes to the
+   * conversation itself. Returns a function that stops the subscription.
+   */
+  subscribeToConversation(conversationId: string, onChange: MessageChangeListener): () => void {
+    return repositories.messages.subscribe(
+      `conversation-${conversationId}`,
+      [
+        { table: 'messages', column: 'conversation_id', value: conversationId },
+        { table: 'conversations', column: 'id', value: conversationId }
+      ],
+      onChange
+    );
+  },
+  
+  /**
+   * Listen for message and conversation changes involving a user, for keeping
+   * the inbox and unread badge current. Returns a function that stops the subscription.
+   */
+  subscribeToInbox(userId: string, onChange: MessageChangeListener): () => void {
+    return repositories.messages.subscribe(
+      `inbox-${userId}`,
+      [
+        { table: 'messages', column: 'receiver_id', value: userId },
+        { table: 'messages', column: 'sender_id', value: userId },
+        { table: 'conversations', column: 'buyer_id', value: userId },
+        { table: 'conversations', column: 'seller_id', value: userId }
+      ],
+      onChange
+    );
+  },
+  
+  /**
+   * Bump a conversation's last activity time so it sorts to the top of the inbox
+   * and subscribers are told something changed (used for swap proposal updates)
+   */
+  async touchConversation(conversationId: string): Promise<void> {
+    try {
+      await repositories.conversations.touch(conversationId, new Date().toISOString());
+    } catch (error) {
+      console.error('Error updating conversation:', error);
+      throw error;
+    }
   }
-}; 
\ No newline at end of file
+};
+
+OfflineService.registerHandler(QUEUED_MESSAGE_WRITE, replayQueuedMessage);
@@ -0,0 +1,115 @@
+import { repositories } from '../repositories';
+import { getUserId } from '../utils/auth';
+
+export type NotificationType = 'price_drop' | 'listing_removed' | 'message';
+
+// Named to stay clear of the DOM's Notification
+export interface AppNotification {
+  id: string;
+  // The user the notification is for
+  user_id: string;
+  type: NotificationType;
+  title: string;
+  body: string;
+  // The listing it is about, which may since have been deleted
+  listing_id: string | null;
+  conversation_id: string | null;
+  // The message a message notification announces
+  message_id?: string | null;
+  read: boolean;
+  created_at: string;
+}
+
+export const NotificationService = {
+  /**
+   * Get the current user's notifications, newest first
+   */
+  async getNotifications(): Promise<AppNotification[]> {
+    const userId = await getUserId();
+
+    if (!userId) {
+      return [];
+    }
+
+    try {
+      return await repositories.notifications.listForUser(userId);
+    } catch (error) {
+      console.error('Error fetching notifications:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Get the number of unread notifications, for badges
+   */
+  async getUnreadCount(): Promise<number> {
+    const userId = await getUserId();
+
+    if (!userId) {
+      return 0;
+    }
+
+    try {
+      return await repositories.notifications.countUnread(userId);
+    } catch (error) {
+      console.error('Error getting unread notification count:', error);
+      return 0;
+    }
+  },
+
+  /**
+   * Mark one notification as read
+   */
+  async markAsRead(id: string): Promise<void> {
+    try {
+      await repositories.notifications.markRead(id);
+    } catch (error) {
+      console.error('Error marking notification as read:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Mark all of the current user's notifications as read
+   */
+  async markAllAsRead(): Promise<void> {
+    const userId = await getUserId();
+
+    if (!userId) {
+      return;
+    }
+
+    try {
+      await repositories.notifications.markAllRead(userId);
+    } catch (error) {
+      console.error('Error marking notifications as read:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Delete all of the current user's notifications
+   */
+  async clearAll(): Promise<void> {
+    const userId = await getUserId();
+
+    if (!userId) {
+      return;
+    }
+
+    try {
+      await repositories.notifications.clear(userId);
+    } catch (error) {
+      console.error('Error clearing notifications:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Listen for a user's notifications being added, read or cleared. Returns a
+   * function that stops the subscription.
+   */
+  subscribe(userId: string, onChange: () => void): () => void {
+    return repositories.notifications.subscribe(userId, onChange);
+  }
+};
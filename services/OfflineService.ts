@@ -0,0 +1,234 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import NetInfo, { NetInfoState } from '@react-native-community/netinfo';
+import { isNetworkError } from '../utils/offlineCache';
+
+const QUEUE_STORAGE_KEY = '@secondhandbook/offline-queue/v1';
+
+// Writes that keep failing for reasons other than the network are dropped after this many tries
+const MAX_REPLAY_ATTEMPTS = 5;
+
+// Errors that mean a queued write can never succeed, e.g. the listing or
+// conversation was deleted or the user lost access while they were offline
+const CONFLICT_ERROR_CODES = [
+  '23503', // foreign key violation
+  '42501', // insufficient privilege (row level security)
+  'PGRST116', // row not found
+];
+
+export interface QueuedWrite<P = any> {
+  id: string;
+  type: string;
+  payload: P;
+  // Writes with the same key replace each other, so only the latest intent is replayed
+  dedupeKey?: string;
+  createdAt: string;
+  attempts: number;
+}
+
+export type QueueEvent =
+  | { type: 'synced'; write: QueuedWrite }
+  | { type: 'dropped'; write: QueuedWrite; error: unknown }
+  | { type: 'changed'; pendingCount: number };
+
+export type QueueListener = (event: QueueEvent) => void;
+export type NetworkStatusListener = (isOnline: boolean) => void;
+
+// Replays one queued write. Throw to keep it queued (network errors) or drop it (anything else).
+type WriteHandler = (payload: any) => Promise<void>;
+
+const handlers = new Map<string, WriteHandler>();
+const queueListeners = new Set<QueueListener>();
+const networkListeners = new Set<NetworkStatusListener>();
+
+let queue: QueuedWrite[] | null = null;
+let isOnline = true;
+let isReplaying = false;
+let writeCounter = 0;
+
+function toIsOnline(state: NetInfoState): boolean {
+  // isInternetReachable is null until it has been checked; only treat a definite false as offline
+  return state.isConnected !== false && state.isInternetReachable !== false;
+}
+
+function emit(event: QueueEvent) {
+  queueListeners.forEach(listener => listener(event));
+}
+
+async function loadQueue(): Promise<QueuedWrite[]> {
+  if (queue === null) {
+    try {
+      const raw = await AsyncStorage.getItem(QUEUE_STORAGE_KEY);
+      queue = raw ? JSON.parse(raw) : [];
+    } catch (error) {
+      console.warn('Error loading offline queue:', error);
+      queue = [];
+    }
+  }
+  return queue!;
+}
+
+async function saveQueue(writes: QueuedWrite[]): Promise<void> {
+  queue = writes;
+  try {
+    await AsyncStorage.setItem(QUEUE_STORAGE_KEY, JSON.stringify(writes));
+  } catch (error) {
+    console.warn('Error saving offline queue:', error);
+  }
+  emit({ type: 'changed', pendingCount: writes.length });
+}
+
+/**
+ * Tracks connectivity and queues writes made while offline, replaying them in
+ * order once the device is back online
+ */
+export const OfflineService = {
+  /**
+   * Whether the device currently has a connection
+   */
+  isOnline(): boolean {
+    return isOnline;
+  },
+
+  /**
+   * Whether a failed request should be treated as "offline" rather than as a real error
+   */
+  isOfflineError(error: unknown): boolean {
+    return !isOnline || isNetworkError(error);
+  },
+
+  /**
+   * Register how queued writes of a type are replayed. Services register their
+   * own handlers when they are loaded.
+   */
+  registerHandler(type: string, handler: WriteHandler): void {
+    handlers.set(type, handler);
+  },
+
+  /**
+   * Queue a write to replay once back online
+   */
+  async enqueue<P>(type: string, payload: P, dedupeKey?: string): Promise<QueuedWrite<P>> {
+    writeCounter += 1;
+    const write: QueuedWrite<P> = {
+      id: `${Date.now()}-${writeCounter}`,
+      type,
+      payload,
+      dedupeKey,
+      createdAt: new Date().toISOString(),
+      attempts: 0,
+    };
+
+    const writes = await loadQueue();
+    await saveQueue([
+      ...writes.filter(existing => !dedupeKey || existing.dedupeKey !== dedupeKey),
+      write,
+    ]);
+
+    return write;
+  },
+
+  /**
+   * Get the writes still waiting to be replayed, oldest first
+   */
+  async getPendingWrites(): Promise<QueuedWrite[]> {
+    return [...await loadQueue()];
+  },
+
+  /**
+   * Replay queued writes in order. Stops at the first network error so the
+   * remaining writes keep their order for the next attempt.
+   */
+  async replay(): Promise<void> {
+    if (isReplaying) return;
+    isReplaying = true;
+
+    try {
+      let writes = await loadQueue();
+
+      while (writes.length > 0) {
+        const write = writes[0];
+        const handler = handlers.get(write.type);
+
+        try {
+          if (!handler) {
+            throw new Error(`No handler registered for queued ${write.type} writes`);
+          }
+          await handler(write.payload);
+          writes = writes.slice(1);
+          await saveQueue(writes);
+          emit({ type: 'synced', write });
+        } catch (error) {
+          if (isNetworkError(error)) {
+            // Still offline; try again on the next reconnect
+            return;
+          }
+
+          const attempts = write.attempts + 1;
+          const isConflict = CONFLICT_ERROR_CODES.includes((error as any)?.code);
+
+          if (isConflict || attempts >= MAX_REPLAY_ATTEMPTS) {
+            console.warn(`Dropping queued ${write.type} write:`, error);
+            writes = writes.slice(1);
+            await saveQueue(writes);
+            emit({ type: 'dropped', write, error });
+          } else {
+            // Keep it at the front and try again later, so later writes stay in order
+            await saveQueue([{ ...write, attempts }, ...writes.slice(1)]);
+            return;
+          }
+        }
+      }
+    } finally {
+      isReplaying = false;
+    }
+  },
+
+  /**
+   * Start tracking connectivity and replaying the queue whenever the device reconnects
+   * @returns A function that stops tracking
+   */
+  start(): () => void {
+    const unsubscribe = NetInfo.addEventListener(state => {
+      const wasOnline = isOnline;
+      isOnline = toIsOnline(state);
+
+      if (wasOnline !== isOnline) {
+        networkListeners.forEach(listener => listener(isOnline));
+      }
+      if (isOnline) {
+        this.replay().catch(error => console.error('Error replaying offline queue:', error));
+      }
+    });
+
+    return unsubscribe;
+  },
+
+  /**
+   * Listen for connectivity changes
+   * @returns A function that removes the listener
+   */
+  subscribeToNetworkStatus(listener: NetworkStatusListener): () => void {
+    networkListeners.add(listener);
+    return () => {
+      networkListeners.delete(listener);
+    };
+  },
+
+  /**
+   * Listen for queued writes being synced, dropped or added
+   * @returns A function that removes the listener
+   */
+  subscribeToQueue(listener: QueueListener): () => void {
+    queueListeners.add(listener);
+    return () => {
+      queueListeners.delete(listener);
+    };
+  },
+
+  /**
+   * Discard all queued writes, e.g. when the user signs out
+   */
+  async clear(): Promise<void> {
+    await saveQueue([]);
+  },
+};
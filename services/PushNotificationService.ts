@@ -0,0 +1,137 @@
+import { Platform } from 'react-native';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as Device from 'expo-device';
+import * as Notifications from 'expo-notifications';
+import { repositories } from '../repositories';
+import { getUserId } from '../utils/auth';
+import type { ChatPushData } from '../utils/chatPush';
+
+export type { ChatPushData } from '../utils/chatPush';
+
+// This device's token, remembered so it can be unregistered on sign out
+const PUSH_TOKEN_KEY = 'push:token';
+
+export interface PushSettings {
+  messages: boolean;
+  offers: boolean;
+}
+
+/**
+ * The Chat route params carried by a push, or null if it is not about a conversation.
+ * The database sends pushes; see send_chat_push in scripts/create_push_settings_table.sql.
+ */
+export function getChatPushData(data: Record<string, unknown> | undefined | null): ChatPushData | null {
+  if (!data || typeof data.conversationId !== 'string') {
+    return null;
+  }
+
+  return {
+    conversationId: data.conversationId,
+    otherUserName: typeof data.otherUserName === 'string' ? data.otherUserName : 'User',
+    listingTitle: typeof data.listingTitle === 'string' ? data.listingTitle : 'Book',
+  };
+}
+
+export const PushNotificationService = {
+  /**
+   * Ask for permission and register this device's push token with the signed-in
+   * user. Returns the token, or null on a simulator or without permission.
+   */
+  async register(): Promise<string | null> {
+    const userId = await getUserId();
+
+    // Simulators cannot receive pushes
+    if (!userId || !Device.isDevice) {
+      return null;
+    }
+
+    try {
+      let { status } = await Notifications.getPermissionsAsync();
+      if (status !== 'granted') {
+        ({ status } = await Notifications.requestPermissionsAsync());
+      }
+
+      if (status !== 'granted') {
+        return null;
+      }
+
+      if (Platform.OS === 'android') {
+        await Notifications.setNotificationChannelAsync('default', {
+          name: 'Messages and offers',
+          importance: Notifications.AndroidImportance.HIGH,
+        });
+      }
+
+      const { data: token } = await Notifications.getExpoPushTokenAsync({
+        projectId: process.env.EXPO_PUBLIC_EAS_PROJECT_ID,
+      });
+
+      await repositories.pushSettings.addToken(userId, token);
+      await AsyncStorage.setItem(PUSH_TOKEN_KEY, token);
+      return token;
+    } catch (error) {
+      console.error('Error registering for push notifications:', error);
+      return null;
+    }
+  },
+
+  /**
+   * Stop sending pushes to this device. Call while still signed in.
+   */
+  async unregister(): Promise<void> {
+    const userId = await getUserId();
+    const token = await AsyncStorage.getItem(PUSH_TOKEN_KEY);
+
+    if (!token) {
+      return;
+    }
+
+    try {
+      if (userId) {
+        await repositories.pushSettings.removeToken(userId, token);
+      }
+      await AsyncStorage.removeItem(PUSH_TOKEN_KEY);
+    } catch (error) {
+      console.error('Error unregistering from push notifications:', error);
+    }
+  },
+
+  /**
+   * Which pushes the current user receives
+   */
+  async getSettings(): Promise<PushSettings> {
+    const userId = await getUserId();
+    const settings = userId ? await repositories.pushSettings.get(userId) : null;
+
+    return {
+      messages: !settings?.mute_message_pushes,
+      offers: !settings?.mute_offer_pushes,
+    };
+  },
+
+  /**
+   * Turn pushes for messages or offers on or off for the current user
+   */
+  async updateSettings(settings: Partial<PushSettings>): Promise<PushSettings> {
+    const userId = await getUserId();
+
+    if (!userId) {
+      throw new Error('User must be logged in to change notification settings');
+    }
+
+    try {
+      const saved = await repositories.pushSettings.update(userId, {
+        mute_message_pushes: settings.messages === undefined ? undefined : !settings.messages,
+        mute_offer_pushes: settings.offers === undefined ? undefined : !settings.offers,
+      });
+
+      return {
+        messages: !saved.mute_message_pushes,
+        offers: !saved.mute_offer_pushes,
+      };
+    } catch (error) {
+      console.error('Error updating notification settings:', error);
+      throw error;
+    }
+  }
+};
@@ -0,0 +1,124 @@
+import { repositories } from '../repositories';
+import { getUserId } from '../utils/auth';
+import type { BookListing } from './BookService';
+import type { Message } from './MessageService';
+
+export type ReportReason = 'spam' | 'scam' | 'inappropriate' | 'harassment' | 'other';
+
+export type ReportStatus = 'open' | 'dismissed' | 'resolved';
+
+export const REPORT_REASON_LABELS: Record<ReportReason, string> = {
+  spam: 'Spam or misleading',
+  scam: 'Fraud or scam attempt',
+  inappropriate: 'Inappropriate content',
+  harassment: 'Harassment or abuse',
+  other: 'Something else',
+};
+
+// Longest explanation a report can carry
+export const MAX_REPORT_DETAILS_LENGTH = 1000;
+
+// A report of a listing, of a user, or of a message (which also names its sender)
+export interface Report {
+  id: string;
+  reporter_id: string;
+  reason: ReportReason;
+  details: string | null;
+  listing_id: string | null;
+  reported_user_id: string | null;
+  message_id: string | null;
+  status: ReportStatus;
+  created_at: string;
+}
+
+export type NewReport = Pick<Report, 'reason' | 'details' | 'listing_id' | 'reported_user_id' | 'message_id'>;
+
+/**
+ * Check the reason and explanation of a report and file it for the current user
+ */
+async function submitReport(
+  target: Pick<NewReport, 'listing_id' | 'reported_user_id' | 'message_id'>,
+  reason: ReportReason,
+  details?: string
+): Promise<Report> {
+  const userId = await getUserId();
+
+  if (!userId) {
+    throw new Error('User must be logged in to report');
+  }
+
+  const trimmedDetails = details?.trim() || null;
+
+  if (reason === 'other' && !trimmedDetails) {
+    throw new Error('Please describe the problem');
+  }
+
+  if (trimmedDetails && trimmedDetails.length > MAX_REPORT_DETAILS_LENGTH) {
+    throw new Error(`Please keep the description under ${MAX_REPORT_DETAILS_LENGTH} characters`);
+  }
+
+  try {
+    return await repositories.reports.submit(userId, { ...target, reason, details: trimmedDetails });
+  } catch (error) {
+    console.error('Error submitting report:', error);
+    throw error;
+  }
+}
+
+export const ReportService = {
+  /**
+   * Report a listing. Once enough different users report it, it is hidden from
+   * everyone but its seller until it has been reviewed.
+   */
+  async reportListing(listing: BookListing, reason: ReportReason, details?: string): Promise<Report> {
+    if (listing.seller_id === await getUserId()) {
+      throw new Error('You cannot report your own listing');
+    }
+
+    return submitReport({ listing_id: listing.id, reported_user_id: null, message_id: null }, reason, details);
+  },
+
+  /**
+   * Report another user
+   */
+  async reportUser(userId: string, reason: ReportReason, details?: string): Promise<Report> {
+    if (userId === await getUserId()) {
+      throw new Error('You cannot report yourself');
+    }
+
+    return submitReport({ listing_id: null, reported_user_id: userId, message_id: null }, reason, details);
+  },
+
+  /**
+   * Report a message the current user received
+   */
+  async reportMessage(message: Message, reason: ReportReason, details?: string): Promise<Report> {
+    if (message.receiver_id !== await getUserId()) {
+      throw new Error('You can only report messages sent to you');
+    }
+
+    return submitReport(
+      { listing_id: null, reported_user_id: message.sender_id, message_id: message.id },
+      reason,
+      details
+    );
+  },
+
+  /**
+   * Get the reports the current user has filed, newest first
+   */
+  async getMyReports(): Promise<Report[]> {
+    const userId = await getUserId();
+
+    if (!userId) {
+      return [];
+    }
+
+    try {
+      return await repositories.reports.listByReporter(userId);
+    } catch (error) {
+      console.error('Error fetching reports:', error);
+      throw error;
+    }
+  }
+};
@@ -0,0 +1,141 @@
+import { repositories } from '../repositories';
+import { getUserId } from '../utils/auth';
+import { MessageService } from './MessageService';
+
+export interface Review {
+  id: string;
+  seller_id: string;
+  reviewer_id: string;
+  rating: number;
+  comment?: string;
+  created_at: string;
+}
+
+export interface ReviewWithReviewer extends Review {
+  reviewer: {
+    id: string;
+    name: string;
+    profileImage?: string;
+  };
+}
+
+export interface SellerRatingSummary {
+  averageRating: number | null;
+  reviewCount: number;
+}
+
+export type NewReview = Pick<Review, 'seller_id' | 'reviewer_id' | 'rating' | 'comment'>;
+
+export const ReviewService = {
+  /**
+   * Get all reviews left for a seller, newest first
+   */
+  async getReviewsForSeller(sellerId: string): Promise<ReviewWithReviewer[]> {
+    try {
+      const reviews = await repositories.reviews.listForSeller(sellerId);
+      const reviewers = await repositories.users.getByIds([...new Set(reviews.map(review => review.reviewer_id))]);
+
+      return reviews.map(review => {
+        const reviewer = reviewers.find(user => user.id === review.reviewer_id);
+        return {
+          ...review,
+          reviewer: {
+            id: review.reviewer_id,
+            name: reviewer?.name || 'Unknown User',
+            profileImage: reviewer?.profile_image
+          }
+        };
+      });
+    } catch (error) {
+      console.error('Error fetching reviews:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Get the average rating and number of reviews for a seller
+   */
+  async getSellerRating(sellerId: string): Promise<SellerRatingSummary> {
+    try {
+      return await repositories.reviews.getSellerRating(sellerId);
+    } catch (error) {
+      console.error('Error fetching seller rating:', error);
+      return { averageRating: null, reviewCount: 0 };
+    }
+  },
+
+  /**
+   * Get the review the current user has left for a seller, if any
+   */
+  async getMyReviewForSeller(sellerId: string): Promise<Review | null> {
+    const userId = await getUserId();
+
+    try {
+      return await repositories.reviews.findByReviewer(sellerId, userId);
+    } catch (error) {
+      console.error('Error fetching own review:', error);
+      return null;
+    }
+  },
+
+  /**
+   * Check whether the current user may review a seller.
+   * A review is allowed once per seller, and only after the user has messaged them about a listing.
+   */
+  async canReviewSeller(sellerId: string): Promise<boolean> {
+    try {
+      // Signed-out users cannot review anyone
+      const user = await repositories.auth.getSessionUser();
+
+      if (!user || user.id === sellerId) {
+        return false;
+      }
+
+      const [hasConversation, existingReview] = await Promise.all([
+        MessageService.hasConversationAsBuyerWith(sellerId),
+        this.getMyReviewForSeller(sellerId)
+      ]);
+
+      return hasConversation && !existingReview;
+    } catch (error) {
+      console.error('Error checking review eligibility:', error);
+      return false;
+    }
+  },
+
+  /**
+   * Leave a review for a seller
+   */
+  async submitReview(sellerId: string, rating: number, comment?: string): Promise<Review> {
+    const userId = await getUserId();
+
+    if (!userId) {
+      throw new Error('User must be logged in to leave a review');
+    }
+
+    if (userId === sellerId) {
+      throw new Error('You cannot review yourself');
+    }
+
+    if (!Number.isInteger(rating) || rating < 1 || rating > 5) {
+      throw new Error('Rating must be a whole number between 1 and 5');
+    }
+
+    const hasConversation = await MessageService.hasConversationAsBuyerWith(sellerId);
+    if (!hasConversation) {
+      throw new Error('You can only review sellers you have messaged');
+    }
+
+    try {
+      return await repositories.reviews.create({
+        seller_id: sellerId,
+        reviewer_id: userId,
+        rating,
+        comment: comment?.trim() || undefined
+      });
+    } catch (error) {
+      console.error('Error submitting review:', error);
+      throw error;
+    }
+  }
+};
@@ -1,17 +1,8 @@
-import { supabase } from '../config/supabase';
-import { BookListing, BookService } from './BookService';
+import { repositories } from '../repositories';
+import { BookListing } from './BookService';
 import { getUserId } from '../utils/auth';
-
-// If true, we'll use mock data for saved items
-// We'll also dynamically fall back to mock data if we detect the saved_items table doesn't exist
-const USE_MOCK_DATA = false;
-
-// Flag to track if we've detected the saved_items table is missing
-let DETECTED_MISSING_TABLE = false;
-
-// In-memory mock storage for development
-let mockFavorites: Record<string, string[]> = {};
-let mockWishlist: Record<string, string[]> = {};
+import { CACHE_KEYS, findCachedListing, readCache, updateCache, writeCache } from '../utils/offlineCache';
+import { OfflineService } from './OfflineService';
 
 export enum SavedItemType {
   FAVORITE = 'favorite',
@@ -26,9 +17,42 @@ export interface SavedItem {
   created_at: string;
 }
 
-// Helper function to check if an error is "table does not exist"
-function isTableNotExistError(error: any): boolean {
-  return error && error.code === '42P01'; // PostgreSQL error code for "relation does not exist"
+// Queued write type for saves and unsaves made while offline
+const SAVED_ITEM_WRITE = 'savedItem';
+
+interface SavedItemWrite {
+  userId: string;
+  bookId: string;
+  type: SavedItemType;
+  // The state the user left the item in; replaying it twice has the same effect as once
+  saved: boolean;
+}
+
+/**
+ * Queue a save or unsave made while offline and show it in the cached list straight away
+ */
+async function queueSavedItemWrite(write: SavedItemWrite): Promise<void> {
+  // Only the last change to an item matters, so it replaces any earlier one
+  await OfflineService.enqueue(SAVED_ITEM_WRITE, write, `${write.userId}/${write.type}/${write.bookId}`);
+
+  const listing = write.saved ? await findCachedListing(write.bookId) : null;
+  await updateCache<BookListing[]>(CACHE_KEYS.savedItems(write.userId, write.type), cached => {
+    const others = (cached || []).filter(book => book.id !== write.bookId);
+    return listing ? [listing, ...others] : others;
+  });
+}
+
+/**
+ * Apply a queued save or unsave. Saving an item that is already saved, or
+ * unsaving one that is already gone, is not a conflict.
+ */
+async function replaySavedItemWrite({ userId, bookId, type, saved }: SavedItemWrite): Promise<void> {
+  // A listing deleted in the meantime fails with a foreign key error, which drops the write
+  if (saved) {
+    await repositories.savedItems.add({ userId, bookId, type });
+  } else {
+    await repositories.savedItems.remove({ userId, bookId, type });
+  }
 }
 
 export const SavedItemsService = {
@@ -42,54 +66,14 @@ export const SavedItemsService = {
       throw new Error('User must be logged in to save items');
     }
     
-    if (USE_MOCK_DATA || DETECTED_MISSING_TABLE) {
-      return new Promise(resolve => {
-        setTimeout(() => {
-          if (type === SavedItemType.FAVORITE) {
-            mockFavorites[userId] = mockFavorites[userId] || [];
-            if (!mockFavorites[userId].includes(bookId)) {
-              mockFavorites[userId].push(bookId);
-            }
-          } else {
-            mockWishlist[userId] = mockWishlist[userId] || [];
-            if (!mockWishlist[userId].includes(bookId)) {
-              mockWishlist[userId].push(bookId);
-            }
-          }
-          console.log(`Added ${type} for book ${bookId}`);
-          resolve();
-        }, 300);
-      });
-    }
-    
     try {
-      const { error } = await supabase
-        .from('saved_items')
-        .upsert({
-          user_id: userId,
-          book_id: bookId,
-          type,
-          created_at: new Date().toISOString()
-        });
-        
-      if (error) {
-        if (isTableNotExistError(error)) {
-          console.warn('saved_items table does not exist, falling back to mock data');
-          DETECTED_MISSING_TABLE = true;
-          return this.addSavedItem(bookId, type);
-        }
-        throw error;
-      }
+      await repositories.savedItems.add({ userId, bookId, type });
     } catch (error) {
-      console.error(`Error adding ${type}:`, error);
-      
-      // Fall back to mock data if table doesn't exist
-      if (isTableNotExistError(error)) {
-        console.warn('saved_items table does not exist, falling back to mock data');
-        DETECTED_MISSING_TABLE = true;
-        return this.addSavedItem(bookId, type);
+      if (OfflineService.isOfflineError(error)) {
+        return queueSavedItemWrite({ userId, bookId, type, saved: true });
       }
-      
+
+      console.error(`Error adding ${type}:`, error);
       throw error;
     }
   },
@@ -104,44 +88,14 @@ export const SavedItemsService = {
       throw new Error('User must be logged in to remove saved items');
     }
     
-    if (USE_MOCK_DATA || DETECTED_MISSING_TABLE) {
-      return new Promise(resolve => {
-        setTimeout(() => {
-          if (type === SavedItemType.FAVORITE) {
-            mockFavorites[userId] = (mockFavorites[userId] || []).filter(id => id !== bookId);
-          } else {
-            mockWishlist[userId] = (mockWishlist[userId] || []).filter(id => id !== bookId);
-          }
-          console.log(`Removed ${type} for book ${bookId}`);
-          resolve();
-        }, 300);
-      });
-    }
-    
     try {
-      const { error } = await supabase
-        .from('saved_items')
-        .delete()
-        .match({ user_id: userId, book_id: bookId, type });
-        
-      if (error) {
-        if (isTableNotExistError(error)) {
-          console.warn('saved_items table does not exist, falling back to mock data');
-          DETECTED_MISSING_TABLE = true;
-          return this.removeSavedItem(bookId, type);
-        }
-        throw error;
-      }
+      await repositories.savedItems.remove({ userId, bookId, type });
     } catch (error) {
-      console.error(`Error removing ${type}:`, error);
-      
-      // Fall back to mock data if table doesn't exist
-      if (isTableNotExistError(error)) {
-        console.warn('saved_items table does not exist, falling back to mock data');
-        DETECTED_MISSING_TABLE = true;
-        return this.removeSavedItem(bookId, type);
+      if (OfflineService.isOfflineError(error)) {
+        return queueSavedItemWrite({ userId, bookId, type, saved: false });
       }
-      
+
+      console.error(`Error removing ${type}:`, error);
       throw error;
     }
   },
@@ -156,49 +110,16 @@ export const SavedItemsService = {
       return false;
     }
     
-    if (USE_MOCK_DATA || DETECTED_MISSING_TABLE) {
-      return new Promise(resolve => {
-        setTimeout(() => {
-          if (type === SavedItemType.FAVORITE) {
-            const isFavorite = (mockFavorites[userId] || []).includes(bookId);
-            resolve(isFavorite);
-          } else {
-            const isWishlist = (mockWishlist[userId] || []).includes(bookId);
-            resolve(isWishlist);
-          }
-        }, 200);
-      });
-    }
-    
     try {
-      const { data, error } = await supabase
-        .from('saved_items')
-        .select('id')
-        .match({ user_id: userId, book_id: bookId, type })
-        .single();
-        
-      if (error) {
-        if (error.code !== 'PGRST116') { // PGRST116 is "row not found" - not an error in this case
-          if (isTableNotExistError(error)) {
-            console.warn('saved_items table does not exist, falling back to mock data');
-            DETECTED_MISSING_TABLE = true;
-            return this.isSavedItem(bookId, type);
-          }
-          throw error;
-        }
-      }
-      
-      return !!data;
+      return await repositories.savedItems.exists({ userId, bookId, type });
     } catch (error) {
-      console.error(`Error checking if item is ${type}:`, error);
-      
-      // Fall back to mock data if table doesn't exist
-      if (isTableNotExistError(error)) {
-        console.warn('saved_items table does not exist, falling back to mock data');
-        DETECTED_MISSING_TABLE = true;
-        return this.isSavedItem(bookId, type);
+      // Offline, answer from the cached list, which includes changes still queued
+      if (OfflineService.isOfflineError(error)) {
+        const cached = await readCache<BookListing[]>(CACHE_KEYS.savedItems(userId, type));
+        return !!cached?.some(book => book.id === bookId);
       }
-      
+
+      console.error(`Error checking if item is ${type}:`, error);
       return false;
     }
   },
@@ -228,66 +149,21 @@ export const SavedItemsService = {
       return [];
     }
     
-    if (USE_MOCK_DATA || DETECTED_MISSING_TABLE) {
-      return new Promise(async (resolve) => {
-        setTimeout(async () => {
-          // Get all books from BookService
-          const allBooks = await BookService.getListings();
-          
-          // Filter by saved IDs
-          const savedIds = type === SavedItemType.FAVORITE 
-            ? (mockFavorites[userId] || [])
-            : (mockWishlist[userId] || []);
-          
-          const savedBooks = allBooks.filter(book => savedIds.includes(book.id));
-          console.log(`Found ${savedBooks.length} ${type} books for user ${userId}`);
-          
-          resolve(savedBooks);
-        }, 500);
-      });
-    }
-    
     try {
-      const { data, error } = await supabase
-        .from('saved_items')
-        .select('book_id')
-        .match({ user_id: userId, type });
-        
-      if (error) {
-        if (isTableNotExistError(error)) {
-          console.warn('saved_items table does not exist, falling back to mock data');
-          DETECTED_MISSING_TABLE = true;
-          return this.getSavedItems(type);
-        }
-        throw error;
-      }
-      
-      if (!data || data.length === 0) {
-        return [];
-      }
-      
-      const bookIds = data.map(item => item.book_id);
+      const bookIds = await repositories.savedItems.listBookIds(userId, type);
+      const books = await repositories.listings.getByIds(bookIds);
       
-      const { data: books, error: booksError } = await supabase
-        .from('book_listings')
-        .select('*')
-        .in('id', bookIds);
-        
-      if (booksError) {
-        throw booksError;
-      }
-      
-      return books || [];
+      writeCache(CACHE_KEYS.savedItems(userId, type), books);
+      return books;
     } catch (error) {
-      console.error(`Error fetching ${type} items:`, error);
-      
-      // Fall back to mock data if table doesn't exist
-      if (isTableNotExistError(error)) {
-        console.warn('saved_items table does not exist, falling back to mock data');
-        DETECTED_MISSING_TABLE = true;
-        return this.getSavedItems(type);
+      if (OfflineService.isOfflineError(error)) {
+        const cached = await readCache<BookListing[]>(CACHE_KEYS.savedItems(userId, type));
+        if (cached) {
+          return cached;
+        }
       }
-      
+
+      console.error(`Error fetching ${type} items:`, error);
       return [];
     }
   },
@@ -305,4 +181,6 @@ export const SavedItemsService = {
   async getWishlist(): Promise<BookListing[]> {
     return this.getSavedItems(SavedItemType.WISHLIST);
   }
-}; 
\ No newline at end of file
+};
+
+OfflineService.registerHandler(SAVED_ITEM_WRITE, replaySavedItemWrite);
\ No newline at end of file
@@ -0,0 +1,137 @@
+import { repositories } from '../repositories';
+import { BookFilterOptions } from './BookService';
+import { getUserId } from '../utils/auth';
+import { parseSearchQuery } from '../utils/search';
+
+export interface SavedSearch {
+  id: string;
+  user_id: string;
+  name: string;
+  // Search text as the user typed it; null for a search that only filters
+  query: string | null;
+  filters: BookFilterOptions;
+  // Listings created after this count as new matches
+  last_checked_at: string;
+  created_at: string;
+}
+
+export type NewSavedSearch = Pick<SavedSearch, 'name' | 'query' | 'filters'>;
+
+export interface SavedSearchWithMatches extends SavedSearch {
+  // Active listings created since the search was last checked
+  newMatchCount: number;
+}
+
+export const MAX_SAVED_SEARCH_NAME_LENGTH = 60;
+
+/**
+ * Whether a search term or filters narrow the feed enough to be worth saving
+ */
+export function isSavableSearch(query: string | null, filters: BookFilterOptions): boolean {
+  return parseSearchQuery(query || '').length > 0 || Object.values(filters).some(value =>
+    (Array.isArray(value) && value.length > 0) ||
+    (!Array.isArray(value) && value !== undefined)
+  );
+}
+
+// Drop unset options so the stored JSON only has the filters that apply
+function compactFilters(filters: BookFilterOptions): BookFilterOptions {
+  return Object.fromEntries(
+    Object.entries(filters).filter(([, value]) =>
+      value !== undefined && !(Array.isArray(value) && value.length === 0)
+    )
+  );
+}
+
+async function countNewMatches(search: SavedSearch): Promise<number> {
+  const matches = await repositories.listings.listActiveSince(
+    search.filters,
+    parseSearchQuery(search.query || ''),
+    search.last_checked_at
+  );
+  return matches.length;
+}
+
+export const SavedSearchService = {
+  /**
+   * Get the current user's saved searches, each with the number of new listings matching it
+   */
+  async getSavedSearches(): Promise<SavedSearchWithMatches[]> {
+    const userId = await getUserId();
+
+    if (!userId) {
+      return [];
+    }
+
+    try {
+      const searches = await repositories.savedSearches.listForUser(userId);
+      return await Promise.all(searches.map(async search => ({
+        ...search,
+        newMatchCount: await countNewMatches(search),
+      })));
+    } catch (error) {
+      console.error('Error fetching saved searches:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Save the current search term and filters under a name. Only listings
+   * created from now on count as new matches.
+   */
+  async saveSearch(name: string, query: string | null, filters: BookFilterOptions): Promise<SavedSearch> {
+    const userId = await getUserId();
+
+    if (!userId) {
+      throw new Error('User must be logged in to save searches');
+    }
+
+    const trimmedName = name.trim();
+    if (!trimmedName) {
+      throw new Error('Please give the search a name');
+    }
+    if (trimmedName.length > MAX_SAVED_SEARCH_NAME_LENGTH) {
+      throw new Error(`Search names can be at most ${MAX_SAVED_SEARCH_NAME_LENGTH} characters`);
+    }
+
+    const trimmedQuery = query?.trim() || null;
+    if (!isSavableSearch(trimmedQuery, filters)) {
+      throw new Error('Enter a search term or choose filters to save a search');
+    }
+
+    try {
+      return await repositories.savedSearches.create(userId, {
+        name: trimmedName,
+        query: trimmedQuery,
+        filters: compactFilters(filters),
+      });
+    } catch (error) {
+      console.error('Error saving search:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Mark a saved search's matches as seen, so its new-match count starts again from zero
+   */
+  async markSearchChecked(id: string): Promise<void> {
+    try {
+      await repositories.savedSearches.markChecked(id, new Date().toISOString());
+    } catch (error) {
+      console.error('Error updating saved search:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Delete a saved search
+   */
+  async deleteSavedSearch(id: string): Promise<void> {
+    try {
+      await repositories.savedSearches.delete(id);
+    } catch (error) {
+      console.error('Error deleting saved search:', error);
+      throw error;
+    }
+  }
+};
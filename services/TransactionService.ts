@@ -0,0 +1,113 @@
+import { repositories } from '../repositories';
+import { getUserId } from '../utils/auth';
+import { BookService, ListingStatus, canTransitionListingStatus, getListingStatus } from './BookService';
+
+// Whether the buyer paid for the book or gave books of their own for it
+export type TransactionMethod = 'sale' | 'exchange';
+
+// A completed deal between the seller of a listing and a buyer they talked to
+export interface Transaction {
+  id: string;
+  // null once the listing or conversation is deleted; the record is kept
+  listing_id: string | null;
+  conversation_id: string | null;
+  seller_id: string;
+  buyer_id: string;
+  // The title when the deal was made, so the history survives the listing
+  listing_title: string;
+  // The agreed price, which may differ from the listed one
+  price: number;
+  method: TransactionMethod;
+  created_at: string;
+}
+
+// A transaction as shown in the user's history
+export interface TransactionWithDetails extends Transaction {
+  // Whether the current user bought or sold
+  role: 'purchase' | 'sale';
+  otherUserName: string;
+}
+
+// The status the listing ends up in
+const LISTING_STATUS_FOR_METHOD: Record<TransactionMethod, ListingStatus> = {
+  sale: 'sold',
+  exchange: 'traded',
+};
+
+export const TransactionService = {
+  /**
+   * Record that the seller sold or exchanged a listing to the buyer of one of its
+   * conversations, and mark the listing as sold or traded. The repository writes
+   * both at once; the checks here give the seller a clear error first.
+   */
+  async recordTransaction(conversationId: string, price: number, method: TransactionMethod): Promise<Transaction> {
+    const userId = await getUserId();
+
+    if (!Number.isFinite(price) || price < 0) {
+      throw new Error('Please enter the price you agreed on');
+    }
+
+    const conversation = await repositories.conversations.getById(conversationId);
+    if (!conversation) {
+      throw new Error('Conversation not found');
+    }
+
+    if (conversation.seller_id !== userId) {
+      throw new Error('Only the seller can record a sale');
+    }
+
+    const listing = await BookService.getListingById(conversation.listing_id);
+    if (!listing) {
+      throw new Error('Listing not found');
+    }
+
+    const currentStatus = getListingStatus(listing);
+    const status = LISTING_STATUS_FOR_METHOD[method];
+    if (!canTransitionListingStatus(currentStatus, status)) {
+      throw new Error(`A ${currentStatus} listing cannot be marked as ${status}`);
+    }
+
+    try {
+      return await repositories.transactions.record(conversation.id, price, method);
+    } catch (error) {
+      console.error('Error recording transaction:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * The current user's purchases and sales, newest first
+   */
+  async getHistory(): Promise<TransactionWithDetails[]> {
+    const userId = await getUserId();
+
+    try {
+      const transactions = await repositories.transactions.listForUser(userId);
+      const otherUserIds = transactions.map(transaction =>
+        transaction.seller_id === userId ? transaction.buyer_id : transaction.seller_id
+      );
+      const profiles = await repositories.users.getByIds([...new Set(otherUserIds)]);
+
+      return transactions.map((transaction, index) => ({
+        ...transaction,
+        role: transaction.seller_id === userId ? 'sale' : 'purchase',
+        otherUserName: profiles.find(profile => profile.id === otherUserIds[index])?.name || 'Unknown User'
+      }));
+    } catch (error) {
+      console.error('Error fetching transaction history:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * How many books a user sold or exchanged away
+   */
+  async getSalesCount(sellerId: string): Promise<number> {
+    try {
+      return await repositories.transactions.countSales(sellerId);
+    } catch (error) {
+      console.error('Error counting sales:', error);
+      throw error;
+    }
+  }
+};
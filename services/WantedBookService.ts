@@ -0,0 +1,191 @@
+import { repositories } from '../repositories';
+import { BookListing, getListingStatus } from './BookService';
+import { getUserId } from '../utils/auth';
+import { toIsbn13 } from '../utils/isbn';
+
+// A wishlist entry for a book that may not be listed yet, described by ISBN or title
+export interface WantedBook {
+  id: string;
+  user_id: string;
+  // Stored as ISBN-13
+  isbn: string | null;
+  title: string | null;
+  author: string | null;
+  // null means any price
+  max_price: number | null;
+  // Acceptable conditions; empty accepts any
+  conditions: string[];
+  created_at: string;
+}
+
+export type NewWantedBook = Pick<WantedBook, 'isbn' | 'title' | 'author' | 'max_price' | 'conditions'>;
+
+export interface WantedBookMatch {
+  id: string;
+  wanted_book_id: string;
+  listing_id: string;
+  // The user who wants the book
+  user_id: string;
+  created_at: string;
+}
+
+// A listing that fulfils one or more of the user's wanted books
+export interface WantedBookListingMatch {
+  listing: BookListing;
+  wanted: WantedBook[];
+  matched_at: string;
+}
+
+export interface WantedBookInput {
+  isbn?: string;
+  title?: string;
+  author?: string;
+  maxPrice?: number;
+  conditions?: string[];
+}
+
+/**
+ * How a wanted book is shown in lists, e.g. "Calculus by Stewart" or "ISBN 9780134685991"
+ */
+export function describeWantedBook(wanted: WantedBook): string {
+  if (wanted.title) {
+    return wanted.author ? `${wanted.title} by ${wanted.author}` : wanted.title;
+  }
+  return `ISBN ${wanted.isbn}`;
+}
+
+export const WantedBookService = {
+  /**
+   * Get the current user's wanted books, newest first
+   */
+  async getWantedBooks(): Promise<WantedBook[]> {
+    const userId = await getUserId();
+
+    if (!userId) {
+      return [];
+    }
+
+    try {
+      return await repositories.wantedBooks.listForUser(userId);
+    } catch (error) {
+      console.error('Error fetching wanted books:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Add a book the user wants. It needs an ISBN or a title; listings created
+   * from now on that fulfil it show up as matches.
+   */
+  async addWantedBook(input: WantedBookInput): Promise<WantedBook> {
+    const userId = await getUserId();
+
+    if (!userId) {
+      throw new Error('User must be logged in to add wanted books');
+    }
+
+    const title = input.title?.trim() || null;
+    const author = input.author?.trim() || null;
+    let isbn: string | null = null;
+
+    if (input.isbn?.trim()) {
+      isbn = toIsbn13(input.isbn);
+      if (!isbn) {
+        throw new Error('Enter a valid ISBN-10 or ISBN-13');
+      }
+    }
+
+    if (!isbn && !title) {
+      throw new Error('Enter an ISBN or a title');
+    }
+
+    if (input.maxPrice !== undefined && !(input.maxPrice > 0)) {
+      throw new Error('Maximum price must be a positive number');
+    }
+
+    try {
+      return await repositories.wantedBooks.create(userId, {
+        isbn,
+        title,
+        author,
+        max_price: input.maxPrice ?? null,
+        conditions: input.conditions || [],
+      });
+    } catch (error) {
+      console.error('Error adding wanted book:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Remove a wanted book and its matches
+   */
+  async removeWantedBook(id: string): Promise<void> {
+    try {
+      await repositories.wantedBooks.delete(id);
+    } catch (error) {
+      console.error('Error removing wanted book:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Flag the wanted books a newly created listing fulfils. Call this after
+   * creating a listing; the result is how many people want the book, which is
+   * shown to the seller. Matching is best effort and never fails the listing.
+   */
+  async recordListingMatches(listing: BookListing): Promise<number> {
+    try {
+      return await repositories.wantedBooks.recordMatches(listing);
+    } catch (error) {
+      console.error('Error matching listing to wanted books:', error);
+      return 0;
+    }
+  },
+
+  /**
+   * Get the listings found for the current user's wanted books, newest first.
+   * Listings that are no longer available are left out.
+   */
+  async getMatches(): Promise<WantedBookListingMatch[]> {
+    const userId = await getUserId();
+
+    if (!userId) {
+      return [];
+    }
+
+    try {
+      const [matches, wantedBooks] = await Promise.all([
+        repositories.wantedBooks.listMatches(userId),
+        repositories.wantedBooks.listForUser(userId),
+      ]);
+
+      const listingIds = [...new Set(matches.map(match => match.listing_id))];
+      const listings = await repositories.listings.getByIds(listingIds);
+      const listingsById = new Map(listings.map(listing => [listing.id, listing]));
+      const wantedById = new Map(wantedBooks.map(wanted => [wanted.id, wanted]));
+
+      // One entry per listing, even when it fulfils several wanted books
+      const results = new Map<string, WantedBookListingMatch>();
+      matches.forEach(match => {
+        const listing = listingsById.get(match.listing_id);
+        const wanted = wantedById.get(match.wanted_book_id);
+        if (!listing || !wanted || getListingStatus(listing) !== 'active') {
+          return;
+        }
+
+        const existing = results.get(listing.id);
+        if (existing) {
+          existing.wanted.push(wanted);
+        } else {
+          results.set(listing.id, { listing, wanted: [wanted], matched_at: match.created_at });
+        }
+      });
+
+      return [...results.values()];
+    } catch (error) {
+      console.error('Error fetching wanted book matches:', error);
+      throw error;
+    }
+  }
+};
@@ -0,0 +1,171 @@
+import { AdminService } from '../AdminService';
+import { BookService } from '../BookService';
+import { MessageService } from '../MessageService';
+import { fakeSupabase } from '../../test/fakeSupabase';
+import { makeListing, makeProfile } from '../../test/fixtures';
+
+const ADMIN = 'admin-1';
+const SELLER = 'seller-1';
+const BUYER = 'buyer-1';
+
+function makeReport(id: string, overrides: Record<string, unknown> = {}) {
+  return {
+    id,
+    reporter_id: BUYER,
+    reason: 'spam',
+    details: null,
+    listing_id: null,
+    reported_user_id: SELLER,
+    message_id: null,
+    status: 'open',
+    created_at: '2024-03-01T00:00:00Z',
+    ...overrides,
+  };
+}
+
+describe('AdminService', () => {
+  beforeEach(() => {
+    fakeSupabase.signInAs(ADMIN);
+    fakeSupabase.seed('user_profiles', [
+      { ...makeProfile(ADMIN, 'Ada Admin'), is_admin: true },
+      makeProfile(SELLER, 'Sam Seller'),
+      makeProfile(BUYER, 'Bea Buyer'),
+    ]);
+  });
+
+  it('turns away users who are not admins', async () => {
+    fakeSupabase.signInAs(BUYER);
+
+    expect(await AdminService.isAdmin()).toBe(false);
+    await expect(AdminService.getListings(0)).rejects.toThrow('Only admins can do this');
+    await expect(AdminService.suspendUsers([SELLER])).rejects.toThrow('Only admins can do this');
+  });
+
+  it('pages through every listing, hidden ones included', async () => {
+    fakeSupabase.seed('book_listings', Array.from({ length: 25 }, (_, index) => makeListing({
+      id: `book-${index}`,
+      seller_id: SELLER,
+      status: index === 0 ? 'sold' : 'active',
+      hidden_at: index === 1 ? '2024-03-01T00:00:00Z' : null,
+      moderation_state: index === 2 ? 'pending' : 'approved',
+    })));
+
+    const first = await AdminService.getListings(0);
+    const second = await AdminService.getListings(1);
+    const pending = await AdminService.getListings(0, 'pending');
+    const hidden = await AdminService.getListings(0, 'hidden');
+
+    expect(first.total).toBe(25);
+    expect(first.rows).toHaveLength(20);
+    expect(first.rows[0]).toMatchObject({ sellerName: 'Sam Seller' });
+    expect(second.rows.map(listing => listing.id)).toEqual(['book-4', 'book-3', 'book-2', 'book-1', 'book-0']);
+    expect(pending).toMatchObject({ total: 1, rows: [{ id: 'book-2' }] });
+    expect(hidden).toMatchObject({ total: 1, rows: [{ id: 'book-1' }] });
+  });
+
+  it('approves listings waiting in the queue', async () => {
+    fakeSupabase.seed('book_listings', [makeListing({ id: 'book-1', moderation_state: 'pending' })]);
+
+    await AdminService.approveListings(['book-1']);
+
+    expect(fakeSupabase.rows('book_listings')[0]).toMatchObject({ moderation_state: 'approved', moderation_reason: null });
+  });
+
+  it('rejects listings with a reason and resolves their reports', async () => {
+    fakeSupabase.seed('book_listings', [makeListing({ id: 'book-1', moderation_state: 'pending' })]);
+    fakeSupabase.seed('reports', [makeReport('report-1', { listing_id: 'book-1', reported_user_id: null })]);
+
+    await expect(AdminService.rejectListings(['book-1'], '  ')).rejects.toThrow('Please give a reason');
+    await AdminService.rejectListings(['book-1'], ' Not a book ');
+
+    expect(fakeSupabase.rows('book_listings')[0]).toMatchObject({ moderation_state: 'rejected', moderation_reason: 'Not a book' });
+    expect(fakeSupabase.rows('reports')[0].status).toBe('resolved');
+  });
+
+  it('shows approved listings again and dismisses their reports', async () => {
+    fakeSupabase.seed('book_listings', [makeListing({ id: 'book-1', hidden_at: '2024-03-01T00:00:00Z' })]);
+    fakeSupabase.seed('reports', [
+      makeReport('report-1', { listing_id: 'book-1', reported_user_id: null }),
+      makeReport('report-2'),
+    ]);
+
+    await AdminService.approveListings(['book-1']);
+
+    expect(fakeSupabase.rows('book_listings')[0].hidden_at).toBeNull();
+    expect(fakeSupabase.rows('reports').map(report => report.status)).toEqual(['dismissed', 'open']);
+  });
+
+  it('removes listings', async () => {
+    fakeSupabase.seed('book_listings', [makeListing({ id: 'book-1' }), makeListing({ id: 'book-2' })]);
+
+    await AdminService.removeListings(['book-1']);
+
+    expect(fakeSupabase.rows('book_listings').map(listing => listing.id)).toEqual(['book-2']);
+  });
+
+  describe('users', () => {
+    it('lists users newest first with their role and suspension', async () => {
+      fakeSupabase.rows('user_profiles')[1].join_date = '2024-05-01T00:00:00Z';
+
+      const { rows, total } = await AdminService.getUsers(0);
+
+      expect(total).toBe(3);
+      expect(rows[0]).toMatchObject({ id: SELLER, name: 'Sam Seller', isAdmin: false, suspendedAt: null });
+      expect(rows.find(user => user.id === ADMIN)).toMatchObject({ isAdmin: true });
+    });
+
+    it('stops suspended users from listing books and messaging until restored', async () => {
+      jest.spyOn(console, 'error').mockImplementation(() => {});
+      fakeSupabase.seed('book_listings', [makeListing({ id: 'book-1', seller_id: SELLER })]);
+
+      await AdminService.suspendUsers([BUYER]);
+      expect((await AdminService.getUsers(0)).rows.find(user => user.id === BUYER)?.suspendedAt)
+        .toEqual(expect.any(String));
+
+      fakeSupabase.signInAs(BUYER);
+      await expect(MessageService.startConversation('book-1', SELLER, 'Hello'))
+        .rejects.toThrow('Your account has been suspended');
+      await expect(BookService.createListing({ title: 'Dune', author: 'Frank Herbert', price: 5, condition: 'Good', seller_id: BUYER }))
+        .rejects.toThrow('Your account has been suspended');
+
+      fakeSupabase.signInAs(ADMIN);
+      await AdminService.restoreUsers([BUYER]);
+
+      fakeSupabase.signInAs(BUYER);
+      await expect(MessageService.startConversation('book-1', SELLER, 'Hello')).resolves.toBeDefined();
+    });
+
+    it('refuses to suspend yourself', async () => {
+      await expect(AdminService.suspendUsers([SELLER, ADMIN])).rejects.toThrow('You cannot suspend yourself');
+      expect(fakeSupabase.rows('user_profiles').every(profile => !profile.suspended_at)).toBe(true);
+    });
+  });
+
+  describe('reports', () => {
+    beforeEach(() => {
+      fakeSupabase.seed('book_listings', [makeListing({ id: 'book-1', title: 'Clean Code' })]);
+      fakeSupabase.seed('reports', [
+        makeReport('report-1', { listing_id: 'book-1', reported_user_id: null, created_at: '2024-03-02T00:00:00Z' }),
+        makeReport('report-2'),
+        makeReport('report-3', { status: 'dismissed' }),
+      ]);
+    });
+
+    it('lists open reports with who and what they are about', async () => {
+      const { rows, total } = await AdminService.getReports(0);
+
+      expect(total).toBe(2);
+      expect(rows[0]).toMatchObject({ id: 'report-1', reporterName: 'Bea Buyer', listingTitle: 'Clean Code' });
+      expect(rows[1]).toMatchObject({ id: 'report-2', reportedUserName: 'Sam Seller' });
+      expect((await AdminService.getReports(0, null)).total).toBe(3);
+    });
+
+    it('resolves and dismisses reports', async () => {
+      await AdminService.resolveReports(['report-1']);
+      await AdminService.dismissReports(['report-2']);
+
+      expect(fakeSupabase.rows('reports').map(report => report.status)).toEqual(['resolved', 'dismissed', 'dismissed']);
+      expect((await AdminService.getReports(0)).total).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,95 @@
+import { BlockService } from '../BlockService';
+import { BookService } from '../BookService';
+import { MessageService } from '../MessageService';
+import { OfflineService } from '../OfflineService';
+import { fakeSupabase } from '../../test/fakeSupabase';
+import { makeListing, makeProfile } from '../../test/fixtures';
+
+const BUYER = 'buyer-1';
+const SELLER = 'seller-1';
+
+describe('BlockService', () => {
+  beforeEach(() => {
+    fakeSupabase.signInAs(BUYER);
+    fakeSupabase.seed('book_listings', [
+      makeListing({ id: 'book-1', title: 'Clean Code', seller_id: SELLER }),
+      makeListing({ id: 'book-2', title: 'Refactoring', seller_id: 'seller-2' }),
+    ]);
+    fakeSupabase.seed('user_profiles', [makeProfile(BUYER, 'Bea Buyer'), makeProfile(SELLER, 'Sam Seller')]);
+  });
+
+  it('lists blocked users with their names and lets them be unblocked', async () => {
+    await BlockService.blockUser(SELLER);
+    // Blocking twice is harmless
+    await BlockService.blockUser(SELLER);
+
+    expect(await BlockService.getBlockedUsers()).toEqual([
+      expect.objectContaining({ id: SELLER, name: 'Sam Seller' }),
+    ]);
+    expect(await BlockService.isBlocked(SELLER)).toBe(true);
+
+    await BlockService.unblockUser(SELLER);
+
+    expect(await BlockService.getBlockedUsers()).toEqual([]);
+  });
+
+  it('refuses to block yourself', async () => {
+    await expect(BlockService.blockUser(BUYER)).rejects.toThrow('You cannot block yourself');
+  });
+
+  it('hides listings from blocked sellers', async () => {
+    await BlockService.blockUser(SELLER);
+
+    const { listings } = await BookService.getListings();
+    const { listings: results } = await BookService.getFilteredListings({ categories: ['Computer Science'] });
+
+    expect(listings.map(listing => listing.id)).toEqual(['book-2']);
+    expect(results.map(listing => listing.id)).toEqual(['book-2']);
+  });
+
+  describe('messaging', () => {
+    let conversationId: string;
+
+    beforeEach(async () => {
+      conversationId = (await MessageService.startConversation('book-1', SELLER, 'Hello')).id;
+    });
+
+    it('stops messages in both directions', async () => {
+      jest.spyOn(console, 'error').mockImplementation(() => {});
+      await BlockService.blockUser(SELLER);
+
+      await expect(MessageService.sendMessage(conversationId, 'Still there?')).rejects.toThrow('You cannot message this user');
+      await expect(MessageService.startConversation('book-1', SELLER, 'Hello again')).rejects.toThrow('You cannot message this user');
+
+      fakeSupabase.signInAs(SELLER);
+      await expect(MessageService.sendMessage(conversationId, 'Yes')).rejects.toThrow('You cannot message this user');
+      expect(fakeSupabase.rows('messages')).toHaveLength(1);
+    });
+
+    it('drops a message queued offline once the receiver is blocked', async () => {
+      jest.spyOn(console, 'warn').mockImplementation(() => {});
+      fakeSupabase.isNetworkDown = true;
+      await MessageService.sendMessage(conversationId, 'Sent from the subway');
+      fakeSupabase.isNetworkDown = false;
+
+      await BlockService.blockUser(SELLER);
+      await OfflineService.replay();
+
+      expect(await OfflineService.getPendingWrites()).toEqual([]);
+      expect(fakeSupabase.rows('messages')).toHaveLength(1);
+    });
+
+    it('hides conversations with blocked users until they are unblocked', async () => {
+      await BlockService.blockUser(SELLER);
+      expect(await MessageService.getConversations()).toEqual([]);
+
+      await BlockService.unblockUser(SELLER);
+      expect(await MessageService.getConversations()).toEqual([
+        expect.objectContaining({ id: conversationId }),
+      ]);
+
+      await MessageService.sendMessage(conversationId, 'Sorry about that');
+      expect(fakeSupabase.rows('messages')).toHaveLength(2);
+    });
+  });
+});
@@ -0,0 +1,307 @@
+import { BookService, BookListing } from '../BookService';
+import { GeoPoint, haversineDistanceKm } from '../../utils/location';
+import { fakeSupabase } from '../../test/fakeSupabase';
+import { makeListing } from '../../test/fixtures';
+import { createMemoryListingRepository } from '../../repositories/listingRepository';
+
+const titles = (listings: { title: string }[]) => listings.map(listing => listing.title);
+
+describe('BookService', () => {
+  describe('getListings', () => {
+    it('returns only active listings, newest first', async () => {
+      fakeSupabase.seed('book_listings', [
+        makeListing({ title: 'Old', created_at: '2024-01-01T00:00:00Z' }),
+        makeListing({ title: 'New', created_at: '2024-03-01T00:00:00Z' }),
+        makeListing({ title: 'Sold', status: 'sold', created_at: '2024-04-01T00:00:00Z' }),
+      ]);
+
+      const page = await BookService.getListings();
+
+      expect(titles(page.listings)).toEqual(['New', 'Old']);
+      expect(page.nextCursor).toBeNull();
+    });
+
+    it('pages through the feed with a cursor', async () => {
+      fakeSupabase.seed('book_listings', [1, 2, 3, 4, 5].map(day =>
+        makeListing({ title: `Day ${day}`, created_at: `2024-01-0${day}T00:00:00Z` })
+      ));
+
+      const first = await BookService.getListings({ limit: 2 });
+      const second = await BookService.getListings({ cursor: first.nextCursor, limit: 2 });
+      const third = await BookService.getListings({ cursor: second.nextCursor, limit: 2 });
+
+      expect(titles(first.listings)).toEqual(['Day 5', 'Day 4']);
+      expect(titles(second.listings)).toEqual(['Day 3', 'Day 2']);
+      expect(titles(third.listings)).toEqual(['Day 1']);
+      expect(third.nextCursor).toBeNull();
+    });
+
+    it('breaks ties between listings created at the same moment by id', async () => {
+      const createdAt = '2024-02-01T00:00:00Z';
+      fakeSupabase.seed('book_listings', [
+        makeListing({ id: 'a', title: 'A', created_at: createdAt }),
+        makeListing({ id: 'b', title: 'B', created_at: createdAt }),
+        makeListing({ id: 'c', title: 'C', created_at: createdAt }),
+      ]);
+
+      const first = await BookService.getListings({ limit: 2 });
+      const second = await BookService.getListings({ cursor: first.nextCursor, limit: 2 });
+
+      expect(titles([...first.listings, ...second.listings])).toEqual(['C', 'B', 'A']);
+    });
+  });
+
+  describe('getFilteredListings', () => {
+    beforeEach(() => {
+      fakeSupabase.seed('book_listings', [
+        makeListing({ title: 'Cheap CS', category: 'Computer Science', price: 10, condition: 'Good' }),
+        makeListing({ title: 'Pricey CS', category: 'Computer Science', price: 80, condition: 'Like New' }),
+        makeListing({ title: 'Biology', category: 'Biology', price: 30, condition: 'Good', is_negotiable: true }),
+        makeListing({ title: 'Swap Maths', category: 'Mathematics', price: 25, condition: 'Fair', exchange_option: true }),
+        makeListing({ title: 'Reserved CS', category: 'Computer Science', price: 15, status: 'reserved' }),
+      ]);
+    });
+
+    it('filters by category', async () => {
+      const page = await BookService.getFilteredListings({ categories: ['Computer Science'] });
+      expect(titles(page.listings).sort()).toEqual(['Cheap CS', 'Pricey CS']);
+    });
+
+    it('filters by condition', async () => {
+      const page = await BookService.getFilteredListings({ conditions: ['Good'] });
+      expect(titles(page.listings).sort()).toEqual(['Biology', 'Cheap CS']);
+    });
+
+    it('filters by price range, inclusive at both ends', async () => {
+      const page = await BookService.getFilteredListings({ minPrice: 10, maxPrice: 30 });
+      expect(titles(page.listings).sort()).toEqual(['Biology', 'Cheap CS', 'Swap Maths']);
+    });
+
+    it('filters by negotiable and exchange options', async () => {
+      const negotiable = await BookService.getFilteredListings({ isNegotiable: true });
+      const exchange = await BookService.getFilteredListings({ exchangeOption: true });
+
+      expect(titles(negotiable.listings)).toEqual(['Biology']);
+      expect(titles(exchange.listings)).toEqual(['Swap Maths']);
+    });
+
+    it('combines filters', async () => {
+      const page = await BookService.getFilteredListings({
+        categories: ['Computer Science', 'Biology'],
+        maxPrice: 50,
+      });
+      expect(titles(page.listings).sort()).toEqual(['Biology', 'Cheap CS']);
+    });
+
+    describe('within a radius', () => {
+      const center = { latitude: 37.77, longitude: -122.41 };
+      let radiusArgs: Record<string, any>[];
+
+      beforeEach(() => {
+        fakeSupabase.reset();
+        fakeSupabase.seed('book_listings', [
+          makeListing({ title: 'Two blocks', latitude: 37.78, longitude: -122.42, created_at: '2024-01-01T00:00:00Z' }),
+          makeListing({ title: 'Next door', latitude: 37.771, longitude: -122.41, created_at: '2024-01-02T00:00:00Z' }),
+          makeListing({ title: 'Across town', latitude: 37.8, longitude: -122.45, created_at: '2024-01-03T00:00:00Z' }),
+          makeListing({ title: 'Far away', latitude: 40.71, longitude: -74.0 }),
+          makeListing({ title: 'No location' }),
+        ]);
+
+        // Sorts and pages the way the radius function does
+        radiusArgs = [];
+        fakeSupabase.onRpc('book_listings_within_radius', args => {
+          radiusArgs.push(args);
+          const point = { latitude: args.center_lat, longitude: args.center_lng };
+          const located = fakeSupabase.rows('book_listings')
+            .filter(listing => listing.latitude != null)
+            .map(listing => ({ listing, distance_km: haversineDistanceKm(point, listing as GeoPoint) }))
+            .filter(row => row.distance_km <= args.radius_km)
+            .sort((a, b) => a.distance_km - b.distance_km);
+          const remaining = args.after_id === null
+            ? located
+            : located.filter(row => row.distance_km > args.after_distance);
+          return remaining.slice(0, args.page_limit ?? undefined);
+        });
+      });
+
+      it('returns listings nearest first with their distance', async () => {
+        const page = await BookService.getFilteredListings({ center, radiusKm: 10 });
+
+        expect(titles(page.listings)).toEqual(['Next door', 'Two blocks', 'Across town']);
+        expect(page.listings[0].distance_km).toBeLessThan(page.listings[1].distance_km!);
+      });
+
+      it('pages on from the distance of the last listing', async () => {
+        const first = await BookService.getFilteredListings({ center, radiusKm: 10, maxPrice: 50 }, { limit: 2 });
+        const second = await BookService.getFilteredListings(
+          { center, radiusKm: 10, maxPrice: 50 },
+          { cursor: first.nextCursor, limit: 2 }
+        );
+
+        expect(titles(first.listings)).toEqual(['Next door', 'Two blocks']);
+        expect(titles(second.listings)).toEqual(['Across town']);
+        expect(radiusArgs[1]).toMatchObject({
+          max_price: 50,
+          filter_categories: null,
+          after_distance: first.listings[1].distance_km,
+          after_id: first.listings[1].id,
+          page_limit: 2,
+        });
+      });
+
+      it('sorts the in-memory listings the same way', async () => {
+        const listings = createMemoryListingRepository(fakeSupabase.rows('book_listings') as BookListing[]);
+
+        const first = await listings.listActive({ center, radiusKm: 10 }, { cursor: null, limit: 2 });
+        const second = await listings.listActive({ center, radiusKm: 10 }, { cursor: first.nextCursor, limit: 2 });
+
+        expect(titles([...first.listings, ...second.listings])).toEqual(['Next door', 'Two blocks', 'Across town']);
+      });
+    });
+  });
+
+  describe('searchListings', () => {
+    it('has the search function filter each page, blocked sellers included', async () => {
+      fakeSupabase.signInAs('reader-1');
+      fakeSupabase.seed('blocked_users', [{ blocker_id: 'reader-1', blocked_id: 'seller-9', created_at: '2024-01-01T00:00:00Z' }]);
+      const found = makeListing({ title: 'Clean Code', category: 'Computer Science' });
+      const search = jest.fn(() => [{ listing: found, rank: 0.5, distance_km: null }]);
+      fakeSupabase.onRpc('search_book_listings', search);
+
+      const page = await BookService.searchListings('clean', { limit: 1 }, { categories: ['Computer Science'] });
+
+      expect(search).toHaveBeenCalledWith(expect.objectContaining({
+        search_query: 'clean',
+        filter_categories: ['Computer Science'],
+        exclude_seller_ids: ['seller-9'],
+        radius_km: null,
+        page_limit: 1,
+      }));
+      expect(page.listings).toEqual([expect.objectContaining({ title: 'Clean Code', search_rank: 0.5 })]);
+      expect(page.listings[0].distance_km).toBeUndefined();
+      expect(page.nextCursor).toEqual({ created_at: found.created_at, id: found.id, rank: 0.5 });
+    });
+  });
+
+  describe('getListingsBySeller', () => {
+    it('limits results to the requested statuses', async () => {
+      fakeSupabase.seed('book_listings', [
+        makeListing({ title: 'Active', seller_id: 'seller-2' }),
+        makeListing({ title: 'Sold', seller_id: 'seller-2', status: 'sold' }),
+        makeListing({ title: 'Archived', seller_id: 'seller-2', status: 'archived' }),
+        makeListing({ title: 'Someone else', seller_id: 'seller-3' }),
+      ]);
+
+      const all = await BookService.getListingsBySeller('seller-2');
+      const visible = await BookService.getListingsBySeller('seller-2', ['active', 'sold']);
+      const counts = await BookService.getSellerListingCounts('seller-2');
+
+      expect(titles(all).sort()).toEqual(['Active', 'Archived', 'Sold']);
+      expect(titles(visible).sort()).toEqual(['Active', 'Sold']);
+      expect(counts).toEqual({ listed: 3, sold: 1 });
+    });
+  });
+
+  describe('updateListingStatus', () => {
+    it('allows a legal status change', async () => {
+      fakeSupabase.seed('book_listings', [makeListing({ id: 'book-1' })]);
+
+      const updated = await BookService.updateListingStatus('book-1', 'reserved');
+
+      expect(updated.status).toBe('reserved');
+      expect(fakeSupabase.rows('book_listings')[0].status).toBe('reserved');
+    });
+
+    it('rejects a status change that is not allowed', async () => {
+      fakeSupabase.seed('book_listings', [makeListing({ id: 'book-1', status: 'sold' })]);
+
+      await expect(BookService.updateListingStatus('book-1', 'active'))
+        .rejects.toThrow('A sold listing cannot be marked as active');
+      expect(fakeSupabase.rows('book_listings')[0].status).toBe('sold');
+    });
+
+    it('leaves selling and trading to recorded transactions', async () => {
+      fakeSupabase.seed('book_listings', [makeListing({ id: 'book-1' })]);
+
+      await expect(BookService.updateListingStatus('book-1', 'sold'))
+        .rejects.toThrow('Record the sale from your conversation with the buyer');
+      expect(fakeSupabase.rows('book_listings')[0].status).toBe('active');
+    });
+  });
+
+  describe('listing approval', () => {
+    const newListing = { title: 'Dune', author: 'Frank Herbert', price: 5, condition: 'Good', seller_id: 'seller-2' };
+
+    it('sends listings from new sellers to the approval queue', async () => {
+      fakeSupabase.signInAs('seller-2');
+
+      const created = await BookService.createListing(newListing);
+
+      expect(created.moderation_state).toBe('pending');
+    });
+
+    it('approves listings straight away for sellers with approved listings and none rejected', async () => {
+      fakeSupabase.signInAs('seller-2');
+      fakeSupabase.seed('book_listings', [
+        makeListing({ seller_id: 'seller-2', moderation_state: 'approved' }),
+        makeListing({ seller_id: 'seller-2', moderation_state: 'approved' }),
+        makeListing({ seller_id: 'seller-2' }),
+      ]);
+
+      expect((await BookService.createListing(newListing)).moderation_state).toBe('approved');
+
+      fakeSupabase.rows('book_listings')[0].moderation_state = 'rejected';
+      expect((await BookService.createListing(newListing)).moderation_state).toBe('pending');
+    });
+
+    it('sends a rejected listing back for review when the seller edits it', async () => {
+      fakeSupabase.seed('book_listings', [
+        makeListing({ id: 'book-1', moderation_state: 'rejected', moderation_reason: 'Blurry photos' }),
+      ]);
+
+      await BookService.updateListingStatus('book-1', 'reserved');
+      expect(fakeSupabase.rows('book_listings')[0].moderation_state).toBe('rejected');
+
+      const updated = await BookService.updateListing('book-1', { description: 'New photos' });
+      expect(updated).toMatchObject({ moderation_state: 'pending', moderation_reason: null });
+    });
+
+    it('leaves listings that are not approved out of the feed', async () => {
+      const listings = createMemoryListingRepository([
+        makeListing({ title: 'Approved', moderation_state: 'approved' }),
+        makeListing({ title: 'From before the queue', moderation_state: undefined }),
+        makeListing({ title: 'Pending', moderation_state: 'pending' }),
+        makeListing({ title: 'Rejected', moderation_state: 'rejected' }),
+      ]);
+
+      const page = await listings.listActive({}, { cursor: null, limit: 20 });
+
+      expect(titles(page.listings).sort()).toEqual(['Approved', 'From before the queue']);
+    });
+
+    it('leaves them out of the feed for sellers and admins, whom the policies let read them', async () => {
+      fakeSupabase.signInAs('seller-2');
+      fakeSupabase.seed('book_listings', [
+        makeListing({ title: 'Approved', seller_id: 'seller-2' }),
+        makeListing({ title: 'Pending', seller_id: 'seller-2', moderation_state: 'pending' }),
+        makeListing({ title: 'Rejected', seller_id: 'seller-2', moderation_state: 'rejected' }),
+        makeListing({ title: 'Hidden', seller_id: 'seller-2', hidden_at: '2024-03-01T00:00:00Z' }),
+      ]);
+
+      const page = await BookService.getListings();
+
+      expect(titles(page.listings)).toEqual(['Approved']);
+    });
+  });
+
+  it('falls back to mock listings when the table does not exist', async () => {
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    jest.spyOn(console, 'info').mockImplementation(() => {});
+    fakeSupabase.dropTable('book_listings');
+
+    const page = await BookService.getListings();
+
+    expect(page.listings.length).toBeGreaterThan(0);
+    expect(console.warn).toHaveBeenCalledWith('book_listings table does not exist, falling back to mock data');
+  });
+});
@@ -0,0 +1,108 @@
+import { ExchangeService, SwapProposal } from '../ExchangeService';
+import { BookService } from '../BookService';
+import { SavedItemType } from '../SavedItemsService';
+import { TransactionService } from '../TransactionService';
+import { configureDataSource, repositories, seedMemoryRepositories } from '../../repositories';
+import { fakeSupabase } from '../../test/fakeSupabase';
+import { makeListing } from '../../test/fixtures';
+
+const BUYER = 'buyer-1';
+const SELLER = 'seller-1';
+
+const conversation = {
+  id: 'conv-1',
+  listing_id: 'book-1',
+  buyer_id: BUYER,
+  seller_id: SELLER,
+  created_at: '2024-03-01T00:00:00Z',
+  last_message_at: '2024-03-01T00:00:00Z',
+  is_active: true,
+};
+
+const listings = () => [
+  makeListing({ id: 'book-1', title: 'Clean Code', seller_id: SELLER, exchange_option: true }),
+  makeListing({ id: 'book-2', title: 'Refactoring', seller_id: BUYER }),
+  makeListing({ id: 'book-3', title: 'Working Effectively', seller_id: BUYER }),
+];
+
+function makeProposal(id: string, offeredListingIds: string[]): SwapProposal {
+  return {
+    id,
+    conversation_id: 'conv-1',
+    target_listing_id: 'book-1',
+    offered_listing_ids: offeredListingIds,
+    buyer_id: BUYER,
+    seller_id: SELLER,
+    proposed_by: BUYER,
+    parent_proposal_id: null,
+    message: null,
+    status: 'pending',
+    created_at: '2024-03-02T00:00:00Z',
+  };
+}
+
+describe('ExchangeService', () => {
+  it('shows both sides a proposal with the books in it', async () => {
+    fakeSupabase.seed('book_listings', listings());
+    fakeSupabase.seed('conversations', [conversation]);
+    fakeSupabase.signInAs(BUYER);
+
+    await ExchangeService.proposeSwap('conv-1', ['book-2'], ' Swap? ');
+
+    fakeSupabase.signInAs(SELLER);
+    expect(await ExchangeService.getProposalsForConversation('conv-1')).toEqual([
+      expect.objectContaining({
+        message: 'Swap?',
+        status: 'pending',
+        targetListing: expect.objectContaining({ id: 'book-1', title: 'Clean Code' }),
+        offeredListings: [expect.objectContaining({ id: 'book-2', title: 'Refactoring' })],
+      }),
+    ]);
+  });
+
+  it('trades the books and turns down overlapping offers in memory', async () => {
+    configureDataSource({ mode: 'memory' });
+    seedMemoryRepositories({
+      users: [BUYER, SELLER].map(id => ({ id, email: `${id}@example.com`, name: id, joinDate: '2024-01-01T00:00:00Z', rating: 5 })),
+      listings: listings(),
+      conversations: [conversation],
+      swapProposals: [makeProposal('swap-1', ['book-2']), makeProposal('swap-2', ['book-3'])],
+      savedItems: [{ userId: 'reader-1', bookId: 'book-2', type: SavedItemType.FAVORITE }],
+      currentUserId: SELLER,
+    });
+
+    await ExchangeService.acceptProposal('swap-1');
+
+    expect(await repositories.notifications.listForUser('reader-1')).toEqual([
+      expect.objectContaining({ title: 'Listing traded', body: '"Refactoring" has been traded', listing_id: 'book-2' }),
+    ]);
+
+    expect((await BookService.getListingById('book-1'))?.status).toBe('traded');
+    expect((await BookService.getListingById('book-2'))?.status).toBe('traded');
+    expect((await BookService.getListingById('book-3'))?.status).toBe('active');
+    expect((await ExchangeService.getProposalsForConversation('conv-1')).map(proposal => proposal.status))
+      .toEqual(['accepted', 'rejected']);
+
+    // Each side gave a book away, which both histories and sales counts show
+    expect(await TransactionService.getSalesCount(SELLER)).toBe(1);
+    expect(await TransactionService.getSalesCount(BUYER)).toBe(1);
+    expect((await TransactionService.getHistory()).map(transaction => [transaction.listing_title, transaction.role]))
+      .toEqual(expect.arrayContaining([['Clean Code', 'sale'], ['Refactoring', 'purchase']]));
+  });
+
+  it('will not trade away books of anyone else', async () => {
+    configureDataSource({ mode: 'memory' });
+    seedMemoryRepositories({
+      users: [BUYER, SELLER].map(id => ({ id, email: `${id}@example.com`, name: id, joinDate: '2024-01-01T00:00:00Z', rating: 5 })),
+      listings: [...listings(), makeListing({ id: 'book-4', title: 'Someone Else\'s', seller_id: 'reader-1' })],
+      conversations: [conversation],
+      swapProposals: [makeProposal('swap-1', ['book-2', 'book-4'])],
+      currentUserId: SELLER,
+    });
+
+    await expect(ExchangeService.acceptProposal('swap-1')).rejects.toThrow('Only the books of the two users can be swapped');
+
+    expect((await BookService.getListingById('book-4'))?.status).toBe('active');
+    expect((await BookService.getListingById('book-1'))?.status).toBe('active');
+  });
+});
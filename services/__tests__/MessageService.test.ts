@@ -0,0 +1,122 @@
+import { MessageService } from '../MessageService';
+import { fakeSupabase } from '../../test/fakeSupabase';
+import { makeListing, makeProfile } from '../../test/fixtures';
+
+const BUYER = 'buyer-1';
+const SELLER = 'seller-1';
+
+describe('MessageService', () => {
+  beforeEach(() => {
+    fakeSupabase.signInAs(BUYER);
+    fakeSupabase.seed('book_listings', [makeListing({ id: 'book-1', title: 'Clean Code', seller_id: SELLER })]);
+    fakeSupabase.seed('user_profiles', [makeProfile(BUYER, 'Bea Buyer'), makeProfile(SELLER, 'Sam Seller')]);
+  });
+
+  describe('startConversation', () => {
+    it('creates a conversation with the initial message', async () => {
+      const conversation = await MessageService.startConversation('book-1', SELLER, 'Is this still available?');
+
+      expect(conversation).toMatchObject({
+        listing_id: 'book-1',
+        buyer_id: BUYER,
+        seller_id: SELLER,
+        is_active: true,
+      });
+      expect(fakeSupabase.rows('conversations')).toHaveLength(1);
+      expect(fakeSupabase.rows('messages')).toEqual([
+        expect.objectContaining({
+          conversation_id: conversation.id,
+          sender_id: BUYER,
+          receiver_id: SELLER,
+          content: 'Is this still available?',
+          read: false,
+        }),
+      ]);
+    });
+
+    it('reuses an active conversation about the same listing', async () => {
+      const first = await MessageService.startConversation('book-1', SELLER, 'Hello');
+      const second = await MessageService.startConversation('book-1', SELLER, 'Hello again');
+
+      expect(second.id).toBe(first.id);
+      expect(fakeSupabase.rows('conversations')).toHaveLength(1);
+      expect(fakeSupabase.rows('messages')).toHaveLength(2);
+    });
+
+    it('refuses to start a conversation with yourself', async () => {
+      await expect(MessageService.startConversation('book-1', BUYER, 'Hi me'))
+        .rejects.toThrow('Cannot start a conversation with yourself');
+      expect(fakeSupabase.rows('conversations')).toHaveLength(0);
+    });
+  });
+
+  describe('unread counts', () => {
+    let conversationId: string;
+
+    beforeEach(async () => {
+      conversationId = (await MessageService.startConversation('book-1', SELLER, 'Hello')).id;
+      fakeSupabase.seed('messages', [
+        { id: 'reply-1', conversation_id: conversationId, sender_id: SELLER, receiver_id: BUYER, content: 'Hi!', created_at: '2030-01-01T10:00:00Z', read: false },
+        { id: 'reply-2', conversation_id: conversationId, sender_id: SELLER, receiver_id: BUYER, content: 'Still want it?', created_at: '2030-01-01T10:05:00Z', read: false },
+        { id: 'reply-3', conversation_id: conversationId, sender_id: SELLER, receiver_id: BUYER, content: 'Old', created_at: '2020-01-01T10:00:00Z', read: true },
+      ]);
+    });
+
+    it('counts only unread messages sent to the current user', async () => {
+      // The buyer's own message is unread by the seller and does not count
+      expect(await MessageService.getUnreadCount()).toBe(2);
+    });
+
+    it('includes the unread count, last message and details in the inbox', async () => {
+      const [conversation] = await MessageService.getConversations();
+
+      expect(conversation).toMatchObject({
+        id: conversationId,
+        unreadCount: 2,
+        lastMessage: 'Still want it?',
+        otherUser: { id: SELLER, name: 'Sam Seller' },
+        listing: { id: 'book-1', title: 'Clean Code' },
+      });
+    });
+
+    it('clears the count once the conversation is read', async () => {
+      await MessageService.markMessagesAsRead(conversationId);
+
+      expect(await MessageService.getUnreadCount()).toBe(0);
+      // Messages to the seller stay unread
+      expect(fakeSupabase.rows('messages').filter(message => !message.read)).toHaveLength(1);
+    });
+  });
+
+  describe('sendMessage', () => {
+    it('sends to the other participant and bumps the conversation', async () => {
+      const conversation = await MessageService.startConversation('book-1', SELLER, 'Hello');
+      fakeSupabase.signInAs(SELLER);
+
+      const message = await MessageService.sendMessage(conversation.id, 'Yes, it is');
+
+      expect(message).toMatchObject({ sender_id: SELLER, receiver_id: BUYER, content: 'Yes, it is' });
+      expect(fakeSupabase.rows('conversations')[0].last_message_at >= conversation.last_message_at).toBe(true);
+    });
+
+    it('queues the message while offline and shows it as pending', async () => {
+      const conversation = await MessageService.startConversation('book-1', SELLER, 'Hello');
+      fakeSupabase.isNetworkDown = true;
+
+      const message = await MessageService.sendMessage(conversation.id, 'Sent from the subway');
+
+      expect(message).toMatchObject({ content: 'Sent from the subway', pending: true });
+      expect(fakeSupabase.rows('messages')).toHaveLength(1);
+    });
+  });
+
+  it('knows whether two users have talked, whichever side each was on', async () => {
+    await MessageService.startConversation('book-1', SELLER, 'Hello');
+
+    expect(await MessageService.hasConversationWith(SELLER)).toBe(true);
+    expect(await MessageService.hasConversationWith('stranger')).toBe(false);
+
+    fakeSupabase.signInAs(SELLER);
+    expect(await MessageService.hasConversationWith(BUYER)).toBe(true);
+  });
+});
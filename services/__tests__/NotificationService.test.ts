@@ -0,0 +1,194 @@
+import { NotificationService, AppNotification } from '../NotificationService';
+import { BookService } from '../BookService';
+import { MessageService } from '../MessageService';
+import { SavedItemsService, SavedItemType } from '../SavedItemsService';
+import { configureDataSource, repositories, seedMemoryRepositories } from '../../repositories';
+import { createMemoryNotificationRepository } from '../../repositories/notificationRepository';
+import { fakeSupabase } from '../../test/fakeSupabase';
+import { makeListing } from '../../test/fixtures';
+
+const READER = 'reader-1';
+const SELLER = 'seller-1';
+
+function makeNotification(overrides: Partial<AppNotification>): AppNotification {
+  return {
+    id: `notification-${Math.random().toString(36).substring(2, 10)}`,
+    user_id: READER,
+    type: 'price_drop',
+    title: 'Price drop',
+    body: '"Clean Code" is now $15.00 (was $20.00)',
+    listing_id: 'book-1',
+    conversation_id: null,
+    read: false,
+    created_at: '2024-01-01T00:00:00Z',
+    ...overrides,
+  };
+}
+
+describe('NotificationService', () => {
+  beforeEach(() => {
+    fakeSupabase.seed('book_listings', [makeListing({ id: 'book-1', title: 'Clean Code', price: 20, seller_id: SELLER })]);
+  });
+
+  describe('the notification center', () => {
+    beforeEach(() => {
+      fakeSupabase.signInAs(READER);
+      fakeSupabase.seed('notifications', [
+        makeNotification({ id: 'older', created_at: '2024-01-01T00:00:00Z' }),
+        makeNotification({ id: 'newer', type: 'message', title: 'New message', created_at: '2024-01-02T00:00:00Z' }),
+        makeNotification({ id: 'someone-elses', user_id: 'reader-2' }),
+      ]);
+    });
+
+    it('lists the current user\'s notifications newest first', async () => {
+      const notifications = await NotificationService.getNotifications();
+
+      expect(notifications.map(notification => notification.id)).toEqual(['newer', 'older']);
+      expect(await NotificationService.getUnreadCount()).toBe(2);
+    });
+
+    it('marks one or all notifications as read', async () => {
+      await NotificationService.markAsRead('older');
+      expect(await NotificationService.getUnreadCount()).toBe(1);
+
+      await NotificationService.markAllAsRead();
+      expect(await NotificationService.getUnreadCount()).toBe(0);
+      expect(fakeSupabase.rows('notifications').find(row => row.id === 'someone-elses')?.read).toBe(false);
+    });
+
+    it('clears only the current user\'s notifications', async () => {
+      await NotificationService.clearAll();
+
+      expect(await NotificationService.getNotifications()).toEqual([]);
+      expect(fakeSupabase.rows('notifications')).toHaveLength(1);
+    });
+  });
+
+  describe('sending notifications', () => {
+    beforeEach(() => {
+      fakeSupabase.signInAs(SELLER);
+    });
+
+    it('leaves notifying to the database', async () => {
+      const rpc = jest.spyOn(fakeSupabase.client, 'rpc');
+
+      await BookService.updateListing('book-1', { price: 15 });
+      await BookService.updateListingStatus('book-1', 'archived');
+      fakeSupabase.signInAs(READER);
+      await MessageService.startConversation('book-1', SELLER, 'Is this still available?');
+      fakeSupabase.signInAs(SELLER);
+      await BookService.deleteListing('book-1');
+
+      expect(rpc).not.toHaveBeenCalled();
+      expect(fakeSupabase.rows('notifications')).toEqual([]);
+    });
+
+    describe('in memory, as the database triggers do', () => {
+      beforeEach(() => {
+        configureDataSource({ mode: 'memory' });
+        seedMemoryRepositories({
+          users: [READER, SELLER].map(id => ({ id, email: `${id}@example.com`, name: id, joinDate: '2024-01-01T00:00:00Z', rating: 5 })),
+          listings: [makeListing({ id: 'book-1', title: 'Clean Code', price: 20, seller_id: SELLER })],
+          savedItems: [{ userId: READER, bookId: 'book-1', type: SavedItemType.FAVORITE }],
+          conversations: [{
+            id: 'conv-1',
+            listing_id: 'book-1',
+            buyer_id: READER,
+            seller_id: SELLER,
+            created_at: '2024-01-01T00:00:00Z',
+            last_message_at: '2024-01-01T00:00:00Z',
+            is_active: true,
+          }],
+          messages: [],
+          currentUserId: SELLER,
+        });
+      });
+
+      it('announces a price drop but not a price rise', async () => {
+        await BookService.updateListing('book-1', { price: 25 });
+        await BookService.updateListing('book-1', { price: 15 });
+
+        expect(await repositories.notifications.listForUser(READER)).toEqual([
+          expect.objectContaining({ type: 'price_drop', body: '"Clean Code" is now $15.00 (was $25.00)' }),
+        ]);
+      });
+
+      it('announces a deleted listing', async () => {
+        await BookService.deleteListing('book-1');
+
+        expect(await BookService.getListingById('book-1')).toBeNull();
+        expect(await repositories.notifications.listForUser(READER)).toEqual([
+          expect.objectContaining({ type: 'listing_removed', body: '"Clean Code" is no longer available' }),
+        ]);
+      });
+
+      it('announces a listing going off the market once', async () => {
+        await BookService.updateListingStatus('book-1', 'reserved');
+        await BookService.updateListingStatus('book-1', 'archived');
+        await BookService.updateListing('book-1', { status: 'archived' });
+
+        expect(await repositories.notifications.listForUser(READER)).toEqual([
+          expect.objectContaining({ type: 'listing_removed', title: 'Listing removed', listing_id: 'book-1' }),
+        ]);
+      });
+
+      it('announces a new message to its receiver', async () => {
+        await MessageService.sendMessage('conv-1', 'Yes, it is');
+
+        expect(await repositories.notifications.listForUser(READER)).toEqual([
+          expect.objectContaining({ type: 'message', body: 'Yes, it is', conversation_id: 'conv-1' }),
+        ]);
+      });
+    });
+
+    it('announces each message once', async () => {
+      const notifications = createMemoryNotificationRepository([], () => []);
+      const message = {
+        id: 'message-1',
+        conversation_id: 'conv-1',
+        sender_id: READER,
+        receiver_id: SELLER,
+        content: 'Is this still available?',
+        created_at: '2024-01-01T00:00:00Z',
+        read: false,
+      };
+
+      await notifications.notifyMessage(message);
+      await notifications.notifyMessage(message);
+
+      expect(await notifications.listForUser(SELLER)).toEqual([
+        expect.objectContaining({ type: 'message', message_id: 'message-1' }),
+      ]);
+    });
+  });
+
+  it('notifies savers in memory when the tables do not exist', async () => {
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    jest.spyOn(console, 'info').mockImplementation(() => {});
+    // Notifications come from the listings, so they fall back to memory as well
+    fakeSupabase.dropTable('book_listings');
+    fakeSupabase.dropTable('saved_items');
+    fakeSupabase.dropTable('notifications');
+    seedMemoryRepositories({ listings: [makeListing({ id: 'book-1', title: 'Clean Code', price: 20, seller_id: SELLER })] });
+
+    // Signing in loads the badge count, which finds the table missing
+    fakeSupabase.signInAs(READER);
+    expect(await NotificationService.getUnreadCount()).toBe(0);
+    await SavedItemsService.addSavedItem('book-1', SavedItemType.FAVORITE);
+    await SavedItemsService.addSavedItem('book-1', SavedItemType.WISHLIST);
+
+    fakeSupabase.signInAs(SELLER);
+    await BookService.updateListing('book-1', { price: 15 });
+
+    fakeSupabase.signInAs(READER);
+    const notifications = await NotificationService.getNotifications();
+    expect(notifications).toEqual([
+      expect.objectContaining({
+        type: 'price_drop',
+        body: '"Clean Code" is now $15.00 (was $20.00)',
+        listing_id: 'book-1',
+        read: false,
+      }),
+    ]);
+  });
+});
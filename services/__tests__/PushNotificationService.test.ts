@@ -0,0 +1,147 @@
+import { PushNotificationService, getChatPushData } from '../PushNotificationService';
+import { MessageService } from '../MessageService';
+import { ExchangeService } from '../ExchangeService';
+import { createMemoryPushSettingsRepository } from '../../repositories/pushSettingsRepository';
+import { configureDataSource, repositories, seedMemoryRepositories } from '../../repositories';
+import { EXPO_PUSH_ENDPOINT, configurePushEndpoint } from '../../utils/chatPush';
+import { fakeSupabase } from '../../test/fakeSupabase';
+import { makeListing, makeProfile } from '../../test/fixtures';
+import { PushEndpointStub, startPushEndpointStub } from '../../test/pushEndpointStub';
+
+const BUYER = 'buyer-1';
+const SELLER = 'seller-1';
+const SELLER_TOKEN = 'ExponentPushToken[seller-phone]';
+
+describe('PushNotificationService', () => {
+  beforeEach(() => {
+    fakeSupabase.signInAs(SELLER);
+    fakeSupabase.seed('user_profiles', [makeProfile(BUYER, 'Bea Buyer'), makeProfile(SELLER, 'Sam Seller')]);
+  });
+
+  it('keeps push settings off the public profile', async () => {
+    expect(await PushNotificationService.getSettings()).toEqual({ messages: true, offers: true });
+    expect(await PushNotificationService.updateSettings({ messages: false })).toEqual({ messages: false, offers: true });
+    expect(await PushNotificationService.updateSettings({ offers: false })).toEqual({ messages: false, offers: false });
+
+    expect(fakeSupabase.rows('push_settings')).toEqual([
+      expect.objectContaining({ user_id: SELLER, mute_message_pushes: true, mute_offer_pushes: true }),
+    ]);
+    expect(await repositories.users.getById(SELLER)).not.toHaveProperty('mute_message_pushes');
+  });
+
+  it('leaves sending pushes to the database', async () => {
+    const fetchSpy = jest.spyOn(global, 'fetch');
+    fakeSupabase.seed('book_listings', [makeListing({ id: 'book-1', title: 'Clean Code', seller_id: SELLER })]);
+    fakeSupabase.signInAs(BUYER);
+
+    await MessageService.startConversation('book-1', SELLER, 'Is this still available?');
+
+    expect(fetchSpy).not.toHaveBeenCalled();
+  });
+
+  it('reads the chat route from a tapped push', () => {
+    expect(getChatPushData({ kind: 'message', conversationId: 'c-1', otherUserName: 'Sam', listingTitle: 'Clean Code' }))
+      .toEqual({ conversationId: 'c-1', otherUserName: 'Sam', listingTitle: 'Clean Code' });
+    expect(getChatPushData({ conversationId: 'c-1' })).toEqual({ conversationId: 'c-1', otherUserName: 'User', listingTitle: 'Book' });
+    expect(getChatPushData({})).toBeNull();
+  });
+
+  describe('in memory, where the repositories push as the database triggers do', () => {
+    let endpoint: PushEndpointStub;
+
+    beforeAll(async () => {
+      endpoint = await startPushEndpointStub();
+      configurePushEndpoint(endpoint.url);
+    });
+
+    afterAll(async () => {
+      configurePushEndpoint(EXPO_PUSH_ENDPOINT);
+      await endpoint.close();
+    });
+
+    beforeEach(() => {
+      endpoint.messages = [];
+      endpoint.status = 200;
+      configureDataSource({ mode: 'memory' });
+      seedMemoryRepositories({
+        users: [
+          { id: BUYER, email: `${BUYER}@example.com`, name: 'Bea Buyer', joinDate: '2024-01-01T00:00:00Z', rating: 5 },
+          { id: SELLER, email: `${SELLER}@example.com`, name: 'Sam Seller', joinDate: '2024-01-01T00:00:00Z', rating: 5 },
+        ],
+        listings: [
+          makeListing({ id: 'book-1', title: 'Clean Code', seller_id: SELLER, exchange_option: true }),
+          makeListing({ id: 'book-2', title: 'Refactoring', seller_id: BUYER }),
+        ],
+        conversations: [],
+        messages: [],
+        pushSettings: [{ user_id: SELLER, push_tokens: [SELLER_TOKEN], mute_message_pushes: false, mute_offer_pushes: false }],
+        currentUserId: BUYER,
+      });
+    });
+
+    it('pushes a new conversation to the seller with a link to the chat', async () => {
+      const conversation = await MessageService.startConversation('book-1', SELLER, 'Is this still available?');
+
+      expect(endpoint.messages).toEqual([
+        {
+          to: SELLER_TOKEN,
+          title: 'Bea Buyer',
+          body: 'Is this still available?',
+          sound: 'default',
+          data: {
+            kind: 'message',
+            conversationId: conversation.id,
+            otherUserName: 'Bea Buyer',
+            listingTitle: 'Clean Code',
+          },
+        },
+      ]);
+      expect(getChatPushData({ ...endpoint.messages[0].data })).toEqual({
+        conversationId: conversation.id,
+        otherUserName: 'Bea Buyer',
+        listingTitle: 'Clean Code',
+      });
+    });
+
+    it('respects muted message pushes but still pushes offers', async () => {
+      await repositories.pushSettings.update(SELLER, { mute_message_pushes: true });
+
+      const conversation = await MessageService.startConversation('book-1', SELLER, 'Hello');
+      expect(endpoint.messages).toEqual([]);
+
+      await ExchangeService.proposeSwap(conversation.id, ['book-2']);
+      expect(endpoint.messages).toEqual([
+        expect.objectContaining({
+          to: SELLER_TOKEN,
+          body: 'Offered 1 book in a swap',
+          data: expect.objectContaining({ kind: 'offer', conversationId: conversation.id }),
+        }),
+      ]);
+
+      await repositories.pushSettings.update(SELLER, { mute_offer_pushes: true });
+      await ExchangeService.proposeSwap(conversation.id, ['book-2']);
+      expect(endpoint.messages).toHaveLength(1);
+    });
+
+    it('does not fail a message when the push service is down', async () => {
+      jest.spyOn(console, 'warn').mockImplementation(() => {});
+      endpoint.status = 500;
+
+      await expect(MessageService.startConversation('book-1', SELLER, 'Hello')).resolves.toBeTruthy();
+      expect(console.warn).toHaveBeenCalledWith('Push service responded with 500');
+    });
+  });
+
+  it('keeps a device token with only the user who registered it last', async () => {
+    const pushSettings = createMemoryPushSettingsRepository([]);
+
+    await pushSettings.addToken(BUYER, 'shared-phone');
+    await pushSettings.addToken(SELLER, 'shared-phone');
+    await pushSettings.addToken(SELLER, 'shared-phone');
+    expect((await pushSettings.get(BUYER))?.push_tokens).toEqual([]);
+    expect((await pushSettings.get(SELLER))?.push_tokens).toEqual(['shared-phone']);
+
+    await pushSettings.removeToken(SELLER, 'shared-phone');
+    expect((await pushSettings.get(SELLER))?.push_tokens).toEqual([]);
+  });
+});
@@ -0,0 +1,121 @@
+import { ReportService, Report } from '../ReportService';
+import type { Message } from '../MessageService';
+import { createMemoryListingRepository } from '../../repositories/listingRepository';
+import { createMemoryReportRepository } from '../../repositories/reportRepository';
+import { fakeSupabase } from '../../test/fakeSupabase';
+import { makeListing } from '../../test/fixtures';
+
+const READER = 'reader-1';
+const SELLER = 'seller-1';
+
+const listing = makeListing({ id: 'book-1', title: 'Clean Code', seller_id: SELLER });
+
+function makeMessage(overrides: Partial<Message> = {}): Message {
+  return {
+    id: 'message-1',
+    conversation_id: 'conversation-1',
+    sender_id: SELLER,
+    receiver_id: READER,
+    content: 'Pay me outside the app',
+    created_at: '2024-01-01T00:00:00Z',
+    read: false,
+    ...overrides,
+  };
+}
+
+describe('ReportService', () => {
+  beforeEach(() => {
+    fakeSupabase.signInAs(READER);
+  });
+
+  it('files a listing report through the database function', async () => {
+    const submitReport = jest.fn(args => ({ id: 'report-1', reporter_id: READER, status: 'open', ...args }));
+    fakeSupabase.onRpc('submit_report', submitReport);
+
+    await ReportService.reportListing(listing, 'scam', '  Asks for payment up front  ');
+
+    expect(submitReport).toHaveBeenCalledWith({
+      p_reason: 'scam',
+      p_details: 'Asks for payment up front',
+      p_listing_id: 'book-1',
+      p_reported_user_id: null,
+      p_message_id: null,
+    });
+  });
+
+  it('reports a message together with its sender', async () => {
+    const submitReport = jest.fn(() => ({ id: 'report-1' }));
+    fakeSupabase.onRpc('submit_report', submitReport);
+
+    await ReportService.reportMessage(makeMessage(), 'harassment');
+
+    expect(submitReport).toHaveBeenCalledWith(expect.objectContaining({
+      p_reported_user_id: SELLER,
+      p_message_id: 'message-1',
+      p_details: null,
+    }));
+  });
+
+  it('passes on why the database turned a report away', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    fakeSupabase.onRpc('submit_report', () => {
+      throw { code: 'P0001', message: 'You have already reported this' };
+    });
+
+    await expect(ReportService.reportUser(SELLER, 'spam')).rejects.toThrow('You have already reported this');
+  });
+
+  it('rejects reports that cannot be filed', async () => {
+    await expect(ReportService.reportListing(listing, 'other')).rejects.toThrow('Please describe the problem');
+    await expect(ReportService.reportUser(READER, 'spam')).rejects.toThrow('You cannot report yourself');
+    await expect(ReportService.reportMessage(makeMessage({ receiver_id: 'reader-2' }), 'spam'))
+      .rejects.toThrow('You can only report messages sent to you');
+
+    fakeSupabase.signInAs(SELLER);
+    await expect(ReportService.reportListing(listing, 'spam')).rejects.toThrow('You cannot report your own listing');
+  });
+
+  describe('in memory', () => {
+    const newReport = (overrides: Partial<Report> = {}) => ({
+      reason: 'spam' as const,
+      details: null,
+      listing_id: null,
+      reported_user_id: SELLER,
+      message_id: null,
+      ...overrides,
+    });
+
+    it('turns away a repeated report while the first is open', async () => {
+      const reports = createMemoryReportRepository([], jest.fn());
+
+      await reports.submit(READER, newReport());
+      await reports.submit(READER, newReport({ message_id: 'message-1' }));
+      await expect(reports.submit(READER, newReport())).rejects.toThrow('You have already reported this');
+      await expect(reports.submit(READER, newReport({ message_id: 'message-1' }))).rejects.toThrow('You have already reported this');
+    });
+
+    it('limits how many reports a user files a day', async () => {
+      const reports = createMemoryReportRepository([], jest.fn());
+
+      for (let i = 0; i < 10; i += 1) {
+        await reports.submit(READER, newReport({ reported_user_id: `user-${i}` }));
+      }
+
+      await expect(reports.submit(READER, newReport())).rejects.toThrow('too many reports today');
+    });
+
+    it('hides a listing once three different users reported it', async () => {
+      const listings = createMemoryListingRepository([listing]);
+      const reports = createMemoryReportRepository([], id => listings.hide(id));
+      const report = newReport({ listing_id: 'book-1', reported_user_id: null });
+
+      await reports.submit('reader-1', report);
+      await reports.submit('reader-2', report);
+      expect((await listings.listActive({}, { cursor: null, limit: 20 })).listings).toHaveLength(1);
+
+      await reports.submit('reader-3', report);
+      expect((await listings.listActive({}, { cursor: null, limit: 20 })).listings).toEqual([]);
+      expect((await listings.getById('book-1'))?.hidden_at).toEqual(expect.any(String));
+    });
+  });
+});
@@ -0,0 +1,69 @@
+import { ReviewService } from '../ReviewService';
+import { configureDataSource, seedMemoryRepositories } from '../../repositories';
+import { fakeSupabase } from '../../test/fakeSupabase';
+
+const BUYER = 'buyer-1';
+const SELLER = 'seller-1';
+
+describe('ReviewService', () => {
+  beforeEach(() => {
+    fakeSupabase.seed('conversations', [{
+      id: 'conv-1',
+      listing_id: 'book-1',
+      buyer_id: BUYER,
+      seller_id: SELLER,
+      created_at: '2024-03-01T00:00:00Z',
+      last_message_at: '2024-03-01T00:00:00Z',
+      is_active: true,
+    }]);
+  });
+
+  it('lets users review sellers they have messaged once', async () => {
+    fakeSupabase.signInAs(BUYER);
+
+    expect(await ReviewService.canReviewSeller(SELLER)).toBe(true);
+    expect(await ReviewService.canReviewSeller('seller-2')).toBe(false);
+
+    await ReviewService.submitReview(SELLER, 4, 'Quick and friendly');
+
+    expect(await ReviewService.canReviewSeller(SELLER)).toBe(false);
+  });
+
+  it('does not let sellers review the buyers who messaged them', async () => {
+    fakeSupabase.signInAs(SELLER);
+
+    expect(await ReviewService.canReviewSeller(BUYER)).toBe(false);
+    await expect(ReviewService.submitReview(BUYER, 1)).rejects.toThrow('You can only review sellers you have messaged');
+    expect(fakeSupabase.rows('reviews')).toHaveLength(0);
+  });
+
+  it('does not let signed-out users review anyone', async () => {
+    const consoleError = jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    expect(await ReviewService.canReviewSeller(SELLER)).toBe(false);
+    expect(consoleError).not.toHaveBeenCalled();
+  });
+
+  it('keeps reviews and ratings in memory', async () => {
+    // user-001 starts with one five-star review in the mock data
+    configureDataSource({ mode: 'memory' });
+    seedMemoryRepositories({
+      conversations: [{
+        id: 'conv-1',
+        listing_id: 'book-1',
+        buyer_id: 'user-003',
+        seller_id: 'user-001',
+        created_at: '2024-03-01T00:00:00Z',
+        last_message_at: '2024-03-01T00:00:00Z',
+        is_active: true,
+      }],
+      currentUserId: 'user-003',
+    });
+
+    await ReviewService.submitReview('user-001', 4);
+
+    expect(await ReviewService.getSellerRating('user-001')).toEqual({ averageRating: 4.5, reviewCount: 2 });
+    expect((await ReviewService.getReviewsForSeller('user-001'))[0].rating).toBe(4);
+    await expect(ReviewService.submitReview('user-001', 3)).rejects.toThrow('You have already reviewed this seller');
+  });
+});
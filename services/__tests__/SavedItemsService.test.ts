@@ -0,0 +1,72 @@
+import { SavedItemsService, SavedItemType } from '../SavedItemsService';
+import { OfflineService } from '../OfflineService';
+import { BookService } from '../BookService';
+import { fakeSupabase } from '../../test/fakeSupabase';
+import { makeListing } from '../../test/fixtures';
+
+const USER = 'reader-1';
+
+describe('SavedItemsService', () => {
+  beforeEach(() => {
+    fakeSupabase.signInAs(USER);
+    fakeSupabase.seed('book_listings', [
+      makeListing({ id: 'book-1', title: 'Dune' }),
+      makeListing({ id: 'book-2', title: 'Emma' }),
+    ]);
+  });
+
+  it('toggles an item on and off', async () => {
+    expect(await SavedItemsService.toggleSavedItem('book-1', SavedItemType.FAVORITE)).toBe(true);
+    expect(await SavedItemsService.isSavedItem('book-1', SavedItemType.FAVORITE)).toBe(true);
+    expect(fakeSupabase.rows('saved_items')).toEqual([
+      expect.objectContaining({ user_id: USER, book_id: 'book-1', type: 'favorite' }),
+    ]);
+
+    expect(await SavedItemsService.toggleSavedItem('book-1', SavedItemType.FAVORITE)).toBe(false);
+    expect(await SavedItemsService.isSavedItem('book-1', SavedItemType.FAVORITE)).toBe(false);
+    expect(fakeSupabase.rows('saved_items')).toHaveLength(0);
+  });
+
+  it('keeps favorites and the wishlist separate', async () => {
+    await SavedItemsService.toggleSavedItem('book-1', SavedItemType.FAVORITE);
+    await SavedItemsService.toggleSavedItem('book-2', SavedItemType.WISHLIST);
+
+    expect((await SavedItemsService.getFavorites()).map(book => book.title)).toEqual(['Dune']);
+    expect((await SavedItemsService.getWishlist()).map(book => book.title)).toEqual(['Emma']);
+  });
+
+  it('does not duplicate an item saved twice', async () => {
+    await SavedItemsService.addSavedItem('book-1', SavedItemType.FAVORITE);
+    await SavedItemsService.addSavedItem('book-1', SavedItemType.FAVORITE);
+
+    expect(fakeSupabase.rows('saved_items')).toHaveLength(1);
+  });
+
+  it('queues a save made offline and applies it on reconnect', async () => {
+    // Viewing the listing caches it, so the optimistic update can show it
+    await BookService.getListingById('book-1');
+    fakeSupabase.isNetworkDown = true;
+
+    await SavedItemsService.addSavedItem('book-1', SavedItemType.FAVORITE);
+
+    expect(await OfflineService.getPendingWrites()).toHaveLength(1);
+    expect(await SavedItemsService.isSavedItem('book-1', SavedItemType.FAVORITE)).toBe(true);
+    expect(fakeSupabase.rows('saved_items')).toHaveLength(0);
+
+    fakeSupabase.isNetworkDown = false;
+    await OfflineService.replay();
+
+    expect(await OfflineService.getPendingWrites()).toHaveLength(0);
+    expect(fakeSupabase.rows('saved_items')).toHaveLength(1);
+  });
+
+  it('falls back to in-memory saved items when the table does not exist', async () => {
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    jest.spyOn(console, 'info').mockImplementation(() => {});
+    fakeSupabase.dropTable('saved_items');
+
+    expect(await SavedItemsService.toggleSavedItem('book-1', SavedItemType.WISHLIST)).toBe(true);
+    expect(await SavedItemsService.isSavedItem('book-1', SavedItemType.WISHLIST)).toBe(true);
+    expect((await SavedItemsService.getWishlist()).map(book => book.title)).toEqual(['Dune']);
+  });
+});
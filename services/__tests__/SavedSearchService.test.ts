@@ -0,0 +1,92 @@
+import { SavedSearchService } from '../SavedSearchService';
+import { fakeSupabase } from '../../test/fakeSupabase';
+import { makeListing } from '../../test/fixtures';
+
+const USER = 'reader-1';
+
+describe('SavedSearchService', () => {
+  beforeEach(() => {
+    fakeSupabase.signInAs(USER);
+  });
+
+  it('saves a named search with only the filters that are set', async () => {
+    const search = await SavedSearchService.saveSearch('  Organic chem  ', ' organic chemistry ', {
+      categories: ['Chemistry'],
+      conditions: [],
+      maxPrice: 40,
+      minPrice: undefined,
+    });
+
+    expect(search).toMatchObject({ user_id: USER, name: 'Organic chem', query: 'organic chemistry' });
+    expect(fakeSupabase.rows('saved_searches')).toEqual([
+      expect.objectContaining({ filters: { categories: ['Chemistry'], maxPrice: 40 } }),
+    ]);
+  });
+
+  it('refuses a search without a name or anything to search for', async () => {
+    await expect(SavedSearchService.saveSearch(' ', 'calculus', {}))
+      .rejects.toThrow('Please give the search a name');
+    await expect(SavedSearchService.saveSearch('Everything', '  ', { conditions: [] }))
+      .rejects.toThrow('Enter a search term or choose filters to save a search');
+    expect(fakeSupabase.rows('saved_searches')).toHaveLength(0);
+  });
+
+  describe('new matches', () => {
+    beforeEach(() => {
+      fakeSupabase.seed('saved_searches', [{
+        id: 'search-1',
+        user_id: USER,
+        name: 'Cheap calculus',
+        query: 'calculus',
+        filters: { maxPrice: 30 },
+        last_checked_at: '2024-02-01T00:00:00Z',
+        created_at: '2024-01-01T00:00:00Z',
+      }]);
+      fakeSupabase.seed('book_listings', [
+        makeListing({ title: 'Calculus: Early Transcendentals', price: 25, created_at: '2024-02-03T00:00:00Z' }),
+        makeListing({ title: 'Single Variable Calculus', price: 20, created_at: '2024-02-05T00:00:00Z' }),
+        makeListing({ title: 'Calculus Made Easy', price: 10, created_at: '2024-01-15T00:00:00Z' }),
+        makeListing({ title: 'Advanced Calculus', price: 90, created_at: '2024-02-04T00:00:00Z' }),
+        makeListing({ title: 'Calculus Workbook', price: 12, status: 'sold', created_at: '2024-02-04T00:00:00Z' }),
+        makeListing({ title: 'Linear Algebra', price: 15, created_at: '2024-02-04T00:00:00Z' }),
+      ]);
+    });
+
+    it('counts active listings created since the last check that match the search', async () => {
+      const [search] = await SavedSearchService.getSavedSearches();
+
+      expect(search).toMatchObject({ id: 'search-1', name: 'Cheap calculus', newMatchCount: 2 });
+    });
+
+    it('starts counting again once the search is checked', async () => {
+      await SavedSearchService.markSearchChecked('search-1');
+      const [search] = await SavedSearchService.getSavedSearches();
+
+      expect(search.newMatchCount).toBe(0);
+    });
+
+    it('only lists the current user\'s searches', async () => {
+      fakeSupabase.signInAs('someone-else');
+
+      expect(await SavedSearchService.getSavedSearches()).toEqual([]);
+    });
+  });
+
+  it('deletes a saved search', async () => {
+    const search = await SavedSearchService.saveSearch('Physics', 'physics', {});
+
+    await SavedSearchService.deleteSavedSearch(search.id);
+
+    expect(fakeSupabase.rows('saved_searches')).toHaveLength(0);
+  });
+
+  it('falls back to in-memory saved searches when the table does not exist', async () => {
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    jest.spyOn(console, 'info').mockImplementation(() => {});
+    fakeSupabase.dropTable('saved_searches');
+
+    await SavedSearchService.saveSearch('Biology', null, { categories: ['Biology'] });
+
+    expect((await SavedSearchService.getSavedSearches()).map(search => search.name)).toEqual(['Biology']);
+  });
+});
@@ -0,0 +1,141 @@
+import { TransactionService } from '../TransactionService';
+import { BookService } from '../BookService';
+import { AdminService } from '../AdminService';
+import { SavedItemType } from '../SavedItemsService';
+import { configureDataSource, repositories, seedMemoryRepositories } from '../../repositories';
+import { fakeSupabase, fakeId } from '../../test/fakeSupabase';
+import { makeListing, makeProfile } from '../../test/fixtures';
+
+const SELLER = 'seller-1';
+const BUYER = 'buyer-1';
+
+function makeConversation(id: string, listingId: string) {
+  return {
+    id,
+    listing_id: listingId,
+    buyer_id: BUYER,
+    seller_id: SELLER,
+    created_at: '2024-03-01T00:00:00Z',
+    last_message_at: '2024-03-01T00:00:00Z',
+    is_active: true,
+  };
+}
+
+describe('TransactionService', () => {
+  beforeEach(() => {
+    fakeSupabase.signInAs(SELLER);
+    fakeSupabase.seed('book_listings', [
+      makeListing({ id: 'book-1', title: 'Clean Code', seller_id: SELLER, exchange_option: true }),
+      makeListing({ id: 'book-2', title: 'Refactoring', seller_id: SELLER, status: 'sold' }),
+    ]);
+    fakeSupabase.seed('conversations', [makeConversation('conv-1', 'book-1'), makeConversation('conv-2', 'book-2')]);
+    fakeSupabase.seed('user_profiles', [
+      { ...makeProfile('admin-1', 'Ada Admin'), is_admin: true },
+      makeProfile(SELLER, 'Sam Seller'),
+      makeProfile(BUYER, 'Bea Buyer'),
+    ]);
+
+    // Writes the transaction and the listing status together, as the database
+    // function does; the service has already made the same checks
+    fakeSupabase.onRpc('record_transaction', args => {
+      const conversation = fakeSupabase.rows('conversations').find(row => row.id === args.p_conversation_id)!;
+      const listing = fakeSupabase.rows('book_listings').find(row => row.id === conversation.listing_id)!;
+      const transaction = {
+        id: fakeId(),
+        listing_id: listing.id,
+        conversation_id: conversation.id,
+        seller_id: conversation.seller_id,
+        buyer_id: conversation.buyer_id,
+        listing_title: listing.title,
+        price: args.p_price,
+        method: args.p_method,
+        created_at: new Date().toISOString(),
+      };
+      fakeSupabase.seed('transactions', [transaction]);
+      listing.status = args.p_method === 'sale' ? 'sold' : 'traded';
+      return transaction;
+    });
+  });
+
+  it('records a sale to the buyer and marks the listing sold', async () => {
+    await TransactionService.recordTransaction('conv-1', 15, 'sale');
+
+    expect(fakeSupabase.rows('transactions')).toEqual([
+      expect.objectContaining({
+        listing_id: 'book-1',
+        conversation_id: 'conv-1',
+        seller_id: SELLER,
+        buyer_id: BUYER,
+        listing_title: 'Clean Code',
+        price: 15,
+        method: 'sale',
+      }),
+    ]);
+    expect((await BookService.getListingById('book-1'))?.status).toBe('sold');
+  });
+
+  it('marks an exchanged listing as traded', async () => {
+    await TransactionService.recordTransaction('conv-1', 0, 'exchange');
+
+    expect((await BookService.getListingById('book-1'))?.status).toBe('traded');
+  });
+
+  it('only lets the seller record a sale of an unsold listing', async () => {
+    await expect(TransactionService.recordTransaction('conv-1', -5, 'sale'))
+      .rejects.toThrow('Please enter the price you agreed on');
+    await expect(TransactionService.recordTransaction('conv-2', 15, 'sale'))
+      .rejects.toThrow('A sold listing cannot be marked as sold');
+
+    fakeSupabase.signInAs(BUYER);
+    await expect(TransactionService.recordTransaction('conv-1', 15, 'sale'))
+      .rejects.toThrow('Only the seller can record a sale');
+
+    expect(fakeSupabase.rows('transactions')).toEqual([]);
+  });
+
+  it('shows both sides the transaction in their history', async () => {
+    await TransactionService.recordTransaction('conv-1', 15, 'sale');
+
+    expect(await TransactionService.getHistory()).toEqual([
+      expect.objectContaining({ listing_title: 'Clean Code', role: 'sale', otherUserName: 'Bea Buyer' }),
+    ]);
+    expect(await TransactionService.getSalesCount(SELLER)).toBe(1);
+
+    fakeSupabase.signInAs(BUYER);
+    expect(await TransactionService.getHistory()).toEqual([
+      expect.objectContaining({ listing_title: 'Clean Code', role: 'purchase', otherUserName: 'Sam Seller' }),
+    ]);
+    expect(await TransactionService.getSalesCount(BUYER)).toBe(0);
+  });
+
+  it('marks the listing sold and tells its savers in memory', async () => {
+    configureDataSource({ mode: 'memory' });
+    seedMemoryRepositories({
+      users: [SELLER, BUYER].map(id => ({ id, email: `${id}@example.com`, name: id, joinDate: '2024-01-01T00:00:00Z', rating: 5 })),
+      listings: [makeListing({ id: 'book-1', title: 'Clean Code', seller_id: SELLER })],
+      conversations: [makeConversation('conv-1', 'book-1')],
+      savedItems: [{ userId: 'reader-1', bookId: 'book-1', type: SavedItemType.FAVORITE }],
+      currentUserId: SELLER,
+    });
+
+    await TransactionService.recordTransaction('conv-1', 15, 'sale');
+
+    expect((await BookService.getListingById('book-1'))?.status).toBe('sold');
+    expect(await TransactionService.getSalesCount(SELLER)).toBe(1);
+    expect(await repositories.notifications.listForUser('reader-1')).toEqual([
+      expect.objectContaining({ title: 'Listing sold', body: '"Clean Code" has been sold' }),
+    ]);
+    await expect(TransactionService.recordTransaction('conv-1', 15, 'sale'))
+      .rejects.toThrow('A sold listing cannot be marked as sold');
+  });
+
+  it('lets admins page through every transaction', async () => {
+    await TransactionService.recordTransaction('conv-1', 15, 'sale');
+
+    fakeSupabase.signInAs('admin-1');
+    const { rows, total } = await AdminService.getTransactions(0);
+
+    expect(total).toBe(1);
+    expect(rows[0]).toMatchObject({ listing_title: 'Clean Code', sellerName: 'Sam Seller', buyerName: 'Bea Buyer' });
+  });
+});
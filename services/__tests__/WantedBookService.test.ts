@@ -0,0 +1,149 @@
+import { WantedBookService, WantedBook, describeWantedBook } from '../WantedBookService';
+import { BookListing } from '../BookService';
+import { fakeSupabase } from '../../test/fakeSupabase';
+import { makeListing } from '../../test/fixtures';
+import { matchesWantedBook } from '../../utils/wantedBooks';
+
+const USER = 'reader-1';
+
+/**
+ * Stand-in for record_wanted_book_matches, which runs in the database
+ */
+function handleRecordMatches({ p_listing_id }: Record<string, any>) {
+  const listing = fakeSupabase.rows('book_listings').find(row => row.id === p_listing_id) as BookListing;
+  const fulfilled = (fakeSupabase.rows('wanted_books') as WantedBook[])
+    .filter(wanted => matchesWantedBook(wanted, listing));
+
+  fakeSupabase.seed('wanted_book_matches', fulfilled.map(wanted => ({
+    id: `match-${wanted.id}-${listing.id}`,
+    wanted_book_id: wanted.id,
+    listing_id: listing.id,
+    user_id: wanted.user_id,
+    created_at: new Date().toISOString(),
+  })));
+
+  return new Set(fulfilled.map(wanted => wanted.user_id)).size;
+}
+
+function makeWantedBook(overrides: Partial<WantedBook>): WantedBook {
+  return {
+    id: `wanted-${Math.random().toString(36).substring(2, 10)}`,
+    user_id: USER,
+    isbn: null,
+    title: null,
+    author: null,
+    max_price: null,
+    conditions: [],
+    created_at: '2024-01-01T00:00:00Z',
+    ...overrides,
+  };
+}
+
+describe('WantedBookService', () => {
+  beforeEach(() => {
+    fakeSupabase.signInAs(USER);
+    fakeSupabase.onRpc('record_wanted_book_matches', handleRecordMatches);
+  });
+
+  describe('adding wanted books', () => {
+    it('stores the ISBN as ISBN-13 with the trimmed details', async () => {
+      const wanted = await WantedBookService.addWantedBook({
+        isbn: '0-306-40615-2',
+        title: '  Calculus ',
+        author: ' ',
+        maxPrice: 30,
+        conditions: ['Good'],
+      });
+
+      expect(wanted).toMatchObject({
+        user_id: USER,
+        isbn: '9780306406157',
+        title: 'Calculus',
+        author: null,
+        max_price: 30,
+        conditions: ['Good'],
+      });
+    });
+
+    it('refuses entries that cannot be matched', async () => {
+      await expect(WantedBookService.addWantedBook({ isbn: '12345' }))
+        .rejects.toThrow('Enter a valid ISBN-10 or ISBN-13');
+      await expect(WantedBookService.addWantedBook({ author: 'Stewart' }))
+        .rejects.toThrow('Enter an ISBN or a title');
+      await expect(WantedBookService.addWantedBook({ title: 'Calculus', maxPrice: 0 }))
+        .rejects.toThrow('Maximum price must be a positive number');
+      expect(fakeSupabase.rows('wanted_books')).toHaveLength(0);
+    });
+  });
+
+  it('describes a wanted book by title and author, or by ISBN', () => {
+    expect(describeWantedBook(makeWantedBook({ title: 'Calculus', author: 'Stewart' }))).toBe('Calculus by Stewart');
+    expect(describeWantedBook(makeWantedBook({ isbn: '9780306406157' }))).toBe('ISBN 9780306406157');
+  });
+
+  describe('matching new listings', () => {
+    beforeEach(() => {
+      fakeSupabase.seed('wanted_books', [
+        makeWantedBook({ id: 'by-title', title: 'Calculus', max_price: 40 }),
+        makeWantedBook({ id: 'by-isbn', isbn: '9780306406157', conditions: ['Like New'] }),
+        makeWantedBook({ id: 'other-reader', user_id: 'reader-2', title: 'calculus' }),
+      ]);
+    });
+
+    it('returns how many people want a newly listed book', async () => {
+      const listing = makeListing({ title: 'Calculus: Early Transcendentals', price: 35 });
+      fakeSupabase.seed('book_listings', [listing]);
+
+      expect(await WantedBookService.recordListingMatches(listing)).toBe(2);
+      expect(fakeSupabase.rows('wanted_book_matches').map(match => match.wanted_book_id).sort())
+        .toEqual(['by-title', 'other-reader']);
+    });
+
+    it('lists each matching active listing once with the wanted books it fulfils', async () => {
+      const [both, sold] = [
+        makeListing({ title: 'Calculus', isbn: '9780306406157', condition: 'Like New', price: 30 }),
+        makeListing({ title: 'Calculus', price: 20 }),
+      ];
+      fakeSupabase.seed('book_listings', [both, sold]);
+      await WantedBookService.recordListingMatches(both);
+      await WantedBookService.recordListingMatches(sold);
+      fakeSupabase.rows('book_listings')[1].status = 'sold';
+
+      const matches = await WantedBookService.getMatches();
+
+      expect(matches).toHaveLength(1);
+      expect(matches[0].listing.id).toBe(both.id);
+      expect(matches[0].wanted.map(wanted => wanted.id).sort()).toEqual(['by-isbn', 'by-title']);
+    });
+
+    it('never fails the listing when matching is unavailable', async () => {
+      jest.spyOn(console, 'error').mockImplementation(() => {});
+      fakeSupabase.reset();
+      fakeSupabase.signInAs(USER);
+
+      expect(await WantedBookService.recordListingMatches(makeListing())).toBe(0);
+    });
+  });
+
+  it('removes a wanted book', async () => {
+    const wanted = await WantedBookService.addWantedBook({ title: 'Physics' });
+
+    await WantedBookService.removeWantedBook(wanted.id);
+
+    expect(await WantedBookService.getWantedBooks()).toEqual([]);
+  });
+
+  it('falls back to in-memory wanted books when the tables do not exist', async () => {
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    jest.spyOn(console, 'info').mockImplementation(() => {});
+    fakeSupabase.dropTable('wanted_books');
+    fakeSupabase.dropTable('wanted_book_matches');
+
+    await WantedBookService.addWantedBook({ title: 'Organic Chemistry', author: 'Clayden' });
+    const listing = makeListing({ title: 'Organic Chemistry (2nd ed.)', author: 'Jonathan Clayden' });
+
+    expect(await WantedBookService.recordListingMatches(listing)).toBe(1);
+    expect((await WantedBookService.getWantedBooks()).map(describeWantedBook))
+      .toEqual(['Organic Chemistry by Clayden']);
+  });
+});
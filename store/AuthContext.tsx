@@ -1,6 +1,9 @@
 import React, { createContext, useState, useEffect, useContext } from 'react';
 import { Session, User } from '@supabase/supabase-js';
 import { supabase } from '../config/supabase';
+import { OfflineService } from '../services/OfflineService';
+import { PushNotificationService } from '../services/PushNotificationService';
+import { clearCache } from '../utils/offlineCache';
 
 interface AuthContextProps {
   user: User | null;
@@ -50,6 +53,18 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     };
   }, []);
 
+  // Replay writes queued offline whenever a signed-in user reconnects
+  useEffect(() => {
+    if (!user) return;
+    return OfflineService.start();
+  }, [user?.id]);
+
+  // Send this user's pushes to this device
+  useEffect(() => {
+    if (!user) return;
+    PushNotificationService.register();
+  }, [user?.id]);
+
   const signUp = async (email: string, password: string) => {
     return await supabase.auth.signUp({ email, password });
   };
@@ -59,6 +74,10 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
   };
 
   const signOut = async () => {
+    // Removing the push token needs the session, so it goes first
+    await PushNotificationService.unregister();
+    // Cached data and unsent writes belong to this user; don't leave them for the next one
+    await Promise.all([OfflineService.clear(), clearCache()]);
     return await supabase.auth.signOut();
   };
 
@@ -0,0 +1,45 @@
+import React, { createContext, useState, useEffect, useContext, useCallback } from 'react';
+import { useAuth } from './AuthContext';
+import { NotificationService } from '../services/NotificationService';
+
+interface NotificationContextProps {
+  // Unread notifications for the signed-in user, shown as badges
+  unreadCount: number;
+  refreshUnreadCount: () => Promise<void>;
+}
+
+const NotificationContext = createContext<NotificationContextProps | undefined>(undefined);
+
+export const NotificationProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { user } = useAuth();
+  const [unreadCount, setUnreadCount] = useState(0);
+
+  const refreshUnreadCount = useCallback(async () => {
+    setUnreadCount(user ? await NotificationService.getUnreadCount() : 0);
+  }, [user?.id]);
+
+  // Keep the count current as notifications arrive or are read elsewhere
+  useEffect(() => {
+    refreshUnreadCount();
+
+    if (!user) return;
+    return NotificationService.subscribe(user.id, () => {
+      refreshUnreadCount();
+    });
+  }, [user?.id, refreshUnreadCount]);
+
+  const value = {
+    unreadCount,
+    refreshUnreadCount,
+  };
+
+  return <NotificationContext.Provider value={value}>{children}</NotificationContext.Provider>;
+};
+
+export const useNotifications = (): NotificationContextProps => {
+  const context = useContext(NotificationContext);
+  if (context === undefined) {
+    throw new Error('useNotifications must be used within a NotificationProvider');
+  }
+  return context;
+};
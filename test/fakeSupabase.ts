@@ -0,0 +1,533 @@
+/**
+ * An in-memory stand-in for the Supabase client, covering the parts of the
+ * query builder, auth and storage APIs the app uses. Tests seed tables, run
+ * services against it and inspect the rows afterwards.
+ */
+
+type Row = Record<string, any>;
+type Filter = (row: Row) => boolean;
+
+interface FakeError {
+  code: string;
+  message: string;
+}
+
+interface FakeResult {
+  data: any;
+  error: FakeError | null;
+  count: number | null;
+}
+
+interface FakeAccount {
+  id: string;
+  email: string;
+  password: string;
+  created_at: string;
+}
+
+type RpcHandler = (args: Record<string, any>) => any;
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}T/;
+
+let idCounter = 0;
+
+export function fakeId(): string {
+  idCounter += 1;
+  return `00000000-0000-4000-8000-${String(idCounter).padStart(12, '0')}`;
+}
+
+// Values are sent as JSON, so columns set to undefined never reach the database
+function toWire(values: Row | Row[]): Row[] {
+  return (Array.isArray(values) ? values : [values]).map(row =>
+    Object.fromEntries(Object.entries(row).filter(([, value]) => value !== undefined))
+  );
+}
+
+function fakeError(code: string, message: string): FakeError {
+  return { code, message };
+}
+
+/**
+ * Compare a row value with a filter value the way Postgres would for the
+ * column types the app uses: numbers, booleans, timestamps and text
+ */
+function compare(value: any, target: any): number {
+  if (value === null || value === undefined) {
+    return target === null || target === undefined ? 0 : -1;
+  }
+  if (typeof value === 'number') {
+    return value - Number(target);
+  }
+  if (typeof value === 'boolean') {
+    return Number(value) - Number(target === true || target === 'true');
+  }
+  if (typeof value === 'string' && ISO_DATE.test(value) && ISO_DATE.test(String(target))) {
+    return new Date(value).getTime() - new Date(target).getTime();
+  }
+  return String(value) < String(target) ? -1 : String(value) > String(target) ? 1 : 0;
+}
+
+function condition(column: string, operator: string, target: any): Filter {
+  switch (operator) {
+    case 'eq': return row => compare(row[column], target) === 0;
+    case 'neq': return row => compare(row[column], target) !== 0;
+    case 'lt': return row => row[column] != null && compare(row[column], target) < 0;
+    case 'lte': return row => row[column] != null && compare(row[column], target) <= 0;
+    case 'gt': return row => row[column] != null && compare(row[column], target) > 0;
+    case 'gte': return row => row[column] != null && compare(row[column], target) >= 0;
+    case 'is': return row => (target === 'null' || target === null ? row[column] == null : compare(row[column], target) === 0);
+    default: throw new Error(`Fake Supabase does not support the ${operator} filter`);
+  }
+}
+
+// Split a PostgREST logic tree on top-level commas, leaving nested groups and quoted values whole
+function splitTopLevel(expression: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let inQuotes = false;
+  let current = '';
+
+  for (const char of expression) {
+    if (char === '"') inQuotes = !inQuotes;
+    if (!inQuotes && char === '(') depth += 1;
+    if (!inQuotes && char === ')') depth -= 1;
+    if (!inQuotes && depth === 0 && char === ',') {
+      parts.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  parts.push(current);
+  return parts.map(part => part.trim()).filter(Boolean);
+}
+
+/**
+ * Parse the filter syntax of `.or()`, e.g. `a.eq.1,and(b.lt."x",c.eq.2)`
+ */
+function parseLogicTree(expression: string, combine: 'and' | 'or'): Filter {
+  const filters = splitTopLevel(expression).map(part => {
+    const group = part.match(/^(and|or)\((.*)\)$/);
+    if (group) {
+      return parseLogicTree(group[2], group[1] as 'and' | 'or');
+    }
+    const [column, operator, ...rest] = part.split('.');
+    const raw = rest.join('.');
+    return condition(column, operator, raw.startsWith('"') ? raw.slice(1, -1) : raw);
+  });
+
+  return combine === 'and'
+    ? row => filters.every(filter => filter(row))
+    : row => filters.some(filter => filter(row));
+}
+
+function project(row: Row, columns: string): Row {
+  if (columns.trim() === '*') {
+    return { ...row };
+  }
+  return Object.fromEntries(columns.split(',').map(column => column.trim()).map(column => [column, row[column]]));
+}
+
+export class FakeQueryBuilder implements PromiseLike<FakeResult> {
+  private operation: 'select' | 'insert' | 'update' | 'upsert' | 'delete' = 'select';
+  private filters: Filter[] = [];
+  private orders: { column: string; ascending: boolean }[] = [];
+  private limitCount: number | null = null;
+  private offset = 0;
+  private columns = '*';
+  private returning = false;
+  private countMode: 'exact' | null = null;
+  private headOnly = false;
+  private cardinality: 'single' | 'maybeSingle' | null = null;
+  private values: Row[] = [];
+  private onConflict = 'id';
+  private ignoreDuplicates = false;
+
+  constructor(private fake: FakeSupabase, private table: string, private source?: () => FakeResult) {}
+
+  select(columns = '*', options: { count?: 'exact'; head?: boolean } = {}): this {
+    this.columns = columns;
+    if (this.operation === 'select') {
+      this.countMode = options.count || null;
+      this.headOnly = !!options.head;
+    } else {
+      this.returning = true;
+    }
+    return this;
+  }
+
+  insert(values: Row | Row[]): this {
+    this.operation = 'insert';
+    this.values = toWire(values);
+    return this;
+  }
+
+  upsert(values: Row | Row[], options: { onConflict?: string; ignoreDuplicates?: boolean } = {}): this {
+    this.operation = 'upsert';
+    this.values = toWire(values);
+    this.onConflict = options.onConflict || 'id';
+    this.ignoreDuplicates = !!options.ignoreDuplicates;
+    return this;
+  }
+
+  update(values: Row): this {
+    this.operation = 'update';
+    this.values = toWire(values);
+    return this;
+  }
+
+  delete(): this {
+    this.operation = 'delete';
+    return this;
+  }
+
+  eq(column: string, value: any): this { return this.where(condition(column, 'eq', value)); }
+  neq(column: string, value: any): this { return this.where(condition(column, 'neq', value)); }
+  lt(column: string, value: any): this { return this.where(condition(column, 'lt', value)); }
+  lte(column: string, value: any): this { return this.where(condition(column, 'lte', value)); }
+  gt(column: string, value: any): this { return this.where(condition(column, 'gt', value)); }
+  gte(column: string, value: any): this { return this.where(condition(column, 'gte', value)); }
+  is(column: string, value: any): this { return this.where(condition(column, 'is', value)); }
+
+  in(column: string, values: any[]): this {
+    return this.where(row => values.some(value => compare(row[column], value) === 0));
+  }
+
+  match(values: Row): this {
+    Object.entries(values).forEach(([column, value]) => this.eq(column, value));
+    return this;
+  }
+
+  or(expression: string): this {
+    return this.where(parseLogicTree(expression, 'or'));
+  }
+
+  not(column: string, operator: string, value: any): this {
+    // supabase-js takes lists as a "(a,b)" string here, as PostgREST does
+    const filter = operator === 'in'
+      ? (row: Row) => String(value).slice(1, -1).split(',').some(item => compare(row[column], item) === 0)
+      : condition(column, operator, value);
+    return this.where(row => !filter(row));
+  }
+
+  order(column: string, options: { ascending?: boolean } = {}): this {
+    this.orders.push({ column, ascending: options.ascending !== false });
+    return this;
+  }
+
+  limit(count: number): this {
+    this.limitCount = count;
+    return this;
+  }
+
+  range(from: number, to: number): this {
+    this.offset = from;
+    this.limitCount = to - from + 1;
+    return this;
+  }
+
+  single(): this {
+    this.cardinality = 'single';
+    return this;
+  }
+
+  maybeSingle(): this {
+    this.cardinality = 'maybeSingle';
+    return this;
+  }
+
+  then<TResult1 = FakeResult, TResult2 = never>(
+    onfulfilled?: ((value: FakeResult) => TResult1 | PromiseLike<TResult1>) | null,
+    onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | null
+  ): PromiseLike<TResult1 | TResult2> {
+    return Promise.resolve().then(() => this.execute()).then(onfulfilled, onrejected);
+  }
+
+  private where(filter: Filter): this {
+    this.filters.push(filter);
+    return this;
+  }
+
+  private execute(): FakeResult {
+    this.fake.calls.push({ table: this.table, operation: this.operation });
+
+    if (this.fake.isNetworkDown) {
+      // supabase-js reports fetch failures as errors rather than throwing them
+      return { data: null, error: fakeError('', 'TypeError: Network request failed'), count: null };
+    }
+    if (!this.source && this.fake.missingTables.has(this.table)) {
+      return { data: null, error: fakeError('42P01', `relation "public.${this.table}" does not exist`), count: null };
+    }
+
+    // Functions returning a single value or failing are passed through as they are
+    const sourced = this.source?.();
+    if (sourced && (sourced.error || !Array.isArray(sourced.data))) {
+      return sourced;
+    }
+
+    let result: { rows: Row[]; error?: FakeError };
+    switch (this.operation) {
+      case 'select': result = { rows: (sourced ? sourced.data : this.fake.rows(this.table)).filter((row: Row) => this.matches(row)) }; break;
+      case 'insert': result = this.insertRows(); break;
+      case 'upsert': result = this.upsertRows(); break;
+      case 'update': result = { rows: this.updateRows() }; break;
+      case 'delete': result = { rows: this.deleteRows() }; break;
+    }
+
+    if (result.error) {
+      return { data: null, error: result.error, count: null };
+    }
+
+    let rows = this.sort(result.rows);
+    const count = this.countMode ? rows.length : null;
+    if (this.limitCount !== null) {
+      rows = rows.slice(this.offset, this.offset + this.limitCount);
+    }
+
+    const data = this.operation === 'select' || this.returning
+      ? rows.map(row => project(row, this.columns))
+      : null;
+
+    if (this.cardinality && data) {
+      if (data.length > 1) {
+        return { data: null, error: fakeError('PGRST116', 'JSON object requested, multiple rows returned'), count };
+      }
+      if (data.length === 0) {
+        return this.cardinality === 'single'
+          ? { data: null, error: fakeError('PGRST116', 'JSON object requested, no rows returned'), count }
+          : { data: null, error: null, count };
+      }
+      return { data: data[0], error: null, count };
+    }
+
+    return { data: this.headOnly ? null : data, error: null, count };
+  }
+
+  private matches(row: Row): boolean {
+    return this.filters.every(filter => filter(row));
+  }
+
+  private sort(rows: Row[]): Row[] {
+    if (this.orders.length === 0) {
+      return rows;
+    }
+    return [...rows].sort((a, b) => {
+      for (const { column, ascending } of this.orders) {
+        const difference = compare(a[column], b[column]);
+        if (difference !== 0) {
+          return ascending ? difference : -difference;
+        }
+      }
+      return 0;
+    });
+  }
+
+  private withDefaults(values: Row): Row {
+    return { id: fakeId(), created_at: new Date().toISOString(), ...values };
+  }
+
+  private insertRows(): { rows: Row[]; error?: FakeError } {
+    const table = this.fake.rows(this.table);
+    const rows = this.values.map(values => this.withDefaults(values));
+
+    if (rows.some(row => table.some(existing => existing.id === row.id))) {
+      return { rows: [], error: fakeError('23505', 'duplicate key value violates unique constraint') };
+    }
+
+    this.fake.tables[this.table] = [...table, ...rows];
+    return { rows };
+  }
+
+  private upsertRows(): { rows: Row[] } {
+    const keys = this.onConflict.split(',').map(key => key.trim());
+    const saved: Row[] = [];
+
+    this.values.forEach(values => {
+      const table = this.fake.rows(this.table);
+      const existing = table.find(row => keys.every(key => compare(row[key], values[key]) === 0));
+
+      if (!existing) {
+        const row = this.withDefaults(values);
+        this.fake.tables[this.table] = [...table, row];
+        saved.push(row);
+      } else if (!this.ignoreDuplicates) {
+        const row = { ...existing, ...values };
+        this.fake.tables[this.table] = table.map(item => (item === existing ? row : item));
+        saved.push(row);
+      }
+    });
+
+    return { rows: saved };
+  }
+
+  private updateRows(): Row[] {
+    const updated: Row[] = [];
+    this.fake.tables[this.table] = this.fake.rows(this.table).map(row => {
+      if (!this.matches(row)) {
+        return row;
+      }
+      const changed = { ...row, ...this.values[0] };
+      updated.push(changed);
+      return changed;
+    });
+    return updated;
+  }
+
+  private deleteRows(): Row[] {
+    const table = this.fake.rows(this.table);
+    const deleted = table.filter(row => this.matches(row));
+    this.fake.tables[this.table] = table.filter(row => !this.matches(row));
+    return deleted;
+  }
+}
+
+class FakeChannel {
+  on(): this {
+    return this;
+  }
+
+  subscribe(callback?: (status: string) => void): this {
+    callback?.('SUBSCRIBED');
+    return this;
+  }
+}
+
+export class FakeSupabase {
+  tables: Record<string, Row[]> = {};
+  missingTables = new Set<string>();
+  // Uploaded files by bucket and path
+  files: Record<string, Record<string, { contentType?: string }>> = {};
+  // Every query run, for asserting on what a service did
+  calls: { table: string; operation: string }[] = [];
+  // While true every request fails the way fetch does without a connection
+  isNetworkDown = false;
+
+  private accounts: FakeAccount[] = [];
+  private session: { user: FakeAccount; access_token: string } | null = null;
+  private rpcHandlers: Record<string, RpcHandler> = {};
+
+  readonly client = {
+    from: (table: string) => new FakeQueryBuilder(this, table),
+
+    rpc: (name: string, args: Record<string, any> = {}) => {
+      const handler = this.rpcHandlers[name];
+      return new FakeQueryBuilder(this, name, () => {
+        if (!handler) {
+          return { data: null, error: fakeError('PGRST202', `Could not find the function public.${name}`), count: null };
+        }
+        // A handler throws to answer with an error, like a function that raises an exception
+        try {
+          return { data: handler(args), error: null, count: null };
+        } catch (error) {
+          return { data: null, error: error as FakeError, count: null };
+        }
+      });
+    },
+
+    channel: (_name: string) => new FakeChannel(),
+
+    removeChannel: async (_channel: FakeChannel) => 'ok',
+
+    auth: {
+      getSession: async () => ({ data: { session: this.session }, error: null }),
+
+      signInWithPassword: async ({ email, password }: { email: string; password: string }) => {
+        const account = this.accounts.find(item => item.email === email && item.password === password);
+        if (!account) {
+          return { data: { user: null, session: null }, error: { name: 'AuthApiError', message: 'Invalid login credentials' } };
+        }
+        this.session = { user: account, access_token: `token-${account.id}` };
+        return { data: { user: account, session: this.session }, error: null };
+      },
+
+      signUp: async ({ email, password }: { email: string; password: string }) => {
+        if (this.accounts.some(item => item.email === email)) {
+          return { data: { user: null, session: null }, error: { name: 'AuthApiError', message: 'User already registered' } };
+        }
+        const account = this.addAccount(email, password);
+        this.session = { user: account, access_token: `token-${account.id}` };
+        return { data: { user: account, session: this.session }, error: null };
+      },
+
+      signOut: async () => {
+        this.session = null;
+        return { error: null };
+      },
+
+      resetPasswordForEmail: async (_email: string, _options?: object) => ({ data: {}, error: null }),
+
+      onAuthStateChange: (_callback: (event: string, session: unknown) => void) => ({
+        data: { subscription: { unsubscribe: () => {} } },
+      }),
+    },
+
+    storage: {
+      from: (bucket: string) => ({
+        upload: async (path: string, _body: unknown, options: { contentType?: string } = {}) => {
+          this.files[bucket] = { ...this.files[bucket], [path]: { contentType: options.contentType } };
+          return { data: { path }, error: null };
+        },
+
+        remove: async (paths: string[]) => {
+          const existing = this.files[bucket] || {};
+          const removed = paths.filter(path => path in existing);
+          removed.forEach(path => delete existing[path]);
+          return { data: removed.map(name => ({ name })), error: null };
+        },
+
+        getPublicUrl: (path: string) => ({
+          data: { publicUrl: `https://fake.supabase.co/storage/v1/object/public/${bucket}/${path}` },
+        }),
+      }),
+    },
+  };
+
+  /**
+   * The rows of a table, or an empty table if nothing has been seeded
+   */
+  rows(table: string): Row[] {
+    return this.tables[table] || [];
+  }
+
+  seed(table: string, rows: Row[]): void {
+    this.tables[table] = [...this.rows(table), ...rows.map(row => ({ ...row }))];
+  }
+
+  /**
+   * Make queries against a table fail as if it had never been created
+   */
+  dropTable(table: string): void {
+    this.missingTables.add(table);
+  }
+
+  onRpc(name: string, handler: RpcHandler): void {
+    this.rpcHandlers[name] = handler;
+  }
+
+  addAccount(email: string, password = 'password123', id = fakeId()): FakeAccount {
+    const account = { id, email, password, created_at: new Date().toISOString() };
+    this.accounts.push(account);
+    return account;
+  }
+
+  /**
+   * Start a session as the given account, creating it if needed
+   */
+  signInAs(id: string, email = `${id}@example.com`): void {
+    const account = this.accounts.find(item => item.id === id) || this.addAccount(email, 'password123', id);
+    this.session = { user: account, access_token: `token-${account.id}` };
+  }
+
+  reset(): void {
+    this.tables = {};
+    this.missingTables.clear();
+    this.files = {};
+    this.calls = [];
+    this.isNetworkDown = false;
+    this.accounts = [];
+    this.session = null;
+    this.rpcHandlers = {};
+  }
+}
+
+export const fakeSupabase = new FakeSupabase();
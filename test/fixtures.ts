@@ -0,0 +1,32 @@
+import type { BookListing } from '../services/BookService';
+
+let listingCounter = 0;
+
+/**
+ * A book_listings row with sensible defaults, overridden field by field
+ */
+export function makeListing(overrides: Partial<BookListing> = {}): BookListing {
+  listingCounter += 1;
+  return {
+    id: `listing-${listingCounter}`,
+    title: `Book ${listingCounter}`,
+    author: 'Jane Author',
+    price: 20,
+    condition: 'Good',
+    category: 'Computer Science',
+    is_negotiable: false,
+    exchange_option: false,
+    status: 'active',
+    moderation_state: 'approved',
+    seller_id: 'seller-1',
+    created_at: new Date(Date.UTC(2024, 0, listingCounter)).toISOString(),
+    ...overrides,
+  };
+}
+
+/**
+ * A user_profiles row
+ */
+export function makeProfile(id: string, name: string) {
+  return { id, name, join_date: '2024-01-01T00:00:00Z', rating: 5 };
+}
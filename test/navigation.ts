@@ -0,0 +1,13 @@
+/**
+ * Navigation prop for rendering a screen on its own. The same object is
+ * returned by useNavigation, so either way a test can check where a screen navigated.
+ */
+export const mockNavigation = {
+  navigate: jest.fn(),
+  goBack: jest.fn(),
+  setOptions: jest.fn(),
+};
+
+export function mockRoute<P extends object>(params: P) {
+  return { key: 'test-route', name: 'TestRoute', params };
+}
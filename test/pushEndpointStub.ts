@@ -0,0 +1,43 @@
+import http from 'http';
+import type { AddressInfo } from 'net';
+import type { PushMessage } from '../utils/chatPush';
+
+export interface PushEndpointStub {
+  url: string;
+  // Every message posted to the endpoint, in order
+  messages: PushMessage[];
+  // The HTTP status to answer with, e.g. 500 to simulate an outage
+  status: number;
+  close(): Promise<void>;
+}
+
+/**
+ * A local stand-in for Expo's push service that records what it is sent and
+ * accepts every message
+ */
+export async function startPushEndpointStub(): Promise<PushEndpointStub> {
+  const server = http.createServer((request, response) => {
+    let body = '';
+    request.on('data', chunk => {
+      body += chunk;
+    });
+    request.on('end', () => {
+      const messages: PushMessage[] = JSON.parse(body);
+      stub.messages.push(...messages);
+      response.writeHead(stub.status, { 'Content-Type': 'application/json' });
+      response.end(JSON.stringify({ data: messages.map(() => ({ status: 'ok', id: 'ticket' })) }));
+    });
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  const stub: PushEndpointStub = {
+    url: `http://127.0.0.1:${port}/--/api/v2/push/send`,
+    messages: [],
+    status: 200,
+    close: () => new Promise(resolve => server.close(() => resolve())),
+  };
+
+  return stub;
+}
@@ -0,0 +1,24 @@
+import React from 'react';
+import { render } from '@testing-library/react-native';
+import { SafeAreaProvider } from 'react-native-safe-area-context';
+import { AuthProvider } from '../store/AuthContext';
+import { NotificationProvider } from '../store/NotificationContext';
+
+const SAFE_AREA_METRICS = {
+  frame: { x: 0, y: 0, width: 390, height: 844 },
+  insets: { top: 0, left: 0, right: 0, bottom: 0 },
+};
+
+/**
+ * Render a screen with the providers the app wraps it in. The signed-in user is
+ * whoever fakeSupabase has a session for.
+ */
+export function renderWithProviders(ui: React.ReactElement) {
+  return render(
+    <SafeAreaProvider initialMetrics={SAFE_AREA_METRICS}>
+      <AuthProvider>
+        <NotificationProvider>{ui}</NotificationProvider>
+      </AuthProvider>
+    </SafeAreaProvider>
+  );
+}
@@ -0,0 +1,54 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { configureDataSource, seedMemoryRepositories } from '../repositories';
+import { OfflineService } from '../services/OfflineService';
+import { fakeSupabase } from './fakeSupabase';
+
+// Tests never reach the network: services talk to the in-memory stand-in instead
+jest.mock('../config/supabase', () => ({
+  supabase: require('./fakeSupabase').fakeSupabase.client,
+}));
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+jest.mock('@react-native-community/netinfo', () =>
+  require('@react-native-community/netinfo/jest/netinfo-mock.js')
+);
+
+// The preset's native font module reports no loaded fonts, which icon components trip over
+jest.mock('expo-font', () => ({
+  ...jest.requireActual('expo-font'),
+  isLoaded: () => true,
+  loadAsync: () => Promise.resolve(),
+}));
+
+// The preset reports Expo Go, where expo-notifications warns about push support on import
+jest.mock('expo', () => ({
+  ...jest.requireActual('expo'),
+  isRunningInExpoGo: () => false,
+}));
+
+// Screens are rendered on their own, outside a navigator, and count as focused
+jest.mock('@react-navigation/native', () => {
+  const React = require('react');
+  return {
+    ...jest.requireActual('@react-navigation/native'),
+    useNavigation: () => require('./navigation').mockNavigation,
+    useFocusEffect: (effect: React.EffectCallback) => React.useEffect(effect, [effect]),
+    useIsFocused: () => true,
+  };
+});
+
+beforeEach(async () => {
+  fakeSupabase.reset();
+  configureDataSource({ mode: 'supabase', fallbackToMemory: true, memoryLatencyMs: 0 });
+  seedMemoryRepositories();
+  await AsyncStorage.clear();
+  await OfflineService.clear();
+});
+
+// Only undo spies; the preset's module mocks keep their implementations
+afterEach(() => {
+  jest.restoreAllMocks();
+});
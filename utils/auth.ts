@@ -1,44 +1,40 @@
-import { supabase } from '../config/supabase';
-import { mockUsers } from './mockData';
-
-const USE_MOCK_DATA = false;
+import { repositories } from '../repositories';
 
 /**
  * Get the current user ID or throw an error if not logged in
  * This is helpful for API calls that require authentication
  */
 export async function getUserId(): Promise<string> {
-  if (USE_MOCK_DATA) {
-    // For development, we'll just return the first mock user's ID
-    return Promise.resolve(mockUsers[0].id);
-  }
+  const user = await repositories.auth.getSessionUser();
 
-  const { data, error } = await supabase.auth.getSession();
-  
-  if (error) {
-    throw new Error('Authentication error: ' + error.message);
-  }
-  
-  if (!data.session?.user?.id) {
+  if (!user?.id) {
     throw new Error('Not authenticated');
   }
-  
-  return data.session.user.id;
+
+  return user.id;
+}
+
+export const SUSPENDED_ACCOUNT_ERROR = 'Your account has been suspended';
+
+/**
+ * Throw if an admin suspended the user. The database turns their new listings
+ * and messages away as well; this gives them a clear reason.
+ */
+export async function assertNotSuspended(userId: string): Promise<void> {
+  const profile = await repositories.users.getById(userId);
+
+  if (profile?.suspended_at) {
+    throw new Error(SUSPENDED_ACCOUNT_ERROR);
+  }
 }
 
 /**
  * Check if the user is authenticated
  */
 export async function isAuthenticated(): Promise<boolean> {
-  if (USE_MOCK_DATA) {
-    // Always return true in mock mode
-    return Promise.resolve(true);
-  }
-  
   try {
-    const { data } = await supabase.auth.getSession();
-    return !!data.session;
+    return !!await repositories.auth.getSessionUser();
   } catch (error) {
     return false;
   }
-} 
\ No newline at end of file
+}
@@ -0,0 +1,96 @@
+import type { PushSettingsRow } from '../repositories/pushSettingsRepository';
+
+// Expo's push service. send_chat_push in scripts/create_push_settings_table.sql
+// posts here unless the app.push_endpoint setting points it elsewhere; the
+// in-memory repositories post to configurePushEndpoint's, e.g. a local stub in tests.
+export const EXPO_PUSH_ENDPOINT = 'https://exp.host/--/api/v2/push/send';
+
+let pushEndpoint = process.env.EXPO_PUBLIC_PUSH_ENDPOINT || EXPO_PUSH_ENDPOINT;
+
+export type PushKind = 'message' | 'offer';
+
+// What a push carries so tapping it can open the conversation
+export interface ChatPushData {
+  conversationId: string;
+  otherUserName: string;
+  listingTitle: string;
+}
+
+// Something that happened in a conversation, as the push triggers see it
+export interface ChatPushEvent extends ChatPushData {
+  kind: PushKind;
+  body: string;
+}
+
+// One message in a request to the push service
+export interface PushMessage {
+  to: string;
+  title: string;
+  body: string;
+  sound: 'default';
+  data: ChatPushData & { kind: PushKind };
+}
+
+export function configurePushEndpoint(endpoint: string): void {
+  pushEndpoint = endpoint;
+}
+
+function truncate(text: string, length: number): string {
+  return text.length > length ? `${text.substring(0, length - 1)}…` : text;
+}
+
+/**
+ * The push body for a swap offer, e.g. "Offered 2 books in a swap"
+ * (mirrors push_new_swap_proposal)
+ */
+export function describeSwapOffer(offeredCount: number, isCounter: boolean): string {
+  const books = offeredCount === 1 ? '1 book' : `${offeredCount} books`;
+  return isCounter ? `Made a counter-offer of ${books} for a swap` : `Offered ${books} in a swap`;
+}
+
+/**
+ * One push per device of the receiver, or none if they muted this kind of push
+ * (mirrors send_chat_push)
+ */
+export function buildChatPushMessages(settings: PushSettingsRow | null, event: ChatPushEvent): PushMessage[] {
+  const muted = event.kind === 'message' ? settings?.mute_message_pushes : settings?.mute_offer_pushes;
+  if (!settings || muted) {
+    return [];
+  }
+
+  const { kind, conversationId, otherUserName, listingTitle, body } = event;
+  return settings.push_tokens.map(token => ({
+    to: token,
+    title: otherUserName,
+    body: truncate(body, 150),
+    sound: 'default',
+    data: { kind, conversationId, otherUserName, listingTitle },
+  }));
+}
+
+/**
+ * Post pushes to the push service. Like pg_net in the database, a push that
+ * cannot be sent is logged and never fails what triggered it.
+ */
+export async function sendPushMessages(messages: PushMessage[]): Promise<void> {
+  if (messages.length === 0) {
+    return;
+  }
+
+  try {
+    const response = await fetch(pushEndpoint, {
+      method: 'POST',
+      headers: {
+        Accept: 'application/json',
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(messages),
+    });
+
+    if (!response.ok) {
+      console.warn(`Push service responded with ${response.status}`);
+    }
+  } catch (error) {
+    console.warn('Could not reach the push service:', error);
+  }
+}
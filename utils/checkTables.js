@@ -46,7 +46,16 @@ async function checkRequiredTables() {
     'user_profiles',
     'saved_items',
     'conversations',
-    'messages'
+    'messages',
+    'reviews',
+    'swap_proposals',
+    'listing_images',
+    'saved_searches',
+    'wanted_books',
+    'wanted_book_matches',
+    'notifications',
+    'reports',
+    'blocked_users'
   ];
   
   const results = {};
@@ -0,0 +1,59 @@
+import { Alert, Platform } from 'react-native';
+
+/**
+ * Alerts that also work in the web build, where react-native-web leaves
+ * Alert.alert unimplemented and the browser's own dialogs are used instead
+ */
+
+export function showMessage(title: string, message: string): void {
+  if (Platform.OS === 'web') {
+    window.alert(`${title}\n\n${message}`);
+    return;
+  }
+
+  Alert.alert(title, message);
+}
+
+/**
+ * Ask the user to confirm an action
+ * @returns Whether they confirmed it
+ */
+export function confirmAction(title: string, message: string, confirmText: string): Promise<boolean> {
+  if (Platform.OS === 'web') {
+    return Promise.resolve(window.confirm(`${title}\n\n${message}`));
+  }
+
+  return new Promise(resolve => {
+    Alert.alert(
+      title,
+      message,
+      [
+        { text: 'Cancel', style: 'cancel', onPress: () => resolve(false) },
+        { text: confirmText, style: 'destructive', onPress: () => resolve(true) }
+      ],
+      { onDismiss: () => resolve(false) }
+    );
+  });
+}
+
+/**
+ * Ask the user to type a short answer
+ * @returns What they typed, or null if they cancelled
+ */
+export function promptText(title: string, message: string, confirmText: string): Promise<string | null> {
+  if (Platform.OS === 'web') {
+    return Promise.resolve(window.prompt(`${title}\n\n${message}`));
+  }
+
+  // Alert.prompt is only implemented on iOS; the admin dashboard is part of the web build
+  return new Promise(resolve => {
+    Alert.prompt(
+      title,
+      message,
+      [
+        { text: 'Cancel', style: 'cancel', onPress: () => resolve(null) },
+        { text: confirmText, onPress: (value?: string) => resolve(value ?? '') }
+      ]
+    );
+  });
+}
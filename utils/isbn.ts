@@ -0,0 +1,76 @@
+/**
+ * Strip spaces and hyphens from an ISBN and upper-case the ISBN-10 check character
+ */
+export function normalizeIsbn(input: string): string {
+  return input.replace(/[\s-]/g, '').toUpperCase();
+}
+
+function isbn10CheckDigit(first9: string): string {
+  const sum = first9
+    .split('')
+    .reduce((total, digit, index) => total + Number(digit) * (10 - index), 0);
+  const check = (11 - (sum % 11)) % 11;
+  return check === 10 ? 'X' : String(check);
+}
+
+function isbn13CheckDigit(first12: string): string {
+  const sum = first12
+    .split('')
+    .reduce((total, digit, index) => total + Number(digit) * (index % 2 === 0 ? 1 : 3), 0);
+  return String((10 - (sum % 10)) % 10);
+}
+
+export function isValidIsbn10(input: string): boolean {
+  const isbn = normalizeIsbn(input);
+  return /^\d{9}[\dX]$/.test(isbn) && isbn10CheckDigit(isbn.slice(0, 9)) === isbn[9];
+}
+
+export function isValidIsbn13(input: string): boolean {
+  const isbn = normalizeIsbn(input);
+  return /^97[89]\d{10}$/.test(isbn) && isbn13CheckDigit(isbn.slice(0, 12)) === isbn[12];
+}
+
+export function isValidIsbn(input: string): boolean {
+  return isValidIsbn10(input) || isValidIsbn13(input);
+}
+
+/**
+ * Convert a valid ISBN-10 to its 978-prefixed ISBN-13
+ */
+export function isbn10To13(input: string): string {
+  if (!isValidIsbn10(input)) {
+    throw new Error(`Invalid ISBN-10: ${input}`);
+  }
+  const first12 = `978${normalizeIsbn(input).slice(0, 9)}`;
+  return first12 + isbn13CheckDigit(first12);
+}
+
+/**
+ * Convert a valid ISBN-13 to ISBN-10. Only 978-prefixed numbers have an ISBN-10 form,
+ * so this returns null for 979 numbers.
+ */
+export function isbn13To10(input: string): string | null {
+  if (!isValidIsbn13(input)) {
+    throw new Error(`Invalid ISBN-13: ${input}`);
+  }
+  const isbn = normalizeIsbn(input);
+  if (!isbn.startsWith('978')) {
+    return null;
+  }
+  const first9 = isbn.slice(3, 12);
+  return first9 + isbn10CheckDigit(first9);
+}
+
+/**
+ * The ISBN-13 form of any valid ISBN, or null if the input is not a valid ISBN.
+ * Listings store ISBN-13 so lookups and searches match whichever form was typed.
+ */
+export function toIsbn13(input: string): string | null {
+  if (isValidIsbn13(input)) {
+    return normalizeIsbn(input);
+  }
+  if (isValidIsbn10(input)) {
+    return isbn10To13(input);
+  }
+  return null;
+}
@@ -4,6 +4,9 @@
  */
 
 import { BookListing } from '../services/BookService';
+import { BookMetadata } from '../services/BookMetadataService';
+import { Conversation, Message } from '../services/MessageService';
+import { Review } from '../services/ReviewService';
 
 // User Data
 
@@ -17,6 +20,8 @@ export interface MockUser {
   bio?: string;
   location?: string;
   phone?: string;
+  // Can use the admin dashboard
+  isAdmin?: boolean;
 }
 
 export const mockUsers: MockUser[] = [
@@ -29,7 +34,8 @@ export const mockUsers: MockUser[] = [
     rating: 4.7,
     bio: 'Avid reader and book collector. I love science fiction and philosophy books!',
     location: 'San Francisco, CA',
-    phone: '(555) 123-4567'
+    phone: '(555) 123-4567',
+    isAdmin: true
   },
   {
     id: 'user-002',
@@ -95,6 +101,8 @@ export const mockListings: BookListing[] = [
     publication_year: 2004,
     is_negotiable: true,
     exchange_option: false,
+    latitude: 37.7809,
+    longitude: -122.4254,
     seller_id: 'user-001',
     created_at: '2023-06-15T09:30:00Z'
   },
@@ -113,6 +121,8 @@ export const mockListings: BookListing[] = [
     publication_year: 2006,
     is_negotiable: false,
     exchange_option: true,
+    latitude: 42.3721,
+    longitude: -71.0709,
     seller_id: 'user-002',
     created_at: '2023-06-18T14:45:00Z'
   },
@@ -131,6 +141,8 @@ export const mockListings: BookListing[] = [
     publication_year: 1998,
     is_negotiable: true,
     exchange_option: false,
+    latitude: 41.8961,
+    longitude: -87.6478,
     seller_id: 'user-003',
     created_at: '2023-06-20T10:15:00Z'
   },
@@ -149,6 +161,8 @@ export const mockListings: BookListing[] = [
     publication_year: 2019,
     is_negotiable: true,
     exchange_option: true,
+    latitude: 47.6062,
+    longitude: -122.3321,
     seller_id: 'user-004',
     created_at: '2023-06-22T16:30:00Z'
   },
@@ -167,6 +181,8 @@ export const mockListings: BookListing[] = [
     publication_year: 2008,
     is_negotiable: false,
     exchange_option: false,
+    latitude: 30.2732,
+    longitude: -97.7491,
     seller_id: 'user-005',
     created_at: '2023-06-24T11:00:00Z'
   },
@@ -185,6 +201,8 @@ export const mockListings: BookListing[] = [
     publication_year: 1961,
     is_negotiable: true,
     exchange_option: true,
+    latitude: 37.7869,
+    longitude: -122.4314,
     seller_id: 'user-001',
     created_at: '2023-06-26T13:20:00Z'
   },
@@ -203,6 +221,8 @@ export const mockListings: BookListing[] = [
     publication_year: 2000,
     is_negotiable: false,
     exchange_option: false,
+    latitude: 42.3781,
+    longitude: -71.0769,
     seller_id: 'user-002',
     created_at: '2023-06-28T09:45:00Z'
   },
@@ -221,6 +241,8 @@ export const mockListings: BookListing[] = [
     publication_year: 2015,
     is_negotiable: true,
     exchange_option: false,
+    latitude: 41.8781,
+    longitude: -87.6298,
     seller_id: 'user-003',
     created_at: '2023-06-30T15:10:00Z'
   },
@@ -239,6 +261,8 @@ export const mockListings: BookListing[] = [
     publication_year: 2021,
     is_negotiable: true,
     exchange_option: false,
+    latitude: 47.6122,
+    longitude: -122.3381,
     seller_id: 'user-004',
     created_at: '2023-07-02T10:30:00Z'
   },
@@ -257,6 +281,8 @@ export const mockListings: BookListing[] = [
     publication_year: 1994,
     is_negotiable: false,
     exchange_option: true,
+    latitude: 30.2792,
+    longitude: -97.7551,
     seller_id: 'user-005',
     created_at: '2023-07-05T14:00:00Z'
   },
@@ -275,6 +301,8 @@ export const mockListings: BookListing[] = [
     publication_year: 1991,
     is_negotiable: true,
     exchange_option: false,
+    latitude: 37.7929,
+    longitude: -122.4374,
     seller_id: 'user-001',
     created_at: '2023-07-08T11:45:00Z'
   },
@@ -293,6 +321,8 @@ export const mockListings: BookListing[] = [
     publication_year: 2014,
     is_negotiable: false,
     exchange_option: true,
+    latitude: 42.3601,
+    longitude: -71.0589,
     seller_id: 'user-002',
     created_at: '2023-07-10T16:20:00Z'
   },
@@ -311,6 +341,8 @@ export const mockListings: BookListing[] = [
     publication_year: 2010,
     is_negotiable: true,
     exchange_option: false,
+    latitude: 41.8841,
+    longitude: -87.6358,
     seller_id: 'user-003',
     created_at: '2023-07-12T09:15:00Z'
   },
@@ -329,6 +361,8 @@ export const mockListings: BookListing[] = [
     publication_year: 2018,
     is_negotiable: true,
     exchange_option: false,
+    latitude: 47.6182,
+    longitude: -122.3441,
     seller_id: 'user-004',
     created_at: '2023-07-15T14:30:00Z'
   },
@@ -347,11 +381,175 @@ export const mockListings: BookListing[] = [
     publication_year: 2008,
     is_negotiable: false,
     exchange_option: true,
+    latitude: 30.2852,
+    longitude: -97.7611,
     seller_id: 'user-005',
     created_at: '2023-07-18T10:00:00Z'
   }
 ];
 
+// Book Metadata
+
+/**
+ * Book details by ISBN-13 for the offline metadata provider: every mock listing,
+ * plus some common course textbooks
+ */
+export const mockBookMetadata: Record<string, BookMetadata> = {
+  ...Object.fromEntries(
+    mockListings
+      .filter(listing => listing.isbn)
+      .map(listing => [listing.isbn!, {
+        title: listing.title,
+        author: listing.author,
+        publisher: listing.publisher,
+        edition: listing.edition,
+        publication_year: listing.publication_year,
+        category: listing.category
+      }])
+  ),
+  '9780262046305': {
+    title: 'Introduction to Algorithms',
+    author: 'Thomas H. Cormen, Charles E. Leiserson, Ronald L. Rivest, Clifford Stein',
+    publisher: 'MIT Press',
+    edition: '4th Edition',
+    publication_year: 2022,
+    category: 'Computer Science'
+  },
+  '9781285740621': {
+    title: 'Calculus: Early Transcendentals',
+    author: 'James Stewart',
+    publisher: 'Cengage Learning',
+    edition: '8th Edition',
+    publication_year: 2015,
+    category: 'Mathematics'
+  },
+  '9781118230718': {
+    title: 'Fundamentals of Physics',
+    author: 'David Halliday, Robert Resnick, Jearl Walker',
+    publisher: 'Wiley',
+    edition: '10th Edition',
+    publication_year: 2013,
+    category: 'Physics'
+  },
+  '9780134093413': {
+    title: 'Campbell Biology',
+    author: 'Lisa A. Urry, Michael L. Cain, Steven A. Wasserman, Peter V. Minorsky, Jane B. Reece',
+    publisher: 'Pearson',
+    edition: '11th Edition',
+    publication_year: 2016,
+    category: 'Biology'
+  },
+  '9781305585126': {
+    title: 'Principles of Economics',
+    author: 'N. Gregory Mankiw',
+    publisher: 'Cengage Learning',
+    edition: '8th Edition',
+    publication_year: 2017,
+    category: 'Economics'
+  }
+};
+
+// Messaging Data
+
+export const mockConversations: Conversation[] = [
+  {
+    id: 'conv-001',
+    listing_id: 'book-001',
+    buyer_id: 'user-002',
+    seller_id: 'user-001',
+    created_at: '2023-08-10T09:15:00Z',
+    last_message_at: '2023-08-12T14:30:00Z',
+    is_active: true
+  },
+  {
+    id: 'conv-002',
+    listing_id: 'book-005',
+    buyer_id: 'user-001',
+    seller_id: 'user-005',
+    created_at: '2023-08-15T11:20:00Z',
+    last_message_at: '2023-08-15T16:45:00Z',
+    is_active: true
+  }
+];
+
+export const mockMessages: Message[] = [
+  {
+    id: 'msg-001',
+    conversation_id: 'conv-001',
+    sender_id: 'user-002',
+    receiver_id: 'user-001',
+    content: 'Hi, is this book still available?',
+    created_at: '2023-08-10T09:15:00Z',
+    read: true
+  },
+  {
+    id: 'msg-002',
+    conversation_id: 'conv-001',
+    sender_id: 'user-001',
+    receiver_id: 'user-002',
+    content: 'Yes, it is still available. Are you interested?',
+    created_at: '2023-08-10T10:30:00Z',
+    read: true
+  },
+  {
+    id: 'msg-003',
+    conversation_id: 'conv-001',
+    sender_id: 'user-002',
+    receiver_id: 'user-001',
+    content: 'Great! Would you consider a lower price?',
+    created_at: '2023-08-12T14:30:00Z',
+    read: false
+  },
+  {
+    id: 'msg-004',
+    conversation_id: 'conv-002',
+    sender_id: 'user-001',
+    receiver_id: 'user-005',
+    content: 'Hello, I\'m interested in your programming book. Is it still available?',
+    created_at: '2023-08-15T11:20:00Z',
+    read: true
+  },
+  {
+    id: 'msg-005',
+    conversation_id: 'conv-002',
+    sender_id: 'user-005',
+    receiver_id: 'user-001',
+    content: 'Yes, it\'s still available. It\'s in great condition.',
+    created_at: '2023-08-15T13:05:00Z',
+    read: true
+  },
+  {
+    id: 'msg-006',
+    conversation_id: 'conv-002',
+    sender_id: 'user-001',
+    receiver_id: 'user-005',
+    content: 'Perfect! When can we meet for the exchange?',
+    created_at: '2023-08-15T16:45:00Z',
+    read: false
+  }
+];
+
+// Review Data
+
+export const mockReviews: Review[] = [
+  {
+    id: 'review-001',
+    seller_id: 'user-001',
+    reviewer_id: 'user-002',
+    rating: 5,
+    comment: 'Book was exactly as described and John was very easy to meet up with.',
+    created_at: '2023-08-14T12:00:00Z'
+  },
+  {
+    id: 'review-002',
+    seller_id: 'user-005',
+    reviewer_id: 'user-001',
+    rating: 4,
+    comment: 'Great condition, a bit of a wait to arrange pickup.',
+    created_at: '2023-08-17T09:30:00Z'
+  }
+];
+
 // Helper functions
 
 /**
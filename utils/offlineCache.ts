@@ -0,0 +1,92 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import type { BookListing } from '../services/BookService';
+
+// Bump when a cached shape changes so old entries are ignored
+const CACHE_PREFIX = '@secondhandbook/cache/v1/';
+
+/**
+ * Keys of the data kept for offline use. Data that belongs to one user
+ * includes their ID so a different account never sees it.
+ */
+export const CACHE_KEYS = {
+  listingFeed: 'listings/feed',
+  listing: (id: string) => `listings/${id}`,
+  savedItems: (userId: string, type: string) => `saved/${userId}/${type}`,
+  conversations: (userId: string) => `conversations/${userId}`,
+  messages: (conversationId: string) => `messages/${conversationId}`,
+};
+
+interface CacheEntry<T> {
+  value: T;
+  cachedAt: string;
+}
+
+/**
+ * Read a cached value
+ * @returns The value, or null if nothing is cached under the key
+ */
+export async function readCache<T>(key: string): Promise<T | null> {
+  try {
+    const raw = await AsyncStorage.getItem(CACHE_PREFIX + key);
+    return raw ? (JSON.parse(raw) as CacheEntry<T>).value : null;
+  } catch (error) {
+    console.warn('Error reading offline cache:', error);
+    return null;
+  }
+}
+
+/**
+ * Cache a value. Failures are logged but not thrown, since the cache is only a fallback.
+ */
+export async function writeCache<T>(key: string, value: T): Promise<void> {
+  try {
+    const entry: CacheEntry<T> = { value, cachedAt: new Date().toISOString() };
+    await AsyncStorage.setItem(CACHE_PREFIX + key, JSON.stringify(entry));
+  } catch (error) {
+    console.warn('Error writing offline cache:', error);
+  }
+}
+
+/**
+ * Change a cached value in place, e.g. to show a write that is still queued
+ */
+export async function updateCache<T>(key: string, update: (value: T | null) => T | null): Promise<void> {
+  const updated = update(await readCache<T>(key));
+  if (updated !== null) {
+    await writeCache(key, updated);
+  }
+}
+
+/**
+ * Remove everything from the offline cache, e.g. when the user signs out
+ */
+export async function clearCache(): Promise<void> {
+  try {
+    const keys = await AsyncStorage.getAllKeys();
+    await AsyncStorage.multiRemove(keys.filter(key => key.startsWith(CACHE_PREFIX)));
+  } catch (error) {
+    console.warn('Error clearing offline cache:', error);
+  }
+}
+
+/**
+ * Find a listing in the cache, either on its own or as part of the cached feed
+ */
+export async function findCachedListing(id: string): Promise<BookListing | null> {
+  const listing = await readCache<BookListing>(CACHE_KEYS.listing(id));
+  if (listing) {
+    return listing;
+  }
+
+  const feed = await readCache<BookListing[]>(CACHE_KEYS.listingFeed);
+  return feed?.find(item => item.id === id) || null;
+}
+
+/**
+ * Whether an error means the request never reached Supabase, as opposed to
+ * Supabase rejecting it
+ */
+export function isNetworkError(error: any): boolean {
+  const message = typeof error?.message === 'string' ? error.message : '';
+  return /network request failed|failed to fetch|fetch failed|networkerror|network error|timed out/i.test(message);
+}
@@ -0,0 +1,7 @@
+// Limits submit_report in scripts/create_reports_table.sql enforces
+export const REPORT_LIMITS = {
+  // Reports one user can file in 24 hours
+  perDay: 10,
+  // Different users who have to report a listing before it is hidden
+  reportersToHideListing: 3,
+};
@@ -0,0 +1,124 @@
+export interface SearchTerm {
+  // A single word, or every word of a quoted phrase in order
+  words: string[];
+  // Match any word starting with the last word, e.g. "algo*"
+  prefix: boolean;
+}
+
+export interface WeightedText {
+  text?: string | null;
+  weight: number;
+}
+
+// Default ts_rank weights for the D, C, B and A labels used by the fts column
+export const SEARCH_WEIGHTS = { A: 1.0, B: 0.4, C: 0.2, D: 0.1 };
+
+function splitWords(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^a-z0-9\u00c0-\u024f]+/)
+    .filter(word => word.length > 0);
+}
+
+/**
+ * Split user input into search terms. Quoted text is kept together as a phrase,
+ * and a trailing * turns a word into a prefix match. Anything that is not a letter
+ * or digit is dropped, so the result is always safe to turn into a tsquery.
+ */
+export function parseSearchQuery(input: string): SearchTerm[] {
+  const terms: SearchTerm[] = [];
+  const tokenPattern = /"([^"]*)"?|(\S+)/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = tokenPattern.exec(input)) !== null) {
+    const [, phrase, word] = match;
+    const words = splitWords(phrase !== undefined ? phrase : word);
+
+    if (words.length > 0) {
+      terms.push({
+        words,
+        prefix: phrase === undefined && word.endsWith('*'),
+      });
+    }
+  }
+
+  return terms;
+}
+
+/**
+ * Build a to_tsquery expression: every term must match, phrases use the
+ * followed-by operator and prefix terms use :*
+ */
+export function toTsQuery(terms: SearchTerm[]): string {
+  return terms
+    .map(({ words, prefix }) => {
+      const parts = words.map((word, index) =>
+        prefix && index === words.length - 1 ? `${word}:*` : word
+      );
+      return parts.length > 1 ? `(${parts.join(' <-> ')})` : parts[0];
+    })
+    .join(' & ');
+}
+
+/**
+ * Rough stand-in for Postgres' english stemmer, good enough to fold plurals
+ * such as "algorithms" and "libraries" onto their singular form
+ */
+export function stemWord(word: string): string {
+  if (word.length > 4 && word.endsWith('ies')) {
+    return `${word.slice(0, -3)}y`;
+  }
+  if (word.length > 4 && /(s|x|z|ch|sh)es$/.test(word)) {
+    return word.slice(0, -2);
+  }
+  if (word.length > 3 && word.endsWith('s') && !word.endsWith('ss')) {
+    return word.slice(0, -1);
+  }
+  return word;
+}
+
+function termMatches(tokens: string[], term: SearchTerm): boolean {
+  const words = term.words.map(stemWord);
+  const last = words.length - 1;
+
+  for (let start = 0; start + words.length <= tokens.length; start++) {
+    const matched = words.every((word, index) => {
+      const token = tokens[start + index];
+      return term.prefix && index === last ? token.startsWith(word) : token === word;
+    });
+    if (matched) {
+      return true;
+    }
+  }
+
+  return false;
+}
+
+/**
+ * In-memory version of ts_rank over a weighted document. Each term scores the
+ * weights of the fields it appears in, and a document missing any term scores 0.
+ */
+export function rankSearchMatch(fields: WeightedText[], terms: SearchTerm[]): number {
+  if (terms.length === 0) {
+    return 0;
+  }
+
+  const tokenizedFields = fields.map(field => ({
+    tokens: splitWords(field.text || '').map(stemWord),
+    weight: field.weight,
+  }));
+
+  let rank = 0;
+  for (const term of terms) {
+    const termRank = tokenizedFields
+      .filter(field => termMatches(field.tokens, term))
+      .reduce((total, field) => total + field.weight, 0);
+
+    if (termRank === 0) {
+      return 0;
+    }
+    rank += termRank;
+  }
+
+  return rank;
+}
@@ -0,0 +1,45 @@
+import type { BookListing } from '../services/BookService';
+import type { WantedBook } from '../services/WantedBookService';
+
+/**
+ * Lower-case text and reduce everything that is not a letter or digit to single
+ * spaces, like normalize_book_text in scripts/create_wanted_books_tables.sql
+ */
+export function normalizeBookText(text?: string | null): string {
+  return (text || '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+function containsText(text: string | null | undefined, wanted: string): boolean {
+  return ` ${normalizeBookText(text)} `.includes(` ${normalizeBookText(wanted)} `);
+}
+
+/**
+ * Whether a listing fulfils a wanted entry. Books are matched by ISBN when both
+ * have one, and otherwise by the wanted title (and author, if given) appearing in
+ * the listing's. Price and condition limits always apply, and nobody matches
+ * their own listings. Mirrors record_wanted_book_matches in the SQL script.
+ */
+export function matchesWantedBook(wanted: WantedBook, listing: BookListing): boolean {
+  if (listing.seller_id === wanted.user_id || (listing.status || 'active') !== 'active') {
+    return false;
+  }
+
+  if (wanted.max_price !== null && listing.price > wanted.max_price) {
+    return false;
+  }
+
+  if (wanted.conditions.length > 0 && !wanted.conditions.includes(listing.condition)) {
+    return false;
+  }
+
+  if (wanted.isbn && listing.isbn) {
+    return wanted.isbn === listing.isbn;
+  }
+
+  return !!wanted.title &&
+    containsText(listing.title, wanted.title) &&
+    (!wanted.author || containsText(listing.author, wanted.author));
+}